@@ -13,11 +13,18 @@
  *   release-it-preset default
  *   release-it-preset hotfix
  *   release-it-preset changelog-only
+ *   release-it-preset prerelease
  *
  * Utility commands:
  *   release-it-preset init [--yes]
- *   release-it-preset update
+ *   release-it-preset update [--workspaces]
+ *   release-it-preset annotate [--from-file <prs.json>] [--export <prs.json>] [--no-cache]
  *   release-it-preset validate [--allow-dirty]
+ *   release-it-preset lint-changelog [--fix]
+ *   release-it-preset lint-commits [range] [--edit [file]]
+ *   release-it-preset recommend-bump [--json]
+ *   release-it-preset plan [--json]
+ *   release-it-preset release-workspaces [preset] [...release-it args]
  *   release-it-preset check
  *   release-it-preset check-pr
  *   release-it-preset retry-publish-preflight
@@ -37,6 +44,7 @@ const RELEASE_CONFIGS = {
   hotfix: 'config/hotfix.js',
   'changelog-only': 'config/changelog-only.js',
   'manual-changelog': 'config/manual-changelog.js',
+  prerelease: 'config/prerelease.js',
   'no-changelog': 'config/no-changelog.js',
   republish: 'config/republish.js',
   'retry-publish': 'config/retry-publish.js',
@@ -48,6 +56,11 @@ const UTILITY_COMMANDS = {
   update: 'populate-unreleased-changelog',
   annotate: 'annotate-changelog',
   validate: 'validate-release',
+  'lint-changelog': 'lint-changelog',
+  'lint-commits': 'lint-commits',
+  'recommend-bump': 'recommend-bump',
+  plan: 'plan-release',
+  'release-workspaces': 'release-workspaces',
   check: 'check-config',
   doctor: 'doctor',
   'check-pr': 'check-pr-status',
@@ -70,15 +83,24 @@ Release Commands:
   hotfix           Emergency hotfix with auto-changelog from commits
   changelog-only   Update changelog only, no release
   manual-changelog Release with manually edited changelog (skip auto-generation)
+  prerelease       Prerelease on the PRERELEASE_ID channel (default: beta)
   no-changelog     Release without changelog updates
   republish        Republish existing version (moves git tag)
   retry-publish    Retry failed npm/GitHub publish
 
 Utility Commands:
   init [--yes]           Initialize project (create CHANGELOG.md, .release-it.json, etc.)
-  update                 Update [Unreleased] section from commits
-  annotate               Enrich [Unreleased] entries from merged PR changelog blocks
+  update [--workspaces]  Update [Unreleased] section from commits (every workspace package)
+  annotate [--from-file <json>] [--export <json>] [--no-cache]
+                         Enrich [Unreleased] entries from merged PR changelog blocks
   validate [--allow-dirty]  Validate project is ready for release
+  lint-changelog [--fix]   Lint CHANGELOG.md (ordering, dates, sections, links)
+  lint-commits [range] [--edit [file]]
+                         Lint commit messages (Conventional Commits); --edit for a commit-msg hook
+  recommend-bump [--json]  Recommend major/minor/patch from [Unreleased] sections
+  plan [--json]          Plan workspace releases: changed packages, order, range conflicts
+  release-workspaces [preset] [...args]
+                         Release changed workspace packages in order, bumping dependents' ranges
   check                  Display configuration and project status
   doctor                 Run diagnostic checklist and show readiness score
   check-pr               Evaluate PR hygiene (branch diff, changelog status, conventions)
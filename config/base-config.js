@@ -9,7 +9,7 @@
  * maintaining DRY principles.
  */
 
-import { createReleaseNotesGenerator, getGitChangelogCommand } from './helpers.js';
+import { createReleaseNotesGenerator, getGitChangelogCommand, runScriptCommand } from './helpers.js';
 import { GIT_DEFAULTS, NPM_DEFAULTS } from './constants.js';
 
 /**
@@ -35,30 +35,38 @@ export function createBaseGitConfig(overrides = {}) {
 }
 
 /**
- * Creates base npm configuration
+ * Creates npm publish arguments
  *
- * @param {Object} overrides - Properties to override in the base config
- * @returns {Object} Npm configuration object
+ * @param {string} [distTag] - Optional npm dist-tag (e.g. republishing an older
+ *   version without overwriting `latest`). When unset, npm uses `latest`.
+ * @returns {string[]} Arguments for `npm publish`
  */
-export function createBaseNpmConfig(overrides = {}) {
+export function createNpmPublishArgs(distTag) {
   const publishArgs = [
     ...NPM_DEFAULTS.PUBLISH_ARGS_BASE,
     '--access',
     process.env.NPM_ACCESS || NPM_DEFAULTS.ACCESS,
   ];
 
-  // Optional --tag <name> for npm dist-tag control (e.g. republishing an older
-  // version without overwriting `latest`). When unset, npm uses `latest`.
-  const npmTag = process.env.NPM_TAG;
-  if (npmTag) {
-    publishArgs.push('--tag', npmTag);
+  if (distTag) {
+    publishArgs.push('--tag', distTag);
   }
 
+  return publishArgs;
+}
+
+/**
+ * Creates base npm configuration
+ *
+ * @param {Object} overrides - Properties to override in the base config
+ * @returns {Object} Npm configuration object
+ */
+export function createBaseNpmConfig(overrides = {}) {
   const defaults = {
     skipChecks: process.env.NPM_SKIP_CHECKS === 'true',
     publish: process.env.NPM_PUBLISH === 'true',
     versionArgs: NPM_DEFAULTS.VERSION_ARGS,
-    publishArgs,
+    publishArgs: createNpmPublishArgs(process.env.NPM_TAG),
   };
 
   return {
@@ -84,3 +92,39 @@ export function createBaseGitHubConfig(overrides = {}) {
     ...overrides,
   };
 }
+
+/**
+ * Creates base GitLab configuration
+ *
+ * release-it's GitLab plugin reads its token from GITLAB_TOKEN and can only
+ * create releases; presets that update an existing release pass
+ * `release: false` and use createGitLabReleaseUpdateHooks() instead.
+ *
+ * @param {Object} overrides - Properties to override in the base config
+ * @returns {Object} GitLab configuration object
+ */
+export function createBaseGitLabConfig(overrides = {}) {
+  const defaults = {
+    release: process.env.GITLAB_RELEASE === 'true',
+    releaseNotes: createReleaseNotesGenerator(),
+  };
+
+  return {
+    ...defaults,
+    ...overrides,
+  };
+}
+
+/**
+ * Creates the hooks that create or update the GitLab release of an existing
+ * version (the GitLab counterpart of `github.update: true`)
+ *
+ * @returns {string[]} after:release hook commands (empty unless GITLAB_RELEASE=true)
+ */
+export function createGitLabReleaseUpdateHooks() {
+  if (process.env.GITLAB_RELEASE !== 'true') {
+    return [];
+  }
+  // ${tagName} follows GIT_TAG_NAME (e.g. <pkg>@${version} for workspace releases)
+  return [runScriptCommand('gitlab-release', ['${version}', '${tagName}'])];
+}
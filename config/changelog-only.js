@@ -5,7 +5,7 @@
  * - Version increment
  * - Git operations
  * - npm publishing
- * - GitHub releases
+ * - GitHub or GitLab releases
  *
  * Useful for preparing changelogs in CI or before actual release.
  *
@@ -36,6 +36,9 @@ const config = {
   github: {
     release: false,
   },
+  gitlab: {
+    release: false,
+  },
 };
 
 export default config;
@@ -74,6 +74,13 @@ export const CHANGELOG_SECTIONS = {
   BREAKING: '### ⚠️ BREAKING CHANGES',
 };
 
+/**
+ * Prerelease configuration defaults
+ */
+export const PRERELEASE_DEFAULTS = {
+  ID: 'beta',
+};
+
 /**
  * Hotfix configuration defaults
  */
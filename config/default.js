@@ -5,7 +5,9 @@
  * - Keep a Changelog format
  * - Git commit, tag, and push
  * - Optional GitHub releases (set GITHUB_RELEASE=true)
+ * - Optional GitLab releases (set GITLAB_RELEASE=true)
  * - Optional npm publishing with provenance (set NPM_PUBLISH=true)
+ * - Optional changelog-driven increment (set CHANGELOG_AUTO_BUMP=true)
  *
  * Usage in client project:
  * ```json
@@ -17,10 +19,20 @@
  * ```
  */
 
-import { runScriptCommand } from './helpers.js';
-import { createBaseGitConfig, createBaseGitHubConfig, createBaseNpmConfig } from './base-config.js';
+import { getChangelogIncrement, runScriptCommand } from './helpers.js';
+import {
+  createBaseGitConfig,
+  createBaseGitHubConfig,
+  createBaseGitLabConfig,
+  createBaseNpmConfig,
+} from './base-config.js';
+
+// before:bump rewrites [Unreleased] from the commits, so the increment is
+// read from what it will generate rather than from the committed section
+const increment = getChangelogIncrement({ generated: true });
 
 const config = {
+  ...(increment ? { increment } : {}),
   git: createBaseGitConfig(),
   hooks: {
     'before:bump': [
@@ -31,6 +43,7 @@ const config = {
     ],
   },
   github: createBaseGitHubConfig(),
+  gitlab: createBaseGitLabConfig(),
   npm: createBaseNpmConfig(),
 };
 
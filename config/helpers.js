@@ -55,3 +55,48 @@ export function createReleaseNotesGenerator() {
 export function getGitChangelogCommand() {
   return process.env.GIT_CHANGELOG_COMMAND || DEFAULT_CHANGELOG_COMMAND;
 }
+
+/**
+ * Recommend release-it's `increment` from the curated [Unreleased] section,
+ * or with `{ generated: true }` from the [Unreleased] section `update` would
+ * generate (presets that regenerate it in before:bump, which runs after
+ * release-it has settled the increment).
+ *
+ * Opt-in via CHANGELOG_AUTO_BUMP=true. Returns undefined when disabled or
+ * when no recommendation is available, so release-it falls back to its
+ * own prompt (or an increment passed on the command line).
+ */
+export function getChangelogIncrement({ generated = false } = {}) {
+  if (process.env.CHANGELOG_AUTO_BUMP !== 'true') {
+    return undefined;
+  }
+
+  const result = spawnSync(
+    process.execPath,
+    [RUN_SCRIPT_PATH, 'recommend-bump', '--json', ...(generated ? ['--generated'] : [])],
+    {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'inherit'],
+    },
+  );
+
+  if (result.error || result.status !== 0) {
+    console.warn('⚠️  recommend-bump failed; falling back to the release-it increment prompt');
+    return undefined;
+  }
+
+  try {
+    // run-script may print an info line before the JSON payload
+    const lines = result.stdout.trim().split('\n');
+    const recommendation = JSON.parse(lines[lines.length - 1]);
+    if (!recommendation.level) {
+      console.warn(`⚠️  No bump recommended: ${recommendation.reason}`);
+      return undefined;
+    }
+    console.log(`📈 CHANGELOG_AUTO_BUMP: ${recommendation.level} (${recommendation.reason})`);
+    return recommendation.level;
+  } catch {
+    console.warn('⚠️  Could not parse recommend-bump output; falling back to the release-it increment prompt');
+    return undefined;
+  }
+}
@@ -6,6 +6,7 @@
  * - Generates changelog from git log
  * - Populates unreleased section before bump
  * - Optionally creates GitHub release with extracted notes (set GITHUB_RELEASE=true)
+ * - Optionally creates GitLab release with extracted notes (set GITLAB_RELEASE=true)
  * - Optionally publishes to npm with provenance (set NPM_PUBLISH=true)
  *
  * Usage:
@@ -15,7 +16,12 @@
  */
 
 import { runScriptCommand } from './helpers.js';
-import { createBaseGitConfig, createBaseGitHubConfig, createBaseNpmConfig } from './base-config.js';
+import {
+  createBaseGitConfig,
+  createBaseGitHubConfig,
+  createBaseGitLabConfig,
+  createBaseNpmConfig,
+} from './base-config.js';
 import { GIT_DEFAULTS, HOTFIX_DEFAULTS } from './constants.js';
 
 const config = {
@@ -30,6 +36,7 @@ const config = {
     ],
   },
   github: createBaseGitHubConfig(),
+  gitlab: createBaseGitLabConfig(),
   npm: createBaseNpmConfig(),
 };
 
@@ -7,7 +7,9 @@
  * - Moves your manual [Unreleased] content to the version section (after:bump)
  * - Creates git commit, tag, and push
  * - Optionally creates GitHub release with your manual changelog (set GITHUB_RELEASE=true)
+ * - Optionally creates GitLab release with your manual changelog (set GITLAB_RELEASE=true)
  * - Optionally publishes to npm with provenance (set NPM_PUBLISH=true)
+ * - Optionally picks the increment from your [Unreleased] sections (set CHANGELOG_AUTO_BUMP=true)
  *
  * Typical workflow:
  * 1. Run `pnpm release-it-preset update` to generate initial changelog
@@ -29,10 +31,18 @@
  * ```
  */
 
-import { runScriptCommand } from './helpers.js';
-import { createBaseGitConfig, createBaseGitHubConfig, createBaseNpmConfig } from './base-config.js';
+import { getChangelogIncrement, runScriptCommand } from './helpers.js';
+import {
+  createBaseGitConfig,
+  createBaseGitHubConfig,
+  createBaseGitLabConfig,
+  createBaseNpmConfig,
+} from './base-config.js';
+
+const increment = getChangelogIncrement();
 
 const config = {
+  ...(increment ? { increment } : {}),
   git: createBaseGitConfig(),
   hooks: {
     // No before:bump - preserve manual changelog edits
@@ -41,6 +51,7 @@ const config = {
     ],
   },
   github: createBaseGitHubConfig(),
+  gitlab: createBaseGitLabConfig(),
   npm: createBaseNpmConfig(),
 };
 
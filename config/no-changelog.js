@@ -6,6 +6,7 @@
  * - Still performs git operations
  * - Optionally publishes to npm (set NPM_PUBLISH=true)
  * - Optionally creates GitHub releases (set GITHUB_RELEASE=true)
+ * - Optionally creates GitLab releases (set GITLAB_RELEASE=true)
  *
  * Usage:
  * ```bash
@@ -13,7 +14,12 @@
  * ```
  */
 
-import { createBaseGitConfig, createBaseGitHubConfig, createBaseNpmConfig } from './base-config.js';
+import {
+  createBaseGitConfig,
+  createBaseGitHubConfig,
+  createBaseGitLabConfig,
+  createBaseNpmConfig,
+} from './base-config.js';
 
 const config = {
   git: createBaseGitConfig({
@@ -22,6 +28,9 @@ const config = {
   github: createBaseGitHubConfig({
     releaseNotes: undefined, // No release notes without changelog
   }),
+  gitlab: createBaseGitLabConfig({
+    releaseNotes: undefined,
+  }),
   npm: createBaseNpmConfig(),
 };
 
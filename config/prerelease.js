@@ -0,0 +1,55 @@
+/**
+ * Prerelease channel release-it configuration
+ *
+ * This configuration manages an alpha/beta/rc line:
+ * - Bumps to the next prerelease of the channel (set PRERELEASE_ID, default: beta)
+ * - Publishes to the npm dist-tag named after the channel (NPM_TAG overrides)
+ * - Populates [Unreleased] before bump, but never moves it into a version block:
+ *   every -beta.N release adds to the same [Unreleased], and its GitHub release
+ *   notes are extracted from there
+ * - Optionally creates a GitHub prerelease (set GITHUB_RELEASE=true)
+ * - Optionally creates a GitLab release (set GITLAB_RELEASE=true); GitLab has
+ *   no prerelease flag, the version's -beta.N suffix marks it
+ * - Optionally publishes to npm with provenance (set NPM_PUBLISH=true)
+ *
+ * Cut the stable release with the default or manual-changelog preset: the
+ * collected [Unreleased] becomes a single version block, and
+ * CHANGELOG_FOLD_PRERELEASES=true folds any leftover [X.Y.Z-*] blocks into it.
+ *
+ * Usage:
+ * ```bash
+ * PRERELEASE_ID=rc pnpm release-it-preset prerelease
+ * ```
+ */
+
+import { runScriptCommand } from './helpers.js';
+import {
+  createBaseGitConfig,
+  createBaseGitHubConfig,
+  createBaseGitLabConfig,
+  createBaseNpmConfig,
+  createNpmPublishArgs,
+} from './base-config.js';
+import { PRERELEASE_DEFAULTS } from './constants.js';
+
+const channel = process.env.PRERELEASE_ID || PRERELEASE_DEFAULTS.ID;
+
+const config = {
+  preRelease: channel,
+  git: createBaseGitConfig(),
+  hooks: {
+    'before:bump': [
+      runScriptCommand('populate-unreleased-changelog'),
+    ],
+    // No after:bump - [Unreleased] keeps collecting entries until the stable cut
+  },
+  github: createBaseGitHubConfig({
+    preRelease: true,
+  }),
+  gitlab: createBaseGitLabConfig(),
+  npm: createBaseNpmConfig({
+    publishArgs: createNpmPublishArgs(process.env.NPM_TAG || channel),
+  }),
+};
+
+export default config;
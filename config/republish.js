@@ -2,16 +2,16 @@
  * Republish release-it configuration
  *
  * DANGER: This configuration moves an existing git tag and updates the GitHub
- * release. It breaks semantic versioning immutability for that tag.
+ * or GitLab release. It breaks semantic versioning immutability for that tag.
  *
- * Scope: git tag move + GitHub release update ONLY.
+ * Scope: git tag move + GitHub/GitLab release update ONLY.
  * npm immutability (since 2016) makes republishing a version to npm impossible.
  * This preset never attempts an npm publish regardless of NPM_PUBLISH.
  * See ADR 0005 (docs/adr/0005-republish-scope-narrowing.md).
  *
  * Only use when you need to:
  * - Move an existing git tag to a different commit
- * - Update the corresponding GitHub release notes
+ * - Update the corresponding GitHub or GitLab release notes
  *
  * Alternatives for other recovery scenarios:
  * - dist-tag changes: npm dist-tag add @pkg@version <tag>
@@ -19,6 +19,7 @@
  *
  * Publishing steps remain opt-in:
  * - Set GITHUB_RELEASE=true to update the GitHub release
+ * - Set GITLAB_RELEASE=true to update the GitLab release
  *
  * Usage:
  * ```bash
@@ -27,7 +28,13 @@
  */
 
 import { runScriptCommand } from './helpers.js';
-import { createBaseGitConfig, createBaseGitHubConfig, createBaseNpmConfig } from './base-config.js';
+import {
+  createBaseGitConfig,
+  createBaseGitHubConfig,
+  createBaseGitLabConfig,
+  createBaseNpmConfig,
+  createGitLabReleaseUpdateHooks,
+} from './base-config.js';
 
 const config = {
   increment: false,
@@ -44,14 +51,19 @@ const config = {
     'before:bump': [
       runScriptCommand('republish-changelog'),
     ],
+    'after:release': createGitLabReleaseUpdateHooks(),
   },
   // npm immutability (since 2016) makes republishing a version impossible.
-  // The preset's scope is narrowed to git tag move + GitHub release update.
+  // The preset's scope is narrowed to git tag move + GitHub/GitLab release update.
   // Use `npm dist-tag add` to redirect tags, or `retry-publish` for failed publishes.
   npm: createBaseNpmConfig({ publish: false }),
   github: createBaseGitHubConfig({
     update: true,
   }),
+  // release-it's GitLab plugin cannot update a release: the after:release hook does
+  gitlab: createBaseGitLabConfig({
+    release: false,
+  }),
 };
 
 export default config;
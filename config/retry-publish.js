@@ -6,6 +6,7 @@
  * - No git operations
  * - Optionally runs npm publish with provenance (set NPM_PUBLISH=true)
  * - Optionally updates GitHub release (set GITHUB_RELEASE=true)
+ * - Optionally creates or updates GitLab release (set GITLAB_RELEASE=true)
  *
  * Usage:
  * First run the retry script to checkout the tag:
@@ -15,15 +16,27 @@
  * ```
  */
 
-import { createBaseGitHubConfig, createBaseNpmConfig } from './base-config.js';
+import {
+  createBaseGitHubConfig,
+  createBaseGitLabConfig,
+  createBaseNpmConfig,
+  createGitLabReleaseUpdateHooks,
+} from './base-config.js';
 
 const config = {
   increment: false,
   git: false,
   npm: createBaseNpmConfig(),
+  hooks: {
+    'after:release': createGitLabReleaseUpdateHooks(),
+  },
   github: createBaseGitHubConfig({
     update: true,
   }),
+  // release-it's GitLab plugin cannot update a release: the after:release hook does
+  gitlab: createBaseGitLabConfig({
+    release: false,
+  }),
 };
 
 export default config;
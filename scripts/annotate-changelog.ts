@@ -1,28 +1,87 @@
 #!/usr/bin/env tsx
 /**
  * Annotate [Unreleased] entries from typed pull request changelog blocks.
+ *
+ * Usage:
+ *   tsx annotate-changelog.ts [--from-file <prs.json>] [--export <prs.json>] [--no-cache]
+ *
+ * --from-file replays pull requests from a JSON dump instead of querying the
+ * forge (same as ANNOTATE_PR_FIXTURES); --export writes the merged pull
+ * requests a run looked up to such a dump.
+ *
+ * Merged pull requests found by commit sha or number are cached on disk (see
+ * ANNOTATE_CACHE_FILE), so rerunning after an edit does not query the forge
+ * again; --no-cache bypasses the cache.
+ *
+ * With CHANGELOG_AUTHORS=true, regenerated entries credit the pull request
+ * author (`by @login`). With CHANGELOG_CONTRIBUTORS=true, the `### Contributors`
+ * section (always last) credits first-time contributors by pull request
+ * author: `- @login made their first contribution (#N)`, replacing the commit
+ * author line `update` wrote for the same commits. Without it, the section is
+ * kept as is.
  */
 
 import type { ExecSyncOptions } from 'node:child_process'
 import { execSync } from 'node:child_process'
-import { readFileSync, writeFileSync } from 'node:fs'
-import { ChangelogError } from './lib/errors.js'
-import { getGitHubRepoUrl } from './lib/git-utils.js'
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { ChangelogItem } from './lib/changelog-document.js'
+import {
+  findUnreleasedRelease,
+  getEntryText,
+  parseChangelog,
+  parseReleaseBody,
+  renderReleaseBody,
+  replaceReleaseBody,
+  serializeChangelog,
+} from './lib/changelog-document.js'
+import {
+  CONTRIBUTORS_SECTION,
+  findFirstTimeContributors,
+  loadCreditOptions,
+  readCommitAuthors,
+} from './lib/commit-authors.js'
+import { ChangelogError, ValidationError } from './lib/errors.js'
+import { commitUrl, type Forge, resolveForge } from './lib/forge.js'
+import { stripIssueSuffix } from './lib/issue-references.js'
+import type {
+  PullRequestCache,
+  PullRequestFixture,
+  PullRequestInfo,
+  PullRequestProvider,
+} from './lib/pull-requests.js'
+import {
+  commandErrorText,
+  createCachingProvider,
+  createFixtureProvider,
+  createPullRequestProvider,
+  createRecordingProvider,
+  parsePullRequestFixtures,
+  serializePullRequestFixtures,
+} from './lib/pull-requests.js'
 import { runScript } from './lib/run-script.js'
+import { escapeRegExp } from './lib/string-utils.js'
+import { resolveSinceBaseline } from './populate-unreleased-changelog.js'
 
 export interface AnnotateChangelogDeps {
   execSync: (command: string, options?: ExecSyncOptions) => Buffer | string
   readFileSync: typeof readFileSync
   writeFileSync: typeof writeFileSync
+  mkdirSync: typeof mkdirSync
   getEnv: (key: string) => string | undefined
   log: (message: string) => void
   warn: (message: string) => void
+  /** Overrides the forge's pull request lookups (e.g. an offline fixture provider) */
+  pullRequestProvider?: PullRequestProvider
 }
 
-export interface PullRequestInfo {
-  number: number
-  body?: string | null
-  merged_at?: string | null
+export interface AnnotateOptions {
+  /** Pull request dump to replay instead of querying the forge (overrides ANNOTATE_PR_FIXTURES) */
+  fromFile?: string
+  /** Where to write the merged pull requests this run looked up */
+  exportFile?: string
+  /** Keep merged pull requests found by sha or number in the on-disk cache between runs */
+  cache?: boolean
 }
 
 export interface ChangelogEntry {
@@ -32,6 +91,8 @@ export interface ChangelogEntry {
   shaList: string[]
   prNumber: number | null
   order: number
+  // `#### <scope>` sub-heading the entry sits under (CHANGELOG_GROUP_BY_SCOPE)
+  scope?: string
 }
 
 export interface ChangelogNote {
@@ -39,13 +100,12 @@ export interface ChangelogNote {
   text: string
 }
 
-interface UnreleasedBlock {
-  prefix: string
-  body: string
-  suffix: string
-}
+type SectionItem =
+  | { kind: 'note'; line: string }
+  | { kind: 'scope'; name: string }
+  | { kind: 'entry'; entry: ChangelogEntry }
 
-type SectionItem = { kind: 'note'; line: string } | { kind: 'entry'; entry: ChangelogEntry }
+const SCOPE_HEADING_PATTERN = /^####\s+(\S.*?)\s*$/
 
 interface ParsedSection {
   // null = preamble lines before the first ### heading
@@ -66,12 +126,27 @@ interface CandidateGroup {
   primarySha: string | null
 }
 
+/** How regenerated entries reference their pull request and commit */
+interface ReferenceStyle {
+  forge: Forge | null
+  referencePrefix: string
+  /** Credit the pull request author (CHANGELOG_AUTHORS) */
+  credit?: boolean
+}
+
 interface ResolvedGroup {
   pr: PullRequestInfo
   entries: ChangelogEntry[]
   primarySha: string | null
 }
 
+interface PullRequestContributor {
+  login: string
+  prNumber: number
+  /** Short shas of the pull request's entries */
+  shas: string[]
+}
+
 const STANDARD_SECTION_ORDER = [
   '### Added',
   '### Changed',
@@ -82,6 +157,9 @@ const STANDARD_SECTION_ORDER = [
   '### ⚠️ BREAKING CHANGES',
 ]
 
+const DEFAULT_CACHE_FILE = 'node_modules/.cache/release-it-preset/annotate-prs.json'
+const CACHE_VERSION = 1
+
 const DEFAULT_SECTION = '### Changed'
 const BREAKING_SECTION = '### ⚠️ BREAKING CHANGES'
 
@@ -94,28 +172,6 @@ const CHANGELOG_TYPE_TO_SECTION: Record<string, string> = {
   security: '### Security',
 }
 
-const GH_JSON_OPTIONS: ExecSyncOptions = { encoding: 'utf8', stdio: ['pipe', 'pipe', 'pipe'] }
-
-export function extractUnreleasedBlock(changelog: string, changelogPath = 'CHANGELOG.md'): UnreleasedBlock {
-  const headerRegex = /^## \[Unreleased\][^\n]*(?:\r?\n|$)/m
-  const headerMatch = headerRegex.exec(changelog)
-
-  if (!headerMatch) {
-    throw new ChangelogError(`No [Unreleased] section found in ${changelogPath}. Run release-it-preset update first.`)
-  }
-
-  const bodyStart = headerMatch.index + headerMatch[0].length
-  const rest = changelog.slice(bodyStart)
-  const nextSectionMatch = /^## \[/m.exec(rest)
-  const bodyEnd = nextSectionMatch ? bodyStart + nextSectionMatch.index : changelog.length
-
-  return {
-    prefix: changelog.slice(0, bodyStart),
-    body: changelog.slice(bodyStart, bodyEnd),
-    suffix: changelog.slice(bodyEnd),
-  }
-}
-
 export function normalizeSectionHeading(rawHeading: string): string {
   const stripped = rawHeading.replace(/^#+\s*/, '').trim()
   if (/breaking[-\s]+changes?/i.test(stripped) || /breaking/i.test(stripped)) {
@@ -132,43 +188,48 @@ export function normalizeSectionHeading(rawHeading: string): string {
   return stripped ? `### ${stripped}` : DEFAULT_SECTION
 }
 
-export function extractCommitShas(value: string): string[] {
+export function extractCommitShas(text: string): string[] {
   // Only the generated TRAILING reference identifies the bullet's commit.
-  // Annotated bullets import author text verbatim, so a /commit/ URL or a
+  // Annotated bullets import author text verbatim, so a commit URL or a
   // hex word inside the prose must never re-key the bullet to another
-  // commit (and through it, another PR) on the next run.
-  const trailingLink = value.match(
-    /\(\[([0-9a-f]{7,40})\]\([^)]*\/commit\/[0-9a-f]{7,40}\)\)\s*$/i,
+  // commit (and through it, another PR) on the next run. Entries merged
+  // from several commits list them all: ([a](…), [b](…)). Issue links
+  // (`, closes [#12](…)`) may follow.
+  const value = stripIssueSuffix(text)
+  const trailingLinks = value.match(
+    /\((\[[0-9a-f]{7,40}\]\([^)]*\/commits?\/[0-9a-f]{7,40}\)(?:,\s*\[[0-9a-f]{7,40}\]\([^)]*\/commits?\/[0-9a-f]{7,40}\))*)\)\s*$/i,
   )
-  if (trailingLink) {
-    return [trailingLink[1].toLowerCase()]
+  if (trailingLinks) {
+    return [...trailingLinks[1].matchAll(/\[([0-9a-f]{7,40})\]/gi)].map(match => match[1].toLowerCase())
   }
 
-  const bareReference = value.match(/\(([0-9a-f]{7,40})\)\s*$/i)
-  if (bareReference) {
-    return [bareReference[1].toLowerCase()]
+  const bareReferences = value.match(/\(([0-9a-f]{7,40}(?:,\s*[0-9a-f]{7,40})*)\)\s*$/i)
+  if (bareReferences) {
+    return bareReferences[1].split(',').map(sha => sha.trim().toLowerCase())
   }
 
   return []
 }
 
-export function extractPrNumber(value: string): number | null {
+export function extractPrNumber(text: string): number | null {
   // The generated trailing reference always wins: annotated bullets carry
   // author text verbatim, and an embedded "PR #72" or /pull/72 in that prose
-  // must not out-rank the (#N) suffix appended by annotate itself.
+  // must not out-rank the (#N) suffix appended by annotate itself. GitLab
+  // merge requests are referenced as !N.
+  const value = stripIssueSuffix(text)
   const squashSuffix = value.match(
-    /\(#(\d{1,10})\)(?:\s+\(\[[0-9a-f]{7,40}\]\([^)]*\)\))?\s*$/i,
+    /\([#!](\d{1,10})\)(?:\s+\((?:\[[0-9a-f]{7,40}\]\([^)]*\)|[0-9a-f]{7,40})\))?\s*$/i,
   )
   if (squashSuffix) {
     return Number.parseInt(squashSuffix[1], 10)
   }
 
-  const explicitPr = value.match(/\bPR\s+#(\d{1,10})\b/i)
+  const explicitPr = value.match(/\b(?:PR\s+#|MR\s+!)(\d{1,10})\b/i)
   if (explicitPr) {
     return Number.parseInt(explicitPr[1], 10)
   }
 
-  const pullUrl = value.match(/\/pull\/(\d{1,10})\b/i)
+  const pullUrl = value.match(/\/(?:pull|merge_requests)\/(\d{1,10})\b/i)
   if (pullUrl) {
     return Number.parseInt(pullUrl[1], 10)
   }
@@ -188,52 +249,47 @@ export function choosePrimarySha(values: Array<string | null | undefined>): stri
 
 export function parseUnreleasedEntries(body: string): ParsedUnreleased {
   const entries: ChangelogEntry[] = []
-  const sections: ParsedSection[] = [{ heading: null, items: [] }]
+  const sections: ParsedSection[] = []
+  const parsedBody = parseReleaseBody(body)
   let order = 0
 
-  const currentSection = (): ParsedSection => sections[sections.length - 1]
-  const sectionHeadingOf = (section: ParsedSection): string =>
-    section.heading ?? DEFAULT_SECTION
-
-  for (const line of body.split(/\r?\n/)) {
-    const headingMatch = line.match(/^###\s+(.+?)\s*$/)
-    if (headingMatch) {
-      sections.push({ heading: normalizeSectionHeading(line), items: [] })
-      continue
-    }
-
-    const bulletMatch = line.match(/^-\s+(.+?)\s*$/)
-    if (bulletMatch) {
-      const text = bulletMatch[1].trim()
-      const entry: ChangelogEntry = {
-        section: sectionHeadingOf(currentSection()),
-        text,
-        rawLine: line.replace(/\s+$/, ''),
-        shaList: extractCommitShas(text),
-        prNumber: extractPrNumber(text),
-        order,
+  const addSection = (heading: string | null, items: ChangelogItem[]): void => {
+    const section: ParsedSection = { heading, items: [] }
+    let scope: string | null = null
+    for (const item of items) {
+      const scopeHeading = item.kind === 'text' ? item.line.match(SCOPE_HEADING_PATTERN) : null
+      if (scopeHeading) {
+        scope = scopeHeading[1]
+        section.items.push({ kind: 'scope', name: scope })
+        continue
+      }
+      // Contributor credits are not changes: never looked up or replaced
+      if (item.kind === 'entry' && heading === CONTRIBUTORS_SECTION) {
+        section.items.push({ kind: 'note', line: item.lines.map(line => line.replace(/\s+$/, '')).join('\n') })
+      } else if (item.kind === 'entry') {
+        const text = getEntryText(item)
+        const entry: ChangelogEntry = {
+          section: heading ?? DEFAULT_SECTION,
+          text,
+          rawLine: item.lines.map(line => line.replace(/\s+$/, '')).join('\n'),
+          shaList: extractCommitShas(text),
+          prNumber: extractPrNumber(text),
+          order,
+          ...(scope ? { scope } : {}),
+        }
+        entries.push(entry)
+        section.items.push({ kind: 'entry', entry })
+        order += 1
+      } else if (item.line.trim() && item.line.trim() !== 'No changes yet.') {
+        section.items.push({ kind: 'note', line: item.line.replace(/\s+$/, '') })
       }
-      entries.push(entry)
-      currentSection().items.push({ kind: 'entry', entry })
-      order += 1
-      continue
-    }
-
-    // Indented continuation of a wrapped bullet: it belongs to that bullet
-    // and must travel with it (or stay with it) — never hoisted as a note.
-    const items = currentSection().items
-    const lastItem = items[items.length - 1]
-    if (/^\s+\S/.test(line) && lastItem?.kind === 'entry') {
-      lastItem.entry.rawLine += `\n${line.replace(/\s+$/, '')}`
-      lastItem.entry.text += ` ${line.trim()}`
-      lastItem.entry.shaList = extractCommitShas(lastItem.entry.text)
-      lastItem.entry.prNumber = extractPrNumber(lastItem.entry.text)
-      continue
     }
+    sections.push(section)
+  }
 
-    if (line.trim() && line.trim() !== 'No changes yet.') {
-      currentSection().items.push({ kind: 'note', line: line.replace(/\s+$/, '') })
-    }
+  addSection(null, parsedBody.intro)
+  for (const section of parsedBody.sections) {
+    addSection(normalizeSectionHeading(section.heading), section.items)
   }
 
   return { entries, sections }
@@ -298,157 +354,148 @@ export function groupEntriesForLookup(entries: ChangelogEntry[]): {
   return { groups: [...byKey.values()], passthrough }
 }
 
-function errorText(error: unknown): string {
-  if (error instanceof Error) {
-    const stderr = (error as Error & { stderr?: Buffer | string }).stderr
-    const stdout = (error as Error & { stdout?: Buffer | string }).stdout
-    const pieces = [
-      error.message,
-      Buffer.isBuffer(stderr) ? stderr.toString('utf8') : stderr,
-      Buffer.isBuffer(stdout) ? stdout.toString('utf8') : stdout,
-    ].filter((piece): piece is string => typeof piece === 'string' && piece.trim().length > 0)
-    return pieces.join('\n')
-  }
-
-  return String(error)
-}
+export function parseArgs(argv: string[]): AnnotateOptions {
+  const options: AnnotateOptions = { cache: true }
 
-function parseGhJson(command: string, output: string): unknown {
-  try {
-    return JSON.parse(output)
-  } catch (error) {
-    throw new ChangelogError(`GitHub CLI command returned invalid JSON: ${command}\n${errorText(error)}`)
-  }
-}
-
-function execGhJson(command: string, deps: AnnotateChangelogDeps): unknown {
-  try {
-    const output = deps.execSync(command, GH_JSON_OPTIONS) as string
-    return parseGhJson(command, output)
-  } catch (error) {
-    if (error instanceof ChangelogError) {
-      throw error
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--no-cache') {
+      options.cache = false
+      continue
+    }
+    if (arg === '--from-file' || arg === '--export') {
+      const value = argv[i + 1]
+      if (!value || value.startsWith('--')) {
+        throw new ValidationError(`${arg} requires a file path`)
+      }
+      if (arg === '--from-file') {
+        options.fromFile = value
+      } else {
+        options.exportFile = value
+      }
+      i++
     }
-    throw new ChangelogError(`GitHub CLI command failed: ${command}\n${errorText(error)}`)
   }
+
+  return options
 }
 
-function validatePrInfo(value: unknown, command: string): PullRequestInfo {
-  if (!value || typeof value !== 'object') {
-    throw new ChangelogError(`GitHub CLI command returned an invalid pull request response: ${command}`)
+function resolveLookupContext(
+  deps: AnnotateChangelogDeps,
+  options: AnnotateOptions,
+): { provider: PullRequestProvider; forge: Forge | null; offline: boolean } {
+  const fixturesPath = options.fromFile || deps.getEnv('ANNOTATE_PR_FIXTURES')
+  if (deps.pullRequestProvider || fixturesPath) {
+    // Offline lookups still link commits when the repository is known
+    const forge = resolveForge({ execSync: deps.execSync, getEnv: deps.getEnv })
+    if (deps.pullRequestProvider) {
+      return { provider: deps.pullRequestProvider, forge, offline: true }
+    }
+    const fixtures = parsePullRequestFixtures(readFixtures(fixturesPath as string, deps), fixturesPath as string)
+    deps.log(`Using pull request fixtures from ${fixturesPath}`)
+    return { provider: createFixtureProvider(fixtures, forge?.kind === 'gitlab' ? '!' : '#'), forge, offline: true }
   }
 
-  const maybe = value as Partial<PullRequestInfo>
-  if (typeof maybe.number !== 'number' || !Number.isInteger(maybe.number)) {
-    throw new ChangelogError(`GitHub CLI command returned a pull request without a number: ${command}`)
+  const forge = resolveForge({
+    execSync: deps.execSync,
+    getEnv: deps.getEnv,
+    warn: deps.warn,
+  })
+  if (!forge) {
+    throw new ChangelogError(
+      'Could not determine the repository. Set GITHUB_REPOSITORY or configure an origin remote before running annotate.',
+    )
   }
 
-  return {
-    number: maybe.number,
-    body: typeof maybe.body === 'string' ? maybe.body : null,
-    merged_at: typeof maybe.merged_at === 'string' ? maybe.merged_at : null,
-  }
+  return { provider: createPullRequestProvider(forge, deps), forge, offline: false }
 }
 
-export function fetchPullRequestByNumber(
-  prNumber: number,
-  ownerRepo: string,
-  deps: AnnotateChangelogDeps,
-): PullRequestInfo | null {
-  // --repo pins the lookup to the remote-derived repository: without it gh
-  // infers the repo from cwd/GH_REPO and forks or CI checkouts can answer
-  // for the wrong repository.
-  const command = `gh pr view ${prNumber} --repo ${ownerRepo} --json number,body,mergedAt`
+function readFixtures(path: string, deps: AnnotateChangelogDeps): string {
   try {
-    const output = deps.execSync(command, GH_JSON_OPTIONS) as string
-    const parsed = parseGhJson(command, output) as { mergedAt?: unknown }
-    // An open or closed-unmerged PR is not part of release history — its
-    // body must never regenerate changelog entries.
-    if (typeof parsed?.mergedAt !== 'string') {
-      return null
-    }
-    return validatePrInfo(parsed, command)
+    return deps.readFileSync(path, 'utf8') as string
   } catch (error) {
-    if (error instanceof ChangelogError) {
-      throw error
-    }
-    // A (#NNN) reference in bullet text may point at an issue, not a PR —
-    // that is the author's text, not an annotation candidate. Only this
-    // not-a-PR shape is benign; auth/network/API failures stay fatal.
-    if (/could not resolve to a PullRequest|no pull requests? found|not found/i.test(errorText(error))) {
-      return null
-    }
-    throw new ChangelogError(`GitHub CLI command failed: ${command}\n${errorText(error)}`)
+    throw new ValidationError(`Could not read pull request fixtures file ${path}\n${commandErrorText(error)}`)
   }
 }
 
-export function fetchPullRequestBySha(
-  sha: string,
-  ownerRepo: string,
+/**
+ * The pull request cache is an optimisation: an unreadable file starts an empty
+ * cache and a failed save only warns.
+ */
+function openPullRequestCache(
+  path: string,
   deps: AnnotateChangelogDeps,
-): PullRequestInfo | null {
-  const command = `gh api repos/${ownerRepo}/commits/${sha}/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'`
-  let parsed: unknown
+): { cache: PullRequestCache; save: () => void } {
+  const entries = new Map<string, PullRequestInfo>()
+  let content: string | null = null
   try {
-    parsed = execGhJson(command, deps)
-  } catch (error) {
-    // A sha that GitHub does not know (rebased away, or a hex-looking word
-    // that slipped through extraction) is the author's text, not annotate's
-    // business — benign passthrough. Auth/network failures stay fatal.
-    if (/not found|HTTP 404/i.test(errorText(error))) {
-      return null
+    content = deps.readFileSync(path, 'utf8') as string
+  } catch {
+    // No cache yet
+  }
+  if (content !== null) {
+    try {
+      const parsed = JSON.parse(content) as { version?: unknown; pullRequests?: Record<string, PullRequestInfo> }
+      if (parsed.version === CACHE_VERSION && parsed.pullRequests && typeof parsed.pullRequests === 'object') {
+        for (const [key, pr] of Object.entries(parsed.pullRequests)) {
+          if (typeof pr?.number === 'number' && typeof pr.merged_at === 'string') {
+            entries.set(key, pr)
+          }
+        }
+      }
+    } catch {
+      deps.warn(`⚠️  Ignoring unreadable annotate cache ${path}`)
     }
-    throw error
-  }
-
-  if (!Array.isArray(parsed)) {
-    throw new ChangelogError(`GitHub CLI command returned an invalid pulls response: ${command}`)
   }
 
-  const merged = parsed.find(item => item && typeof item === 'object' && typeof item.merged_at === 'string')
-  return merged ? validatePrInfo(merged, command) : null
-}
-
-function ownerRepoFromUrl(repoUrl: string): string | null {
-  const match = repoUrl.trim().replace(/\/$/, '').match(/^https:\/\/github\.com\/([^/\s]+\/[^/\s]+)$/)
-  if (!match) {
-    return null
-  }
-
-  const ownerRepo = match[1].replace(/\.git$/, '')
-  return /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/.test(ownerRepo) ? ownerRepo : null
-}
-
-function getRequiredGitHubContext(deps: AnnotateChangelogDeps): { repoUrl: string; ownerRepo: string } {
-  const repoUrl = getGitHubRepoUrl({
-    execSync: deps.execSync,
-    getEnv: deps.getEnv,
-    warn: deps.warn,
-  }).replace(/\/$/, '')
-  const ownerRepo = ownerRepoFromUrl(repoUrl)
-
-  if (!repoUrl || !ownerRepo) {
-    throw new ChangelogError(
-      'Could not determine GitHub repository. Set GITHUB_REPOSITORY or configure a GitHub origin remote before running annotate.',
-    )
+  let dirty = false
+  return {
+    cache: {
+      get: key => entries.get(key),
+      set: (key, pr) => {
+        entries.set(key, {
+          number: pr.number,
+          body: pr.body ?? null,
+          merged_at: pr.merged_at,
+          ...(pr.author ? { author: pr.author } : {}),
+        })
+        dirty = true
+      },
+    },
+    save: () => {
+      if (!dirty) {
+        return
+      }
+      try {
+        deps.mkdirSync(dirname(path), { recursive: true })
+        deps.writeFileSync(
+          path,
+          `${JSON.stringify({ version: CACHE_VERSION, pullRequests: Object.fromEntries(entries) }, null, 2)}\n`,
+        )
+      } catch (error) {
+        deps.warn(`⚠️  Could not write annotate cache ${path}: ${commandErrorText(error)}`)
+      }
+    },
   }
-
-  return { repoUrl, ownerRepo }
 }
 
 export function resolvePullRequestGroups(
   groups: CandidateGroup[],
-  ownerRepo: string,
-  deps: AnnotateChangelogDeps,
+  provider: PullRequestProvider,
 ): { resolved: ResolvedGroup[]; unresolved: ChangelogEntry[] } {
   const byPrNumber = new Map<number, ResolvedGroup>()
   const unresolved: ChangelogEntry[] = []
 
+  provider.prefetch?.({
+    numbers: groups.filter(group => group.kind === 'pr').map(group => Number.parseInt(group.ref, 10)),
+    shas: groups.filter(group => group.kind === 'sha').map(group => group.ref),
+  })
+
   for (const group of groups) {
     const pr =
       group.kind === 'pr'
-        ? fetchPullRequestByNumber(Number.parseInt(group.ref, 10), ownerRepo, deps)
-        : fetchPullRequestBySha(group.ref, ownerRepo, deps)
+        ? provider.findByNumber(Number.parseInt(group.ref, 10))
+        : provider.findBySha(group.ref)
 
     if (!pr) {
       unresolved.push(...group.entries)
@@ -591,28 +638,40 @@ export function extractStructuredChangelogNotes(
 // Only the CURRENT PR's own reference is stripped before re-appending it:
 // a foreign trailing reference like "fixes issue (#123)" is the author's
 // text and must survive verbatim.
-function stripAnnotationReferences(text: string, prNumber: number): string {
+function stripAnnotationReferences(text: string, reference: string): string {
   const ownReference = new RegExp(
-    `\\s+\\(#${prNumber}\\)(?:\\s+\\(\\[[0-9a-f]{7,40}\\]\\([^)]+/commit/[0-9a-f]{7,40}\\)\\))?$`,
+    `\\s+\\(${escapeRegExp(reference)}\\)(?:\\s+\\(\\[[0-9a-f]{7,40}\\]\\([^)]+/commits?/[0-9a-f]{7,40}\\)\\))?$`,
     'i',
   )
   return text
     .replace(ownReference, '')
-    .replace(/\s+\(\[[0-9a-f]{7,40}\]\([^)]+\/commit\/[0-9a-f]{7,40}\)\)$/i, '')
+    .replace(
+      /\s+\(\[[0-9a-f]{7,40}\]\([^)]+\/commits?\/[0-9a-f]{7,40}\)(?:,\s*\[[0-9a-f]{7,40}\]\([^)]+\/commits?\/[0-9a-f]{7,40}\))*\)$/i,
+      '',
+    )
     .trim()
 }
 
-function formatCommitReference(primarySha: string | null, repoUrl: string): string {
+function formatCommitReference(primarySha: string | null, forge: Forge | null): string {
   if (!primarySha) {
     return ''
   }
   const shortSha = primarySha.substring(0, 7)
-  return ` ([${shortSha}](${repoUrl}/commit/${shortSha}))`
-}
-
-function formatNote(note: ChangelogNote, primarySha: string | null, repoUrl: string, prNumber: number): ChangelogEntry {
-  const text = stripAnnotationReferences(note.text, prNumber)
-  const reference = ` (#${prNumber})${formatCommitReference(primarySha, repoUrl)}`
+  return forge ? ` ([${shortSha}](${commitUrl(forge, shortSha)}))` : ` (${shortSha})`
+}
+
+function formatNote(
+  note: ChangelogNote,
+  primarySha: string | null,
+  style: ReferenceStyle,
+  pr: PullRequestInfo,
+  scope: string | undefined,
+): ChangelogEntry {
+  const prNumber = pr.number
+  const prReference = `${style.referencePrefix}${prNumber}`
+  const text = stripAnnotationReferences(note.text, prReference)
+  const credit = style.credit && pr.author ? ` by @${pr.author}` : ''
+  const reference = `${credit} (${prReference})${formatCommitReference(primarySha, style.forge)}`
   return {
     section: note.section,
     text: `${text}${reference}`,
@@ -620,7 +679,79 @@ function formatNote(note: ChangelogNote, primarySha: string | null, repoUrl: str
     shaList: primarySha ? [primarySha] : [],
     prNumber,
     order: Number.MAX_SAFE_INTEGER,
+    ...(scope ? { scope } : {}),
+  }
+}
+
+function renderItem(item: SectionItem): string {
+  if (item.kind === 'scope') {
+    return `#### ${item.name}`
+  }
+  return item.kind === 'entry' ? item.entry.rawLine : item.line
+}
+
+function shortShasOf(group: ResolvedGroup): string[] {
+  const shas = [group.primarySha, ...group.entries.flatMap(entry => entry.shaList)]
+  return [...new Set(shas.flatMap(sha => (sha ? [sha.substring(0, 7).toLowerCase()] : [])))]
+}
+
+/**
+ * Authors of the resolved pull requests whose commits include the first
+ * commit of their email since the release baseline, in document order
+ * (CHANGELOG_CONTRIBUTORS; same rule as `update`, credited by login)
+ */
+function findPullRequestContributors(
+  resolvedGroups: ResolvedGroup[],
+  deps: AnnotateChangelogDeps,
+): PullRequestContributor[] {
+  const authored = resolvedGroups.filter(group => group.pr.author)
+  if (authored.length === 0) {
+    return []
   }
+  const authors = readCommitAuthors([...new Set(authored.flatMap(shortShasOf))], deps)
+  const firstTimeEmails = new Set(
+    findFirstTimeContributors(authors, resolveSinceBaseline(deps), deps).map(author => author.email.toLowerCase()),
+  )
+  return authored.flatMap(group => {
+    const shas = shortShasOf(group)
+    const firstTime = authors.some(
+      author => firstTimeEmails.has(author.email.toLowerCase()) && shas.includes(author.sha.substring(0, 7).toLowerCase()),
+    )
+    return firstTime ? [{ login: group.pr.author as string, prNumber: group.pr.number, shas }] : []
+  })
+}
+
+/**
+ * Lines of the `### Contributors` section: existing lines whose commit
+ * belongs to a credited pull request become its author's line; credited
+ * authors not listed yet are appended.
+ */
+function renderContributorLines(
+  existing: string[],
+  contributors: PullRequestContributor[],
+  style: ReferenceStyle,
+): string[] {
+  const credited = new Set<string>()
+  const creditLine = (contributor: PullRequestContributor) => {
+    credited.add(contributor.login)
+    return `- @${contributor.login} made their first contribution (${style.referencePrefix}${contributor.prNumber})`
+  }
+  const mentions = (line: string, login: string) => new RegExp(`@${escapeRegExp(login)}\\b`, 'i').test(line)
+
+  const lines = existing.flatMap(line => {
+    const shas = extractCommitShas(line.replace(/^-\s+/, '')).map(sha => sha.substring(0, 7))
+    const contributor = contributors.find(candidate => candidate.shas.some(sha => shas.includes(sha)))
+    if (!contributor) {
+      return [line]
+    }
+    return credited.has(contributor.login) ? [] : [creditLine(contributor)]
+  })
+  for (const contributor of contributors) {
+    if (!credited.has(contributor.login) && !lines.some(line => mentions(line, contributor.login))) {
+      lines.push(creditLine(contributor))
+    }
+  }
+  return lines
 }
 
 function notesForResolvedGroup(group: ResolvedGroup, deps: AnnotateChangelogDeps): ChangelogNote[] {
@@ -630,8 +761,9 @@ function notesForResolvedGroup(group: ResolvedGroup, deps: AnnotateChangelogDeps
 export function renderAnnotatedBody(
   parsed: ParsedUnreleased,
   resolvedGroups: ResolvedGroup[],
-  repoUrl: string,
+  style: ReferenceStyle,
   deps: AnnotateChangelogDeps,
+  contributors: PullRequestContributor[] = [],
 ): { body: string; appliedPrCount: number } | null {
   const removedEntries = new Set<ChangelogEntry>()
   const additionsBySection = new Map<string, ChangelogEntry[]>()
@@ -651,8 +783,10 @@ export function renderAnnotatedBody(
       removedEntries.add(entry)
     }
     const primarySha = choosePrimarySha([group.primarySha, ...group.entries.flatMap(entry => entry.shaList)])
+    // Replacements stay under the scope sub-heading of the entries they replace
+    const scope = group.entries.find(entry => entry.scope)?.scope
     for (const note of notes) {
-      const formatted = formatNote(note, primarySha, repoUrl, group.pr.number)
+      const formatted = formatNote(note, primarySha, style, group.pr, scope)
       const list = additionsBySection.get(formatted.section) ?? []
       list.push(formatted)
       additionsBySection.set(formatted.section, list)
@@ -668,29 +802,62 @@ export function renderAnnotatedBody(
 
   // Everything that is not replaced is preserved in place: sections keep
   // their original order and internal layout (notes, wrapped bullets);
-  // replacement bullets append at the end of their target section; sections
-  // that only exist in the additions are appended in canonical order.
+  // replacement bullets append at the end of their target section, under the
+  // `#### <scope>` sub-heading they came from; sections that only exist in the
+  // additions are appended in canonical order.
   const lines: string[] = []
   const emittedHeadings = new Set<string>()
 
   const emitSection = (heading: string | null, items: SectionItem[], additions: ChangelogEntry[]): void => {
-    const keptItems = items.filter(item => item.kind === 'note' || !removedEntries.has(item.entry))
-    if (keptItems.length === 0 && additions.length === 0) {
+    // Unscoped items lead the section, then one group per scope sub-heading
+    const unscoped: SectionItem[] = []
+    const scopeGroups: Array<{ name: string; items: SectionItem[] }> = []
+    for (const item of items) {
+      if (item.kind === 'scope') {
+        scopeGroups.push({ name: item.name, items: [] })
+      } else if (item.kind === 'note' || !removedEntries.has(item.entry)) {
+        const target = scopeGroups.at(-1)?.items ?? unscoped
+        target.push(item)
+      }
+    }
+    for (const added of additions) {
+      const item: SectionItem = { kind: 'entry', entry: added }
+      if (!added.scope) {
+        unscoped.push(item)
+        continue
+      }
+      const group = scopeGroups.find(candidate => candidate.name === added.scope)
+      if (group) {
+        group.items.push(item)
+        continue
+      }
+      const scope = added.scope
+      const index = scopeGroups.findIndex(candidate => candidate.name.localeCompare(scope) > 0)
+      scopeGroups.splice(index === -1 ? scopeGroups.length : index, 0, { name: scope, items: [item] })
+    }
+
+    // A sub-heading whose entries were all replaced elsewhere is dropped
+    const keptGroups = scopeGroups.filter(group => group.items.length > 0)
+    if (unscoped.length === 0 && keptGroups.length === 0) {
       return
     }
+    const body = unscoped.map(renderItem)
+    for (const group of keptGroups) {
+      if (body.length > 0) {
+        body.push('')
+      }
+      body.push(`#### ${group.name}`, ...group.items.map(renderItem))
+    }
     if (heading !== null) {
       lines.push(heading)
     }
-    for (const item of keptItems) {
-      lines.push(item.kind === 'note' ? item.line : item.entry.rawLine)
-    }
-    for (const added of additions) {
-      lines.push(added.rawLine)
-    }
-    lines.push('')
+    lines.push(...body, '')
   }
 
   for (const section of parsed.sections) {
+    if (section.heading === CONTRIBUTORS_SECTION) {
+      continue
+    }
     const additions = section.heading !== null ? (additionsBySection.get(section.heading) ?? []) : []
     if (section.heading !== null) {
       emittedHeadings.add(section.heading)
@@ -706,45 +873,83 @@ export function renderAnnotatedBody(
   for (const heading of orderedPending) {
     emitSection(heading, [], additionsBySection.get(heading) ?? [])
   }
+  const contributorLines = renderContributorLines(
+    parsed.sections
+      .filter(candidate => candidate.heading === CONTRIBUTORS_SECTION)
+      .flatMap(section => section.items.map(renderItem)),
+    contributors,
+    style,
+  )
+  if (contributorLines.length > 0) {
+    lines.push(CONTRIBUTORS_SECTION, ...contributorLines, '')
+  }
 
   return { body: `\n${lines.join('\n').trim()}\n\n`, appliedPrCount: annotatedGroups }
 }
 
+function writeExport(options: AnnotateOptions, fixtures: PullRequestFixture[], deps: AnnotateChangelogDeps): void {
+  if (!options.exportFile) {
+    return
+  }
+  deps.writeFileSync(options.exportFile, serializePullRequestFixtures(fixtures))
+  deps.log(`Exported ${fixtures.length} pull request(s) to ${options.exportFile}`)
+}
+
 function readChangelog(changelogPath: string, deps: AnnotateChangelogDeps): string {
   try {
     return deps.readFileSync(changelogPath, 'utf8') as string
   } catch (error) {
-    throw new ChangelogError(`Could not read ${changelogPath}. Run release-it-preset update first.\n${errorText(error)}`)
+    throw new ChangelogError(`Could not read ${changelogPath}. Run release-it-preset update first.\n${commandErrorText(error)}`)
   }
 }
 
-export function annotateChangelog(deps: AnnotateChangelogDeps): void {
+export function annotateChangelog(deps: AnnotateChangelogDeps, options: AnnotateOptions = {}): void {
   const changelogPath = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md'
   deps.log('Annotating [Unreleased] section...')
 
-  const changelog = readChangelog(changelogPath, deps)
-  const block = extractUnreleasedBlock(changelog, changelogPath)
-  const parsed = parseUnreleasedEntries(block.body)
+  const changelog = parseChangelog(readChangelog(changelogPath, deps))
+  const unreleased = findUnreleasedRelease(changelog)
+  if (!unreleased) {
+    throw new ChangelogError(`No [Unreleased] section found in ${changelogPath}. Run release-it-preset update first.`)
+  }
+  const parsed = parseUnreleasedEntries(renderReleaseBody(unreleased))
 
+  // An empty dump is still written: CI collecting PRs for a later replay
+  // always gets its artifact, and there is nothing to look up either way.
   if (parsed.entries.length === 0) {
     deps.log('No changelog entries found in [Unreleased]')
+    writeExport(options, [], deps)
     return
   }
 
   const { groups } = groupEntriesForLookup(parsed.entries)
   if (groups.length === 0) {
     deps.log('No PR or commit references found in [Unreleased]')
+    writeExport(options, [], deps)
     return
   }
 
-  const { repoUrl, ownerRepo } = getRequiredGitHubContext(deps)
-  const resolved = resolvePullRequestGroups(groups, ownerRepo, deps)
-  const rendered = renderAnnotatedBody(parsed, resolved.resolved, repoUrl, deps)
+  const { provider, forge, offline } = resolveLookupContext(deps, options)
+  const prCache =
+    options.cache && !offline ? openPullRequestCache(deps.getEnv('ANNOTATE_CACHE_FILE') || DEFAULT_CACHE_FILE, deps) : null
+  const recording = createRecordingProvider(prCache ? createCachingProvider(provider, prCache.cache) : provider)
+  const resolved = resolvePullRequestGroups(groups, recording.provider)
+  prCache?.save()
+  writeExport(options, recording.recorded(), deps)
+  const credits = loadCreditOptions(deps.getEnv)
+  const rendered = renderAnnotatedBody(
+    parsed,
+    resolved.resolved,
+    { forge, referencePrefix: provider.referencePrefix, credit: credits.authors },
+    deps,
+    credits.contributors ? findPullRequestContributors(resolved.resolved, deps) : [],
+  )
   if (rendered === null) {
     deps.log('No changelog blocks found in the resolved pull requests — nothing to annotate')
     return
   }
-  deps.writeFileSync(changelogPath, `${block.prefix}${rendered.body}${block.suffix}`)
+  replaceReleaseBody(unreleased, rendered.body)
+  deps.writeFileSync(changelogPath, serializeChangelog(changelog))
 
   deps.log(`Annotated ${rendered.appliedPrCount} pull request(s)`)
 }
@@ -752,14 +957,18 @@ export function annotateChangelog(deps: AnnotateChangelogDeps): void {
 /* c8 ignore start */
 if (import.meta.url === `file://${process.argv[1]}`) {
   void runScript({ error: console.error, exit: process.exit }, () =>
-    annotateChangelog({
-      execSync,
-      readFileSync,
-      writeFileSync,
-      getEnv: (key: string) => process.env[key],
-      log: console.log,
-      warn: console.warn,
-    }),
+    annotateChangelog(
+      {
+        execSync,
+        readFileSync,
+        writeFileSync,
+        mkdirSync,
+        getEnv: (key: string) => process.env[key],
+        log: console.log,
+        warn: console.warn,
+      },
+      parseArgs(process.argv.slice(2)),
+    ),
   )
 }
 /* c8 ignore end */
@@ -16,7 +16,7 @@
 import type { ExecSyncOptions } from 'node:child_process';
 import { execSync } from 'node:child_process';
 import { existsSync, readFileSync } from 'node:fs';
-import { getGitHubRepoUrl } from './lib/git-utils.js';
+import { getRepoUrl } from './lib/git-utils.js';
 import { runScript } from './lib/run-script.js';
 
 export interface CheckConfigDeps {
@@ -114,6 +114,7 @@ export function getEnvironmentVariables(deps: CheckConfigDeps): Record<string, s
     ['GIT_REMOTE', 'origin'],
   ['GITHUB_RELEASE', 'false'],
     ['GITHUB_REPOSITORY'],
+    ['GITLAB_RELEASE', 'false'],
   ['NPM_PUBLISH', 'false'],
     ['NPM_SKIP_CHECKS', 'false'],
     ['NPM_ACCESS', 'public'],
@@ -128,7 +129,7 @@ export function getEnvironmentVariables(deps: CheckConfigDeps): Record<string, s
 
 export function checkConfig(deps: CheckConfigDeps): CheckConfigResult {
   const envVars = getEnvironmentVariables(deps);
-  const repoUrl = getGitHubRepoUrl({
+  const repoUrl = getRepoUrl({
     execSync: deps.execSync,
     getEnv: deps.getEnv,
   }) || null;
@@ -6,26 +6,43 @@
  * - The changelog (respecting CHANGELOG_FILE env override) has been modified
  * - A `[skip-changelog]` marker appears in commit messages
  * - Commits follow the conventional commit format
+ * - Which changelog sections each commit would land in
  *
  * Results are written to `$GITHUB_OUTPUT` when available so GitHub Actions steps
- * can consume them without relying on continue-on-error semantics.
+ * can consume them without relying on continue-on-error semantics. The
+ * per-commit report is also rendered as a table in `$GITHUB_STEP_SUMMARY`.
  */
 
 import type { ExecSyncOptions } from 'node:child_process'
 import { execSync } from 'node:child_process'
 import { appendFileSync, readFileSync } from 'node:fs'
 import { extractStructuredChangelogNotes } from './annotate-changelog.js'
-import { STRICT_CONVENTIONAL_COMMIT_REGEX } from './lib/commit-parser.js'
+import { loadChangelogTypeMap, loadScopeGrouping, type ScopeGrouping } from './lib/changelog-types.js'
+import { isStrictConventionalCommit, parseCommitMessage, parseConventionalCommit } from './lib/commit-parser.js'
 import { runScript } from './lib/run-script.js'
+import { collectSectionedParts } from './populate-unreleased-changelog.js'
 
 export type ChangelogStatus = 'updated' | 'skipped' | 'missing'
 export type ChangelogBlockStatus = 'present' | 'absent' | 'unknown'
 
+export interface CommitReport {
+  sha: string
+  subject: string
+  /** Conventional commit type and scope of the header, null when absent */
+  type: string | null
+  scope: string | null
+  /** Header follows the strict conventional commit format */
+  conventional: boolean
+  /** Changelog sections the commit's entries land in, empty when it is left out */
+  sections: string[]
+}
+
 export interface PrCheckResult {
   baseRef: string | null
   headRef: string
   changedFiles: string[]
   commits: string[]
+  commitReports: CommitReport[]
   changelogStatus: ChangelogStatus
   changelogBlock: ChangelogBlockStatus
   skipChangelogMarker: boolean
@@ -34,8 +51,10 @@ export interface PrCheckResult {
 
 export interface PrCheckDeps {
   execSync: (command: string, options?: ExecSyncOptions) => Buffer | string
+  readFileSync: typeof readFileSync
   getEnv: (key: string) => string | undefined
   writeOutput: (name: string, value: string) => void
+  writeStepSummary: (markdown: string) => void
   log: (message: string) => void
   warn: (message: string) => void
 }
@@ -96,7 +115,41 @@ export function hasSkipChangelog(commits: string[]): boolean {
 }
 
 export function hasConventionalCommits(commits: string[]): boolean {
-  return commits.some(commit => STRICT_CONVENTIONAL_COMMIT_REGEX.test(commit))
+  return commits.some(commit => isStrictConventionalCommit(parseCommitMessage(commit).header))
+}
+
+/**
+ * Classify the commits of git log output (`%H|%B|||END|||`) the way `update`
+ * would: their conventional type and scope, and the changelog sections their
+ * entries land in, one per distinct section of a multi-prefix commit. A
+ * commit is left out (no sections) when it is skipped, ignored, of a
+ * suppressed type or hidden scope, or cancelled by a revert or cherry-pick in
+ * the same range.
+ */
+export function buildCommitReports(
+  gitOutput: string,
+  typeMap: Record<string, string | false>,
+  scopes: ScopeGrouping,
+): CommitReport[] {
+  const parts = collectSectionedParts(gitOutput, null, typeMap, scopes)
+  return gitOutput
+    .split('|||END|||')
+    .filter(entry => entry.trim())
+    .map(entry => {
+      const [rawSha, ...messageParts] = entry.split('|')
+      const sha = rawSha.trim()
+      const parsed = parseCommitMessage(messageParts.join('|').trim())
+      const commit = parseConventionalCommit(parsed.headerLines.join('\n'))
+      const shortSha = sha.substring(0, 7)
+      return {
+        sha,
+        subject: parsed.header,
+        type: commit?.type ?? null,
+        scope: commit?.scope ?? null,
+        conventional: isStrictConventionalCommit(parsed.header),
+        sections: [...new Set(parts.filter(part => part.sha === shortSha).map(part => part.section))],
+      }
+    })
 }
 
 export function evaluateChangelogStatus(
@@ -126,7 +179,7 @@ export function evaluateChangelogBlockStatus(deps: PrCheckDeps): ChangelogBlockS
   }
 
   try {
-    const event = JSON.parse(readFileSync(eventPath, 'utf8')) as unknown
+    const event = JSON.parse(deps.readFileSync(eventPath, 'utf8') as string) as unknown
     if (!event || typeof event !== 'object') {
       return 'unknown'
     }
@@ -171,11 +224,10 @@ export function runPrCheck(args: { base?: string | null; head?: string | null },
   )
   const changedFiles = splitList(changedFilesOutput)
 
-  const commitsOutput = safeExec(
-    baseRef ? `git log ${diffRange} --pretty=format:%s` : `git log ${headRef} --pretty=format:%s`,
-    deps,
-  )
-  const commits = splitList(commitsOutput)
+  const commitsOutput = safeExec(`git log ${baseRef ? diffRange : headRef} --pretty=format:"%H|%B|||END|||"`, deps)
+  const typeMap = loadChangelogTypeMap(deps)
+  const commitReports = buildCommitReports(commitsOutput ?? '', typeMap, loadScopeGrouping(deps))
+  const commits = commitReports.map(report => report.subject).filter(subject => subject.length > 0)
 
   const changelogPath = deps.getEnv('CHANGELOG_FILE') ?? 'CHANGELOG.md'
   const changelogEvaluation = evaluateChangelogStatus(changedFiles, changelogPath, commits)
@@ -187,6 +239,7 @@ export function runPrCheck(args: { base?: string | null; head?: string | null },
     headRef,
     changedFiles,
     commits,
+    commitReports,
     changelogStatus: changelogEvaluation.status,
     changelogBlock,
     skipChangelogMarker: changelogEvaluation.skipMarker,
@@ -197,6 +250,7 @@ export function runPrCheck(args: { base?: string | null; head?: string | null },
 export function createDefaultDeps(): PrCheckDeps {
   return {
     execSync,
+    readFileSync,
     getEnv: (key: string) => process.env[key],
     writeOutput: (name: string, value: string) => {
       const outputFile = process.env.GITHUB_OUTPUT
@@ -205,6 +259,13 @@ export function createDefaultDeps(): PrCheckDeps {
       }
       appendFileSync(outputFile, `${name}=${value}\n`, { encoding: 'utf8' })
     },
+    writeStepSummary: (markdown: string) => {
+      const summaryFile = process.env.GITHUB_STEP_SUMMARY
+      if (!summaryFile) {
+        return
+      }
+      appendFileSync(summaryFile, `${markdown}\n`, { encoding: 'utf8' })
+    },
     log: console.log,
     warn: console.warn,
   }
@@ -213,17 +274,58 @@ export function createDefaultDeps(): PrCheckDeps {
 export function writeOutputs(result: PrCheckResult, deps: PrCheckDeps) {
   const commitsEncoded = Buffer.from(JSON.stringify(result.commits), 'utf8').toString('base64')
   const filesEncoded = Buffer.from(JSON.stringify(result.changedFiles), 'utf8').toString('base64')
+  const reportEncoded = Buffer.from(JSON.stringify(result.commitReports), 'utf8').toString('base64')
 
   deps.writeOutput('changelog_status', result.changelogStatus)
   deps.writeOutput('changelog_block', result.changelogBlock)
   deps.writeOutput('skip_changelog', result.skipChangelogMarker ? 'true' : 'false')
   deps.writeOutput('conventional_commits', result.hasConventionalCommits ? 'true' : 'false')
   deps.writeOutput('commit_messages', commitsEncoded)
+  deps.writeOutput('commit_report', reportEncoded)
   deps.writeOutput('changed_files', filesEncoded)
   deps.writeOutput('base_ref', result.baseRef ?? '')
   deps.writeOutput('head_ref', result.headRef)
 }
 
+/** Section names of a commit report without their `###`, null when none */
+function formatSections(report: CommitReport): string | null {
+  return report.sections.length > 0 ? report.sections.map(section => section.replace(/^#+\s*/, '')).join(', ') : null
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|')
+}
+
+/**
+ * Render the per-commit report as a Markdown table, oldest commit first
+ */
+export function renderCommitTable(reports: CommitReport[]): string {
+  const lines = ['### Commits', '']
+  if (reports.length === 0) {
+    lines.push('_No commits in range._')
+    return lines.join('\n')
+  }
+
+  lines.push('| Commit | Subject | Type | Scope | Conventional | Changelog section |')
+  lines.push('|---|---|---|---|---|---|')
+  for (const report of [...reports].reverse()) {
+    const cells = [
+      `\`${report.sha.substring(0, 7)}\``,
+      escapeTableCell(report.subject),
+      report.type ? `\`${report.type}\`` : '—',
+      report.scope ? `\`${escapeTableCell(report.scope)}\`` : '—',
+      report.conventional ? '✅' : '❌',
+      escapeTableCell(formatSections(report) ?? '_not included_'),
+    ]
+    lines.push(`| ${cells.join(' | ')} |`)
+  }
+  return lines.join('\n')
+}
+
+export function writeStepSummary(result: PrCheckResult, deps: PrCheckDeps) {
+  deps.writeStepSummary(renderCommitTable(result.commitReports))
+}
+
 export function renderSummary(result: PrCheckResult, deps: PrCheckDeps) {
   deps.log('🔍 PR hygiene check')
   deps.log(`  • Base ref: ${result.baseRef ?? '(not provided)'}`)
@@ -246,6 +348,10 @@ export function renderSummary(result: PrCheckResult, deps: PrCheckDeps) {
   } else {
     deps.log('ℹ️  No conventional commits found')
   }
+
+  for (const report of [...result.commitReports].reverse()) {
+    deps.log(`  • ${report.sha.substring(0, 7)} ${report.subject} → ${formatSections(report) ?? 'not included'}`)
+  }
 }
 
 /* c8 ignore start */
@@ -256,6 +362,7 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     const result = runPrCheck(args, deps)
 
     writeOutputs(result, deps)
+    writeStepSummary(result, deps)
     renderSummary(result, deps)
   })
 }
@@ -17,16 +17,26 @@ import type { ExecSyncOptions } from 'node:child_process'
 import { execSync } from 'node:child_process'
 import { existsSync, readdirSync, readFileSync } from 'node:fs'
 import { join } from 'node:path'
+import {
+  findUnreleasedRelease,
+  getChangelogTitle,
+  getReleaseEntries,
+  parseChangelog,
+} from './lib/changelog-document.js'
 import { isValidSemver, rangeIncludesVersion } from './lib/semver-utils.js'
 import {
-  parsePnpmWorkspaceYaml,
-  parseWorkspacesFromPackageJson,
+  detectPackageManager,
+  PACKAGE_MANAGER_COMMANDS,
+  readWorkspaceConfig,
   resolvePackagePaths,
 } from './lib/workspace-detect.js'
+import { parseWorkspaceManifest, type WorkspacePackage } from './lib/workspace-graph.js'
+import { isYamlMapping, parseYaml, type YamlMapping, type YamlValue } from './lib/yaml.js'
 import {
   hasGeneratedWorkflowMarker,
   normalizeWorkflowContent,
   readWorkflowTemplate,
+  renderWorkflowTemplate,
 } from './lib/workflow-template.js'
 
 // ---------------------------------------------------------------------------
@@ -117,20 +127,36 @@ const ENV_VAR_CATALOG: Array<{ name: string; defaultValue?: string }> = [
   { name: 'CHANGELOG_FILE', defaultValue: 'CHANGELOG.md' },
   { name: 'GIT_CHANGELOG_PATH' },
   { name: 'GIT_CHANGELOG_SINCE' },
+  { name: 'VERSIONING', defaultValue: 'independent' },
+  { name: 'CHANGELOG_LINT_RULES' },
+  { name: 'COMMIT_LINT_RULES' },
+  { name: 'CHANGELOG_AUTO_BUMP', defaultValue: 'false' },
+  { name: 'CHANGELOG_FOLD_PRERELEASES', defaultValue: 'false' },
+  { name: 'CHANGELOG_GROUP_BY_SCOPE', defaultValue: 'false' },
+  { name: 'CHANGELOG_SCOPE_ALIASES' },
+  { name: 'CHANGELOG_HIDDEN_SCOPES' },
+  { name: 'CHANGELOG_AUTHORS', defaultValue: 'false' },
+  { name: 'CHANGELOG_CONTRIBUTORS', defaultValue: 'false' },
+  { name: 'CHANGELOG_ISSUE_TRACKERS' },
+  { name: 'ANNOTATE_PR_FIXTURES' },
+  { name: 'ANNOTATE_CACHE_FILE', defaultValue: 'node_modules/.cache/release-it-preset/annotate-prs.json' },
   { name: 'GIT_COMMIT_MESSAGE', defaultValue: 'chore(release): v${version}' },
   { name: 'GIT_TAG_NAME', defaultValue: 'v${version}' },
   { name: 'GIT_REQUIRE_BRANCH', defaultValue: 'main' },
   { name: 'GIT_REQUIRE_UPSTREAM', defaultValue: 'false' },
   { name: 'GIT_REQUIRE_CLEAN', defaultValue: 'false' },
   { name: 'GIT_REMOTE', defaultValue: 'origin' },
+  { name: 'GIT_FORGE' },
   { name: 'GIT_CHANGELOG_COMMAND' },
   { name: 'GIT_CHANGELOG_DESCRIBE_COMMAND' },
   { name: 'GITHUB_RELEASE', defaultValue: 'false' },
   { name: 'GITHUB_REPOSITORY' },
+  { name: 'GITLAB_RELEASE', defaultValue: 'false' },
   { name: 'NPM_PUBLISH', defaultValue: 'false' },
   { name: 'NPM_SKIP_CHECKS', defaultValue: 'false' },
   { name: 'NPM_ACCESS', defaultValue: 'public' },
   { name: 'NPM_TAG' },
+  { name: 'PRERELEASE_ID', defaultValue: 'beta' },
 ]
 
 // ---------------------------------------------------------------------------
@@ -153,6 +179,7 @@ export function collectEnvironment(deps: DoctorDeps): EnvironmentSection {
 
   const githubRelease = deps.getEnv('GITHUB_RELEASE')
   const githubRepo = deps.getEnv('GITHUB_REPOSITORY')
+  const gitlabRelease = deps.getEnv('GITLAB_RELEASE')
   const npmPublish = deps.getEnv('NPM_PUBLISH')
 
   if (githubRelease === 'true' && !githubRepo) {
@@ -170,6 +197,20 @@ export function collectEnvironment(deps: DoctorDeps): EnvironmentSection {
     })
   }
 
+  // The token is a secret: report presence only, never its value
+  if (gitlabRelease === 'true') {
+    checks.push(
+      deps.getEnv('GITLAB_TOKEN')
+        ? { name: 'GitLab release configuration', status: 'PASS', value: 'enabled' }
+        : {
+          name: 'GITLAB_TOKEN set when GITLAB_RELEASE=true',
+          status: 'WARN',
+          value: '<unset>',
+          detail: 'Set GITLAB_TOKEN to a token with api scope to enable GitLab releases',
+        },
+    )
+  }
+
   if (npmPublish === 'true') {
     checks.push({
       name: 'npm publish configuration',
@@ -306,6 +347,11 @@ export function inspectRepository(deps: DoctorDeps): RepositorySection {
 // Workspace integration helper (used by validateConfiguration)
 // ---------------------------------------------------------------------------
 
+// Paths are relative to the working directory, like every other doctor read
+function addDevCommand(deps: DoctorDeps): string {
+  return PACKAGE_MANAGER_COMMANDS[detectPackageManager('.', deps)].addDev
+}
+
 function detectWorkspaceIntegration(deps: DoctorDeps): CheckResult {
   const hasPnpmWorkspace = deps.existsSync('pnpm-workspace.yaml')
 
@@ -322,8 +368,9 @@ function detectWorkspaceIntegration(deps: DoctorDeps): CheckResult {
       // package.json parse errors are reported by the version check — skip here
     }
   }
+  const hasLernaConfig = !hasPnpmWorkspace && !hasWorkspacesField && deps.existsSync('lerna.json')
 
-  const workspaceSetup = hasPnpmWorkspace || hasWorkspacesField
+  const workspaceSetup = hasPnpmWorkspace || hasWorkspacesField || hasLernaConfig
   if (!workspaceSetup) {
     return { name: 'Workspace integration', status: 'PASS', value: 'not a monorepo' }
   }
@@ -335,14 +382,18 @@ function detectWorkspaceIntegration(deps: DoctorDeps): CheckResult {
     return { name: 'Workspace integration', status: 'PASS', value: 'plugin installed' }
   }
 
-  const source = hasPnpmWorkspace ? 'pnpm-workspace.yaml present' : 'package.json workspaces field'
+  const source = hasPnpmWorkspace
+    ? 'pnpm-workspace.yaml present'
+    : hasWorkspacesField
+      ? 'package.json workspaces field'
+      : 'lerna.json present'
   return {
     name: 'Workspace integration',
     status: 'WARN',
     value: `Workspace setup detected (no plugin loaded): ${source}`,
     detail: [
       'For multi-package publish + cross-pkg dep sync, run:',
-      '  pnpm add -D @release-it-plugins/workspaces',
+      `  ${addDevCommand(deps)} @release-it-plugins/workspaces`,
       'Then add `"plugins": {"@release-it-plugins/workspaces": true}` to .release-it.json.',
       'Skip if you only need per-package CHANGELOG (use GIT_CHANGELOG_PATH).',
     ].join('\n'),
@@ -555,7 +606,10 @@ export function validatePublishWorkflowFreshness(deps: DoctorDeps): CheckResult
 
   if (generatedWorkflowPaths.length > 0) {
     try {
-      const template = readWorkflowTemplate(deps).content
+      const template = renderWorkflowTemplate(
+        readWorkflowTemplate(deps).content,
+        detectPackageManager('.', deps),
+      )
       if (!hasGeneratedWorkflowMarker(template)) {
         templateMissingMarker = true
       } else {
@@ -590,32 +644,16 @@ function stripYamlComment(line: string): string {
   return (commentIndex >= 0 ? line.slice(0, commentIndex) : line).trimEnd()
 }
 
-function countIndent(line: string): number {
-  return line.match(/^\s*/)?.[0].length ?? 0
-}
-
-interface YamlLine {
-  index: number
-  text: string
-  trimmed: string
-  indent: number
-}
-
-interface YamlMapping {
-  key: string
-  value: string
-}
-
-interface WorkflowJobBlock {
+interface WorkflowJob {
   id: string
-  content: string
-  indent: number
+  definition: YamlMapping
 }
 
 type WorkflowJobsParseResult =
   | {
       ok: true
-      jobs: WorkflowJobBlock[]
+      workflow: YamlMapping
+      jobs: WorkflowJob[]
     }
   | {
       ok: false
@@ -623,7 +661,6 @@ type WorkflowJobsParseResult =
     }
 
 type PermissionEvaluation = 'GRANTED' | 'MISSING' | 'NOT_EVALUATED'
-type JobPermissionEvaluation = PermissionEvaluation | 'INHERIT'
 
 interface WorkflowNpmProvenanceEvaluation {
   publishJobIds: string[]
@@ -632,261 +669,79 @@ interface WorkflowNpmProvenanceEvaluation {
   notEvaluatedReason?: string
 }
 
-function toYamlLines(content: string): { rawLines: string[]; lines: YamlLine[] } {
-  const rawLines = content.split(/\r?\n/)
-  return {
-    rawLines,
-    lines: rawLines
-      .map((rawLine, index) => {
-        const text = stripYamlComment(rawLine)
-        return {
-          index,
-          text,
-          trimmed: text.trim(),
-          indent: countIndent(text),
-        }
-      })
-      .filter((line) => line.trimmed !== ''),
-  }
-}
-
-function parseYamlMapping(trimmed: string): YamlMapping | null {
-  if (trimmed.startsWith('- ')) {
-    return null
-  }
-
-  const match = trimmed.match(/^("[^"]+"|'[^']+'|[A-Za-z0-9_-]+)\s*:\s*(.*)$/)
-  if (!match) {
-    return null
-  }
-
-  const rawKey = match[1]
-  const key =
-    (rawKey.startsWith('"') && rawKey.endsWith('"')) ||
-    (rawKey.startsWith("'") && rawKey.endsWith("'"))
-      ? rawKey.slice(1, -1)
-      : rawKey
-
-  return {
-    key,
-    value: match[2].trim(),
-  }
-}
-
 function parseWorkflowJobs(content: string): WorkflowJobsParseResult {
-  const { rawLines, lines } = toYamlLines(content)
-  const jobsLines = lines.filter((line) => {
-    const mapping = parseYamlMapping(line.trimmed)
-    return line.indent === 0 && mapping?.key === 'jobs'
-  })
+  let workflow: YamlValue
+  try {
+    workflow = parseYaml(content)
+  } catch (error) {
+    return { ok: false, reason: error instanceof Error ? error.message : 'invalid YAML' }
+  }
 
-  if (jobsLines.length === 0) {
+  const jobs = isYamlMapping(workflow) ? workflow.jobs : undefined
+  if (!isYamlMapping(workflow) || jobs === undefined) {
     return { ok: false, reason: 'top-level jobs block not detected' }
   }
-  if (jobsLines.length > 1) {
-    return { ok: false, reason: 'multiple top-level jobs blocks detected' }
-  }
-
-  const jobsLine = jobsLines[0]
-  const jobsMapping = parseYamlMapping(jobsLine.trimmed)
-  if (!jobsMapping || jobsMapping.value !== '') {
-    return { ok: false, reason: 'top-level jobs block uses an inline or dynamic value' }
+  if (!isYamlMapping(jobs)) {
+    return { ok: false, reason: 'top-level jobs block is not a mapping' }
   }
 
-  const firstAfterJobs = lines.findIndex((line) => line.index > jobsLine.index)
-  const jobsBlockEnd =
-    firstAfterJobs === -1
-      ? rawLines.length
-      : (lines.slice(firstAfterJobs).find((line) => line.indent <= jobsLine.indent)?.index ??
-        rawLines.length)
-
-  const jobLines = lines.filter((line) => line.index > jobsLine.index && line.index < jobsBlockEnd)
-  if (jobLines.length === 0) {
+  const entries = Object.entries(jobs)
+  if (entries.length === 0) {
     return { ok: false, reason: 'jobs block is empty' }
   }
-
-  const jobIndent = jobLines[0].indent
-  if (jobIndent <= jobsLine.indent) {
-    return { ok: false, reason: 'jobs block has no nested job definitions' }
-  }
-
-  const jobStarts: Array<{ id: string; index: number }> = []
-  for (const line of jobLines) {
-    if (line.indent !== jobIndent) {
-      continue
-    }
-
-    const mapping = parseYamlMapping(line.trimmed)
-    if (!mapping) {
-      return { ok: false, reason: 'jobs block contains an unsupported child entry' }
-    }
-    if (mapping.value !== '') {
-      return { ok: false, reason: `job "${mapping.key}" uses an inline or dynamic value` }
-    }
-
-    jobStarts.push({ id: mapping.key, index: line.index })
-  }
-
-  if (jobStarts.length === 0) {
-    return { ok: false, reason: 'jobs block has no supported job definitions' }
+  const invalidJob = entries.find(([, definition]) => !isYamlMapping(definition))
+  if (invalidJob) {
+    return { ok: false, reason: `job "${invalidJob[0]}" is not a mapping` }
   }
 
-  const jobs = jobStarts.map((job, index): WorkflowJobBlock => {
-    const nextJob = jobStarts[index + 1]
-    const endIndex = nextJob?.index ?? jobsBlockEnd
-    return {
-      id: job.id,
-      content: rawLines.slice(job.index, endIndex).join('\n'),
-      indent: jobIndent,
-    }
-  })
-
-  return { ok: true, jobs }
-}
-
-function stripYamlQuotes(value: string): string {
-  const trimmed = value.trim()
-  if (
-    (trimmed.startsWith('"') && trimmed.endsWith('"')) ||
-    (trimmed.startsWith("'") && trimmed.endsWith("'"))
-  ) {
-    return trimmed.slice(1, -1)
-  }
-  return trimmed
-}
-
-function inlinePermissionsMapHasIdTokenWrite(value: string): boolean | null {
-  const trimmed = value.trim()
-  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) {
-    return null
-  }
-
-  return /(?:^|,)\s*['"]?id-token['"]?\s*:\s*['"]?write['"]?\s*(?:,|$)/.test(
-    trimmed.slice(1, -1),
-  )
-}
-
-function scalarPermissionsValueHasIdTokenWrite(value: string): PermissionEvaluation | null {
-  const scalar = stripYamlQuotes(value)
-  if (scalar === 'write-all') {
-    return 'GRANTED'
-  }
-  if (scalar === 'read-all') {
-    return 'MISSING'
+  return {
+    ok: true,
+    workflow,
+    jobs: entries.map(([id, definition]) => ({ id, definition: definition as YamlMapping })),
   }
-  return null
 }
 
-function isDynamicYamlValue(value: string): boolean {
-  return (
-    value.startsWith('*') ||
-    value.startsWith('&') ||
-    value.startsWith('[') ||
-    value.includes('${{')
-  )
+function isExpression(value: YamlValue | undefined): boolean {
+  return typeof value === 'string' && value.includes('${{')
 }
 
-function evaluatePermissionsValue(value: string): PermissionEvaluation {
-  const scalarResult = scalarPermissionsValueHasIdTokenWrite(value)
-  if (scalarResult !== null) {
-    return scalarResult
-  }
-
-  const inlineResult = inlinePermissionsMapHasIdTokenWrite(value)
-  if (inlineResult !== null) {
-    return inlineResult ? 'GRANTED' : 'MISSING'
-  }
-
-  return isDynamicYamlValue(value) ? 'NOT_EVALUATED' : 'MISSING'
-}
-
-function evaluatePermissionsLine(lines: YamlLine[], permissionsLine: YamlLine): PermissionEvaluation {
-  const permissions = parseYamlMapping(permissionsLine.trimmed)
-  if (!permissions) {
-    return 'NOT_EVALUATED'
-  }
-
-  if (permissions.value !== '') {
-    return evaluatePermissionsValue(permissions.value)
-  }
-
-  const permissionChildLines = lines.filter((line) => line.index > permissionsLine.index)
-  const permissionBlockLines: YamlLine[] = []
-  for (const line of permissionChildLines) {
-    if (line.indent <= permissionsLine.indent) {
-      break
-    }
-    permissionBlockLines.push(line)
-  }
-
-  if (permissionBlockLines.length === 0) {
-    return 'MISSING'
-  }
-
-  const permissionChildIndent = permissionBlockLines[0].indent
-  for (const line of permissionBlockLines) {
-    if (line.indent !== permissionChildIndent) {
-      continue
-    }
-
-    const mapping = parseYamlMapping(line.trimmed)
-    if (!mapping || mapping.key === '<<' || isDynamicYamlValue(mapping.value)) {
-      return 'NOT_EVALUATED'
-    }
-    if (mapping.key === 'id-token' && stripYamlQuotes(mapping.value) === 'write') {
+/**
+ * Evaluate a `permissions` value: `write-all`, `read-all`, a mapping of
+ * scopes, or an expression resolved at run time.
+ */
+function evaluatePermissions(permissions: YamlValue): PermissionEvaluation {
+  if (typeof permissions === 'string') {
+    if (permissions === 'write-all') {
       return 'GRANTED'
     }
+    return isExpression(permissions) ? 'NOT_EVALUATED' : 'MISSING'
   }
-
-  return 'MISSING'
-}
-
-function evaluateWorkflowIdTokenWritePermission(content: string): PermissionEvaluation {
-  const { lines } = toYamlLines(content)
-  const permissionsLines = lines.filter((line) => {
-    const mapping = parseYamlMapping(line.trimmed)
-    return line.indent === 0 && mapping?.key === 'permissions'
-  })
-
-  if (permissionsLines.length === 0) {
+  if (permissions === null) {
     return 'MISSING'
   }
-  if (permissionsLines.length > 1) {
+  if (!isYamlMapping(permissions)) {
     return 'NOT_EVALUATED'
   }
 
-  return evaluatePermissionsLine(lines, permissionsLines[0])
-}
-
-function evaluateJobIdTokenWritePermission(job: WorkflowJobBlock): JobPermissionEvaluation {
-  const { lines } = toYamlLines(job.content)
-  const childLines = lines.filter((line) => line.index > 0 && line.indent > job.indent)
-  if (childLines.length === 0) {
-    return 'INHERIT'
-  }
-
-  const childIndent = childLines[0].indent
-  const permissionsLines = childLines.filter((line) => {
-    const mapping = parseYamlMapping(line.trimmed)
-    return line.indent === childIndent && mapping?.key === 'permissions'
-  })
-
-  if (permissionsLines.length === 0) {
-    return 'INHERIT'
-  }
-  if (permissionsLines.length > 1) {
-    return 'NOT_EVALUATED'
+  const idToken = permissions['id-token']
+  if (idToken === 'write') {
+    return 'GRANTED'
   }
+  return isExpression(idToken) ? 'NOT_EVALUATED' : 'MISSING'
+}
 
-  return evaluatePermissionsLine(childLines, permissionsLines[0])
+function evaluateWorkflowIdTokenWritePermission(workflow: YamlMapping): PermissionEvaluation {
+  return Object.hasOwn(workflow, 'permissions') ? evaluatePermissions(workflow.permissions) : 'MISSING'
 }
 
 function resolveJobIdTokenWritePermission(
-  job: WorkflowJobBlock,
+  job: WorkflowJob,
   workflowPermission: PermissionEvaluation,
 ): PermissionEvaluation {
-  const jobPermission = evaluateJobIdTokenWritePermission(job)
-  return jobPermission === 'INHERIT' ? workflowPermission : jobPermission
+  // Job-level permissions replace workflow-level ones entirely
+  return Object.hasOwn(job.definition, 'permissions')
+    ? evaluatePermissions(job.definition.permissions)
+    : workflowPermission
 }
 
 export function workflowHasIdTokenWritePermission(content: string): boolean {
@@ -895,7 +750,7 @@ export function workflowHasIdTokenWritePermission(content: string): boolean {
     return false
   }
 
-  const workflowPermission = evaluateWorkflowIdTokenWritePermission(content)
+  const workflowPermission = evaluateWorkflowIdTokenWritePermission(parsed.workflow)
   return parsed.jobs.some(
     (job) => resolveJobIdTokenWritePermission(job, workflowPermission) === 'GRANTED',
   )
@@ -913,10 +768,32 @@ function workflowHasNpmPublishIntent(content: string): boolean {
   return (
     /\bNPM_PUBLISH\s*:\s*(?:['"]?true['"]?|\$\{\{)/.test(body) ||
     /\bretry-publish(?![-\w])/.test(body) ||
-    /\bnpm\s+publish\b/.test(body)
+    /\b(?:npm|pnpm|bun)\s+publish\b/.test(body)
   )
 }
 
+/**
+ * Same signals as workflowHasNpmPublishIntent, on a parsed value: an
+ * `NPM_PUBLISH` key set to true or an expression, or a string running
+ * `retry-publish` or `npm publish`.
+ */
+function valueHasNpmPublishIntent(value: YamlValue): boolean {
+  if (typeof value === 'string') {
+    return workflowHasNpmPublishIntent(value)
+  }
+  if (Array.isArray(value)) {
+    return value.some(valueHasNpmPublishIntent)
+  }
+  if (isYamlMapping(value)) {
+    return Object.entries(value).some(
+      ([key, child]) =>
+        (key === 'NPM_PUBLISH' && (child === true || child === 'true' || isExpression(child))) ||
+        valueHasNpmPublishIntent(child),
+    )
+  }
+  return false
+}
+
 function evaluateWorkflowNpmProvenance(content: string): WorkflowNpmProvenanceEvaluation {
   if (!workflowHasNpmPublishIntent(content)) {
     return {
@@ -936,7 +813,7 @@ function evaluateWorkflowNpmProvenance(content: string): WorkflowNpmProvenanceEv
     }
   }
 
-  const publishJobs = parsed.jobs.filter((job) => workflowHasNpmPublishIntent(job.content))
+  const publishJobs = parsed.jobs.filter((job) => valueHasNpmPublishIntent(job.definition))
   if (publishJobs.length === 0) {
     return {
       publishJobIds: [],
@@ -950,7 +827,7 @@ function evaluateWorkflowNpmProvenance(content: string): WorkflowNpmProvenanceEv
   const idTokenJobIds: string[] = []
   const missingJobIds: string[] = []
   const notEvaluatedJobIds: string[] = []
-  const workflowPermission = evaluateWorkflowIdTokenWritePermission(content)
+  const workflowPermission = evaluateWorkflowIdTokenWritePermission(parsed.workflow)
 
   for (const job of publishJobs) {
     const permission = resolveJobIdTokenWritePermission(job, workflowPermission)
@@ -1054,7 +931,7 @@ const NPM_PROVENANCE_READINESS_DECISIONS = {
     value: 'npm publish workflow not detected',
     detail: [
       'NPM_PUBLISH=true is set, but no allowlisted workflow file contains a supported npm-publish signal.',
-      'Supported signals: NPM_PUBLISH, retry-publish, or npm publish.',
+      'Supported signals: NPM_PUBLISH, retry-publish, npm publish, pnpm publish, yarn npm publish or bun publish.',
       ...formatSkippedWorkflowFiles(context.scan.skippedFileNames),
       ...formatUnreadableWorkflowFiles(context.scan.unreadableFilePaths),
     ].join('\n'),
@@ -1262,100 +1139,6 @@ export function validateSlsaAttestationAvailability(deps: DoctorDeps): CheckResu
   }
 }
 
-type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'
-
-interface WorkspacePackage {
-  name: string
-  version: string
-  dependencies: Array<{
-    field: DependencyField
-    name: string
-    range: string
-  }>
-}
-
-const DEPENDENCY_FIELDS: DependencyField[] = [
-  'dependencies',
-  'devDependencies',
-  'peerDependencies',
-  'optionalDependencies',
-]
-
-function isStringRecord(value: unknown): value is Record<string, string> {
-  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-    return false
-  }
-  return Object.values(value).every((v) => typeof v === 'string')
-}
-
-function collectDependencyRanges(pkg: Record<string, unknown>): WorkspacePackage['dependencies'] {
-  const dependencies: WorkspacePackage['dependencies'] = []
-  for (const field of DEPENDENCY_FIELDS) {
-    const entries = pkg[field]
-    if (!isStringRecord(entries)) {
-      continue
-    }
-    for (const [name, range] of Object.entries(entries)) {
-      dependencies.push({ field, name, range })
-    }
-  }
-  return dependencies
-}
-
-function isSupportedWorkspacePattern(pattern: string): boolean {
-  if (/[?{}[\]]/.test(pattern)) {
-    return false
-  }
-
-  const starCount = (pattern.match(/\*/g) ?? []).length
-  if (starCount === 0) {
-    return true
-  }
-
-  return starCount === 1 && pattern.endsWith('/*')
-}
-
-function classifyWorkspacePatterns(patterns: string[]): {
-  supportedPatterns: string[]
-  unsupportedPatterns: string[]
-  negatedPatterns: string[]
-} {
-  const supportedPatterns: string[] = []
-  const unsupportedPatterns: string[] = []
-  const negatedPatterns: string[] = []
-
-  for (const pattern of patterns) {
-    if (pattern.startsWith('!')) {
-      negatedPatterns.push(pattern)
-    } else if (isSupportedWorkspacePattern(pattern)) {
-      supportedPatterns.push(pattern)
-    } else {
-      unsupportedPatterns.push(pattern)
-    }
-  }
-
-  return { supportedPatterns, unsupportedPatterns, negatedPatterns }
-}
-
-function formatUnsupportedPatternDetails(patterns: string[]): string[] {
-  if (patterns.length === 0) {
-    return []
-  }
-
-  return [
-    'Unsupported workspace pattern(s) were not evaluated:',
-    ...patterns.map((pattern) => `- ${pattern}: pattern not supported by this check`),
-  ]
-}
-
-function formatNegatedPatternDetails(patterns: string[]): string {
-  return [
-    'Negated workspace pattern(s) are not supported by this check; internal dependency ranges were not evaluated.',
-    ...patterns.map((pattern) => `- ${pattern}: exclusion pattern not supported`),
-    'Remove negated workspace patterns or verify internal dependency ranges manually.',
-  ].join('\n')
-}
-
 function formatUnreadableManifestDetail(unreadableManifestCount: number): string | undefined {
   return unreadableManifestCount > 0
     ? `${unreadableManifestCount} manifest(s) unreadable; those packages were not evaluated.`
@@ -1363,35 +1146,14 @@ function formatUnreadableManifestDetail(unreadableManifestCount: number): string
 }
 
 function readWorkspacePatterns(deps: DoctorDeps): { patterns: string[]; error?: string } | null {
-  if (deps.existsSync('pnpm-workspace.yaml')) {
-    try {
-      const content = deps.readFileSync('pnpm-workspace.yaml', 'utf8') as string
-      return { patterns: parsePnpmWorkspaceYaml(content) }
-    } catch (error) {
-      const reason = error instanceof Error ? error.message : 'unknown parser error'
-      return {
-        patterns: [],
-        error: [
-          'pnpm-workspace.yaml could not be parsed; internal dependency ranges were not verified.',
-          reason,
-        ].join('\n'),
-      }
-    }
-  }
-
-  if (!deps.existsSync('package.json')) {
-    return null
-  }
-
   try {
-    const content = deps.readFileSync('package.json', 'utf8') as string
-    const patterns = parseWorkspacesFromPackageJson(content)
-    return patterns.length > 0 ? { patterns } : null
+    const config = readWorkspaceConfig('.', deps)
+    return config && { patterns: config.patterns }
   } catch (error) {
     return {
       patterns: [],
       error: [
-        'package.json workspaces field could not be read; internal dependency ranges were not verified.',
+        'Workspace configuration could not be parsed; internal dependency ranges were not verified.',
         error instanceof Error ? error.message : 'unknown parser error',
       ].join('\n'),
     }
@@ -1407,27 +1169,12 @@ function readWorkspacePackages(packageDirs: string[], deps: DoctorDeps): {
 
   for (const packageDir of packageDirs) {
     try {
-      const raw = deps.readFileSync(join(packageDir, 'package.json'), 'utf8') as string
-      const parsed = JSON.parse(raw) as unknown
-      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-        unreadableManifestCount += 1
-        continue
-      }
-
-      const pkg = parsed as Record<string, unknown>
-      if (typeof pkg.name !== 'string' || typeof pkg.version !== 'string') {
-        unreadableManifestCount += 1
-        continue
-      }
-      if (!isValidSemver(pkg.version)) {
+      const pkg = parseWorkspaceManifest(deps.readFileSync(join(packageDir, 'package.json'), 'utf8') as string)
+      if (pkg) {
+        packages.push(pkg)
+      } else {
         unreadableManifestCount += 1
-        continue
       }
-      packages.push({
-        name: pkg.name,
-        version: pkg.version,
-        dependencies: collectDependencyRanges(pkg),
-      })
     } catch {
       unreadableManifestCount += 1
     }
@@ -1460,59 +1207,29 @@ export function validateWorkspaceDependencyRanges(deps: DoctorDeps): CheckResult
     }
   }
 
-  const { supportedPatterns, unsupportedPatterns, negatedPatterns } = classifyWorkspacePatterns(patterns)
-  if (negatedPatterns.length > 0) {
-    return {
-      name: 'Workspace dependency ranges',
-      status: 'WARN',
-      value: 'not evaluated',
-      detail: formatNegatedPatternDetails(negatedPatterns),
-    }
-  }
-
   let packageDirs: string[]
   try {
-    packageDirs =
-      supportedPatterns.length > 0
-        ? resolvePackagePaths(supportedPatterns, deps.cwd(), {
-            existsSync: deps.existsSync,
-            readdirSync: deps.readdirSync,
-          })
-        : []
+    packageDirs = resolvePackagePaths(patterns, deps.cwd(), {
+      existsSync: deps.existsSync,
+      readdirSync: deps.readdirSync,
+    })
   } catch (error) {
     return {
       name: 'Workspace dependency ranges',
       status: 'WARN',
       value: 'not evaluated',
-      detail: [
-        error instanceof Error ? error.message : 'Could not resolve workspace package paths',
-        ...formatUnsupportedPatternDetails(unsupportedPatterns),
-      ].join('\n'),
+      detail: error instanceof Error ? error.message : 'Could not resolve workspace package paths',
     }
   }
 
   if (packageDirs.length === 0) {
-    if (unsupportedPatterns.length > 0) {
-      return {
-        name: 'Workspace dependency ranges',
-        status: 'WARN',
-        value: 'workspace ranges partially evaluated',
-        detail: [
-          supportedPatterns.length > 0
-            ? 'Supported workspace pattern(s) did not resolve any package directories; ranges were not evaluated.'
-            : 'No supported workspace patterns were available; ranges were not evaluated.',
-          ...formatUnsupportedPatternDetails(unsupportedPatterns),
-        ].join('\n'),
-      }
-    }
-
     return {
       name: 'Workspace dependency ranges',
       status: 'WARN',
       value: 'workspace packages not resolved — ranges not evaluated',
       detail: [
         'Declared workspace pattern(s) did not resolve any package directories.',
-        ...supportedPatterns.map((pattern) => `- ${pattern}`),
+        ...patterns.map((pattern) => `- ${pattern}`),
       ].join('\n'),
     }
   }
@@ -1526,7 +1243,6 @@ export function validateWorkspaceDependencyRanges(deps: DoctorDeps): CheckResult
       detail: [
         'Resolved workspace package path(s) did not contain readable, valid package.json manifests.',
         formatUnreadableManifestDetail(unreadableManifestCount),
-        ...formatUnsupportedPatternDetails(unsupportedPatterns),
       ].filter(Boolean).join('\n'),
     }
   }
@@ -1568,17 +1284,12 @@ export function validateWorkspaceDependencyRanges(deps: DoctorDeps): CheckResult
         staleRanges.length > 10 ? `- ...and ${staleRanges.length - 10} more` : '',
         'Update the range to include the current internal package version, or use the workspace: protocol.',
         formatUnreadableManifestDetail(unreadableManifestCount),
-        ...formatUnsupportedPatternDetails(unsupportedPatterns),
       ].filter(Boolean).join('\n'),
     }
   }
 
-  const partialEvaluationDetails = [
-    formatUnreadableManifestDetail(unreadableManifestCount),
-    ...formatUnsupportedPatternDetails(unsupportedPatterns),
-  ].filter(Boolean)
-
-  if (partialEvaluationDetails.length > 0) {
+  const unreadableManifestDetail = formatUnreadableManifestDetail(unreadableManifestCount)
+  if (unreadableManifestDetail) {
     return {
       name: 'Workspace dependency ranges',
       status: 'WARN',
@@ -1587,7 +1298,7 @@ export function validateWorkspaceDependencyRanges(deps: DoctorDeps): CheckResult
         internalRangeCount === 0
           ? 'No internal package dependencies were found in readable workspace manifests.'
           : `${coherentRangeCount}/${internalRangeCount} internal range(s) coherent in readable workspace manifests.`,
-        ...partialEvaluationDetails,
+        unreadableManifestDetail,
       ].join('\n'),
     }
   }
@@ -1640,7 +1351,8 @@ export function validateConfiguration(deps: DoctorDeps): ConfigurationSection {
     }
 
     if (content !== null) {
-      const hasKacHeader = /^# Changelog/m.test(content)
+      const changelog = parseChangelog(content)
+      const hasKacHeader = /^Changelog/.test(getChangelogTitle(changelog) ?? '')
     if (!hasKacHeader) {
       checks.push({
         name: 'Keep a Changelog format',
@@ -1652,8 +1364,8 @@ export function validateConfiguration(deps: DoctorDeps): ConfigurationSection {
       checks.push({ name: 'Keep a Changelog format', status: 'PASS', value: 'valid' })
     }
 
-    const unreleasedMatch = content.match(/## \[Unreleased\]([\s\S]*?)(?=## \[|$)/)
-    if (!unreleasedMatch) {
+    const unreleased = findUnreleasedRelease(changelog)
+    if (!unreleased) {
       checks.push({
         name: '[Unreleased] section',
         status: 'FAIL',
@@ -1661,9 +1373,7 @@ export function validateConfiguration(deps: DoctorDeps): ConfigurationSection {
         detail: 'Add "## [Unreleased]" section — run: release-it-preset update',
       })
     } else {
-      const unreleasedContent = unreleasedMatch[1].trim()
-      const hasChanges = /^-/m.test(unreleasedContent)
-      if (!unreleasedContent || !hasChanges) {
+      if (getReleaseEntries(unreleased).length === 0) {
         checks.push({
           name: '[Unreleased] section',
           status: 'WARN',
@@ -1842,11 +1552,16 @@ function highestMajorFromRange(range: string): number {
 }
 
 /**
- * Checks whether an installed version satisfies a simplified peer range.
- * Supports "^X.Y.Z || ^A.B.C" — checks that the installed major matches
+ * Checks whether an installed version satisfies the peer range. Ranges the
+ * evaluator cannot read fall back to matching the installed major against
  * any major present in the range.
  */
 function satisfiesPeerRange(version: string, range: string): boolean {
+  const evaluation = rangeIncludesVersion(range, version)
+  if (evaluation !== null) {
+    return evaluation
+  }
+
   const installedMajor = parseInt(version.replace(/^v/, '').split('.')[0], 10)
   const allowedMajors = Array.from(
     range.matchAll(/[~^]?(\d+)\.\d+\.\d+/g),
@@ -1863,6 +1578,7 @@ function satisfiesPeerRange(version: string, range: string): boolean {
 export function validateReleaseItPeer(deps: DoctorDeps): CheckResult[] {
   const results: CheckResult[] = []
   const peerRange = readPresetPeerRange(deps)
+  const installCommand = `${addDevCommand(deps)} release-it@^20`
 
   // --- Check A: release-it in supported peer range ---
   const lsOutput = safeExec('npm ls release-it --depth=0 --json', deps)
@@ -1871,7 +1587,7 @@ export function validateReleaseItPeer(deps: DoctorDeps): CheckResult[] {
       name: 'release-it peer dependency',
       status: 'FAIL',
       value: 'not found',
-      detail: 'release-it is not installed. Run: pnpm add -D release-it@^20',
+      detail: `release-it is not installed. Run: ${installCommand}`,
     })
   } else {
     let installedVersion: string | undefined
@@ -1889,14 +1605,14 @@ export function validateReleaseItPeer(deps: DoctorDeps): CheckResult[] {
         name: 'release-it peer dependency',
         status: 'FAIL',
         value: 'not found',
-        detail: 'release-it is not installed. Run: pnpm add -D release-it@^20',
+        detail: `release-it is not installed. Run: ${installCommand}`,
       })
     } else if (!satisfiesPeerRange(installedVersion, peerRange)) {
       results.push({
         name: 'release-it peer dependency',
         status: 'FAIL',
         value: installedVersion,
-        detail: `Installed release-it ${installedVersion} is outside the supported range (${peerRange}). Run: pnpm add -D release-it@^20`,
+        detail: `Installed release-it ${installedVersion} is outside the supported range (${peerRange}). Run: ${installCommand}`,
       })
     } else {
       results.push({
@@ -1916,7 +1632,7 @@ export function validateReleaseItPeer(deps: DoctorDeps): CheckResult[] {
     const supportedMaxMajor = highestMajorFromRange(peerRange)
 
     if (!Number.isNaN(latestMajor) && !Number.isNaN(supportedMaxMajor)) {
-      if (latestMajor > supportedMaxMajor) {
+      if (latestMajor > supportedMaxMajor && rangeIncludesVersion(peerRange, latestVersion) !== true) {
         results.push({
           name: 'release-it major version',
           status: 'WARN',
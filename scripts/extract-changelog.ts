@@ -5,6 +5,9 @@
  * This script reads CHANGELOG.md and extracts the section for a given version.
  * Used primarily for generating GitHub release notes.
  *
+ * Prerelease versions (e.g. 1.2.3-beta.2) without a block of their own fall
+ * back to [Unreleased], where the prerelease preset collects their entries.
+ *
  * Usage:
  *   tsx extract-changelog.ts <version>
  *
@@ -17,7 +20,13 @@
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { validateAndNormalizeSemver } from './lib/semver-utils.js';
-import { escapeRegExp } from './lib/string-utils.js';
+import {
+  findRelease,
+  findUnreleasedRelease,
+  isUnreleasedRelease,
+  parseChangelog,
+  renderReleaseBody,
+} from './lib/changelog-document.js';
 import { runScript } from './lib/run-script.js';
 
 export interface ExtractChangelogDeps {
@@ -34,28 +43,26 @@ export function extractChangelog(version: string, deps: ExtractChangelogDeps): s
   const changelogFile = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md';
   const changelogPath = join(deps.getCwd(), changelogFile);
 
-  const changelog = deps.readFileSync(changelogPath, 'utf8') as string;
-
-  const labelPattern = versionLabels.map(escapeRegExp).join('|');
-  const versionBlock = new RegExp(
-    `^(?<prefix>[^\n]*?##\\s*\\[?(?:${labelPattern})\\]?[^\n]*\r?\n)(?<content>[\\s\\S]*?)(?=^##\\s|^\\s*---\\s*$|$(?![\\s\\S]))`,
-    'm',
-  );
-
-  const match = changelog.match(versionBlock);
+  const changelog = parseChangelog(deps.readFileSync(changelogPath, 'utf8') as string);
+  const isPrerelease = normalizedVersion.split('+')[0].includes('-');
+  const release = findRelease(changelog, normalizedVersion)
+    ?? (isPrerelease ? findUnreleasedRelease(changelog) : null);
 
-  if (!match || !match.groups) {
+  if (!release) {
     const humanLabels = versionLabels.map((label) => `[${label}]`).join(' or ');
     throw new Error(`No ${humanLabels} section found in ${changelogFile}`);
   }
 
-  const versionContent = match.groups.content.trim();
+  const versionContent = renderReleaseBody(release).trim();
 
   if (!versionContent) {
     throw new Error(`No changelog entry found for ${tag}`);
   }
 
-  const entry = match[0].trim();
+  // The [Unreleased] heading means nothing in a prerelease's notes
+  const entry = isUnreleasedRelease(release)
+    ? versionContent
+    : `${release.heading}\n${renderReleaseBody(release)}`.trim();
   return `# Release ${tag}\n\n${entry}`;
 }
 
@@ -0,0 +1,163 @@
+#!/usr/bin/env tsx
+/**
+ * Create or update the GitLab release of an existing tag
+ *
+ * release-it's GitLab plugin can only create releases, so the presets that
+ * revisit a published version (republish, retry-publish) run this script
+ * from an after:release hook instead. It mirrors `github.update: true`:
+ * the release is updated when it exists and created otherwise.
+ *
+ * Notes come from the CHANGELOG entry of the version (see extract-changelog).
+ *
+ * Usage:
+ *   tsx gitlab-release.ts <version> [tag]
+ *
+ * The tag defaults to GIT_TAG_NAME applied to the version (`v<version>`
+ * without it); the hooks pass release-it's own `${tagName}`.
+ *
+ * Environment variables:
+ *   GITLAB_TOKEN   - Token with API scope (required)
+ *   CI_API_V4_URL  - GitLab API root (default: <repository host>/api/v4)
+ *   CI_PROJECT_ID  - Project id (default: repository path from the git remote)
+ *   CHANGELOG_FILE - Path to changelog file (default: CHANGELOG.md)
+ *   GIT_TAG_NAME   - Tag template (default: v${version})
+ */
+
+import type { ExecSyncOptions } from 'node:child_process'
+import { execSync } from 'node:child_process'
+import { readFileSync } from 'node:fs'
+import { extractChangelog } from './extract-changelog.js'
+import { ScriptError, ValidationError } from './lib/errors.js'
+import { releaseTagName, resolveForge } from './lib/forge.js'
+import { runScript } from './lib/run-script.js'
+import { validateAndNormalizeSemver } from './lib/semver-utils.js'
+
+export interface GitLabReleaseDeps {
+  fetch: typeof fetch
+  execSync: (command: string, options?: ExecSyncOptions) => Buffer | string
+  readFileSync: typeof readFileSync
+  getEnv: (key: string) => string | undefined
+  getCwd: () => string
+  log: (message: string) => void
+  warn: (message: string) => void
+}
+
+export type GitLabReleaseAction = 'created' | 'updated'
+
+function resolveProjectApiUrl(deps: GitLabReleaseDeps): string {
+  const apiUrl = deps.getEnv('CI_API_V4_URL')
+  const projectId = deps.getEnv('CI_PROJECT_ID')
+  if (apiUrl && projectId) {
+    return `${apiUrl.replace(/\/+$/, '')}/projects/${encodeURIComponent(projectId)}`
+  }
+
+  const forge = resolveForge({ execSync: deps.execSync, getEnv: deps.getEnv, warn: deps.warn })
+  if (!forge || !forge.repoPath) {
+    throw new ValidationError(
+      'Could not determine the GitLab project. Set CI_API_V4_URL and CI_PROJECT_ID or configure a GitLab origin remote.',
+    )
+  }
+
+  const root = apiUrl?.replace(/\/+$/, '') || `${new URL(forge.repoUrl).origin}/api/v4`
+  return `${root}/projects/${encodeURIComponent(projectId || forge.repoPath)}`
+}
+
+function releaseNotes(version: string, deps: GitLabReleaseDeps): string {
+  try {
+    return `${extractChangelog(version, deps)}\n`
+  } catch (error) {
+    deps.warn(`⚠️  Could not extract changelog entry: ${error instanceof Error ? error.message : String(error)}`)
+    return `# Release v${validateAndNormalizeSemver(version)}\n\nNo changelog entry available.\n`
+  }
+}
+
+async function request(
+  deps: GitLabReleaseDeps,
+  token: string,
+  method: string,
+  url: string,
+  body?: Record<string, string>,
+): Promise<Response> {
+  try {
+    return await deps.fetch(url, {
+      method,
+      headers: {
+        'Private-Token': token,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    })
+  } catch (error) {
+    throw new ScriptError(`GitLab API request failed: ${method} ${url}`, { cause: error })
+  }
+}
+
+async function ensureOk(response: Response, action: string): Promise<void> {
+  if (!response.ok) {
+    const detail = (await response.text()).trim()
+    throw new ScriptError(`Could not ${action} (HTTP ${response.status})${detail ? `: ${detail}` : ''}`)
+  }
+}
+
+export async function upsertGitLabRelease(
+  version: string,
+  deps: GitLabReleaseDeps,
+  tagName?: string,
+): Promise<GitLabReleaseAction> {
+  const normalizedVersion = validateAndNormalizeSemver(version)
+  const tag = tagName?.trim() || releaseTagName(normalizedVersion, deps.getEnv)
+
+  const token = deps.getEnv('GITLAB_TOKEN')
+  if (!token) {
+    throw new ValidationError('GITLAB_TOKEN is required to create or update a GitLab release')
+  }
+
+  const releasesUrl = `${resolveProjectApiUrl(deps)}/releases`
+  const releaseUrl = `${releasesUrl}/${encodeURIComponent(tag)}`
+  const fields = { name: `Release ${normalizedVersion}`, description: releaseNotes(version, deps) }
+
+  const existing = await request(deps, token, 'GET', releaseUrl)
+  if (existing.ok) {
+    await ensureOk(await request(deps, token, 'PUT', releaseUrl, fields), `update the GitLab release for ${tag}`)
+    deps.log(`✅ Updated GitLab release ${tag}`)
+    return 'updated'
+  }
+  if (existing.status !== 404) {
+    await ensureOk(existing, `look up the GitLab release for ${tag}`)
+  }
+
+  await ensureOk(
+    await request(deps, token, 'POST', releasesUrl, { tag_name: tag, ...fields }),
+    `create the GitLab release for ${tag}`,
+  )
+  deps.log(`✅ Created GitLab release ${tag}`)
+  return 'created'
+}
+
+/**
+ * CLI entry point - only runs when script is executed directly
+ */
+/* c8 ignore start */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void runScript({ error: console.error, exit: process.exit }, async () => {
+    const version = process.argv[2]
+    if (!version) {
+      throw new ValidationError('Usage: tsx scripts/gitlab-release.ts <version> [tag]')
+    }
+
+    await upsertGitLabRelease(
+      version,
+      {
+        fetch,
+        execSync,
+        readFileSync,
+        getEnv: (key: string) => process.env[key],
+        getCwd: () => process.cwd(),
+        log: console.log,
+        warn: console.warn,
+      },
+      process.argv[3],
+    )
+  })
+}
+/* c8 ignore end */
@@ -19,12 +19,13 @@ import { createInterface } from 'node:readline';
 import { join } from 'node:path';
 import { runScript } from './lib/run-script.js';
 import {
-  parsePnpmWorkspaceYaml,
-  parseWorkspacesFromPackageJson,
+  detectPackageManager,
+  PACKAGE_MANAGER_COMMANDS,
+  readWorkspaceConfig,
   resolvePackagePaths,
 } from './lib/workspace-detect.js';
 import { ValidationError } from './lib/errors.js';
-import { readWorkflowTemplate } from './lib/workflow-template.js';
+import { readWorkflowTemplate, renderWorkflowTemplate } from './lib/workflow-template.js';
 
 
 
@@ -209,7 +210,8 @@ export async function updatePackageJson(options: Options, deps: InitProjectDeps)
 
 
 /**
- * Write the GitHub Actions workflow file to .github/workflows/<name>.
+ * Write the GitHub Actions workflow file to .github/workflows/<name>, using the
+ * project's package manager for setup, install and binary runs.
  * Skips silently if the file already exists (existing skip-on-conflict policy).
  */
 export async function writeWorkflow(options: Options, deps: InitProjectDeps): Promise<boolean> {
@@ -242,38 +244,23 @@ export async function writeWorkflow(options: Options, deps: InitProjectDeps): Pr
     deps.mkdirSync(workflowDir, { recursive: true } as Parameters<typeof mkdirSync>[1]);
   }
 
-  deps.writeFileSync(workflowPath, templateContent);
+  const packageManager = detectPackageManager('.', deps);
+  deps.writeFileSync(workflowPath, renderWorkflowTemplate(templateContent, packageManager));
   deps.log(`✅ Created ${workflowPath}`);
   return true;
 }
 
 /**
- * Detect workspaces from pnpm-workspace.yaml or package.json#workspaces.
+ * Detect workspaces from pnpm-workspace.yaml, package.json#workspaces or lerna.json.
  * Returns resolved absolute package directory paths.
  * Returns empty array if no workspace config found.
  * Throws ValidationError if workspace patterns escape the project root.
  */
 export function detectWorkspaces(projectRoot: string, deps: InitProjectDeps): string[] {
-  const pnpmWorkspaceFile = join(projectRoot, 'pnpm-workspace.yaml');
-  const packageJsonFile = join(projectRoot, 'package.json');
-
-  let patterns: string[] = [];
-  let workspaceConfigExists = false;
-
-  if (deps.existsSync(pnpmWorkspaceFile)) {
-    workspaceConfigExists = true;
-    const content = deps.readFileSync(pnpmWorkspaceFile, 'utf8') as string;
-    patterns = parsePnpmWorkspaceYaml(content);
-  } else if (deps.existsSync(packageJsonFile)) {
-    const content = deps.readFileSync(packageJsonFile, 'utf8') as string;
-    patterns = parseWorkspacesFromPackageJson(content);
-    if (patterns.length > 0) {
-      workspaceConfigExists = true;
-    }
-  }
+  const config = readWorkspaceConfig(projectRoot, deps);
 
-  if (patterns.length === 0) {
-    if (workspaceConfigExists) {
+  if (!config || config.patterns.length === 0) {
+    if (config) {
       deps.warn(
         `ℹ️  Workspace config file found but no packages declared/resolved — ` +
         `treating as single-package init.`
@@ -282,7 +269,7 @@ export function detectWorkspaces(projectRoot: string, deps: InitProjectDeps): st
     return [];
   }
 
-  return resolvePackagePaths(patterns, projectRoot, deps);
+  return resolvePackagePaths(config.patterns, projectRoot, deps);
 }
 
 /**
@@ -328,6 +315,7 @@ export async function initProject(options: Options, deps: InitProjectDeps): Prom
   const projectRoot = process.cwd();
   const workspaceDirs = detectWorkspaces(projectRoot, deps);
   const isMonorepo = workspaceDirs.length > 0;
+  const commands = PACKAGE_MANAGER_COMMANDS[detectPackageManager(projectRoot, deps)];
 
   const results = {
     changelog: await createChangelog(options, deps),
@@ -363,11 +351,11 @@ export async function initProject(options: Options, deps: InitProjectDeps): Prom
     deps.log('   1. Review the generated files');
     deps.log('   2. Update CHANGELOG.md [Unreleased] section');
     if (isMonorepo) {
-      deps.log('   3. Release a package: pnpm -F <package-name> exec release-it-preset default --dry-run');
-      deps.log('      (use `pnpm -F <package-name> exec release-it-preset default` to release)');
+      deps.log(`   3. Release a package: ${commands.workspaceExec('<package-name>', 'release-it-preset default --dry-run')}`);
+      deps.log(`      (use \`${commands.workspaceExec('<package-name>', 'release-it-preset default')}\` to release)`);
       deps.log('   Note: per-package CHANGELOG.md is not auto-created — set CHANGELOG_FILE=../CHANGELOG.md per package, or run `release-it-preset update` from the root and copy entries manually.');
     } else {
-      deps.log('   3. Run: pnpm release-it-preset default --dry-run');
+      deps.log(`   3. Run: ${commands.exec} release-it-preset default --dry-run`);
     }
   } else {
     deps.log('\n✨ All files already exist, nothing to do!');
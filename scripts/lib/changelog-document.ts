@@ -0,0 +1,430 @@
+/**
+ * Keep a Changelog document model shared by every changelog script
+ *
+ * The document is a line-preserving tree: every node keeps its raw lines, so
+ * serializeChangelog(parseChangelog(text)) === text for any input. Scripts
+ * locate blocks through this module instead of ad-hoc regexes, which keeps
+ * every command agreeing on where a release block starts and stops.
+ */
+
+import { isValidSemver } from './semver-utils.js'
+
+export interface ChangelogEntryNode {
+  kind: 'entry'
+  // Bullet line followed by its indented continuation lines
+  lines: string[]
+}
+
+export interface ChangelogTextNode {
+  kind: 'text'
+  line: string
+}
+
+export type ChangelogItem = ChangelogEntryNode | ChangelogTextNode
+
+export interface ChangelogSection {
+  heading: string
+  name: string
+  items: ChangelogItem[]
+}
+
+export interface ChangelogReleaseBody {
+  // Items between the release heading and the first ### heading
+  intro: ChangelogItem[]
+  sections: ChangelogSection[]
+  // Lines from a `---` separator up to the next release heading
+  trailer: string[]
+}
+
+export interface ChangelogRelease extends ChangelogReleaseBody {
+  heading: string
+  label: string
+  // Normalized semver (no v prefix); null for [Unreleased] and non-version labels
+  version: string | null
+  date: string | null
+  yanked: boolean
+}
+
+export interface ChangelogLink {
+  label: string
+  url: string
+}
+
+export interface ChangelogDocument {
+  preamble: string[]
+  releases: ChangelogRelease[]
+  // Trailing reference-link definitions (and blank lines between/after them)
+  footer: string[]
+  eol: '\n' | '\r\n'
+  finalNewline: boolean
+}
+
+const RELEASE_HEADING_REGEX = /^##(?!#)\s*\S/
+const SECTION_HEADING_REGEX = /^###\s+(\S.*?)\s*$/
+const SEPARATOR_REGEX = /^\s*---\s*$/
+const BULLET_REGEX = /^[-*+]\s+\S/
+const CONTINUATION_REGEX = /^\s+\S/
+const LINK_DEFINITION_REGEX = /^\[([^\]]+)\]:(.*)$/
+const UNRELEASED_LABEL_REGEX = /^unreleased$/i
+
+function isBlank(line: string): boolean {
+  return line.trim() === ''
+}
+
+function parseReleaseHeading(heading: string): Pick<ChangelogRelease, 'label' | 'version' | 'date' | 'yanked'> {
+  const match = heading.match(/^##\s*(?:\[([^\]]*)\]|(\S+))(.*)$/)
+  const label = (match?.[1] ?? match?.[2] ?? '').trim()
+  const rest = match?.[3] ?? ''
+  const date = rest.match(/\b(\d{4}-\d{2}-\d{2})\b/)?.[1] ?? null
+
+  return {
+    label,
+    version: isValidSemver(label) ? label.replace(/^v/i, '') : null,
+    date,
+    yanked: /\[YANKED\]/i.test(rest),
+  }
+}
+
+function parseBodyLines(lines: string[]): ChangelogReleaseBody {
+  const body: ChangelogReleaseBody = { intro: [], sections: [], trailer: [] }
+  let inTrailer = false
+
+  for (const line of lines) {
+    if (inTrailer || SEPARATOR_REGEX.test(line)) {
+      inTrailer = true
+      body.trailer.push(line)
+      continue
+    }
+
+    const sectionMatch = line.match(SECTION_HEADING_REGEX)
+    if (sectionMatch) {
+      body.sections.push({ heading: line, name: sectionMatch[1], items: [] })
+      continue
+    }
+
+    const items = body.sections.length > 0 ? body.sections[body.sections.length - 1].items : body.intro
+    const lastItem = items[items.length - 1]
+
+    if (BULLET_REGEX.test(line)) {
+      items.push({ kind: 'entry', lines: [line] })
+    } else if (CONTINUATION_REGEX.test(line) && lastItem?.kind === 'entry') {
+      lastItem.lines.push(line)
+    } else {
+      items.push({ kind: 'text', line })
+    }
+  }
+
+  return body
+}
+
+function itemLines(items: ChangelogItem[]): string[] {
+  return items.flatMap(item => (item.kind === 'entry' ? item.lines : [item.line]))
+}
+
+function releaseBodyLines(release: ChangelogReleaseBody): string[] {
+  return [
+    ...itemLines(release.intro),
+    ...release.sections.flatMap(section => [section.heading, ...itemLines(section.items)]),
+  ]
+}
+
+function contentLines(document: ChangelogDocument): string[] {
+  return [
+    ...document.preamble,
+    ...document.releases.flatMap(release => [release.heading, ...releaseBodyLines(release), ...release.trailer]),
+  ]
+}
+
+/**
+ * Parse CHANGELOG text into a document tree.
+ *
+ * Line endings follow the first terminator found; a file mixing endings
+ * still round-trips because the other terminators stay inside line text.
+ */
+export function parseChangelog(content: string): ChangelogDocument {
+  const eol = content.match(/\r?\n/)?.[0] === '\r\n' ? '\r\n' : '\n'
+  const lines = content === '' ? [] : content.split(eol)
+  const finalNewline = lines.length > 0 && lines[lines.length - 1] === ''
+  if (finalNewline) {
+    lines.pop()
+  }
+
+  let footerStart = lines.length
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (LINK_DEFINITION_REGEX.test(lines[index])) {
+      footerStart = index
+    } else if (!isBlank(lines[index])) {
+      break
+    }
+  }
+
+  const document: ChangelogDocument = {
+    preamble: [],
+    releases: [],
+    footer: lines.slice(footerStart),
+    eol,
+    finalNewline,
+  }
+
+  let heading: string | null = null
+  let bodyLines: string[] = []
+  const flush = (): void => {
+    if (heading !== null) {
+      document.releases.push({ heading, ...parseReleaseHeading(heading), ...parseBodyLines(bodyLines) })
+    }
+  }
+
+  for (const line of lines.slice(0, footerStart)) {
+    if (RELEASE_HEADING_REGEX.test(line)) {
+      flush()
+      heading = line
+      bodyLines = []
+    } else if (heading === null) {
+      document.preamble.push(line)
+    } else {
+      bodyLines.push(line)
+    }
+  }
+  flush()
+
+  return document
+}
+
+/**
+ * Serialize a document back to text, using the document's line endings.
+ */
+export function serializeChangelog(document: ChangelogDocument): string {
+  const lines = [...contentLines(document), ...document.footer]
+  if (lines.length === 0) {
+    return ''
+  }
+  return `${lines.join(document.eol)}${document.finalNewline ? document.eol : ''}`
+}
+
+/**
+ * Parse the text between a release heading and the next one.
+ */
+export function parseReleaseBody(body: string): ChangelogReleaseBody {
+  return parseBodyLines(body === '' ? [] : body.split(/\r?\n/))
+}
+
+/**
+ * Render a release body (intro and sections, without the `---` trailer).
+ */
+export function renderReleaseBody(release: ChangelogReleaseBody, eol = '\n'): string {
+  return releaseBodyLines(release).join(eol)
+}
+
+/**
+ * Bullet text of an entry with continuation lines folded into one line.
+ */
+export function getEntryText(entry: ChangelogEntryNode): string {
+  return entry.lines
+    .map((line, index) => (index === 0 ? line.replace(/^[-*+]\s+/, '') : line).trim())
+    .join(' ')
+}
+
+/**
+ * All bullet entries of a release, intro first, then section by section.
+ */
+export function getReleaseEntries(release: ChangelogReleaseBody): ChangelogEntryNode[] {
+  return [release.intro, ...release.sections.map(section => section.items)]
+    .flat()
+    .filter((item): item is ChangelogEntryNode => item.kind === 'entry')
+}
+
+/**
+ * Text of the first `# ` heading in the preamble, or null.
+ */
+export function getChangelogTitle(document: ChangelogDocument): string | null {
+  const title = document.preamble.find(line => /^#\s+\S/.test(line))
+  return title ? title.replace(/^#\s+/, '').trim() : null
+}
+
+export function isUnreleasedRelease(release: ChangelogRelease): boolean {
+  return UNRELEASED_LABEL_REGEX.test(release.label)
+}
+
+export function findUnreleasedRelease(document: ChangelogDocument): ChangelogRelease | null {
+  return document.releases.find(isUnreleasedRelease) ?? null
+}
+
+/**
+ * Find a release block by version, accepting `v1.2.3` and `1.2.3` alike.
+ */
+export function findRelease(document: ChangelogDocument, version: string): ChangelogRelease | null {
+  const normalized = version.trim().replace(/^v/i, '')
+  return document.releases.find(release => release.version === normalized) ?? null
+}
+
+/**
+ * Build a release block from a heading line and body text (see replaceReleaseBody).
+ */
+export function createRelease(heading: string, body = ''): ChangelogRelease {
+  const release: ChangelogRelease = {
+    heading,
+    ...parseReleaseHeading(heading),
+    intro: [],
+    sections: [],
+    trailer: [],
+  }
+  replaceReleaseBody(release, body)
+  return release
+}
+
+/**
+ * Replace the body of a release with `body`, framed by one blank line on
+ * each side. An empty body leaves a single blank line under the heading.
+ * The `---` trailer, if any, is kept.
+ */
+export function replaceReleaseBody(release: ChangelogReleaseBody, body: string): void {
+  const trimmed = body.trim()
+  const parsed = parseBodyLines(trimmed ? ['', ...trimmed.split(/\r?\n/), ''] : [''])
+  release.intro = parsed.intro
+  release.sections = parsed.sections
+}
+
+/**
+ * Make sure a release block ends with a blank line so the next heading stays
+ * visually separated after blocks are moved around.
+ */
+export function ensureTrailingBlankLine(release: ChangelogRelease): void {
+  const lines = [release.heading, ...releaseBodyLines(release), ...release.trailer]
+  if (isBlank(lines[lines.length - 1])) {
+    return
+  }
+
+  if (release.trailer.length > 0) {
+    release.trailer.push('')
+  } else {
+    const lastSection = release.sections[release.sections.length - 1]
+    const items = lastSection ? lastSection.items : release.intro
+    items.push({ kind: 'text', line: '' })
+  }
+}
+
+/**
+ * Insert a release block at `index` (0 = first release, right after the preamble).
+ */
+export function insertRelease(document: ChangelogDocument, release: ChangelogRelease, index = 0): void {
+  const position = Math.max(0, Math.min(index, document.releases.length))
+  const wasEmpty = contentLines(document).length === 0 && document.footer.length === 0
+
+  if (position === 0 || document.releases.length === 0) {
+    const lastPreambleLine = document.preamble[document.preamble.length - 1]
+    if (lastPreambleLine !== undefined && !isBlank(lastPreambleLine)) {
+      document.preamble.push('')
+    }
+  }
+
+  document.releases.splice(position, 0, release)
+  if (wasEmpty) {
+    document.finalNewline = true
+  }
+}
+
+/**
+ * Return the [Unreleased] block, inserting an empty one before the first
+ * release when the document has none.
+ */
+export function ensureUnreleasedRelease(document: ChangelogDocument): ChangelogRelease {
+  const existing = findUnreleasedRelease(document)
+  if (existing) {
+    return existing
+  }
+
+  const release = createRelease('## [Unreleased]')
+  insertRelease(document, release, 0)
+  return release
+}
+
+export function listReferenceLinks(document: ChangelogDocument): ChangelogLink[] {
+  return document.footer.flatMap(line => {
+    const match = line.match(LINK_DEFINITION_REGEX)
+    return match ? [{ label: match[1], url: match[2].trim() }] : []
+  })
+}
+
+/**
+ * Point the `[label]:` reference link at `url`, rewriting every existing
+ * definition (labels compare case-insensitively) or appending a new one.
+ *
+ * @returns true when the link was added rather than rewritten
+ */
+export function setReferenceLink(document: ChangelogDocument, label: string, url: string): boolean {
+  const definition = `[${label}]: ${url}`
+  let found = false
+
+  document.footer = document.footer.map(line => {
+    const match = line.match(LINK_DEFINITION_REGEX)
+    if (match && match[1].toLowerCase() === label.toLowerCase()) {
+      found = true
+      return definition
+    }
+    return line
+  })
+
+  if (found) {
+    return false
+  }
+
+  let lastLinkIndex = -1
+  document.footer.forEach((line, index) => {
+    if (LINK_DEFINITION_REGEX.test(line)) {
+      lastLinkIndex = index
+    }
+  })
+
+  if (lastLinkIndex === -1) {
+    const content = contentLines(document)
+    const lastLine = content[content.length - 1]
+    const separator = lastLine !== undefined && !isBlank(lastLine) ? [''] : []
+    document.footer = [...separator, definition, ...document.footer]
+  } else {
+    document.footer.splice(lastLinkIndex + 1, 0, definition)
+  }
+
+  return true
+}
+
+/**
+ * Remove a reference-link definition from the footer; returns true when one was removed.
+ */
+export function removeReferenceLink(document: ChangelogDocument, label: string): boolean {
+  const before = document.footer.length
+  document.footer = document.footer.filter(line => {
+    const match = line.match(LINK_DEFINITION_REGEX)
+    return !match || match[1].toLowerCase() !== label.toLowerCase()
+  })
+  return document.footer.length !== before
+}
+
+/**
+ * Merge the entries of `sources` into `target`, section by section.
+ *
+ * Intro entries come first, then one `###` section per distinct name (matched
+ * case-insensitively, in first-seen order, target first). Sections left
+ * without entries are dropped.
+ */
+export function mergeReleaseBodies(target: ChangelogReleaseBody, sources: ChangelogReleaseBody[]): void {
+  const bodies = [target, ...sources]
+  const entryLines = (items: ChangelogItem[]) =>
+    items.flatMap(item => (item.kind === 'entry' ? item.lines : []))
+  const sections = new Map<string, { heading: string; lines: string[] }>()
+
+  for (const body of bodies) {
+    for (const section of body.sections) {
+      const key = section.name.toLowerCase()
+      const merged = sections.get(key) ?? { heading: section.heading, lines: [] }
+      merged.lines.push(...entryLines(section.items))
+      sections.set(key, merged)
+    }
+  }
+
+  const blocks = [
+    bodies.flatMap(body => entryLines(body.intro)),
+    ...[...sections.values()].map(section => (section.lines.length > 0 ? [section.heading, ...section.lines] : [])),
+  ].filter(block => block.length > 0)
+
+  replaceReleaseBody(target, blocks.map(block => block.join('\n')).join('\n\n'))
+}
@@ -0,0 +1,85 @@
+/**
+ * Commit scope → workspace package routing.
+ *
+ * `.changelog-scopes.json` (workspace root) maps commit scopes to the
+ * packages they belong to, so `update` can route a commit such as
+ * `feat(core): …` to `packages/core` even when it did not touch that
+ * directory:
+ *
+ *   { "core": "packages/core", "cli": ["@acme/cli", "packages/cli-utils"] }
+ *
+ * A package is given by its name or its workspace-relative directory.
+ */
+
+import type { readFileSync as ReadFileSyncFn } from 'node:fs';
+import { join } from 'node:path';
+import { CONVENTIONAL_COMMIT_REGEX, parseCommitMessage } from './commit-parser.js';
+
+/**
+ * Dependencies for loadScopePackageMap — follows the project DI pattern.
+ */
+export interface ChangelogScopeDeps {
+  readFileSync: typeof ReadFileSyncFn;
+  warn: (message: string) => void;
+}
+
+export const CHANGELOG_SCOPES_FILE = '.changelog-scopes.json';
+
+/**
+ * Load the scope → packages map of `.changelog-scopes.json` in `dir`.
+ *
+ * A missing file yields an empty map; an unreadable or invalid file → WARN
+ * + empty map.
+ *
+ * @returns Package names or directories per scope
+ */
+export function loadScopePackageMap(deps: ChangelogScopeDeps, dir = '.'): Record<string, string[]> {
+  const filePath = join(dir, CHANGELOG_SCOPES_FILE);
+  let content: string;
+  try {
+    content = deps.readFileSync(filePath, 'utf8') as string;
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    if (e?.code !== 'ENOENT') {
+      deps.warn(`Cannot read ${CHANGELOG_SCOPES_FILE}: ${e?.message ?? String(err)}. Scope routing is off.`);
+    }
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new TypeError('Scope map must be a plain object');
+    }
+    const map: Record<string, string[]> = {};
+    for (const [scope, value] of Object.entries(parsed as Record<string, unknown>)) {
+      const packages = typeof value === 'string' ? [value] : value;
+      if (!Array.isArray(packages) || packages.length === 0 || packages.some((pkg) => typeof pkg !== 'string' || !pkg)) {
+        throw new TypeError(
+          `Value for scope "${scope}" must be a package name or directory, or a non-empty array of them (got ${JSON.stringify(value)})`,
+        );
+      }
+      map[scope] = (packages as string[]).map((pkg) => pkg.replace(/^\.\//, '').replace(/\/+$/, ''));
+    }
+    return map;
+  } catch (err) {
+    deps.warn(`Invalid ${CHANGELOG_SCOPES_FILE}: ${(err as Error).message}. Scope routing is off.`);
+    return {};
+  }
+}
+
+/**
+ * Scopes of the conventional-commit headers of a commit message (its first
+ * paragraph), in order of appearance.
+ */
+export function extractCommitScopes(message: string): string[] {
+  const header = parseCommitMessage(message).headerLines.join('\n');
+  const scopes: string[] = [];
+  for (const match of header.matchAll(new RegExp(CONVENTIONAL_COMMIT_REGEX.source, 'gm'))) {
+    const scope = match[2]?.trim();
+    if (scope && !scopes.includes(scope)) {
+      scopes.push(scope);
+    }
+  }
+  return scopes;
+}
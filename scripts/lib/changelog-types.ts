@@ -7,6 +7,10 @@
  *   3. Built-in defaults below
  *
  * A value of `false` means "skip this type entirely" (no changelog entry).
+ *
+ * The file may also hold settings under reserved keys, which are not commit
+ * types: `scopes` configures scope grouping (see loadScopeGrouping) and
+ * `trackers` links issue keys of external trackers (see loadIssueTrackers).
  */
 
 import type { readFileSync as ReadFileSyncFn } from 'node:fs';
@@ -57,6 +61,9 @@ export const BUILTIN_TYPE_MAP: Record<string, string | false> = {
 
 const CHANGELOG_TYPES_FILE = '.changelog-types.json';
 
+/** Keys of .changelog-types.json that hold settings rather than commit types */
+const SETTING_KEYS = new Set(['scopes', 'trackers']);
+
 /**
  * Validate that every value in the map is either a string or false.
  * Throws on the first invalid entry.
@@ -74,6 +81,32 @@ function validateMapStructure(map: unknown): asserts map is Record<string, strin
   }
 }
 
+function withoutSettings(parsed: unknown): unknown {
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return parsed;
+  }
+  return Object.fromEntries(Object.entries(parsed).filter(([key]) => !SETTING_KEYS.has(key)));
+}
+
+/**
+ * Read .changelog-types.json, or undefined when it is missing. Other read
+ * errors are surfaced as a WARN.
+ */
+function readChangelogTypesFile(deps: ChangelogTypeDeps): string | undefined {
+  try {
+    return deps.readFileSync(CHANGELOG_TYPES_FILE, 'utf8') as string;
+  } catch (err) {
+    // ENOENT (file does not exist) is the expected case — silently skip.
+    // Other I/O errors (EACCES permission denied, EISDIR is a directory, etc.)
+    // are real problems and surfaced as a WARN so the user can investigate.
+    const e = err as NodeJS.ErrnoException;
+    if (e?.code !== 'ENOENT') {
+      deps.warn(`Cannot read ${CHANGELOG_TYPES_FILE}: ${e?.message ?? String(err)}. Skipping file override.`);
+    }
+    return undefined;
+  }
+}
+
 /**
  * Load the commit-type → CHANGELOG section mapping.
  *
@@ -88,23 +121,11 @@ export function loadChangelogTypeMap(deps: ChangelogTypeDeps): Record<string, st
   let resolved: Record<string, string | false> = { ...BUILTIN_TYPE_MAP };
 
   // Layer 1: project-level file override
-  let fileContent: string | undefined;
-  try {
-    fileContent = deps.readFileSync(CHANGELOG_TYPES_FILE, 'utf8') as string;
-  } catch (err) {
-    // ENOENT (file does not exist) is the expected case — silently skip.
-    // Other I/O errors (EACCES permission denied, EISDIR is a directory, etc.)
-    // are real problems and surfaced as a WARN so the user can investigate.
-    const e = err as NodeJS.ErrnoException;
-    if (e?.code !== 'ENOENT') {
-      deps.warn(`Cannot read ${CHANGELOG_TYPES_FILE}: ${e?.message ?? String(err)}. Skipping file override.`);
-    }
-    fileContent = undefined;
-  }
+  const fileContent = readChangelogTypesFile(deps);
 
   if (fileContent !== undefined) {
     try {
-      const parsed: unknown = JSON.parse(fileContent);
+      const parsed = withoutSettings(JSON.parse(fileContent));
       validateMapStructure(parsed);
       resolved = { ...resolved, ...parsed };
     } catch (err) {
@@ -130,3 +151,186 @@ export function loadChangelogTypeMap(deps: ChangelogTypeDeps): Record<string, st
 
   return resolved;
 }
+
+/**
+ * How generated entries are arranged by commit scope inside each section:
+ * `off` keeps commit order, `sort` orders entries by scope, `heading` nests
+ * them under `#### <scope>` sub-headings.
+ */
+export type ScopeGroupingMode = 'off' | 'sort' | 'heading';
+
+export interface ScopeGrouping {
+  mode: ScopeGroupingMode;
+  /** Display name of a scope (`api-client` → `API`) */
+  aliases: Record<string, string>;
+  /** Scopes whose entries are left out of the changelog (breaking changes excepted) */
+  hidden: string[];
+}
+
+export const DEFAULT_SCOPE_GROUPING: ScopeGrouping = { mode: 'off', aliases: {}, hidden: [] };
+
+function parseGroupingMode(value: unknown): ScopeGroupingMode {
+  if (value === true || value === 'true' || value === 'heading') {
+    return 'heading';
+  }
+  if (value === false || value === 'false' || value === 'off') {
+    return 'off';
+  }
+  if (value === 'sort') {
+    return 'sort';
+  }
+  throw new TypeError(`group: expected true, false, "heading" or "sort", got ${JSON.stringify(value)}`);
+}
+
+function parseAliases(value: unknown): Record<string, string> {
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    Object.values(value).some((alias) => typeof alias !== 'string')
+  ) {
+    throw new TypeError('aliases: expected an object of scope → display name strings');
+  }
+  return value as Record<string, string>;
+}
+
+function parseHidden(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((scope) => typeof scope !== 'string')) {
+    throw new TypeError('hidden: expected an array of scope strings');
+  }
+  return value as string[];
+}
+
+/**
+ * Load the scope grouping settings.
+ *
+ * Priority (highest wins, per setting):
+ *  1. CHANGELOG_GROUP_BY_SCOPE (`true`/`heading`, `sort`, `false`),
+ *     CHANGELOG_SCOPE_ALIASES (JSON object) and CHANGELOG_HIDDEN_SCOPES
+ *     (comma-separated) env vars
+ *  2. The `scopes` object of .changelog-types.json:
+ *     `{ "group": "heading", "aliases": { "api-client": "API" }, "hidden": ["deps"] }`
+ *  3. DEFAULT_SCOPE_GROUPING (no grouping)
+ *
+ * Invalid settings → WARN + ignore that setting.
+ */
+export function loadScopeGrouping(deps: ChangelogTypeDeps): ScopeGrouping {
+  const grouping: ScopeGrouping = { ...DEFAULT_SCOPE_GROUPING };
+
+  const fileContent = readChangelogTypesFile(deps);
+  let fileSettings: Record<string, unknown> = {};
+  if (fileContent !== undefined) {
+    try {
+      const scopes = (JSON.parse(fileContent) as Record<string, unknown> | null)?.scopes;
+      if (scopes !== undefined) {
+        if (typeof scopes !== 'object' || scopes === null || Array.isArray(scopes)) {
+          throw new TypeError('"scopes" must be an object');
+        }
+        fileSettings = scopes as Record<string, unknown>;
+      }
+    } catch (err) {
+      // Malformed JSON is already reported by loadChangelogTypeMap
+      if (!(err instanceof SyntaxError)) {
+        deps.warn(`Invalid ${CHANGELOG_TYPES_FILE}: ${(err as Error).message}. Scope grouping is off.`);
+      }
+    }
+  }
+
+  const apply = (source: string, value: unknown, set: (value: unknown) => void) => {
+    if (value === undefined || value === '') {
+      return;
+    }
+    try {
+      set(value);
+    } catch (err) {
+      deps.warn(`Invalid ${source}: ${(err as Error).message}. Ignoring it.`);
+    }
+  };
+
+  apply(`${CHANGELOG_TYPES_FILE} scopes.group`, fileSettings.group, (value) => {
+    grouping.mode = parseGroupingMode(value);
+  });
+  apply(`${CHANGELOG_TYPES_FILE} scopes.aliases`, fileSettings.aliases, (value) => {
+    grouping.aliases = parseAliases(value);
+  });
+  apply(`${CHANGELOG_TYPES_FILE} scopes.hidden`, fileSettings.hidden, (value) => {
+    grouping.hidden = parseHidden(value);
+  });
+  apply('CHANGELOG_GROUP_BY_SCOPE env var', deps.getEnv('CHANGELOG_GROUP_BY_SCOPE'), (value) => {
+    grouping.mode = parseGroupingMode(String(value).trim().toLowerCase());
+  });
+  apply('CHANGELOG_SCOPE_ALIASES env var', deps.getEnv('CHANGELOG_SCOPE_ALIASES'), (value) => {
+    grouping.aliases = { ...grouping.aliases, ...parseAliases(JSON.parse(String(value))) };
+  });
+  apply('CHANGELOG_HIDDEN_SCOPES env var', deps.getEnv('CHANGELOG_HIDDEN_SCOPES'), (value) => {
+    grouping.hidden = String(value).split(',').map((scope) => scope.trim()).filter(Boolean);
+  });
+
+  return grouping;
+}
+
+/**
+ * External issue tracker: footer references matching `pattern` (a whole
+ * token such as `JIRA-123`) link to `url`, where `$0` is the reference and
+ * `$1`… its capture groups.
+ */
+export interface IssueTracker {
+  pattern: RegExp;
+  url: string;
+}
+
+function parseTrackers(value: unknown): IssueTracker[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError('expected an object of reference pattern → URL template strings');
+  }
+  return Object.entries(value).map(([pattern, url]) => {
+    if (typeof url !== 'string' || !url.trim()) {
+      throw new TypeError(`URL template for "${pattern}" must be a non-empty string`);
+    }
+    try {
+      return { pattern: new RegExp(`^(?:${pattern})$`), url: url.trim() };
+    } catch (err) {
+      throw new TypeError(`"${pattern}" is not a valid regular expression (${(err as Error).message})`);
+    }
+  });
+}
+
+/**
+ * Load the external issue trackers.
+ *
+ * Priority (highest wins, per pattern):
+ *  1. CHANGELOG_ISSUE_TRACKERS env var (JSON object, merged on top of the file)
+ *  2. The `trackers` object of .changelog-types.json:
+ *     `{ "JIRA-\\d+": "https://jira.example.com/browse/$0" }`
+ *
+ * Invalid settings → WARN + ignore that layer.
+ */
+export function loadIssueTrackers(deps: ChangelogTypeDeps): IssueTracker[] {
+  const trackers = new Map<string, IssueTracker>();
+  const merge = (source: string, value: unknown) => {
+    if (value === undefined || value === '') {
+      return;
+    }
+    try {
+      for (const tracker of parseTrackers(typeof value === 'string' ? JSON.parse(value) : value)) {
+        trackers.set(tracker.pattern.source, tracker);
+      }
+    } catch (err) {
+      deps.warn(`Invalid ${source}: ${(err as Error).message}. Ignoring it.`);
+    }
+  };
+
+  const fileContent = readChangelogTypesFile(deps);
+  if (fileContent !== undefined) {
+    let fileTrackers: unknown;
+    try {
+      fileTrackers = (JSON.parse(fileContent) as Record<string, unknown> | null)?.trackers;
+    } catch {
+      // Malformed JSON is already reported by loadChangelogTypeMap
+    }
+    merge(`${CHANGELOG_TYPES_FILE} trackers`, fileTrackers);
+  }
+  merge('CHANGELOG_ISSUE_TRACKERS env var', deps.getEnv('CHANGELOG_ISSUE_TRACKERS'));
+
+  return [...trackers.values()];
+}
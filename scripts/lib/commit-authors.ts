@@ -0,0 +1,145 @@
+/**
+ * Commit author credits for generated changelog entries.
+ *
+ * Opt-in through two env vars:
+ *   CHANGELOG_AUTHORS=true       - entries end with `by @handle`
+ *   CHANGELOG_CONTRIBUTORS=true  - a `### Contributors` section lists the
+ *                                  authors whose first commit is in the range
+ *
+ * Handles are derived offline from forge noreply addresses
+ * (`123+alice@users.noreply.github.com` → `@alice`); other authors are
+ * credited by name. annotate credits the pull request author instead.
+ */
+
+import type { ExecSyncOptions } from 'node:child_process';
+import { commitUrl, type Forge } from './forge.js';
+
+export interface CommitAuthor {
+  sha: string;
+  email: string;
+  name: string;
+}
+
+export interface CommitAuthorDeps {
+  execSync: (command: string, options?: ExecSyncOptions) => Buffer | string;
+}
+
+export interface CreditOptions {
+  /** Credit each entry's author (CHANGELOG_AUTHORS) */
+  authors: boolean;
+  /** List first-time contributors (CHANGELOG_CONTRIBUTORS) */
+  contributors: boolean;
+}
+
+export const CONTRIBUTORS_SECTION = '### Contributors';
+
+const NOREPLY_PATTERNS = [
+  /^(?:\d+\+)?([A-Za-z0-9-]+(?:\[bot\])?)@users\.noreply\.github\.com$/i,
+  /^(?:\d+-)?([A-Za-z0-9_.-]+)@users\.noreply\.gitlab\.com$/i,
+];
+
+export function loadCreditOptions(getEnv: (key: string) => string | undefined): CreditOptions {
+  const enabled = (key: string) => getEnv(key)?.trim().toLowerCase() === 'true';
+  return { authors: enabled('CHANGELOG_AUTHORS'), contributors: enabled('CHANGELOG_CONTRIBUTORS') };
+}
+
+/**
+ * Forge handle of a noreply commit email, or null for any other address
+ */
+export function handleFromEmail(email: string): string | null {
+  for (const pattern of NOREPLY_PATTERNS) {
+    const handle = email.trim().match(pattern)?.[1];
+    if (handle) {
+      return handle;
+    }
+  }
+  return null;
+}
+
+/**
+ * `@handle` when the email reveals one, else the author name
+ */
+export function formatAuthor(author: Pick<CommitAuthor, 'email' | 'name'>): string {
+  const handle = handleFromEmail(author.email);
+  return handle ? `@${handle}` : author.name || author.email;
+}
+
+function isBot(author: CommitAuthor): boolean {
+  return /\[bot\]$/i.test(author.name) || /\[bot\]@/i.test(author.email);
+}
+
+/**
+ * Read the author of each commit with one `git log --no-walk`.
+ *
+ * @returns Authors in the order of `shas`; commits git does not know are left out
+ */
+export function readCommitAuthors(shas: string[], deps: CommitAuthorDeps): CommitAuthor[] {
+  if (shas.length === 0) {
+    return [];
+  }
+  let output: string;
+  try {
+    output = deps.execSync('git log --no-walk=unsorted --stdin --format="%H%x09%ae%x09%an"', {
+      encoding: 'utf8',
+      input: shas.join('\n'),
+    }) as string;
+  } catch {
+    return [];
+  }
+  return output
+    .split('\n')
+    .map((line) => line.split('\t'))
+    .filter(([sha, email]) => sha?.trim() && email !== undefined)
+    .map(([sha, email, ...name]) => ({ sha: sha.trim(), email: email.trim(), name: name.join('\t').trim() }));
+}
+
+/**
+ * Authors whose email has no commit up to `since`, each with their oldest
+ * commit of the range. Bots are left out.
+ *
+ * @param authors - Commit authors of the range, newest first (git log order)
+ * @param since - Baseline ref ('' = the range is the whole history)
+ * @returns First-time contributors, oldest first
+ */
+export function findFirstTimeContributors(
+  authors: CommitAuthor[],
+  since: string,
+  deps: CommitAuthorDeps,
+): CommitAuthor[] {
+  const previous = new Set<string>();
+  if (since) {
+    try {
+      const output = deps.execSync(`git log --format=%ae ${since}`, { encoding: 'utf8' }) as string;
+      for (const email of output.split('\n')) {
+        previous.add(email.trim().toLowerCase());
+      }
+    } catch {
+      // Unknown history: nobody can be called a first-time contributor
+      return [];
+    }
+  }
+
+  const firstCommits = new Map<string, CommitAuthor>();
+  for (const author of [...authors].reverse()) {
+    const email = author.email.toLowerCase();
+    if (!previous.has(email) && !firstCommits.has(email) && !isBot(author)) {
+      firstCommits.set(email, author);
+    }
+  }
+  return [...firstCommits.values()];
+}
+
+/**
+ * Render the `### Contributors` section, or '' without contributors
+ */
+export function renderContributorsSection(contributors: CommitAuthor[], forge: Forge | null): string {
+  if (contributors.length === 0) {
+    return '';
+  }
+  const lines = contributors.map((author) => {
+    const sha = author.sha.substring(0, 7);
+    const link = forge ? `[${sha}](${commitUrl(forge, sha)})` : sha;
+    return `- ${formatAuthor(author)} made their first contribution (${link})`;
+  });
+  return [CONTRIBUTORS_SECTION, ...lines].join('\n');
+}
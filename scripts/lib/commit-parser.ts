@@ -55,18 +55,20 @@ export function isStrictConventionalCommit(message: string): boolean {
   return STRICT_CONVENTIONAL_COMMIT_REGEX.test(message);
 }
 
+export interface ConventionalCommit {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  description: string;
+}
+
 /**
  * Extract conventional commit parts from a message
  *
  * @param message Commit message
  * @returns Parsed parts or null if not conventional
  */
-export function parseConventionalCommit(message: string): {
-  type: string;
-  scope?: string;
-  breaking: boolean;
-  description: string;
-} | null {
+export function parseConventionalCommit(message: string): ConventionalCommit | null {
   const match = message.match(CONVENTIONAL_COMMIT_REGEX);
 
   if (!match) {
@@ -82,3 +84,164 @@ export function parseConventionalCommit(message: string): {
     description: description.trim(),
   };
 }
+
+/**
+ * One footer of a commit message (Conventional Commits 1.0.0 §8-§10), git
+ * trailers such as `Signed-off-by` and `Co-authored-by` included
+ */
+export interface CommitFooter {
+  /** `BREAKING CHANGE`, or a word token using `-` for spaces (`Reviewed-by`) */
+  token: string;
+  /** `: ` (`Refs: #12`) or ` #` (`Closes #12`) */
+  separator: ': ' | ' #';
+  /** Value as written after the separator, continuation lines joined with `\n` */
+  value: string;
+}
+
+export interface ParsedCommitMessage {
+  /** First line of the message */
+  header: string;
+  /**
+   * First paragraph: the header plus the lines right below it, which list
+   * further changes in multi-prefix commits (`feat: x\nfix: y`)
+   */
+  headerLines: string[];
+  /** Conventional parts of the header, or null when it is not conventional */
+  conventional: ConventionalCommit | null;
+  /** Text between the header and the footers ('' when none) */
+  body: string;
+  /** Footers in order of appearance */
+  footers: CommitFooter[];
+  /** A `!` in the header or a BREAKING CHANGE footer */
+  breaking: boolean;
+}
+
+/** A line starting with `BREAKING CHANGE:` in any case */
+export interface BreakingChangeLine {
+  /** Token as written (`BREAKING CHANGE`, `breaking-change`) */
+  token: string;
+  /** parseCommitMessage reads the line as a BREAKING CHANGE footer */
+  footer: boolean;
+}
+
+interface MessageParts {
+  headerLines: string[];
+  bodyParagraphs: string[];
+  footerLines: string[];
+}
+
+// `BREAKING CHANGE` is the only token with a space; `: ` may end the line
+// when the value starts on the next one
+const FOOTER_LINE_REGEX = /^(BREAKING CHANGE|[A-Za-z0-9][\w-]*)(:(?:[ \t]+|$)| #)(.*)$/;
+const PARAGRAPH_SEPARATOR_REGEX = /\r?\n[ \t]*\r?\n/;
+// Added by `git cherry-pick -x` after the message; not part of any footer
+const CHERRY_PICK_LINE_REGEX = /^\(cherry picked from commit [0-9a-f]{7,40}\)[ \t]*$/i;
+const BREAKING_CHANGE_TOKEN_REGEX = /^BREAKING[- ]CHANGE$/i;
+const BREAKING_CHANGE_LINE_REGEX = /^(BREAKING[- ]CHANGE):/i;
+
+/** A line that starts a footer (`Token: value` / `Token #value`) */
+export function isFooterLine(line: string): boolean {
+  return FOOTER_LINE_REGEX.test(line);
+}
+
+export function isBreakingChangeFooter(footer: CommitFooter): boolean {
+  return footer.token === 'BREAKING CHANGE' || footer.token === 'BREAKING-CHANGE';
+}
+
+/**
+ * `BREAKING CHANGE` or `BREAKING-CHANGE` in any case. Only the upper-case
+ * spelling makes a BREAKING CHANGE footer.
+ */
+export function isBreakingChangeToken(token: string): boolean {
+  return BREAKING_CHANGE_TOKEN_REGEX.test(token);
+}
+
+function splitMessage(message: string): MessageParts {
+  const paragraphs = message
+    .split(/\r?\n/)
+    .filter((line) => !CHERRY_PICK_LINE_REGEX.test(line.trim()))
+    .join('\n')
+    .trim()
+    .split(PARAGRAPH_SEPARATOR_REGEX);
+
+  const headerLines = (paragraphs[0] ?? '').split('\n').map((line) => line.trim());
+  const bodyParagraphs = [headerLines.slice(1).join('\n'), ...paragraphs.slice(1)];
+
+  let footerLines: string[] = [];
+  if (paragraphs.length > 1) {
+    const lastLines = (bodyParagraphs.pop() ?? '').split('\n');
+    const footerStart = lastLines.findIndex(isFooterLine);
+    if (footerStart === -1) {
+      bodyParagraphs.push(lastLines.join('\n'));
+    } else {
+      bodyParagraphs.push(lastLines.slice(0, footerStart).join('\n'));
+      footerLines = lastLines.slice(footerStart);
+    }
+  }
+
+  return { headerLines, bodyParagraphs, footerLines };
+}
+
+/**
+ * Footer lines of a message as parseCommitMessage reads them: the last
+ * paragraph from its first footer on, continuation lines included
+ */
+export function findFooterLines(message: string): string[] {
+  return splitMessage(message).footerLines;
+}
+
+/**
+ * Every line of a message that starts with `BREAKING CHANGE:` in any case,
+ * flagged when parseCommitMessage reads it as a BREAKING CHANGE footer.
+ * Lines that are not are body text: above the footer paragraph, or not
+ * written in upper case.
+ */
+export function findBreakingChangeLines(message: string): BreakingChangeLine[] {
+  const { headerLines, bodyParagraphs, footerLines } = splitMessage(message);
+  const bodyLines = [headerLines[0] ?? '', ...bodyParagraphs.flatMap((paragraph) => paragraph.split('\n'))];
+  const breakingLines = (lines: string[], inFooters: boolean) =>
+    lines.flatMap((line) => {
+      const token = line.match(BREAKING_CHANGE_LINE_REGEX)?.[1];
+      return token ? [{ token, footer: inFooters && isFooterLine(line) && token === token.toUpperCase() }] : [];
+    });
+  return [...breakingLines(bodyLines, false), ...breakingLines(footerLines, true)];
+}
+
+/**
+ * Parse a full commit message into header, body and footers.
+ *
+ * Footers are read from the last paragraph, when the message has more than
+ * one: they start at its first `Token: value` / `Token #value` line (lines
+ * before it belong to the body), and a line that starts no new footer
+ * continues the value of the previous one. A `BREAKING CHANGE:` right below
+ * the header, with no blank line in between, is body text.
+ */
+export function parseCommitMessage(message: string): ParsedCommitMessage {
+  const { headerLines, bodyParagraphs, footerLines } = splitMessage(message);
+  const header = headerLines[0] ?? '';
+
+  const footers: CommitFooter[] = [];
+  for (const line of footerLines) {
+    const match = line.match(FOOTER_LINE_REGEX);
+    if (match) {
+      footers.push({ token: match[1], separator: match[2] === ' #' ? ' #' : ': ', value: match[3] });
+    } else {
+      const footer = footers[footers.length - 1];
+      footer.value = footer.value ? `${footer.value}\n${line}` : line;
+    }
+  }
+
+  for (const footer of footers) {
+    footer.value = footer.value.trim();
+  }
+
+  const conventional = parseConventionalCommit(header);
+  return {
+    header,
+    headerLines: headerLines.filter(Boolean),
+    conventional,
+    body: bodyParagraphs.filter((paragraph) => paragraph.trim()).join('\n\n').trim(),
+    footers,
+    breaking: Boolean(conventional?.breaking) || footers.some(isBreakingChangeFooter),
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Git forge detection and link formats
+ *
+ * Commit, compare and tag/release URLs differ between forges. The forge is
+ * detected from the repository URL (see getRepoUrl), with two overrides for
+ * self-hosted instances whose hostname gives nothing away:
+ *
+ * - GIT_FORGE: github | gitlab | gitea | forgejo | bitbucket | generic
+ * - CI_PROJECT_URL: set by GitLab CI; a repository on the same host is GitLab
+ */
+
+import { ValidationError } from './errors.js'
+import { type GitDeps, getRepoUrl } from './git-utils.js'
+
+export type ForgeKind = 'github' | 'gitlab' | 'gitea' | 'bitbucket' | 'generic'
+
+export interface Forge {
+  kind: ForgeKind
+  /** Repository web URL without trailing slash (e.g. https://gitlab.com/group/project) */
+  repoUrl: string
+  /** Repository path on the host (e.g. group/subgroup/project) */
+  repoPath: string
+}
+
+export interface ReleaseLinks {
+  tag: string
+  unreleased: string
+}
+
+interface ForgeLinkFormat {
+  commit: (repoUrl: string, sha: string) => string
+  compare: (repoUrl: string, from: string, to: string) => string
+  tag: (repoUrl: string, tag: string) => string
+  issue?: (repoUrl: string, issue: string) => string
+}
+
+const FORGE_LINKS = {
+  // GitHub tag links land on the release page, which falls back to the tag
+  github: {
+    commit: (repoUrl, sha) => `${repoUrl}/commit/${sha}`,
+    compare: (repoUrl, from, to) => `${repoUrl}/compare/${from}...${to}`,
+    tag: (repoUrl, tag) => `${repoUrl}/releases/tag/${tag}`,
+    issue: (repoUrl, issue) => `${repoUrl}/issues/${issue}`,
+  },
+  gitlab: {
+    commit: (repoUrl, sha) => `${repoUrl}/-/commit/${sha}`,
+    compare: (repoUrl, from, to) => `${repoUrl}/-/compare/${from}...${to}`,
+    tag: (repoUrl, tag) => `${repoUrl}/-/tags/${tag}`,
+    issue: (repoUrl, issue) => `${repoUrl}/-/issues/${issue}`,
+  },
+  gitea: {
+    commit: (repoUrl, sha) => `${repoUrl}/commit/${sha}`,
+    compare: (repoUrl, from, to) => `${repoUrl}/compare/${from}...${to}`,
+    tag: (repoUrl, tag) => `${repoUrl}/src/tag/${tag}`,
+    issue: (repoUrl, issue) => `${repoUrl}/issues/${issue}`,
+  },
+  // Bitbucket's compare view takes the newer ref first
+  bitbucket: {
+    commit: (repoUrl, sha) => `${repoUrl}/commits/${sha}`,
+    compare: (repoUrl, from, to) => `${repoUrl}/branches/compare/${to}%0D${from}`,
+    tag: (repoUrl, tag) => `${repoUrl}/src/${tag}`,
+    issue: (repoUrl, issue) => `${repoUrl}/issues/${issue}`,
+  },
+  // Unknown host: commit links follow the most common layout, everything
+  // else points at the repository itself rather than guessing (issues are
+  // left unlinked)
+  generic: {
+    commit: (repoUrl, sha) => `${repoUrl}/commit/${sha}`,
+    compare: repoUrl => repoUrl,
+    tag: repoUrl => repoUrl,
+  },
+} satisfies Record<ForgeKind, ForgeLinkFormat>
+
+const FORGE_ALIASES: Record<string, ForgeKind> = {
+  github: 'github',
+  gitlab: 'gitlab',
+  gitea: 'gitea',
+  forgejo: 'gitea',
+  bitbucket: 'bitbucket',
+  generic: 'generic',
+}
+
+const HOST_PATTERNS: Array<[RegExp, ForgeKind]> = [
+  [/github/, 'github'],
+  [/gitlab/, 'gitlab'],
+  [/bitbucket/, 'bitbucket'],
+  [/^codeberg\.org$|gitea|forgejo/, 'gitea'],
+]
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url)
+  } catch {
+    return null
+  }
+}
+
+function detectForgeKind(repoUrl: string, getEnv: (key: string) => string | undefined): ForgeKind {
+  const override = getEnv('GIT_FORGE')?.trim().toLowerCase()
+  if (override) {
+    const kind = FORGE_ALIASES[override]
+    if (!kind) {
+      throw new ValidationError(
+        `Invalid GIT_FORGE "${override}": expected one of ${Object.keys(FORGE_ALIASES).join(', ')}`,
+      )
+    }
+    return kind
+  }
+
+  // Self-hosted instances: the CI server URL names the forge of its own host
+  // (GitHub Enterprise runners set GITHUB_SERVER_URL, GitLab CI CI_PROJECT_URL)
+  const host = parseUrl(repoUrl)?.hostname.toLowerCase() ?? ''
+  const isCiHost = (key: string) => {
+    const url = getEnv(key)
+    return Boolean(host && url && parseUrl(url)?.hostname.toLowerCase() === host)
+  }
+  if (isCiHost('CI_PROJECT_URL')) {
+    return 'gitlab'
+  }
+  if (isCiHost('GITHUB_SERVER_URL')) {
+    return 'github'
+  }
+
+  return HOST_PATTERNS.find(([pattern]) => pattern.test(host))?.[1] ?? 'generic'
+}
+
+/**
+ * Detect the forge hosting a repository URL
+ *
+ * @param repoUrl Repository web URL (see getRepoUrl)
+ * @param getEnv Environment lookup for the GIT_FORGE / CI_PROJECT_URL / GITHUB_SERVER_URL overrides
+ * @throws ValidationError when GIT_FORGE names an unknown forge
+ */
+export function detectForge(
+  repoUrl: string,
+  getEnv: (key: string) => string | undefined = () => undefined,
+): Forge {
+  const url = repoUrl.trim().replace(/\/+$/, '')
+  const repoPath = parseUrl(url)?.pathname.replace(/^\/+|\/+$/g, '') ?? ''
+  return { kind: detectForgeKind(url, getEnv), repoUrl: url, repoPath }
+}
+
+/**
+ * Resolve the repository URL and detect its forge
+ *
+ * @returns The forge, or null when no repository URL can be determined
+ */
+export function resolveForge(deps: GitDeps): Forge | null {
+  const repoUrl = getRepoUrl(deps)
+  return repoUrl ? detectForge(repoUrl, deps.getEnv) : null
+}
+
+export function commitUrl(forge: Forge, sha: string): string {
+  return FORGE_LINKS[forge.kind].commit(forge.repoUrl, sha)
+}
+
+export function compareUrl(forge: Forge, from: string, to: string): string {
+  return FORGE_LINKS[forge.kind].compare(forge.repoUrl, from, to)
+}
+
+export function tagUrl(forge: Forge, tag: string): string {
+  return FORGE_LINKS[forge.kind].tag(forge.repoUrl, tag)
+}
+
+/**
+ * Git tag of a release, from the GIT_TAG_NAME template the release-it
+ * config tags with (default `v${version}`, `<pkg>@${version}` for workspace
+ * releases)
+ */
+export function releaseTagName(version: string, getEnv: (key: string) => string | undefined): string {
+  const template = getEnv('GIT_TAG_NAME') || 'v${version}'
+  return template.replace(/\$\{version\}/g, version)
+}
+
+/**
+ * Link to an issue of the repository, or of another repository on the same
+ * host (`repoPath`, e.g. `owner/other` for `owner/other#12`)
+ *
+ * @returns The issue URL, or null when the forge has no known issue layout
+ */
+export function issueUrl(forge: Forge, issue: string, repoPath = forge.repoPath): string | null {
+  const format = FORGE_LINKS[forge.kind] as ForgeLinkFormat
+  if (!format.issue) {
+    return null
+  }
+  const hostUrl = forge.repoUrl.slice(0, forge.repoUrl.length - forge.repoPath.length).replace(/\/+$/, '')
+  return format.issue(repoPath === forge.repoPath ? forge.repoUrl : `${hostUrl}/${repoPath}`, issue)
+}
+
+/**
+ * Build CHANGELOG reference-link targets for a release tag
+ *
+ * @param forge Detected forge, or null when the repository URL is unknown
+ * @param tag Git tag of the release (e.g. v1.2.3)
+ */
+export function buildReleaseLinks(forge: Forge | null, tag: string): ReleaseLinks {
+  if (!forge) {
+    return { tag: '', unreleased: '' }
+  }
+  return {
+    tag: tagUrl(forge, tag),
+    unreleased: compareUrl(forge, tag, 'HEAD'),
+  }
+}
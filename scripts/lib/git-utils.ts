@@ -11,27 +11,53 @@ export interface GitDeps {
 }
 
 /**
- * Get GitHub repository URL for commit/tag links
+ * Normalize a git remote URL to the repository's https web URL
+ *
+ * Handles scp-like (`git@host:owner/repo.git`), ssh:// and git:// remotes,
+ * and strips credentials embedded in http(s) remotes so tokens never end up
+ * in generated links.
+ */
+export function normalizeRemoteUrl(remoteUrl: string): string {
+  const trimmed = remoteUrl.trim();
+  const scpLike = trimmed.match(/^(?:[^@\s/]+@)?([^:\s/]+):(?!\/\/)(.+)$/);
+
+  const url = scpLike
+    ? `https://${scpLike[1]}/${scpLike[2]}`
+    : trimmed
+      .replace(/^(?:ssh|git|git\+ssh):\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\//, 'https://$1/')
+      .replace(/^(https?:\/\/)[^@/]+@/, '$1');
+
+  return url.replace(/\/+$/, '').replace(/\.git$/, '');
+}
+
+/**
+ * Get the repository web URL for commit/tag links
  *
  * Priority:
- * 1. GITHUB_REPOSITORY environment variable (format: owner/repo)
- * 2. Git remote URL (extracted from git config)
+ * 1. GITHUB_REPOSITORY environment variable (format: owner/repo), on
+ *    GITHUB_SERVER_URL when set (GitHub Enterprise)
+ * 2. CI_PROJECT_URL environment variable (set by GitLab CI)
+ * 3. Git remote URL (extracted from git config), normalized to https
  *
  * @param deps Dependencies for git operations
  * @returns Repository URL or empty string if not determinable
  */
-export function getGitHubRepoUrl(deps: GitDeps): string {
+export function getRepoUrl(deps: GitDeps): string {
   const githubRepo = deps.getEnv('GITHUB_REPOSITORY');
   if (githubRepo) {
-    return `https://github.com/${githubRepo}`;
+    const serverUrl = (deps.getEnv('GITHUB_SERVER_URL') || 'https://github.com').replace(/\/+$/, '');
+    return `${serverUrl}/${githubRepo}`;
+  }
+
+  const gitlabProjectUrl = deps.getEnv('CI_PROJECT_URL');
+  if (gitlabProjectUrl) {
+    return gitlabProjectUrl.trim().replace(/\/+$/, '');
   }
 
   try {
     const remote = deps.getEnv('GIT_REMOTE') || 'origin';
     const remoteUrl = (deps.execSync(`git config --get remote.${remote}.url`, { encoding: 'utf8' }) as string).trim();
-    return remoteUrl
-      .replace(/^git@github\.com:/, 'https://github.com/')
-      .replace(/\.git$/, '');
+    return normalizeRemoteUrl(remoteUrl);
   } catch (error) {
     if (deps.warn) {
       deps.warn('⚠️  Could not determine repository URL. Links will not be generated.');
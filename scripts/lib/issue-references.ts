@@ -0,0 +1,120 @@
+/**
+ * Issue references of commit footers.
+ *
+ * The footers of a commit name the issues it resolves or relates to
+ * (`Closes #12`, `Fixes: #34, #35`, `Refs: JIRA-123`). Generated entries
+ * list them after their commit links:
+ *
+ *   - fix the crash ([abc1234](…)), closes [#12](…), refs [JIRA-123](…)
+ *
+ * `#N` and `owner/repo#N` link to the forge's issues; other keys link
+ * through the configured trackers (see loadIssueTrackers).
+ */
+
+import type { IssueTracker } from './changelog-types.js';
+import type { ParsedCommitMessage } from './commit-parser.js';
+import { type Forge, issueUrl } from './forge.js';
+
+export interface IssueReference {
+  /** Reference as written (`#12`, `owner/repo#12`, `JIRA-123`) */
+  id: string;
+  url: string | null;
+  /** Named by a closing keyword (Closes, Fixes, Resolves) rather than a mention (Refs, See) */
+  closes: boolean;
+}
+
+const CLOSING_KEYWORDS = ['close', 'closes', 'closed', 'fix', 'fixes', 'fixed', 'resolve', 'resolves', 'resolved'];
+const MENTION_KEYWORDS = ['ref', 'refs', 'references', 'see', 'related', 'related-to', 'part-of'];
+
+const SUFFIX_ITEM = String.raw`(?:\[[^\]]+\]\([^)\s]*\)|[^\s,()[\]]+)`;
+const ISSUE_SUFFIX_REGEX = new RegExp(
+  String.raw`(\)),\s+(?:closes|refs)\s+${SUFFIX_ITEM}(?:,\s+(?:(?:closes|refs)\s+)?${SUFFIX_ITEM})*\s*$`,
+);
+
+function resolveReference(id: string, forge: Forge | null, trackers: IssueTracker[]): string | null | undefined {
+  const local = id.match(/^#(\d+)$/);
+  if (local) {
+    return forge ? issueUrl(forge, local[1]) : null;
+  }
+  const crossRepo = id.match(/^([\w.-]+(?:\/[\w.-]+)+)#(\d+)$/);
+  if (crossRepo) {
+    return forge ? issueUrl(forge, crossRepo[2], crossRepo[1]) : null;
+  }
+  for (const tracker of trackers) {
+    const match = id.match(tracker.pattern);
+    if (match) {
+      return tracker.url.replace(/\$(\d)/g, (_, group: string) => match[Number(group)] ?? '');
+    }
+  }
+  // Not an issue reference
+  return undefined;
+}
+
+/**
+ * Issue references of a commit message's footers, in order of appearance.
+ *
+ * Values that are neither `#N`, `path/to/repo#N` nor a tracker key are
+ * ignored.
+ */
+export function extractIssueReferences(
+  message: ParsedCommitMessage,
+  forge: Forge | null,
+  trackers: IssueTracker[] = [],
+): IssueReference[] {
+  const references: IssueReference[] = [];
+  for (const footer of message.footers) {
+    const keyword = footer.token.toLowerCase();
+    if (!CLOSING_KEYWORDS.includes(keyword) && !MENTION_KEYWORDS.includes(keyword)) {
+      continue;
+    }
+    const closes = CLOSING_KEYWORDS.includes(keyword);
+    // `Closes #12, #13`: the ` #` separator holds the first reference's `#`
+    const values = footer.separator === ' #' ? `#${footer.value}` : footer.value;
+    for (const token of values.split(/[\s,]+/)) {
+      const id = token.replace(/[.;:]+$/, '');
+      const url = id ? resolveReference(id, forge, trackers) : undefined;
+      if (url !== undefined) {
+        references.push({ id, url, closes });
+      }
+    }
+  }
+  return mergeIssueReferences(references);
+}
+
+/**
+ * Merge reference lists, first occurrence first. A reference both closed
+ * and mentioned is listed as closed.
+ */
+export function mergeIssueReferences(...lists: IssueReference[][]): IssueReference[] {
+  const merged = new Map<string, IssueReference>();
+  for (const reference of lists.flat()) {
+    const existing = merged.get(reference.id);
+    merged.set(reference.id, existing ? { ...existing, closes: existing.closes || reference.closes } : reference);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Render the `, closes …, refs …` suffix of an entry, or '' without
+ * references
+ */
+export function renderIssueSuffix(references: IssueReference[]): string {
+  const format = (reference: IssueReference) =>
+    reference.url ? `[${reference.id}](${reference.url})` : reference.id;
+  const groups = [
+    ['closes', references.filter((reference) => reference.closes)],
+    ['refs', references.filter((reference) => !reference.closes)],
+  ] as const;
+  return groups
+    .filter(([, group]) => group.length > 0)
+    .map(([keyword, group]) => `, ${keyword} ${group.map(format).join(', ')}`)
+    .join('');
+}
+
+/**
+ * Remove the issue suffix that follows an entry's trailing reference, so
+ * the reference can be read again
+ */
+export function stripIssueSuffix(text: string): string {
+  return text.replace(ISSUE_SUFFIX_REGEX, '$1');
+}
@@ -0,0 +1,503 @@
+/**
+ * Pull request lookup providers for annotate
+ *
+ * Each forge answers two questions: "which merged pull request is number N"
+ * and "which merged pull request brought in commit <sha>". Unmerged pull
+ * requests are never returned: an open PR body is not release history.
+ *
+ * - GitHub: the gh CLI. Lookups are batched into `gh api graphql` queries
+ *   up front; anything a batch could not answer falls back to one
+ *   `gh pr view` / `gh api repos/.../commits/<sha>/pulls` call per item.
+ * - GitLab: the glab CLI (`glab api projects/.../merge_requests`)
+ * - Fixtures: an offline JSON file, for sandboxed runs and tests. A live
+ *   run can record one (annotate --export) for later replay (--from-file).
+ */
+
+import type { ExecSyncOptions } from 'node:child_process'
+import { ChangelogError, ValidationError } from './errors.js'
+import type { Forge } from './forge.js'
+
+export interface PullRequestInfo {
+  number: number
+  body?: string | null
+  merged_at?: string | null
+  /** Login of the pull request author */
+  author?: string | null
+}
+
+export interface PullRequestLookups {
+  numbers: number[]
+  shas: string[]
+}
+
+export interface PullRequestProvider {
+  /** Reference prefix of pull request numbers in changelog entries (#49 on GitHub, !49 on GitLab) */
+  referencePrefix: string
+  findByNumber: (number: number) => PullRequestInfo | null
+  findBySha: (sha: string) => PullRequestInfo | null
+  /** Resolve many lookups at once so the find* calls that follow are answered locally */
+  prefetch?: (lookups: PullRequestLookups) => void
+}
+
+/**
+ * Merged pull requests by commit sha, or by `#<number>` for lookups by pull
+ * request number. `undefined` means "not cached".
+ */
+export interface PullRequestCache {
+  get: (sha: string) => PullRequestInfo | undefined
+  set: (sha: string, pr: PullRequestInfo) => void
+}
+
+export interface PullRequestDeps {
+  execSync: (command: string, options?: ExecSyncOptions) => Buffer | string
+  warn?: (message: string) => void
+}
+
+export interface PullRequestFixture extends PullRequestInfo {
+  /** Commits of the pull request; abbreviated and full shas both match */
+  commits?: string[]
+}
+
+const CLI_JSON_OPTIONS: ExecSyncOptions = { encoding: 'utf8', stdio: ['pipe', 'pipe', 'pipe'] }
+
+/** Lookups per GraphQL query: keeps each query well under GitHub's node limits */
+const GRAPHQL_BATCH_SIZE = 50
+const GRAPHQL_PR_FIELDS = 'number body mergedAt author { login }'
+
+export function commandErrorText(error: unknown): string {
+  if (error instanceof Error) {
+    const stderr = (error as Error & { stderr?: Buffer | string }).stderr
+    const stdout = (error as Error & { stdout?: Buffer | string }).stdout
+    const pieces = [
+      error.message,
+      Buffer.isBuffer(stderr) ? stderr.toString('utf8') : stderr,
+      Buffer.isBuffer(stdout) ? stdout.toString('utf8') : stdout,
+    ].filter((piece): piece is string => typeof piece === 'string' && piece.trim().length > 0)
+    return pieces.join('\n')
+  }
+
+  return String(error)
+}
+
+function parseCliJson(cli: string, command: string, output: string): unknown {
+  try {
+    return JSON.parse(output)
+  } catch (error) {
+    throw new ChangelogError(`${cli} command returned invalid JSON: ${command}\n${commandErrorText(error)}`)
+  }
+}
+
+/**
+ * Run a CLI command and parse its JSON output. `notFound` matches the error
+ * shapes that mean "no such pull request/commit": the reference is the
+ * author's text, not annotate's business, so it resolves to null. Auth,
+ * network and API failures stay fatal.
+ */
+function execCliJson(
+  cli: string,
+  command: string,
+  notFound: RegExp,
+  deps: PullRequestDeps,
+): unknown | null {
+  let output: string
+  try {
+    output = deps.execSync(command, CLI_JSON_OPTIONS) as string
+  } catch (error) {
+    if (notFound.test(commandErrorText(error))) {
+      return null
+    }
+    throw new ChangelogError(`${cli} command failed: ${command}\n${commandErrorText(error)}`)
+  }
+  return parseCliJson(cli, command, output)
+}
+
+function validatePrInfo(cli: string, value: unknown, command: string): PullRequestInfo {
+  if (!value || typeof value !== 'object') {
+    throw new ChangelogError(`${cli} command returned an invalid pull request response: ${command}`)
+  }
+
+  const maybe = value as Partial<PullRequestInfo>
+  if (typeof maybe.number !== 'number' || !Number.isInteger(maybe.number)) {
+    throw new ChangelogError(`${cli} command returned a pull request without a number: ${command}`)
+  }
+
+  return {
+    number: maybe.number,
+    body: typeof maybe.body === 'string' ? maybe.body : null,
+    merged_at: typeof maybe.merged_at === 'string' ? maybe.merged_at : null,
+    ...(typeof maybe.author === 'string' && maybe.author ? { author: maybe.author } : {}),
+  }
+}
+
+function firstMerged(cli: string, parsed: unknown, command: string): PullRequestInfo | null {
+  if (!Array.isArray(parsed)) {
+    throw new ChangelogError(`${cli} command returned an invalid pulls response: ${command}`)
+  }
+
+  const merged = parsed.find(item => item && typeof item === 'object' && typeof item.merged_at === 'string')
+  return merged ? validatePrInfo(cli, merged, command) : null
+}
+
+function fromGraphQLPullRequest(value: unknown): PullRequestInfo | null {
+  const pr = value as { number?: unknown; body?: unknown; mergedAt?: unknown; author?: { login?: unknown } | null } | null
+  if (typeof pr?.number !== 'number' || typeof pr.mergedAt !== 'string') {
+    return null
+  }
+  return {
+    number: pr.number,
+    body: typeof pr.body === 'string' ? pr.body : null,
+    merged_at: pr.mergedAt,
+    ...(typeof pr.author?.login === 'string' ? { author: pr.author.login } : {}),
+  }
+}
+
+/**
+ * Run one batched GraphQL query and return its repository object. A missing
+ * pull request number fails only its own alias (NOT_FOUND, data null) — gh
+ * still exits non-zero, so the partial data is read from the error output.
+ */
+function queryGitHubGraphQL(query: string, deps: PullRequestDeps): Record<string, unknown> {
+  const command = `gh api graphql -f query='${query}'`
+  let output: string
+  try {
+    output = deps.execSync(command, CLI_JSON_OPTIONS) as string
+  } catch (error) {
+    const stdout = (error as { stdout?: Buffer | string }).stdout
+    output = Buffer.isBuffer(stdout) ? stdout.toString('utf8') : (stdout ?? '')
+    const partial = (() => {
+      try {
+        return JSON.parse(output) as { errors?: Array<{ type?: string }> }
+      } catch {
+        return null
+      }
+    })()
+    if (!partial?.errors?.length || partial.errors.some(entry => entry.type !== 'NOT_FOUND')) {
+      throw new ChangelogError(`GitHub CLI command failed: gh api graphql\n${commandErrorText(error)}`)
+    }
+  }
+
+  const parsed = parseCliJson('GitHub CLI', 'gh api graphql', output) as {
+    data?: { repository?: Record<string, unknown> | null }
+  } | null
+  if (!parsed?.data?.repository) {
+    throw new ChangelogError('GitHub CLI command returned no repository: gh api graphql')
+  }
+  return parsed.data.repository
+}
+
+export function createGitHubProvider(ownerRepo: string, deps: PullRequestDeps): PullRequestProvider {
+  const cli = 'GitHub CLI'
+  const [owner, name] = ownerRepo.split('/')
+  const prefetchedNumbers = new Map<number, PullRequestInfo | null>()
+  const prefetchedShas = new Map<string, PullRequestInfo | null>()
+
+  const prefetchBatch = (numbers: number[], shas: string[]): void => {
+    const fields = [
+      ...numbers.map((prNumber, index) => `pr${index}: pullRequest(number: ${prNumber}) { ${GRAPHQL_PR_FIELDS} }`),
+      ...shas.map(
+        (sha, index) =>
+          `c${index}: object(expression: "${sha}") { ... on Commit { associatedPullRequests(first: 10) { nodes { ${GRAPHQL_PR_FIELDS} } } } }`,
+      ),
+    ]
+    const repository = queryGitHubGraphQL(
+      `query { repository(owner: "${owner}", name: "${name}") { ${fields.join(' ')} } }`,
+      deps,
+    )
+    numbers.forEach((prNumber, index) => {
+      prefetchedNumbers.set(prNumber, fromGraphQLPullRequest(repository[`pr${index}`]))
+    })
+    shas.forEach((sha, index) => {
+      const commit = repository[`c${index}`] as { associatedPullRequests?: { nodes?: unknown[] } } | null
+      const merged = (commit?.associatedPullRequests?.nodes ?? []).map(fromGraphQLPullRequest).find(pr => pr !== null)
+      prefetchedShas.set(sha, merged ?? null)
+    })
+  }
+
+  return {
+    referencePrefix: '#',
+    prefetch: ({ numbers, shas }) => {
+      const pending = [
+        ...numbers.filter(prNumber => !prefetchedNumbers.has(prNumber)).map(prNumber => ({ prNumber, sha: null })),
+        ...shas.filter(sha => /^[0-9a-f]{7,40}$/i.test(sha) && !prefetchedShas.has(sha)).map(sha => ({ prNumber: null, sha })),
+      ]
+      // A single lookup costs one request either way
+      if (pending.length < 2) {
+        return
+      }
+      for (let start = 0; start < pending.length; start += GRAPHQL_BATCH_SIZE) {
+        const batch = pending.slice(start, start + GRAPHQL_BATCH_SIZE)
+        try {
+          prefetchBatch(
+            batch.flatMap(item => (item.prNumber === null ? [] : [item.prNumber])),
+            batch.flatMap(item => (item.sha === null ? [] : [item.sha])),
+          )
+        } catch (error) {
+          deps.warn?.(
+            `⚠️  Batched GraphQL lookup failed, falling back to one request per pull request: ${error instanceof Error ? error.message : String(error)}`,
+          )
+          return
+        }
+      }
+    },
+    findByNumber: prNumber => {
+      const prefetched = prefetchedNumbers.get(prNumber)
+      if (prefetched !== undefined) {
+        return prefetched
+      }
+      // --repo pins the lookup to the remote-derived repository: without it gh
+      // infers the repo from cwd/GH_REPO and forks or CI checkouts can answer
+      // for the wrong repository.
+      const command = `gh pr view ${prNumber} --repo ${ownerRepo} --json number,body,mergedAt,author`
+      // A (#NNN) reference in bullet text may point at an issue, not a PR —
+      // that is the author's text, not an annotation candidate.
+      const parsed = execCliJson(
+        cli,
+        command,
+        /could not resolve to a PullRequest|no pull requests? found|not found/i,
+        deps,
+      ) as { number?: unknown; body?: unknown; mergedAt?: unknown; author?: { login?: unknown } | null } | null
+      // An open or closed-unmerged PR is not part of release history — its
+      // body must never regenerate changelog entries.
+      if (typeof parsed?.mergedAt !== 'string') {
+        return null
+      }
+      // gh reports mergedAt; keep the REST field name the sha lookup uses so
+      // exported dumps replay through the same merged-only filter.
+      return validatePrInfo(
+        cli,
+        { number: parsed.number, body: parsed.body, merged_at: parsed.mergedAt, author: parsed.author?.login },
+        command,
+      )
+    },
+    findBySha: sha => {
+      const prefetched = prefetchedShas.get(sha)
+      if (prefetched !== undefined) {
+        return prefetched
+      }
+      const command = `gh api repos/${ownerRepo}/commits/${sha}/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'`
+      // A sha that GitHub does not know (rebased away, or a hex-looking word
+      // that slipped through extraction) is benign passthrough.
+      const parsed = execCliJson(cli, command, /not found|HTTP 404/i, deps)
+      return parsed === null ? null : firstMerged(cli, parsed, command)
+    },
+  }
+}
+
+function fromMergeRequest(value: unknown): unknown {
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+  const mr = value as { iid?: unknown; description?: unknown; merged_at?: unknown; author?: { username?: unknown } | null }
+  return { number: mr.iid, body: mr.description, merged_at: mr.merged_at, author: mr.author?.username }
+}
+
+export function createGitLabProvider(forge: Forge, deps: PullRequestDeps): PullRequestProvider {
+  const cli = 'GitLab CLI'
+  // --hostname keeps self-hosted instances from answering with gitlab.com data
+  const api = `glab api --hostname ${new URL(forge.repoUrl).host} projects/${encodeURIComponent(forge.repoPath)}`
+  const notFound = /404|not found/i
+  return {
+    referencePrefix: '!',
+    findByNumber: iid => {
+      const command = `${api}/merge_requests/${iid}`
+      const parsed = execCliJson(cli, command, notFound, deps)
+      const mr = fromMergeRequest(parsed) as { merged_at?: unknown } | null
+      if (typeof mr?.merged_at !== 'string') {
+        return null
+      }
+      return validatePrInfo(cli, mr, command)
+    },
+    findBySha: sha => {
+      const command = `${api}/repository/commits/${sha}/merge_requests`
+      const parsed = execCliJson(cli, command, notFound, deps)
+      if (parsed === null) {
+        return null
+      }
+      return firstMerged(cli, Array.isArray(parsed) ? parsed.map(fromMergeRequest) : parsed, command)
+    },
+  }
+}
+
+export function createFixtureProvider(fixtures: PullRequestFixture[], referencePrefix = '#'): PullRequestProvider {
+  const merged = fixtures.filter(fixture => typeof fixture.merged_at === 'string')
+  const toInfo = ({ number, body, merged_at, author }: PullRequestFixture): PullRequestInfo => ({
+    number,
+    body: body ?? null,
+    merged_at,
+    ...(author ? { author } : {}),
+  })
+  return {
+    referencePrefix,
+    findByNumber: prNumber => {
+      const fixture = merged.find(candidate => candidate.number === prNumber)
+      return fixture ? toInfo(fixture) : null
+    },
+    findBySha: sha => {
+      const needle = sha.toLowerCase()
+      const fixture = merged.find(candidate =>
+        (candidate.commits ?? []).some(commit => {
+          const value = commit.toLowerCase()
+          return value.startsWith(needle) || needle.startsWith(value)
+        }),
+      )
+      return fixture ? toInfo(fixture) : null
+    },
+  }
+}
+
+/**
+ * Wrap a provider so every merged pull request it answers with is kept,
+ * together with the shas it was found by. The recording is a fixture list:
+ * replaying it through createFixtureProvider answers the same lookups.
+ */
+export function createRecordingProvider(provider: PullRequestProvider): {
+  provider: PullRequestProvider
+  recorded: () => PullRequestFixture[]
+} {
+  const byNumber = new Map<number, PullRequestFixture>()
+  const record = (pr: PullRequestInfo | null, sha?: string): PullRequestInfo | null => {
+    if (pr) {
+      const fixture = byNumber.get(pr.number) ?? { ...pr, commits: [] }
+      if (sha && !fixture.commits?.includes(sha)) {
+        fixture.commits?.push(sha)
+      }
+      byNumber.set(pr.number, fixture)
+    }
+    return pr
+  }
+
+  return {
+    provider: {
+      referencePrefix: provider.referencePrefix,
+      findByNumber: prNumber => record(provider.findByNumber(prNumber)),
+      findBySha: sha => record(provider.findBySha(sha), sha),
+      prefetch: provider.prefetch,
+    },
+    recorded: () => [...byNumber.values()].sort((a, b) => a.number - b.number),
+  }
+}
+
+/**
+ * Cache key of a lookup by pull request number
+ */
+export function pullRequestNumberKey(number: number): string {
+  return `#${number}`
+}
+
+/**
+ * Answer sha and number lookups from a cache before asking the provider.
+ * Only merged pull requests are cached: a commit without one, or an open
+ * pull request, may still change before the next run, so it is looked up
+ * again.
+ */
+export function createCachingProvider(provider: PullRequestProvider, cache: PullRequestCache): PullRequestProvider {
+  const prefetch = provider.prefetch
+  return {
+    referencePrefix: provider.referencePrefix,
+    findByNumber: number => {
+      const key = pullRequestNumberKey(number)
+      const cached = cache.get(key)
+      if (cached !== undefined) {
+        return cached
+      }
+      const pr = provider.findByNumber(number)
+      if (pr?.merged_at) {
+        cache.set(key, pr)
+      }
+      return pr
+    },
+    findBySha: sha => {
+      const cached = cache.get(sha)
+      if (cached !== undefined) {
+        return cached
+      }
+      const pr = provider.findBySha(sha)
+      if (pr) {
+        cache.set(sha, pr)
+      }
+      return pr
+    },
+    ...(prefetch
+      ? {
+          prefetch: ({ numbers, shas }: PullRequestLookups) =>
+            prefetch({
+              numbers: numbers.filter(number => cache.get(pullRequestNumberKey(number)) === undefined),
+              shas: shas.filter(sha => cache.get(sha) === undefined),
+            }),
+        }
+      : {}),
+  }
+}
+
+export function serializePullRequestFixtures(fixtures: PullRequestFixture[]): string {
+  const pullRequests = fixtures.map(({ number, body, merged_at, author, commits }) => ({
+    number,
+    body: body ?? null,
+    merged_at: merged_at ?? null,
+    ...(author ? { author } : {}),
+    commits: commits ?? [],
+  }))
+  return `${JSON.stringify(pullRequests, null, 2)}\n`
+}
+
+/**
+ * Parse a pull request fixture file: a JSON array of pull requests, or an
+ * object with a `pullRequests` array.
+ *
+ * @throws ValidationError on malformed content
+ */
+export function parsePullRequestFixtures(content: string, source: string): PullRequestFixture[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch (error) {
+    throw new ValidationError(`Invalid pull request fixtures in ${source}: not valid JSON`, { cause: error })
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { pullRequests?: unknown } | null)?.pullRequests
+  if (!Array.isArray(list)) {
+    throw new ValidationError(`Invalid pull request fixtures in ${source}: expected an array of pull requests`)
+  }
+
+  return list.map((item, index) => {
+    const fixture = item as Partial<PullRequestFixture> | null
+    if (!fixture || typeof fixture.number !== 'number' || !Number.isInteger(fixture.number)) {
+      throw new ValidationError(`Invalid pull request fixtures in ${source}: entry ${index} has no integer number`)
+    }
+    if (fixture.author !== undefined && fixture.author !== null && typeof fixture.author !== 'string') {
+      throw new ValidationError(`Invalid pull request fixtures in ${source}: entry ${index} author must be a string`)
+    }
+    if (fixture.commits !== undefined && !(Array.isArray(fixture.commits) && fixture.commits.every(sha => typeof sha === 'string'))) {
+      throw new ValidationError(`Invalid pull request fixtures in ${source}: entry ${index} commits must be strings`)
+    }
+    return {
+      number: fixture.number,
+      body: typeof fixture.body === 'string' ? fixture.body : null,
+      merged_at: typeof fixture.merged_at === 'string' ? fixture.merged_at : null,
+      ...(fixture.author ? { author: fixture.author } : {}),
+      commits: fixture.commits ?? [],
+    }
+  })
+}
+
+/**
+ * Pick the provider for a forge
+ *
+ * @throws ChangelogError for forges without pull request lookup support
+ */
+export function createPullRequestProvider(forge: Forge, deps: PullRequestDeps): PullRequestProvider {
+  if (forge.kind === 'github') {
+    if (!/^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/.test(forge.repoPath)) {
+      throw new ChangelogError(
+        `Could not determine GitHub repository from ${forge.repoUrl}. Set GITHUB_REPOSITORY (owner/repo) before running annotate.`,
+      )
+    }
+    return createGitHubProvider(forge.repoPath, deps)
+  }
+  if (forge.kind === 'gitlab') {
+    return createGitLabProvider(forge, deps)
+  }
+  throw new ChangelogError(
+    `annotate can look up pull requests on GitHub and GitLab only, but ${forge.repoUrl} is a ${forge.kind} repository. Set GIT_FORGE if the host is misdetected, or ANNOTATE_PR_FIXTURES to use an offline fixture file.`,
+  )
+}
@@ -4,125 +4,242 @@
 
 type RangeEvaluation = boolean | null
 
-const SEMVER_PATTERN = String.raw`v?\d+\.\d+\.\d+(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?`
-const exactRangeRegex = new RegExp(String.raw`^=?${SEMVER_PATTERN}$`)
-const caretRangeRegex = new RegExp(String.raw`^\^\s*(${SEMVER_PATTERN})$`)
-const tildeRangeRegex = new RegExp(String.raw`^~\s*(${SEMVER_PATTERN})$`)
-const greaterThanOrEqualRangeRegex = new RegExp(String.raw`^>=\s*(${SEMVER_PATTERN})$`)
+type Operator = '<' | '<=' | '>' | '>=' | '='
+
+interface Comparator {
+  operator: Operator
+  version: string
+}
+
+// A version with wildcard (x, X, *) or omitted components left undefined
+interface PartialVersion {
+  major?: number
+  minor?: number
+  patch?: number
+  prerelease: string
+}
+
+const PARTIAL_VERSION_REGEX =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*])(?:\.(\d+|[xX*])(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?)?)?$/
+const HYPHEN_RANGE_REGEX = /^(\S+)\s+-\s+(\S+)$/
+const COMPARATOR_REGEX = /^(<=|>=|<|>|=|~>|~|\^)?(.+)$/
 const workspaceProtocolPassthroughRanges = new Set(['*', '^', '~'])
+// Matches no version at all (node-semver's desugaring of `<0`, `>*`, ...)
+const NOTHING: Comparator[] = [{ operator: '<', version: '0.0.0-0' }]
 
-interface ParsedVersion {
-  major: number
-  minor: number
-  patch: number
-  normalized: string
+function hasPrerelease(version: string): boolean {
+  return version.replace(/^v/, '').split('+')[0].includes('-')
 }
 
-function hasPrereleaseOrBuildMetadata(version: string): boolean {
-  const normalized = version.replace(/^v/, '')
-  return normalized.includes('-') || normalized.includes('+')
+function versionCore(version: string): string {
+  return version.replace(/^v/, '').split(/[-+]/)[0]
 }
 
-function parseVersion(version: string): ParsedVersion | null {
-  if (!isValidSemver(version)) {
+function formatVersion(major: number, minor: number, patch: number, prerelease = ''): string {
+  return `${major}.${minor}.${patch}${prerelease ? `-${prerelease}` : ''}`
+}
+
+function parsePartialVersion(text: string): PartialVersion | null {
+  const match = text.match(PARTIAL_VERSION_REGEX)
+  if (!match) {
     return null
   }
 
-  const normalized = version.replace(/^v/, '')
-  const [major, minor, patch] = normalized.split(/[+-]/)[0].split('.').map(Number)
-  return { major, minor, patch, normalized }
-}
+  const [major, minor, patch] = match
+    .slice(1, 4)
+    .map(part => (part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part)))
 
-function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
-  if (a.major !== b.major) return a.major - b.major
-  if (a.minor !== b.minor) return a.minor - b.minor
-  return a.patch - b.patch
+  // A wildcard makes every later component a wildcard too (1.x.3 is 1.x)
+  if (major === undefined) return { prerelease: '' }
+  if (minor === undefined) return { major, prerelease: '' }
+  if (patch === undefined) return { major, minor, prerelease: '' }
+  return { major, minor, patch, prerelease: match[4] ?? '' }
 }
 
-function includesCaretRange(version: ParsedVersion, base: ParsedVersion): boolean {
-  if (compareVersions(version, base) < 0) {
-    return false
+function lowerBound(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return []
   }
+  return [
+    {
+      operator: '>=',
+      version: formatVersion(partial.major, partial.minor ?? 0, partial.patch ?? 0, partial.prerelease),
+    },
+  ]
+}
 
-  if (base.major > 0) {
-    return version.major === base.major
+/**
+ * Exclusive upper bound of a partial version: `1` → `<2.0.0-0`, `1.2` → `<1.3.0-0`.
+ */
+function partialUpperBound(partial: PartialVersion & { major: number }): Comparator[] {
+  const version =
+    partial.minor === undefined
+      ? formatVersion(partial.major + 1, 0, 0, '0')
+      : formatVersion(partial.major, partial.minor + 1, 0, '0')
+  return [{ operator: '<', version }]
+}
+
+function desugarXRange(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return []
   }
-  if (base.minor > 0) {
-    return version.major === 0 && version.minor === base.minor
+  if (partial.minor === undefined || partial.patch === undefined) {
+    return [...lowerBound(partial), ...partialUpperBound({ ...partial, major: partial.major })]
   }
-  return version.major === 0 && version.minor === 0 && version.patch === base.patch
+  return [{ operator: '=', version: formatVersion(partial.major, partial.minor, partial.patch, partial.prerelease) }]
 }
 
-function includesTildeRange(version: ParsedVersion, base: ParsedVersion): boolean {
-  return compareVersions(version, base) >= 0 && version.major === base.major && version.minor === base.minor
+function desugarTilde(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return []
+  }
+  const upper =
+    partial.minor === undefined
+      ? formatVersion(partial.major + 1, 0, 0, '0')
+      : formatVersion(partial.major, partial.minor + 1, 0, '0')
+  return [...lowerBound(partial), { operator: '<', version: upper }]
 }
 
-function normalizeWorkspaceProtocolRange(trimmed: string): string | null {
-  if (!trimmed.startsWith('workspace:')) {
-    return trimmed
+/**
+ * Caret ranges allow changes that do not modify the left-most non-zero component.
+ */
+function desugarCaret(partial: PartialVersion): Comparator[] {
+  if (partial.major === undefined) {
+    return []
   }
 
-  const workspaceRange = trimmed.slice('workspace:'.length).trim()
-  if (workspaceProtocolPassthroughRanges.has(workspaceRange)) {
-    return '*'
+  let upper: string
+  if (partial.major > 0 || partial.minor === undefined) {
+    upper = formatVersion(partial.major + 1, 0, 0, '0')
+  } else if (partial.minor > 0 || partial.patch === undefined) {
+    upper = formatVersion(0, partial.minor + 1, 0, '0')
+  } else {
+    upper = formatVersion(0, 0, partial.patch + 1, '0')
   }
+  return [...lowerBound(partial), { operator: '<', version: upper }]
+}
 
-  if (
-    exactRangeRegex.test(workspaceRange) ||
-    caretRangeRegex.test(workspaceRange) ||
-    tildeRangeRegex.test(workspaceRange) ||
-    greaterThanOrEqualRangeRegex.test(workspaceRange)
-  ) {
-    return workspaceRange
+function desugarPrimitive(operator: Operator, partial: PartialVersion): Comparator[] {
+  if (partial.major !== undefined && partial.minor !== undefined && partial.patch !== undefined) {
+    return [{ operator, version: formatVersion(partial.major, partial.minor, partial.patch, partial.prerelease) }]
+  }
+  if (partial.major === undefined) {
+    return operator === '<' || operator === '>' ? NOTHING : []
   }
 
-  return null
+  switch (operator) {
+    case '>':
+      return [
+        {
+          operator: '>=',
+          version:
+            partial.minor === undefined
+              ? formatVersion(partial.major + 1, 0, 0)
+              : formatVersion(partial.major, partial.minor + 1, 0),
+        },
+      ]
+    case '>=':
+      return lowerBound(partial)
+    case '<':
+      return [{ operator: '<', version: formatVersion(partial.major, partial.minor ?? 0, 0, '0') }]
+    case '<=':
+      return partialUpperBound({ ...partial, major: partial.major })
+    default:
+      return desugarXRange(partial)
+  }
 }
 
-function evaluateRangePart(range: string, version: ParsedVersion): RangeEvaluation {
-  const trimmed = range.trim()
-  if (!trimmed) {
-    return null
+function desugarHyphen(from: PartialVersion, to: PartialVersion): Comparator[] {
+  if (to.major === undefined) {
+    return lowerBound(from)
   }
+  const upper: Comparator[] =
+    to.minor === undefined || to.patch === undefined
+      ? partialUpperBound({ ...to, major: to.major })
+      : [{ operator: '<=', version: formatVersion(to.major, to.minor, to.patch, to.prerelease) }]
+  return [...lowerBound(from), ...upper]
+}
 
-  const normalizedRange = normalizeWorkspaceProtocolRange(trimmed)
-  if (normalizedRange === null) {
-    return null
+/**
+ * Desugar one `||`-separated comparator set into primitive comparators.
+ * Returns null when the set uses syntax outside the node-semver grammar.
+ */
+function parseComparatorSet(text: string): Comparator[] | null {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    return []
   }
-  if (normalizedRange === '*') {
-    return true
+
+  const hyphenMatch = trimmed.match(HYPHEN_RANGE_REGEX)
+  if (hyphenMatch) {
+    const from = parsePartialVersion(hyphenMatch[1])
+    const to = parsePartialVersion(hyphenMatch[2])
+    return from && to ? desugarHyphen(from, to) : null
   }
 
-  const semverOperand = normalizedRange.replace(/^(?:=|\^|~|>=)\s*/, '')
-  if (isValidSemver(semverOperand) && hasPrereleaseOrBuildMetadata(semverOperand)) {
-    return null
+  const comparators: Comparator[] = []
+  for (const token of trimmed.replace(/(<=|>=|<|>|=|~>|~|\^)\s+/g, '$1').split(/\s+/)) {
+    const match = token.match(COMPARATOR_REGEX)
+    const partial = match ? parsePartialVersion(match[2]) : null
+    if (!match || !partial) {
+      return null
+    }
+
+    const operator = match[1] ?? ''
+    if (operator === '^') {
+      comparators.push(...desugarCaret(partial))
+    } else if (operator === '~' || operator === '~>') {
+      comparators.push(...desugarTilde(partial))
+    } else if (operator === '') {
+      comparators.push(...desugarXRange(partial))
+    } else {
+      comparators.push(...desugarPrimitive(operator as Operator, partial))
+    }
   }
+  return comparators
+}
 
-  const exactMatch = normalizedRange.match(exactRangeRegex)
-  if (exactMatch) {
-    const exact = parseVersion(normalizedRange.replace(/^=/, ''))
-    return exact ? exact.normalized === version.normalized : null
+function satisfiesComparator(version: string, comparator: Comparator): boolean {
+  const result = compareSemver(version, comparator.version)
+  switch (comparator.operator) {
+    case '<':
+      return result < 0
+    case '<=':
+      return result <= 0
+    case '>':
+      return result > 0
+    case '>=':
+      return result >= 0
+    default:
+      return result === 0
   }
+}
 
-  const caretMatch = normalizedRange.match(caretRangeRegex)
-  if (caretMatch) {
-    const base = parseVersion(caretMatch[1])
-    return base ? includesCaretRange(version, base) : null
+function satisfiesComparatorSet(version: string, comparators: Comparator[]): boolean {
+  if (!comparators.every(comparator => satisfiesComparator(version, comparator))) {
+    return false
   }
+  if (!hasPrerelease(version)) {
+    return true
+  }
+
+  // A prerelease only satisfies a set that opts into prereleases of the same
+  // [major, minor, patch] tuple (node-semver's default, includePrerelease=false)
+  const core = versionCore(version)
+  return comparators.some(comparator => hasPrerelease(comparator.version) && versionCore(comparator.version) === core)
+}
 
-  const tildeMatch = normalizedRange.match(tildeRangeRegex)
-  if (tildeMatch) {
-    const base = parseVersion(tildeMatch[1])
-    return base ? includesTildeRange(version, base) : null
+function normalizeWorkspaceProtocolRange(trimmed: string): string | null {
+  if (!trimmed.startsWith('workspace:')) {
+    return trimmed
   }
 
-  const greaterThanOrEqualMatch = normalizedRange.match(greaterThanOrEqualRangeRegex)
-  if (greaterThanOrEqualMatch) {
-    const base = parseVersion(greaterThanOrEqualMatch[1])
-    return base ? compareVersions(version, base) >= 0 : null
+  const workspaceRange = trimmed.slice('workspace:'.length).trim()
+  if (workspaceProtocolPassthroughRanges.has(workspaceRange)) {
+    return '*'
   }
 
-  return null
+  return workspaceRange || null
 }
 
 /**
@@ -150,37 +267,104 @@ export function validateAndNormalizeSemver(version: string): string {
   return version.replace(/^v/, '');
 }
 
+function comparePrereleaseIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a)
+  const bNumeric = /^\d+$/.test(b)
+  if (aNumeric && bNumeric) return Number(a) - Number(b)
+  if (aNumeric) return -1
+  if (bNumeric) return 1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
 /**
- * Check whether a dependency range includes a concrete workspace package version.
+ * Compare two semantic versions by SemVer 2.0.0 precedence
  *
- * This intentionally supports only the small zero-dependency subset doctor needs:
- * workspace: protocol ranges, exact versions, ^, ~, >=, and OR-joined (`||`)
- * combinations of those forms. Unknown syntax returns null so advisory checks can
- * skip it without producing false warnings.
+ * Build metadata is ignored; a prerelease sorts before its release.
+ *
+ * @throws Error if either version is not valid semver
+ * @returns negative if a < b, 0 if equal precedence, positive if a > b
+ */
+export function compareSemver(a: string, b: string): number {
+  const [aCore, aPrerelease] = validateAndNormalizeSemver(a).split('+')[0].split(/-(.*)/s)
+  const [bCore, bPrerelease] = validateAndNormalizeSemver(b).split('+')[0].split(/-(.*)/s)
+  const aParts = aCore.split('.').map(Number)
+  const bParts = bCore.split('.').map(Number)
+
+  for (let index = 0; index < 3; index++) {
+    if (aParts[index] !== bParts[index]) {
+      return aParts[index] - bParts[index]
+    }
+  }
+
+  if (!aPrerelease || !bPrerelease) {
+    return (aPrerelease ? -1 : 0) + (bPrerelease ? 1 : 0)
+  }
+
+  const aIdentifiers = aPrerelease.split('.')
+  const bIdentifiers = bPrerelease.split('.')
+  for (let index = 0; index < Math.min(aIdentifiers.length, bIdentifiers.length); index++) {
+    const result = comparePrereleaseIdentifiers(aIdentifiers[index], bIdentifiers[index])
+    if (result !== 0) {
+      return result
+    }
+  }
+  return aIdentifiers.length - bIdentifiers.length
+}
+
+/**
+ * Increment a version the way `npm version <level>` does
+ *
+ * A prerelease is promoted to its release when that release already is the
+ * requested level (1.0.0-beta.1 + patch → 1.0.0, 2.0.0-rc.0 + major → 2.0.0).
+ * Build metadata is dropped.
+ *
+ * @throws Error if version is not valid semver
+ */
+export function incrementSemver(version: string, level: 'major' | 'minor' | 'patch'): string {
+  const [core, prerelease] = validateAndNormalizeSemver(version).split('+')[0].split(/-(.*)/s)
+  const [major, minor, patch] = core.split('.').map(Number)
+
+  if (level === 'major') {
+    return prerelease && minor === 0 && patch === 0 ? `${major}.0.0` : `${major + 1}.0.0`
+  }
+  if (level === 'minor') {
+    return prerelease && patch === 0 ? `${major}.${minor}.0` : `${major}.${minor + 1}.0`
+  }
+  return prerelease ? `${major}.${minor}.${patch}` : `${major}.${minor}.${patch + 1}`
+}
+
+/**
+ * Check whether a dependency range includes a concrete version.
+ *
+ * Zero-dependency evaluator for the node-semver range grammar: `||` sets,
+ * space-joined comparators, hyphen ranges, `<`/`<=`/`>`/`>=`/`=`, `~`, `^`,
+ * x-ranges (`1.x`, `1.2.*`, `*`) and partial versions, plus the workspace:
+ * protocol. Prerelease versions follow node-semver's default: they only
+ * satisfy a set that names a prerelease of the same [major, minor, patch].
+ * Unknown syntax (dist-tags, git URLs, other protocols) returns null so
+ * advisory checks can skip it without producing false warnings.
  *
  * @param range Dependency range string from package.json
- * @param version Concrete workspace package version
- * @returns true/false when evaluated, null when the syntax is outside the supported subset
+ * @param version Concrete version
+ * @returns true/false when evaluated, null when the syntax is outside the grammar
  */
 export function rangeIncludesVersion(range: string, version: string): RangeEvaluation {
-  const parsedVersion = parseVersion(version)
-  if (!parsedVersion) {
+  if (!isValidSemver(version)) {
     return null
   }
-  if (hasPrereleaseOrBuildMetadata(version)) {
+
+  const normalizedRange = normalizeWorkspaceProtocolRange(range.trim())
+  if (normalizedRange === null) {
     return null
   }
 
-  const parts = range.split(/\s*\|\|\s*/)
   let sawUnknown = false
-
-  for (const part of parts) {
-    const result = evaluateRangePart(part, parsedVersion)
-    if (result === true) {
-      return true
-    }
-    if (result === null) {
+  for (const part of normalizedRange.split('||')) {
+    const comparators = parseComparatorSet(part)
+    if (comparators === null) {
       sawUnknown = true
+    } else if (satisfiesComparatorSet(version, comparators)) {
+      return true
     }
   }
 
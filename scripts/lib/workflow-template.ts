@@ -1,6 +1,7 @@
 import type { PathLike } from 'node:fs'
 import { dirname, join } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { PACKAGE_MANAGER_COMMANDS, type PackageManager } from './workspace-detect.js'
 
 export const GENERATED_WORKFLOW_MARKER = '# Generated by: release-it-preset init --with-workflows'
 
@@ -48,6 +49,45 @@ export function readWorkflowTemplate(
   }
 }
 
+// The shipped template targets pnpm; other package managers swap these snippets
+const PNPM_SETUP_STEP = `      - name: Setup pnpm
+        uses: pnpm/action-setup@v6
+
+`
+const PNPM_CACHE = "\n          cache: 'pnpm'"
+
+const PACKAGE_MANAGER_SETUP_STEPS: Record<PackageManager, string> = {
+  pnpm: PNPM_SETUP_STEP,
+  yarn: `      - name: Enable Corepack
+        run: corepack enable
+
+`,
+  bun: `      - name: Setup Bun
+        uses: oven-sh/setup-bun@v2
+
+`,
+  npm: '',
+}
+
+/**
+ * Adapt the shipped (pnpm) workflow template to another package manager: its
+ * setup step, setup-node cache, install command and binary runner.
+ */
+export function renderWorkflowTemplate(content: string, packageManager: PackageManager): string {
+  if (packageManager === 'pnpm') {
+    return content
+  }
+
+  const commands = PACKAGE_MANAGER_COMMANDS[packageManager]
+  // actions/setup-node has no Bun cache
+  const cache = packageManager === 'bun' ? '' : PNPM_CACHE.replace('pnpm', packageManager)
+  return content
+    .replace(PNPM_SETUP_STEP, PACKAGE_MANAGER_SETUP_STEPS[packageManager])
+    .replace(PNPM_CACHE, cache)
+    .replaceAll(PACKAGE_MANAGER_COMMANDS.pnpm.install, commands.install)
+    .replaceAll(`${PACKAGE_MANAGER_COMMANDS.pnpm.exec} `, `${commands.exec} `)
+}
+
 export function hasGeneratedWorkflowMarker(content: string): boolean {
   return content.includes(GENERATED_WORKFLOW_MARKER)
 }
@@ -1,98 +1,152 @@
 /**
- * Workspace detection utilities for pnpm-workspace.yaml and package.json#workspaces.
+ * Workspace detection utilities for pnpm-workspace.yaml, package.json#workspaces
+ * (npm, Yarn and Bun) and lerna.json, plus detection of the package manager
+ * that owns the repository.
  *
- * Scope: block-list `packages:` in pnpm-workspace.yaml only.
- * Flow-style arrays ( packages: [...] ) are rejected with a clear error.
- * Block-list of strings supported. Flow-style arrays AND alias references (`*alias`) are
- * rejected with `ValidationError`. Anchors (`&name`) on entries are silently treated as
- * opaque pattern strings.
+ * pnpm-workspace.yaml is read with the YAML subset parser (lib/yaml.ts), so
+ * block and flow lists, anchors and aliases are all accepted.
  *
  * All functions are pure (no direct FS access) — dependencies are injected for testability.
  */
 
 import { isAbsolute, join, relative, resolve, sep } from 'node:path';
 import { ValidationError } from './errors.js';
+import { isYamlMapping, parseYaml } from './yaml.js';
 
 export interface WorkspaceDetectDeps {
   existsSync: (path: string) => boolean;
   readdirSync: (path: string) => string[];
 }
 
-/**
- * Parse the `packages:` block-list section of a pnpm-workspace.yaml file.
- *
- * Only block-sequence form is supported:
- *   packages:
- *     - 'packages/*'
- *     - 'apps/*'
- *
- * Flow-style arrays ( packages: ['a', 'b'] ) are rejected with a ValidationError
- * pointing users toward the block-list form.
- *
- * @param content - Raw YAML file content
- * @returns Array of glob patterns from the packages: block-list, or empty array if no packages: key found
- * @throws ValidationError if flow-style array syntax is detected
- */
-export function parsePnpmWorkspaceYaml(content: string): string[] {
-  const lines = content.split('\n');
+export interface WorkspaceConfigDeps {
+  existsSync: (path: string) => boolean;
+  readFileSync: (path: string, encoding: 'utf8') => string;
+}
 
-  // Find the `packages:` key
-  const packagesLineIdx = lines.findIndex(l => /^packages\s*:/.test(l));
-  if (packagesLineIdx === -1) {
-    return [];
-  }
+export type PackageManager = 'pnpm' | 'yarn' | 'bun' | 'npm';
 
-  // Check for unsupported syntax on the same line
-  const packagesLine = lines[packagesLineIdx];
+export type WorkspaceConfigSource = 'pnpm-workspace.yaml' | 'package.json' | 'lerna.json';
 
-  // Flow-style arrays: packages: ['a', 'b'] or packages: [a, b]
-  if (/^packages\s*:\s*\[/.test(packagesLine)) {
-    throw new ValidationError(
-      `pnpm-workspace.yaml uses flow-style array for "packages:" which is not supported.\n` +
-      `Please convert to block-list form:\n` +
-      `  packages:\n` +
-      `    - 'packages/*'\n` +
-      `    - 'apps/*'\n` +
-      `If you need flow-style support, open an issue at https://github.com/oorabona/release-it-preset/issues`
-    );
-  }
+export interface WorkspaceConfig {
+  /** File the workspace patterns were read from */
+  source: WorkspaceConfigSource;
+  patterns: string[];
+  packageManager: PackageManager;
+}
 
-  // YAML alias reference: packages: *anchorName
-  if (/^packages\s*:\s*\*\S+/.test(packagesLine)) {
-    throw new ValidationError(
-      `pnpm-workspace.yaml uses a YAML alias reference for "packages:" which is not supported.\n` +
-      `Please convert to block-list form:\n` +
-      `  packages:\n` +
-      `    - 'packages/*'\n` +
-      `    - 'apps/*'\n` +
-      `Anchor/alias support is not planned; if you need it, open an issue at https://github.com/oorabona/release-it-preset/issues`
-    );
+export interface PackageManagerCommands {
+  /** Install the locked dependencies (CI) */
+  install: string;
+  /** Prefix that runs a locally installed binary */
+  exec: string;
+  /** Prefix that adds a dev dependency */
+  addDev: string;
+  /** Run a locally installed binary inside one workspace package */
+  workspaceExec: (packageName: string, command: string) => string;
+}
+
+export const PACKAGE_MANAGER_COMMANDS: Record<PackageManager, PackageManagerCommands> = {
+  pnpm: {
+    install: 'pnpm install --frozen-lockfile',
+    exec: 'pnpm exec',
+    addDev: 'pnpm add -D',
+    workspaceExec: (packageName, command) => `pnpm -F ${packageName} exec ${command}`,
+  },
+  yarn: {
+    install: 'yarn install --immutable',
+    exec: 'yarn',
+    addDev: 'yarn add -D',
+    workspaceExec: (packageName, command) => `yarn workspace ${packageName} ${command}`,
+  },
+  bun: {
+    install: 'bun install --frozen-lockfile',
+    exec: 'bunx',
+    addDev: 'bun add -d',
+    workspaceExec: (packageName, command) => `bun run --filter ${packageName} ${command}`,
+  },
+  npm: {
+    install: 'npm ci',
+    exec: 'npx',
+    addDev: 'npm install -D',
+    workspaceExec: (packageName, command) => `npm exec -w ${packageName} -- ${command}`,
+  },
+};
+
+// Lockfiles and config files that identify a package manager, in priority order
+const PACKAGE_MANAGER_MARKERS: Array<[file: string, packageManager: PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['pnpm-workspace.yaml', 'pnpm'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['yarn.lock', 'yarn'],
+  ['.yarnrc.yml', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+function isPackageManager(value: unknown): value is PackageManager {
+  return value === 'pnpm' || value === 'yarn' || value === 'bun' || value === 'npm';
+}
+
+function readJsonObject(path: string, deps: WorkspaceConfigDeps): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(deps.readFileSync(path, 'utf8'));
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
   }
+}
 
-  // Collect subsequent indented list items (- '...' or - "..." or - bare)
-  const patterns: string[] = [];
-  for (let i = packagesLineIdx + 1; i < lines.length; i++) {
-    const line = lines[i];
-    // Stop if we hit a non-indented, non-empty line (new top-level key)
-    if (line.length > 0 && !/^\s/.test(line)) {
-      break;
-    }
-    // Match a block-sequence item
-    const match = line.match(/^\s+-\s+['"]?([^'"#\n]+?)['"]?\s*(?:#.*)?$/);
-    if (match) {
-      patterns.push(match[1].trim());
+/**
+ * Detect the package manager that owns a project: the `packageManager` field
+ * of package.json (`pnpm@9.0.0`) wins, then the lockfile or config file
+ * present (pnpm, Bun, Yarn, npm in that order). Defaults to npm.
+ */
+export function detectPackageManager(projectRoot: string, deps: WorkspaceConfigDeps): PackageManager {
+  const packageJsonFile = join(projectRoot, 'package.json');
+  if (deps.existsSync(packageJsonFile)) {
+    const field = readJsonObject(packageJsonFile, deps)?.packageManager;
+    const name = typeof field === 'string' ? field.split('@')[0] : undefined;
+    if (isPackageManager(name)) {
+      return name;
     }
   }
 
-  return patterns;
+  const marker = PACKAGE_MANAGER_MARKERS.find(([file]) => deps.existsSync(join(projectRoot, file)));
+  return marker ? marker[1] : 'npm';
+}
+
+/**
+ * Parse the `packages:` list of a pnpm-workspace.yaml file.
+ *
+ * Any YAML form of the list is accepted (see parseYaml): block or flow
+ * sequence, quoted or plain entries, anchors and aliases.
+ *
+ * @param content - Raw YAML file content
+ * @returns Array of glob patterns from the packages: list, or empty array if no packages: key found
+ * @throws ValidationError if the file is not valid YAML or packages: is not a list of strings
+ */
+export function parsePnpmWorkspaceYaml(content: string): string[] {
+  const document = parseYaml(content, 'pnpm-workspace.yaml');
+  const packages = isYamlMapping(document) ? document.packages : undefined;
+  if (packages === undefined || packages === null) {
+    return [];
+  }
+  if (!Array.isArray(packages) || packages.some((pattern) => typeof pattern !== 'string')) {
+    throw new ValidationError('pnpm-workspace.yaml: "packages" must be a list of glob patterns');
+  }
+  return packages as string[];
 }
 
 /**
  * Parse the `workspaces` field from a package.json content string.
  *
  * Supports:
- *   "workspaces": ["packages/*"]           — array form
- *   "workspaces": {"packages": [...]}      — object form (Yarn-style)
+ *   "workspaces": ["packages/*"]           — array form (npm, Yarn, Bun)
+ *   "workspaces": {"packages": [...]}      — object form: Yarn's `nohoist` and
+ *                                            Bun's `catalog`/`catalogs` siblings
+ *                                            are ignored
  *
  * @param content - Raw package.json content
  * @returns Array of glob patterns, or empty array if workspaces not present
@@ -126,85 +180,301 @@ export function parseWorkspacesFromPackageJson(content: string): string[] {
 }
 
 /**
- * Expand glob patterns to resolved package directories that contain a package.json.
+ * Parse the `packages` list of a lerna.json file. Lerna defaults to
+ * `packages/*` when the list is absent.
+ *
+ * @param content - Raw lerna.json content
+ * @returns Array of glob patterns
+ * @throws ValidationError if the file is not a JSON object or packages is not a list of strings
+ */
+export function parseLernaJson(content: string): string[] {
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError('lerna.json is not valid JSON', { cause: error });
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new ValidationError('lerna.json must contain a JSON object');
+  }
+
+  const packages = (config as Record<string, unknown>).packages;
+  if (packages === undefined) {
+    return ['packages/*'];
+  }
+  if (!Array.isArray(packages) || packages.some((pattern) => typeof pattern !== 'string')) {
+    throw new ValidationError('lerna.json: "packages" must be a list of glob patterns');
+  }
+  return packages as string[];
+}
+
+/**
+ * Read the workspace configuration of a project. `pnpm-workspace.yaml` wins
+ * over `package.json#workspaces`, which wins over `lerna.json#packages`.
+ *
+ * @param projectRoot - Project root (absolute, or relative to the process cwd)
+ * @param deps - Injected FS dependencies
+ * @returns The patterns, their source and the project's package manager, or
+ *   null when no file declares workspaces. An empty pnpm-workspace.yaml is
+ *   returned with no patterns.
+ * @throws ValidationError on invalid pnpm-workspace.yaml or lerna.json
+ */
+export function readWorkspaceConfig(projectRoot: string, deps: WorkspaceConfigDeps): WorkspaceConfig | null {
+  const read = (source: WorkspaceConfigSource, patterns: string[]): WorkspaceConfig => ({
+    source,
+    patterns,
+    packageManager: detectPackageManager(projectRoot, deps),
+  });
+
+  const pnpmWorkspaceFile = join(projectRoot, 'pnpm-workspace.yaml');
+  if (deps.existsSync(pnpmWorkspaceFile)) {
+    return read('pnpm-workspace.yaml', parsePnpmWorkspaceYaml(deps.readFileSync(pnpmWorkspaceFile, 'utf8')));
+  }
+
+  const packageJsonFile = join(projectRoot, 'package.json');
+  if (deps.existsSync(packageJsonFile)) {
+    const patterns = parseWorkspacesFromPackageJson(deps.readFileSync(packageJsonFile, 'utf8'));
+    if (patterns.length > 0) {
+      return read('package.json', patterns);
+    }
+  }
+
+  const lernaFile = join(projectRoot, 'lerna.json');
+  if (deps.existsSync(lernaFile)) {
+    return read('lerna.json', parseLernaJson(deps.readFileSync(lernaFile, 'utf8')));
+  }
+
+  return null;
+}
+
+// Directories never searched for packages, like pnpm does
+const IGNORED_DIRECTORY_NAMES = new Set(['node_modules']);
+const GLOB_MAGIC_REGEX = /[*?[]/;
+
+/**
+ * Expand brace sets: `{apps,libs}/*` → `apps/*`, `libs/*`. Sets may nest
+ * (`{a,{b,c}}`); a brace without a matching close or without a top-level
+ * comma is kept literally.
+ */
+export function expandBraces(pattern: string): string[] {
+  for (let open = pattern.indexOf('{'); open !== -1; open = pattern.indexOf('{', open + 1)) {
+    let depth = 0;
+    const commas: number[] = [];
+    for (let i = open; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '{') {
+        depth += 1;
+      } else if (char === ',' && depth === 1) {
+        commas.push(i);
+      } else if (char === '}' && --depth === 0) {
+        if (commas.length === 0) {
+          break;
+        }
+        const prefix = pattern.slice(0, open);
+        const suffix = pattern.slice(i + 1);
+        const bounds = [open, ...commas, i];
+        return bounds.slice(1).flatMap((bound, index) =>
+          expandBraces(`${prefix}${pattern.slice(bounds[index] + 1, bound)}${suffix}`)
+        );
+      }
+    }
+  }
+  return [pattern];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
+}
+
+/**
+ * Compile one path segment: `*` and `?` never cross `/`, `[abc]`/`[!abc]`
+ * are character classes, and wildcards do not match a leading dot.
+ */
+function segmentToRegExp(segment: string): RegExp {
+  let source = segment.startsWith('.') ? '' : '(?!\\.)';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && segment.indexOf(']', i + 2) !== -1) {
+      const close = segment.indexOf(']', i + 2);
+      const body = segment.slice(i + 1, close);
+      const negated = body.startsWith('!') || body.startsWith('^');
+      source += `[${negated ? '^' : ''}${(negated ? body.slice(1) : body).replace(/[\\\]^]/g, '\\$&')}]`;
+      i = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function toSegments(pattern: string): string[] {
+  return pattern.split('/').filter((segment) => segment !== '' && segment !== '.');
+}
+
+function matchSegments(patternSegments: string[], pathSegments: string[]): boolean {
+  if (patternSegments.length === 0) {
+    return pathSegments.length === 0;
+  }
+  const [head, ...rest] = patternSegments;
+  if (head === '**') {
+    // `**` matches zero or more segments, none of them a dot segment
+    for (let skip = 0; skip <= pathSegments.length; skip++) {
+      if (matchSegments(rest, pathSegments.slice(skip))) {
+        return true;
+      }
+      if (skip < pathSegments.length && pathSegments[skip].startsWith('.')) {
+        return false;
+      }
+    }
+    return false;
+  }
+  return pathSegments.length > 0 &&
+    segmentToRegExp(head).test(pathSegments[0]) &&
+    matchSegments(rest, pathSegments.slice(1));
+}
+
+/**
+ * Test a project-relative path (`/`-separated) against a workspace glob.
+ * Supports `*`, `?`, `[...]`, `**` and brace sets.
+ */
+export function matchesWorkspacePattern(relativePath: string, pattern: string): boolean {
+  const pathSegments = toSegments(relativePath);
+  return expandBraces(pattern).some((expanded) => matchSegments(toSegments(expanded), pathSegments));
+}
+
+function assertWithinRoot(pattern: string, label: string, path: string, projectRoot: string): void {
+  // Containment check: relative path must NOT start with '..' or be absolute
+  // (isAbsolute guard handles Windows cross-drive paths where relative() returns
+  //  an absolute path that doesn't start with '..', bypassing the startsWith check)
+  const rel = relative(projectRoot, path);
+  if (isAbsolute(rel) || rel === '..' || rel.startsWith(`..${sep}`)) {
+    throw new ValidationError(
+      `Workspace pattern "${pattern}" resolves outside the project root.\n` +
+      `${label}: ${path}\n` +
+      `Project root: ${projectRoot}\n` +
+      `Each workspace package must live under the project root.`
+    );
+  }
+}
+
+function listDirectory(dir: string, deps: WorkspaceDetectDeps): string[] {
+  if (!deps.existsSync(dir)) {
+    return [];
+  }
+  try {
+    return deps.readdirSync(dir).filter((entry) => !IGNORED_DIRECTORY_NAMES.has(entry));
+  } catch {
+    // Not a directory, or unreadable
+    return [];
+  }
+}
+
+/**
+ * Collect the directories matching the remaining segments under `dir`.
+ * Literal segments are joined without listing the directory.
+ */
+function walkSegments(dir: string, segments: string[], deps: WorkspaceDetectDeps, found: string[]): void {
+  if (segments.length === 0) {
+    found.push(dir);
+    return;
+  }
+
+  const [head, ...rest] = segments;
+  if (head === '**') {
+    walkSegments(dir, rest, deps, found);
+    for (const entry of listDirectory(dir, deps)) {
+      if (!entry.startsWith('.')) {
+        walkSegments(join(dir, entry), segments, deps, found);
+      }
+    }
+    return;
+  }
+
+  if (!GLOB_MAGIC_REGEX.test(head)) {
+    walkSegments(join(dir, head), rest, deps, found);
+    return;
+  }
+
+  const matcher = segmentToRegExp(head);
+  for (const entry of listDirectory(dir, deps)) {
+    if (matcher.test(entry)) {
+      walkSegments(join(dir, entry), rest, deps, found);
+    }
+  }
+}
+
+/**
+ * Expand workspace glob patterns to the package directories (containing a
+ * package.json) they match.
  *
- * Only supports single-level glob expansion: `packages/*` expands to immediate
- * children of `packages/`. Nested globs (`packages/*\/src`) are not supported
- * and are returned as-is only if the literal path has a package.json.
+ * Patterns support `*`, `?`, `[...]`, recursive `**` and brace sets
+ * (`{apps,libs}/*`). Patterns starting with `!` exclude the directories they
+ * match from the result, whatever their position in the list. `node_modules`
+ * and dot directories are never searched, and the project root itself is
+ * never a package.
  *
- * Each resolved path is validated to be contained within projectRoot using
- * path.resolve + path.relative containment check. Paths escaping the root
- * (e.g. `../etc`) throw a ValidationError.
+ * Each pattern is validated to stay within projectRoot using path.resolve +
+ * path.relative containment checks. Patterns escaping the root (e.g.
+ * `../etc`) throw a ValidationError.
  *
  * @param patterns - Glob patterns from workspace config
  * @param projectRoot - Absolute path to the project root
  * @param deps - Injected FS dependencies
- * @returns Array of absolute paths to valid package directories
+ * @returns Array of absolute paths to valid package directories, in pattern order
  */
 export function resolvePackagePaths(
   patterns: string[],
   projectRoot: string,
   deps: WorkspaceDetectDeps
 ): string[] {
-  const result: string[] = [];
-
-  for (const pattern of patterns) {
-    const resolved = resolve(projectRoot, pattern);
-
-    // Containment check: relative path must NOT start with '..' or be absolute
-    // (isAbsolute guard handles Windows cross-drive paths where relative() returns
-    //  an absolute path that doesn't start with '..', bypassing the startsWith check)
-    const rel = relative(projectRoot, resolved);
-    if (isAbsolute(rel) || rel === '..' || rel.startsWith(`..${sep}`)) {
-      throw new ValidationError(
-        `Workspace pattern "${pattern}" resolves outside the project root.\n` +
-        `Resolved: ${resolved}\n` +
-        `Project root: ${projectRoot}\n` +
-        `Each workspace package must live under the project root.`
-      );
-    }
+  const exclusions = patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => pattern.slice(1));
+  const result = new Set<string>();
 
-    // Single-level glob expansion: path ends with /*
-    if (pattern.endsWith('/*')) {
-      const parentDir = resolve(projectRoot, pattern.slice(0, -2));
-
-      // Containment check on the parent dir too (same isAbsolute guard)
-      const parentRel = relative(projectRoot, parentDir);
-      if (isAbsolute(parentRel) || parentRel === '..' || parentRel.startsWith(`..${sep}`)) {
-        throw new ValidationError(
-          `Workspace pattern "${pattern}" resolves outside the project root.\n` +
-          `Resolved parent: ${parentDir}\n` +
-          `Project root: ${projectRoot}\n` +
-          `Each workspace package must live under the project root.`
-        );
-      }
+  for (const pattern of patterns.filter((candidate) => !candidate.startsWith('!'))) {
+    for (const expanded of expandBraces(pattern)) {
+      assertWithinRoot(pattern, 'Resolved', resolve(projectRoot, expanded), projectRoot);
 
-      if (!deps.existsSync(parentDir)) {
-        continue;
-      }
+      const segments = toSegments(expanded);
+      const firstGlob = segments.findIndex((segment) => GLOB_MAGIC_REGEX.test(segment));
+      const base = resolve(projectRoot, ...(firstGlob === -1 ? segments : segments.slice(0, firstGlob)));
+      assertWithinRoot(pattern, 'Resolved parent', base, projectRoot);
 
-      let entries: string[];
-      try {
-        entries = deps.readdirSync(parentDir);
-      } catch {
-        continue;
-      }
+      const found: string[] = [];
+      walkSegments(base, firstGlob === -1 ? [] : segments.slice(firstGlob), deps, found);
 
-      for (const entry of entries) {
-        const pkgDir = join(parentDir, entry);
-        const pkgJson = join(pkgDir, 'package.json');
-        if (deps.existsSync(pkgJson)) {
-          result.push(pkgDir);
+      for (const dir of found) {
+        const rel = relative(projectRoot, dir).split(sep).join('/');
+        if (
+          rel !== '' &&
+          deps.existsSync(join(dir, 'package.json')) &&
+          !exclusions.some((exclusion) => matchesWorkspacePattern(rel, exclusion))
+        ) {
+          assertWithinRoot(pattern, 'Resolved', dir, projectRoot);
+          result.add(dir);
         }
       }
-    } else {
-      // Non-glob: treat as literal directory path
-      const pkgJson = join(resolved, 'package.json');
-      if (deps.existsSync(pkgJson)) {
-        result.push(resolved);
-      }
     }
   }
 
-  return result;
+  return [...result];
+}
+
+/**
+ * Detect the workspace package directories of a project (see readWorkspaceConfig).
+ *
+ * @param projectRoot - Absolute path to the project root
+ * @param deps - Injected FS dependencies
+ * @returns Array of absolute paths to package directories, or empty array when the project declares no workspaces
+ * @throws ValidationError on invalid workspace config or patterns escaping the root
+ */
+export function detectWorkspacePackageDirs(
+  projectRoot: string,
+  deps: WorkspaceDetectDeps & WorkspaceConfigDeps
+): string[] {
+  const config = readWorkspaceConfig(projectRoot, deps);
+  return config && config.patterns.length > 0 ? resolvePackagePaths(config.patterns, projectRoot, deps) : [];
 }
@@ -0,0 +1,152 @@
+/**
+ * Workspace package manifests and their internal dependency graph
+ *
+ * doctor checks the internal dependency ranges of every workspace manifest;
+ * plan orders releases so a package always ships after the workspace
+ * packages it depends on.
+ */
+
+import { ValidationError } from './errors.js'
+import { isValidSemver } from './semver-utils.js'
+
+export type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'
+
+export interface WorkspacePackage {
+  name: string
+  version: string
+  dependencies: Array<{
+    field: DependencyField
+    name: string
+    range: string
+  }>
+}
+
+export const DEPENDENCY_FIELDS: DependencyField[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+]
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+  return Object.values(value).every((v) => typeof v === 'string')
+}
+
+export function collectDependencyRanges(pkg: Record<string, unknown>): WorkspacePackage['dependencies'] {
+  const dependencies: WorkspacePackage['dependencies'] = []
+  for (const field of DEPENDENCY_FIELDS) {
+    const entries = pkg[field]
+    if (!isStringRecord(entries)) {
+      continue
+    }
+    for (const [name, range] of Object.entries(entries)) {
+      dependencies.push({ field, name, range })
+    }
+  }
+  return dependencies
+}
+
+/**
+ * Parse a workspace package.json.
+ *
+ * @returns The package, or null when the manifest is not valid JSON or has
+ *   no name or no valid semver version
+ */
+export function parseWorkspaceManifest(content: string): WorkspacePackage | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    return null
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return null
+  }
+
+  const pkg = parsed as Record<string, unknown>
+  if (typeof pkg.name !== 'string' || typeof pkg.version !== 'string' || !isValidSemver(pkg.version)) {
+    return null
+  }
+  return {
+    name: pkg.name,
+    version: pkg.version,
+    dependencies: collectDependencyRanges(pkg),
+  }
+}
+
+/**
+ * Order workspace packages so each one comes after the workspace packages it
+ * depends on. devDependencies are ignored: they do not ship with the package,
+ * and test-only cycles between packages are common.
+ *
+ * Packages with no ordering constraint between them keep their input order.
+ *
+ * @throws ValidationError when the internal dependencies form a cycle
+ */
+export function topologicalOrder<T extends WorkspacePackage>(packages: T[]): T[] {
+  const byName = new Map(packages.map((pkg) => [pkg.name, pkg]))
+  const pending = new Map(
+    packages.map((pkg) => [
+      pkg.name,
+      new Set(
+        pkg.dependencies
+          .filter((dependency) => dependency.field !== 'devDependencies' && dependency.name !== pkg.name)
+          .map((dependency) => dependency.name)
+          .filter((name) => byName.has(name)),
+      ),
+    ]),
+  )
+
+  const ordered: T[] = []
+  while (pending.size > 0) {
+    const ready = packages.filter((pkg) => pending.get(pkg.name)?.size === 0)
+    if (ready.length === 0) {
+      throw new ValidationError(
+        `Workspace packages depend on each other in a cycle: ${[...pending.keys()].join(', ')}`,
+      )
+    }
+    for (const pkg of ready) {
+      ordered.push(pkg)
+      pending.delete(pkg.name)
+    }
+    for (const dependencies of pending.values()) {
+      for (const pkg of ready) {
+        dependencies.delete(pkg.name)
+      }
+    }
+  }
+  return ordered
+}
+
+// `workspace:` ranges that pnpm resolves to the current version at publish time
+const WORKSPACE_ALIASES = new Set(['*', '^', '~'])
+const SIMPLE_RANGE_REGEX = /^(\^|~|>=|=)?v?(\S+)$/
+
+/**
+ * Point an internal dependency range at a new version, keeping its operator
+ * and any `workspace:` prefix (`^1.2.0` → `^2.0.0`, `workspace:~1.2.0` →
+ * `workspace:~2.0.0`).
+ *
+ * @returns The rewritten range, or null when the range is already current,
+ *   is a `workspace:*`/`^`/`~` alias, or is not a single version with an
+ *   optional `^`, `~`, `>=` or `=` operator
+ */
+export function rewriteDependencyRange(range: string, version: string): string | null {
+  const trimmed = range.trim()
+  const protocol = trimmed.startsWith('workspace:') ? 'workspace:' : ''
+  const spec = trimmed.slice(protocol.length)
+  if (protocol && (spec === '' || WORKSPACE_ALIASES.has(spec))) {
+    return null
+  }
+
+  const match = spec.match(SIMPLE_RANGE_REGEX)
+  if (!match || !isValidSemver(match[2])) {
+    return null
+  }
+
+  const rewritten = `${protocol}${match[1] ?? ''}${version.replace(/^v/, '')}`
+  return rewritten === trimmed ? null : rewritten
+}
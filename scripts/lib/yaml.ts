@@ -0,0 +1,721 @@
+/**
+ * Dependency-free parser for the YAML subset found in pnpm-workspace.yaml
+ * and GitHub Actions workflows
+ *
+ * Supported:
+ * - block mappings and sequences (including `- key: value` items and
+ *   sequences at the indentation of their parent key)
+ * - flow sequences and mappings, which may span several lines
+ * - plain, single-quoted and double-quoted scalars and keys
+ * - literal (`|`) and folded (`>`) block scalars, with chomping (`+`, `-`)
+ *   and indentation indicators
+ * - anchors (`&name`), aliases (`*name`) and `<<` merge keys
+ * - comments, directives and a leading `---` marker; documents after the
+ *   first one are ignored
+ *
+ * Plain scalars resolve with the YAML 1.2 core schema: `null`, `~`, `true`,
+ * `false` and numbers are typed, everything else (including `on` and `yes`)
+ * stays a string. Keys are always strings.
+ *
+ * Tags (`!!str`, `!custom`) and complex `?` keys are not supported and throw
+ * a ValidationError, like any syntax error.
+ */
+
+import { ValidationError } from './errors.js'
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | YamlMapping
+
+export interface YamlMapping {
+  [key: string]: YamlValue
+}
+
+interface ParserState {
+  lines: string[]
+  /** Index of the current line */
+  pos: number
+  source: string
+  anchors: Map<string, YamlValue>
+}
+
+interface FlowCursor {
+  text: string
+  index: number
+  /** Line the flow collection starts on, for error messages */
+  line: number
+}
+
+const DOCUMENT_MARKER_REGEX = /^(?:---|\.\.\.)(?:\s|$)/
+const ANCHOR_NAME_REGEX = /^[^\s,[\]{}]+/
+const FLOW_INDICATORS = ',[]{}'
+
+export function isYamlMapping(value: YamlValue | undefined): value is YamlMapping {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function fail(state: Pick<ParserState, 'source'>, line: number, message: string): never {
+  throw new ValidationError(`${state.source}: line ${line + 1}: ${message}`)
+}
+
+function setKey(mapping: YamlMapping, key: string, value: YamlValue): void {
+  // defineProperty keeps a `__proto__` key an ordinary entry
+  Object.defineProperty(mapping, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+/**
+ * Remove a trailing `# comment`, ignoring `#` inside quoted scalars and `#`
+ * not preceded by whitespace (`a#b` is a plain scalar).
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]
+    if (quote) {
+      if (quote === "'" && char === "'" && line[index + 1] === "'") {
+        index++
+      } else if (quote === '"' && char === '\\') {
+        index++
+      } else if (char === quote) {
+        quote = null
+      }
+      continue
+    }
+    if ((char === '"' || char === "'") && (index === 0 || /[\s[{,:]/.test(line[index - 1]))) {
+      quote = char
+    } else if (char === '#' && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index).trimEnd()
+    }
+  }
+  return line.trimEnd()
+}
+
+/**
+ * Next line with content, skipping blank and comment-only lines.
+ *
+ * @returns Its indentation and its text without indentation and comment,
+ *   or null at the end of the document
+ */
+function peek(state: ParserState): { indent: number; text: string } | null {
+  while (state.pos < state.lines.length) {
+    const text = stripComment(state.lines[state.pos])
+    if (text.trim() !== '') {
+      const whitespace = text.match(/^[ \t]*/)?.[0] ?? ''
+      if (whitespace.includes('\t')) {
+        fail(state, state.pos, 'tabs are not allowed in indentation')
+      }
+      return { indent: whitespace.length, text: text.slice(whitespace.length) }
+    }
+    state.pos++
+  }
+  return null
+}
+
+function isSequenceEntry(text: string): boolean {
+  return text === '-' || /^-\s/.test(text)
+}
+
+/**
+ * Index of the quote closing the quoted scalar that starts at `start`, or -1.
+ */
+function findQuoteEnd(text: string, start: number): number {
+  const quote = text[start]
+  for (let index = start + 1; index < text.length; index++) {
+    if (quote === '"' && text[index] === '\\') {
+      index++
+    } else if (text[index] === quote) {
+      if (quote === "'" && text[index + 1] === "'") {
+        index++
+      } else {
+        return index
+      }
+    }
+  }
+  return -1
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+  L: '\u2028',
+  P: '\u2029',
+}
+
+/**
+ * Value of a quoted scalar, quotes included.
+ */
+function unquote(state: ParserState, quoted: string, line: number): string {
+  const body = quoted.slice(1, -1)
+  if (quoted[0] === "'") {
+    return body.replace(/''/g, "'")
+  }
+  return body.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_, escape: string) => {
+    if (escape.length > 1) {
+      return String.fromCodePoint(Number.parseInt(escape.slice(1), 16))
+    }
+    const resolved = DOUBLE_QUOTE_ESCAPES[escape]
+    if (resolved === undefined) {
+      fail(state, line, `unknown escape sequence \\${escape}`)
+    }
+    return resolved
+  })
+}
+
+/**
+ * Type a plain scalar with the YAML 1.2 core schema.
+ */
+function resolvePlain(text: string): YamlValue {
+  if (/^(?:~|null|Null|NULL)?$/.test(text)) {
+    return null
+  }
+  if (/^(?:true|True|TRUE)$/.test(text)) {
+    return true
+  }
+  if (/^(?:false|False|FALSE)$/.test(text)) {
+    return false
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return Number.parseInt(text.slice(2), 8)
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return Number.parseInt(text.slice(2), 16)
+  }
+  if (/^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/.test(text)) {
+    return Number(text)
+  }
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? Number.NEGATIVE_INFINITY : Number.POSITIVE_INFINITY
+  }
+  if (/^\.(?:nan|NaN|NAN)$/.test(text)) {
+    return Number.NaN
+  }
+  return text
+}
+
+/**
+ * Split `key: rest` when the text starts a mapping entry.
+ */
+function splitMappingKey(state: ParserState, text: string): { key: string; rest: string } | null {
+  if (isSequenceEntry(text)) {
+    return null
+  }
+  if (text === '?' || /^\?\s/.test(text)) {
+    fail(state, state.pos, 'complex mapping keys (?) are not supported')
+  }
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findQuoteEnd(text, 0)
+    if (end === -1) {
+      return null
+    }
+    const after = text.slice(end + 1).trimStart()
+    if (!/^:(?:\s|$)/.test(after)) {
+      return null
+    }
+    return { key: unquote(state, text.slice(0, end + 1), state.pos), rest: after.slice(1) }
+  }
+  if (/^[[{&*!|>]/.test(text)) {
+    return null
+  }
+
+  const match = text.match(/^(.*?)\s*:(?:\s|$)/)
+  if (!match || match[1] === '') {
+    return null
+  }
+  return { key: match[1], rest: text.slice(text.indexOf(':', match[1].length) + 1) }
+}
+
+function resolveAlias(state: ParserState, name: string, line: number): YamlValue {
+  if (!state.anchors.has(name)) {
+    fail(state, line, `unknown alias *${name}`)
+  }
+  return state.anchors.get(name) as YamlValue
+}
+
+function applyMerges(state: ParserState, mapping: YamlMapping, merges: YamlValue[], line: number): void {
+  for (const merge of merges) {
+    const sources = Array.isArray(merge) ? merge : [merge]
+    for (const source of sources) {
+      if (!isYamlMapping(source)) {
+        fail(state, line, '<< merges a mapping or a list of mappings')
+      }
+      for (const [key, value] of Object.entries(source)) {
+        // Explicit keys and earlier merges win
+        if (!Object.hasOwn(mapping, key)) {
+          setKey(mapping, key, value)
+        }
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Flow collections
+// ---------------------------------------------------------------------------
+
+function skipFlowSpaces(cursor: FlowCursor): void {
+  while (cursor.index < cursor.text.length && /\s/.test(cursor.text[cursor.index])) {
+    cursor.index++
+  }
+}
+
+function isFlowPlainEnd(cursor: FlowCursor, index: number): boolean {
+  const char = cursor.text[index]
+  if (FLOW_INDICATORS.includes(char)) {
+    return true
+  }
+  const next = cursor.text[index + 1]
+  return char === ':' && (next === undefined || /\s/.test(next) || FLOW_INDICATORS.includes(next))
+}
+
+/**
+ * A flow scalar: quoted, or plain up to the next indicator. Keys stay raw
+ * strings; values are typed.
+ */
+function parseFlowScalar(state: ParserState, cursor: FlowCursor, asKey: boolean): YamlValue {
+  const char = cursor.text[cursor.index]
+  if (char === '"' || char === "'") {
+    const end = findQuoteEnd(cursor.text, cursor.index)
+    if (end === -1) {
+      fail(state, cursor.line, 'unterminated quoted scalar')
+    }
+    const value = unquote(state, cursor.text.slice(cursor.index, end + 1), cursor.line)
+    cursor.index = end + 1
+    return value
+  }
+
+  const start = cursor.index
+  while (cursor.index < cursor.text.length && !isFlowPlainEnd(cursor, cursor.index)) {
+    cursor.index++
+  }
+  const text = cursor.text.slice(start, cursor.index).trim()
+  return asKey ? text : resolvePlain(text)
+}
+
+function parseFlowNode(state: ParserState, cursor: FlowCursor): YamlValue {
+  skipFlowSpaces(cursor)
+  let anchor: string | undefined
+  while (cursor.text[cursor.index] === '&' || cursor.text[cursor.index] === '!') {
+    const name = cursor.text.slice(cursor.index + 1).match(ANCHOR_NAME_REGEX)?.[0] ?? ''
+    if (cursor.text[cursor.index] === '!') {
+      fail(state, cursor.line, `tags are not supported (!${name})`)
+    }
+    if (!name) {
+      fail(state, cursor.line, 'anchor without a name')
+    }
+    anchor = name
+    cursor.index += name.length + 1
+    skipFlowSpaces(cursor)
+  }
+
+  let value: YamlValue
+  const char = cursor.text[cursor.index]
+  if (char === '[') {
+    value = parseFlowSequence(state, cursor)
+  } else if (char === '{') {
+    value = parseFlowMapping(state, cursor)
+  } else if (char === '*') {
+    const name = cursor.text.slice(cursor.index + 1).match(ANCHOR_NAME_REGEX)?.[0] ?? ''
+    cursor.index += name.length + 1
+    value = resolveAlias(state, name, cursor.line)
+  } else {
+    value = parseFlowScalar(state, cursor, false)
+  }
+
+  if (anchor) {
+    state.anchors.set(anchor, value)
+  }
+  return value
+}
+
+function parseFlowSequence(state: ParserState, cursor: FlowCursor): YamlValue[] {
+  const items: YamlValue[] = []
+  cursor.index++
+  for (;;) {
+    skipFlowSpaces(cursor)
+    if (cursor.text[cursor.index] === ']') {
+      cursor.index++
+      return items
+    }
+
+    const start = cursor.index
+    let item = parseFlowNode(state, cursor)
+    skipFlowSpaces(cursor)
+    if (cursor.text[cursor.index] === ':') {
+      // Single-pair mapping: [name: value]
+      cursor.index++
+      const key = cursor.text.slice(start, cursor.index - 1).trim().replace(/^(['"])(.*)\1$/, '$2')
+      const pair: YamlMapping = {}
+      setKey(pair, key, parseFlowNode(state, cursor))
+      item = pair
+      skipFlowSpaces(cursor)
+    }
+    items.push(item)
+
+    const separator = cursor.text[cursor.index]
+    cursor.index++
+    if (separator === ']') {
+      return items
+    }
+    if (separator !== ',') {
+      fail(state, cursor.line, 'expected "," or "]" in flow sequence')
+    }
+  }
+}
+
+function parseFlowMapping(state: ParserState, cursor: FlowCursor): YamlMapping {
+  const mapping: YamlMapping = {}
+  const merges: YamlValue[] = []
+  cursor.index++
+  for (;;) {
+    skipFlowSpaces(cursor)
+    if (cursor.text[cursor.index] === '}') {
+      cursor.index++
+      applyMerges(state, mapping, merges, cursor.line)
+      return mapping
+    }
+
+    const key = String(parseFlowScalar(state, cursor, true))
+    skipFlowSpaces(cursor)
+    let value: YamlValue = null
+    if (cursor.text[cursor.index] === ':') {
+      cursor.index++
+      skipFlowSpaces(cursor)
+      if (cursor.text[cursor.index] !== ',' && cursor.text[cursor.index] !== '}') {
+        value = parseFlowNode(state, cursor)
+      }
+    }
+    if (key === '<<') {
+      merges.push(value)
+    } else {
+      if (Object.hasOwn(mapping, key)) {
+        fail(state, cursor.line, `duplicate key "${key}"`)
+      }
+      setKey(mapping, key, value)
+    }
+
+    skipFlowSpaces(cursor)
+    const separator = cursor.text[cursor.index]
+    cursor.index++
+    if (separator === '}') {
+      applyMerges(state, mapping, merges, cursor.line)
+      return mapping
+    }
+    if (separator !== ',') {
+      fail(state, cursor.line, 'expected "," or "}" in flow mapping')
+    }
+  }
+}
+
+/**
+ * Whether every bracket opened in the text is closed (quotes respected).
+ */
+function isFlowClosed(text: string): boolean {
+  let depth = 0
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if ((char === '"' || char === "'") && (index === 0 || /[\s[{,:]/.test(text[index - 1]))) {
+      const end = findQuoteEnd(text, index)
+      if (end === -1) {
+        return false
+      }
+      index = end
+    } else if (char === '[' || char === '{') {
+      depth++
+    } else if (char === ']' || char === '}') {
+      depth--
+    }
+  }
+  return depth <= 0
+}
+
+// ---------------------------------------------------------------------------
+// Block structure
+// ---------------------------------------------------------------------------
+
+function parseFlowText(state: ParserState, first: string): YamlValue {
+  const line = state.pos
+  let text = first
+  state.pos++
+  while (!isFlowClosed(text)) {
+    if (state.pos >= state.lines.length) {
+      fail(state, line, 'unterminated flow collection')
+    }
+    text += ` ${stripComment(state.lines[state.pos]).trim()}`
+    state.pos++
+  }
+
+  const cursor: FlowCursor = { text, index: 0, line }
+  const value = parseFlowNode(state, cursor)
+  skipFlowSpaces(cursor)
+  if (cursor.index < text.length) {
+    fail(state, line, `unexpected text after flow collection: ${text.slice(cursor.index)}`)
+  }
+  return value
+}
+
+function parseQuotedText(state: ParserState, first: string): string {
+  const line = state.pos
+  let text = first
+  state.pos++
+  // Multi-line quoted scalars fold line breaks into spaces; blank lines are newlines
+  while (findQuoteEnd(text, 0) === -1) {
+    if (state.pos >= state.lines.length) {
+      fail(state, line, 'unterminated quoted scalar')
+    }
+    const next = state.lines[state.pos].trim()
+    text += next === '' ? '\n' : `${text.endsWith('\n') ? '' : ' '}${next}`
+    state.pos++
+  }
+
+  const end = findQuoteEnd(text, 0)
+  if (stripComment(text.slice(end + 1)).trim() !== '') {
+    fail(state, state.pos - 1, `unexpected text after quoted scalar: ${text.slice(end + 1).trim()}`)
+  }
+  return unquote(state, text.slice(0, end + 1), line)
+}
+
+function parsePlainText(state: ParserState, first: string, parentIndent: number): YamlValue {
+  const parts = [first]
+  state.pos++
+  for (let next = peek(state); next && next.indent > parentIndent; next = peek(state)) {
+    parts.push(next.text.trim())
+    state.pos++
+  }
+  return resolvePlain(parts.join(' '))
+}
+
+function foldLines(lines: string[]): string {
+  let folded = ''
+  let blankLines = 0
+  let previousMoreIndented = false
+  lines.forEach((line, index) => {
+    if (line === '') {
+      blankLines++
+      return
+    }
+    const moreIndented = /^\s/.test(line)
+    if (index === blankLines) {
+      folded += '\n'.repeat(blankLines)
+    } else if (blankLines > 0) {
+      // The first line break folds away unless a more-indented line is involved
+      folded += `${previousMoreIndented || moreIndented ? '\n' : ''}${'\n'.repeat(blankLines)}`
+    } else {
+      folded += previousMoreIndented || moreIndented ? '\n' : ' '
+    }
+    folded += line
+    blankLines = 0
+    previousMoreIndented = moreIndented
+  })
+  return folded
+}
+
+function parseBlockScalar(state: ParserState, header: string, parentIndent: number): string {
+  const match = header.match(/^([|>])(?:([+-])([1-9])?|([1-9])([+-])?)?$/)
+  if (!match) {
+    fail(state, state.pos, `invalid block scalar header "${header}"`)
+  }
+  const chomping = match[2] ?? match[5] ?? ''
+  const indicator = match[3] ?? match[4]
+  state.pos++
+
+  let contentIndent = indicator ? Math.max(parentIndent, 0) + Number(indicator) : -1
+  const lines: string[] = []
+  while (state.pos < state.lines.length) {
+    const raw = state.lines[state.pos]
+    if (raw.trim() === '') {
+      lines.push('')
+      state.pos++
+      continue
+    }
+    const indent = raw.match(/^ */)?.[0].length ?? 0
+    if (contentIndent === -1) {
+      if (indent <= parentIndent) {
+        break
+      }
+      contentIndent = indent
+    }
+    if (indent < contentIndent) {
+      break
+    }
+    lines.push(raw.slice(contentIndent))
+    state.pos++
+  }
+
+  let trailing = 0
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop()
+    trailing++
+  }
+  const text = match[1] === '|' ? lines.join('\n') : foldLines(lines)
+  if (chomping === '-') {
+    return text
+  }
+  if (chomping === '+') {
+    return `${text}${'\n'.repeat(trailing + (lines.length > 0 ? 1 : 0))}`
+  }
+  return lines.length > 0 ? `${text}\n` : ''
+}
+
+/**
+ * Value that starts with `text` on the current line, consuming every line
+ * it spans.
+ *
+ * @param parentIndent - Indentation of the entry owning the value; its
+ *   nested content must be indented more
+ * @param compactSequenceIndent - Indentation at which a block sequence may
+ *   start on the next line (`key:` followed by `- item` at the key's level)
+ */
+function parseValue(state: ParserState, text: string, parentIndent: number, compactSequenceIndent?: number): YamlValue {
+  let rest = text.trim()
+  let anchor: string | undefined
+  while (rest.startsWith('&') || rest.startsWith('!')) {
+    const name = rest.slice(1).match(ANCHOR_NAME_REGEX)?.[0] ?? ''
+    if (rest.startsWith('!')) {
+      fail(state, state.pos, `tags are not supported (!${name})`)
+    }
+    if (!name) {
+      fail(state, state.pos, 'anchor without a name')
+    }
+    anchor = name
+    rest = rest.slice(name.length + 1).trim()
+  }
+
+  let value: YamlValue
+  if (rest === '') {
+    state.pos++
+    const next = peek(state)
+    value =
+      next && next.indent === compactSequenceIndent && isSequenceEntry(next.text)
+        ? parseBlockSequence(state, next.indent)
+        : parseNode(state, parentIndent)
+  } else if (rest.startsWith('*')) {
+    const name = rest.slice(1).match(ANCHOR_NAME_REGEX)?.[0] ?? ''
+    if (rest.slice(name.length + 1).trim() !== '') {
+      fail(state, state.pos, `unexpected text after alias *${name}`)
+    }
+    value = resolveAlias(state, name, state.pos)
+    state.pos++
+  } else if (rest.startsWith('|') || rest.startsWith('>')) {
+    value = parseBlockScalar(state, rest, parentIndent)
+  } else if (rest.startsWith('[') || rest.startsWith('{')) {
+    value = parseFlowText(state, rest)
+  } else if (rest.startsWith('"') || rest.startsWith("'")) {
+    value = parseQuotedText(state, rest)
+  } else {
+    value = parsePlainText(state, rest, parentIndent)
+  }
+
+  if (anchor) {
+    state.anchors.set(anchor, value)
+  }
+  return value
+}
+
+function parseBlockSequence(state: ParserState, indent: number): YamlValue[] {
+  const items: YamlValue[] = []
+  for (let line = peek(state); line && line.indent >= indent; line = peek(state)) {
+    if (line.indent > indent) {
+      fail(state, state.pos, 'unexpected indentation')
+    }
+    if (!isSequenceEntry(line.text)) {
+      break
+    }
+    // Blank out the dash: the item is then a node indented past the sequence
+    const raw = state.lines[state.pos]
+    state.lines[state.pos] = `${raw.slice(0, indent)} ${raw.slice(indent + 1)}`
+    items.push(parseNode(state, indent))
+  }
+  return items
+}
+
+function parseBlockMapping(state: ParserState, indent: number): YamlMapping {
+  const mapping: YamlMapping = {}
+  const merges: YamlValue[] = []
+  for (let line = peek(state); line && line.indent >= indent; line = peek(state)) {
+    if (line.indent > indent) {
+      fail(state, state.pos, 'unexpected indentation')
+    }
+    const entry = splitMappingKey(state, line.text)
+    if (!entry) {
+      fail(state, state.pos, `expected a "key: value" entry, got "${line.text}"`)
+    }
+    if (entry.key !== '<<' && Object.hasOwn(mapping, entry.key)) {
+      fail(state, state.pos, `duplicate key "${entry.key}"`)
+    }
+
+    const value = parseValue(state, entry.rest, indent, indent)
+    if (entry.key === '<<') {
+      merges.push(value)
+    } else {
+      setKey(mapping, entry.key, value)
+    }
+  }
+  applyMerges(state, mapping, merges, state.pos - 1)
+  return mapping
+}
+
+/**
+ * Node on the next content line, if it is indented past `parentIndent`.
+ */
+function parseNode(state: ParserState, parentIndent: number): YamlValue {
+  const line = peek(state)
+  if (!line || line.indent <= parentIndent) {
+    return null
+  }
+  if (isSequenceEntry(line.text)) {
+    return parseBlockSequence(state, line.indent)
+  }
+  if (splitMappingKey(state, line.text)) {
+    return parseBlockMapping(state, line.indent)
+  }
+  return parseValue(state, line.text, parentIndent)
+}
+
+/**
+ * Parse the first document of a YAML file.
+ *
+ * @param source - File name used in error messages
+ * @returns The document, or null when it is empty
+ * @throws ValidationError on invalid or unsupported syntax, with the line number
+ */
+export function parseYaml(content: string, source = 'YAML'): YamlValue {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  if (lines[lines.length - 1] === '') {
+    // What follows the final line break is not a line: `|+` must not keep it
+    lines.pop()
+  }
+  let start = 0
+  while (start < lines.length && (lines[start].startsWith('%') || stripComment(lines[start]).trim() === '')) {
+    start++
+  }
+  if (start < lines.length && /^---(?:\s|$)/.test(lines[start])) {
+    // Content may follow the marker on the same line (`--- |`)
+    lines[start] = `   ${lines[start].slice(3)}`
+  }
+  const end = lines.findIndex((line, index) => index > start && DOCUMENT_MARKER_REGEX.test(line))
+
+  const state: ParserState = {
+    lines: end === -1 ? lines : lines.slice(0, end),
+    pos: start,
+    source,
+    anchors: new Map(),
+  }
+  const value = parseNode(state, -1)
+  const rest = peek(state)
+  if (rest) {
+    fail(state, state.pos, `unexpected content "${rest.text}"`)
+  }
+  return value
+}
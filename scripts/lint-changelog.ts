@@ -0,0 +1,457 @@
+#!/usr/bin/env tsx
+/**
+ * Lint CHANGELOG.md against Keep a Changelog conventions
+ *
+ * Rules (each configurable as "error", "warn" or "off"):
+ * - version-order      [Unreleased] first, then versions in descending semver order (fixable)
+ * - duplicate-version  the same version heading appears more than once
+ * - release-date       released versions carry a valid ISO 8601 date (YYYY-MM-DD)
+ * - unknown-section    ### headings use known section names (case mismatches fixable)
+ * - empty-section      ### headings have content (fixable: heading removed)
+ * - missing-link       bracketed version headings have a [x.y.z]: reference link (fixable)
+ * - orphaned-link      reference links are used somewhere in the file (fixable: link removed)
+ *
+ * Usage:
+ *   tsx lint-changelog.ts [--fix]
+ *
+ * Environment variables:
+ *   CHANGELOG_FILE - Path to changelog file (default: CHANGELOG.md)
+ *   CHANGELOG_LINT_RULES - JSON rule severities, merged on top of .changelog-lint.json
+ */
+
+import type { ExecSyncOptions } from 'node:child_process'
+import { execSync } from 'node:child_process'
+import { readFileSync, writeFileSync } from 'node:fs'
+import type { ChangelogDocument, ChangelogRelease } from './lib/changelog-document.js'
+import {
+  ensureTrailingBlankLine,
+  isUnreleasedRelease,
+  listReferenceLinks,
+  parseChangelog,
+  serializeChangelog,
+  setReferenceLink,
+} from './lib/changelog-document.js'
+import { loadChangelogTypeMap } from './lib/changelog-types.js'
+import { CONTRIBUTORS_SECTION } from './lib/commit-authors.js'
+import { ValidationError } from './lib/errors.js'
+import { buildReleaseLinks, type Forge, releaseTagName, resolveForge } from './lib/forge.js'
+import { runScript } from './lib/run-script.js'
+import { compareSemver } from './lib/semver-utils.js'
+import { escapeRegExp } from './lib/string-utils.js'
+
+export type LintSeverity = 'error' | 'warn' | 'off'
+
+export type LintRuleId =
+  | 'version-order'
+  | 'duplicate-version'
+  | 'release-date'
+  | 'unknown-section'
+  | 'empty-section'
+  | 'missing-link'
+  | 'orphaned-link'
+
+export type LintRuleConfig = Record<LintRuleId, LintSeverity>
+
+export interface LintIssue {
+  rule: LintRuleId
+  severity: Exclude<LintSeverity, 'off'>
+  message: string
+  fixable: boolean
+}
+
+export interface LintOptions {
+  fix: boolean
+}
+
+export interface LintChangelogDeps {
+  execSync: (command: string, options?: ExecSyncOptions) => Buffer | string
+  readFileSync: typeof readFileSync
+  writeFileSync: typeof writeFileSync
+  getEnv: (key: string) => string | undefined
+  log: (message: string) => void
+  warn: (message: string) => void
+}
+
+export interface LintChangelogResult {
+  issues: LintIssue[]
+  fixed: number
+}
+
+interface LintContext {
+  knownSections: string[]
+  // Lazily resolved: only needed when missing links get fixed
+  getForge: () => Forge | null
+  tagName: (version: string) => string
+}
+
+interface RuleFinding {
+  message: string
+  fixable: boolean
+}
+
+interface LintRule {
+  check: (document: ChangelogDocument, context: LintContext) => RuleFinding[]
+  fix?: (document: ChangelogDocument, context: LintContext) => void
+}
+
+export const DEFAULT_LINT_RULES: LintRuleConfig = {
+  'version-order': 'error',
+  'duplicate-version': 'error',
+  'release-date': 'error',
+  'unknown-section': 'warn',
+  'empty-section': 'warn',
+  'missing-link': 'warn',
+  'orphaned-link': 'warn',
+}
+
+const KEEP_A_CHANGELOG_SECTIONS = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security']
+const BREAKING_SECTION_REGEX = /^(?:⚠️\s*)?breaking[-\s]+changes?$/i
+const LINT_RULES_FILE = '.changelog-lint.json'
+const SEVERITIES = new Set<LintSeverity>(['error', 'warn', 'off'])
+
+function versionedReleases(document: ChangelogDocument): Array<ChangelogRelease & { version: string }> {
+  return document.releases.filter((release): release is ChangelogRelease & { version: string } => release.version !== null)
+}
+
+function hasBracketedLabel(release: ChangelogRelease): boolean {
+  return /^##\s*\[/.test(release.heading)
+}
+
+function isValidIsoDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+function isKnownSection(name: string, context: LintContext): boolean {
+  return BREAKING_SECTION_REGEX.test(name) || context.knownSections.includes(name)
+}
+
+function canonicalSectionName(name: string, context: LintContext): string | null {
+  return context.knownSections.find(known => known.toLowerCase() === name.toLowerCase()) ?? null
+}
+
+function sectionIsEmpty(section: ChangelogRelease['sections'][number]): boolean {
+  return section.items.every(item => item.kind === 'text' && item.line.trim() === '')
+}
+
+function expectedReleaseOrder(document: ChangelogDocument): ChangelogRelease[] {
+  // Versioned blocks are sorted within the slots they already occupy, so
+  // free-form headings (e.g. "## Older releases") keep their position.
+  const sorted = [...versionedReleases(document)].sort((a, b) => compareSemver(b.version, a.version))
+  const others = document.releases.filter(release => !isUnreleasedRelease(release))
+  const unreleased = document.releases.filter(isUnreleasedRelease)
+  return [...unreleased, ...others.map(release => (release.version !== null ? (sorted.shift() ?? release) : release))]
+}
+
+function linkedLabels(document: ChangelogDocument): Set<string> {
+  return new Set(listReferenceLinks(document).map(link => link.label.toLowerCase()))
+}
+
+function missingLinkReleases(document: ChangelogDocument): Array<ChangelogRelease & { version: string }> {
+  const linked = linkedLabels(document)
+  return versionedReleases(document).filter(
+    release => hasBracketedLabel(release) && !linked.has(release.label.toLowerCase()),
+  )
+}
+
+function orphanedLinkLabels(document: ChangelogDocument): string[] {
+  const content = serializeChangelog({ ...document, footer: [] })
+  return listReferenceLinks(document)
+    .map(link => link.label)
+    .filter(label => !new RegExp(`\\[${escapeRegExp(label)}\\]`, 'i').test(content))
+}
+
+const LINT_RULES = {
+  'version-order': {
+    check: document => {
+      const expected = expectedReleaseOrder(document)
+      const misplaced = document.releases.findIndex((release, index) => expected[index] !== release)
+      if (misplaced === -1) {
+        return []
+      }
+      const release = document.releases[misplaced]
+      return [
+        {
+          message: `[${release.label}] is out of order (expected [Unreleased] first, then versions in descending semver order)`,
+          fixable: true,
+        },
+      ]
+    },
+    fix: document => {
+      const expected = expectedReleaseOrder(document)
+      expected.slice(0, -1).forEach(ensureTrailingBlankLine)
+      document.releases = expected
+    },
+  },
+  'duplicate-version': {
+    check: document => {
+      const counts = new Map<string, number>()
+      for (const release of versionedReleases(document)) {
+        counts.set(release.version, (counts.get(release.version) ?? 0) + 1)
+      }
+      return [...counts.entries()]
+        .filter(([, count]) => count > 1)
+        .map(([version, count]) => ({ message: `Version ${version} appears ${count} times`, fixable: false }))
+    },
+  },
+  'release-date': {
+    check: document =>
+      versionedReleases(document).flatMap(release => {
+        if (release.date === null) {
+          return [{ message: `[${release.label}] has no release date (expected "- YYYY-MM-DD")`, fixable: false }]
+        }
+        if (!isValidIsoDate(release.date)) {
+          return [{ message: `[${release.label}] has an invalid release date: ${release.date}`, fixable: false }]
+        }
+        return []
+      }),
+  },
+  'unknown-section': {
+    check: (document, context) =>
+      document.releases.flatMap(release =>
+        release.sections
+          .filter(section => !isKnownSection(section.name, context))
+          .map(section => ({
+            message: `[${release.label}] has unknown section "### ${section.name}"`,
+            fixable: canonicalSectionName(section.name, context) !== null,
+          })),
+      ),
+    fix: (document, context) => {
+      for (const section of document.releases.flatMap(release => release.sections)) {
+        const canonical = isKnownSection(section.name, context) ? null : canonicalSectionName(section.name, context)
+        if (canonical) {
+          section.heading = `### ${canonical}`
+          section.name = canonical
+        }
+      }
+    },
+  },
+  'empty-section': {
+    check: document =>
+      document.releases.flatMap(release =>
+        release.sections
+          .filter(sectionIsEmpty)
+          .map(section => ({ message: `[${release.label}] has an empty "### ${section.name}" section`, fixable: true })),
+      ),
+    fix: document => {
+      for (const release of document.releases) {
+        release.sections = release.sections.filter(section => !sectionIsEmpty(section))
+      }
+    },
+  },
+  'missing-link': {
+    check: (document, context) =>
+      missingLinkReleases(document).map(release => ({
+        message: `[${release.label}] has no [${release.label}]: reference link`,
+        fixable: context.getForge() !== null,
+      })),
+    fix: (document, context) => {
+      const forge = context.getForge()
+      if (!forge) {
+        return
+      }
+      for (const release of missingLinkReleases(document)) {
+        setReferenceLink(document, release.label, buildReleaseLinks(forge, context.tagName(release.version)).tag)
+      }
+    },
+  },
+  'orphaned-link': {
+    check: document =>
+      orphanedLinkLabels(document).map(label => ({
+        message: `Reference link [${label}] is not used anywhere in the changelog`,
+        fixable: true,
+      })),
+    fix: document => {
+      const orphaned = new Set(orphanedLinkLabels(document).map(label => label.toLowerCase()))
+      document.footer = document.footer.filter(line => {
+        const label = line.match(/^\[([^\]]+)\]:/)?.[1]
+        return !label || !orphaned.has(label.toLowerCase())
+      })
+    },
+  },
+} satisfies Record<LintRuleId, LintRule>
+
+function validateRuleConfig(value: unknown): asserts value is Partial<LintRuleConfig> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError('Rule configuration must be a plain object')
+  }
+  for (const [rule, severity] of Object.entries(value as Record<string, unknown>)) {
+    if (!(rule in DEFAULT_LINT_RULES)) {
+      throw new TypeError(`Unknown rule "${rule}"`)
+    }
+    if (typeof severity !== 'string' || !SEVERITIES.has(severity as LintSeverity)) {
+      throw new TypeError(`Invalid severity for "${rule}": expected "error", "warn" or "off"`)
+    }
+  }
+}
+
+/**
+ * Resolve rule severities.
+ *
+ * Priority:
+ *  1. CHANGELOG_LINT_RULES env var (JSON, merged on top of file + defaults)
+ *  2. .changelog-lint.json project file (merged on top of defaults)
+ *  3. DEFAULT_LINT_RULES
+ *
+ * An invalid layer is reported with a warning and ignored.
+ */
+export function loadLintRules(deps: Pick<LintChangelogDeps, 'readFileSync' | 'getEnv' | 'warn'>): LintRuleConfig {
+  let resolved: LintRuleConfig = { ...DEFAULT_LINT_RULES }
+
+  let fileContent: string | undefined
+  try {
+    fileContent = deps.readFileSync(LINT_RULES_FILE, 'utf8') as string
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException)?.code
+    if (code !== 'ENOENT') {
+      deps.warn(`⚠️  Cannot read ${LINT_RULES_FILE}: ${(error as Error)?.message ?? String(error)}. Using default rules.`)
+    }
+  }
+
+  const layers: Array<[string, string | undefined]> = [
+    [LINT_RULES_FILE, fileContent],
+    ['CHANGELOG_LINT_RULES env var', deps.getEnv('CHANGELOG_LINT_RULES')],
+  ]
+  for (const [source, raw] of layers) {
+    if (!raw) {
+      continue
+    }
+    try {
+      const parsed: unknown = JSON.parse(raw)
+      validateRuleConfig(parsed)
+      resolved = { ...resolved, ...parsed }
+    } catch (error) {
+      deps.warn(`⚠️  Invalid ${source}: ${(error as Error).message}. Ignoring it.`)
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Run every enabled rule against a parsed changelog.
+ */
+export function lintDocument(document: ChangelogDocument, rules: LintRuleConfig, context: LintContext): LintIssue[] {
+  return (Object.keys(LINT_RULES) as LintRuleId[]).flatMap(rule => {
+    const severity = rules[rule]
+    if (severity === 'off') {
+      return []
+    }
+    return LINT_RULES[rule].check(document, context).map(finding => ({ rule, severity, ...finding }))
+  })
+}
+
+/**
+ * Apply the fixers of every enabled rule that reported a fixable issue.
+ */
+export function fixDocument(document: ChangelogDocument, rules: LintRuleConfig, context: LintContext): void {
+  // Structural fixes first: removing empty sections and renaming headings
+  // must not be undone by a later reorder, and links are settled last.
+  const order: LintRuleId[] = ['empty-section', 'unknown-section', 'version-order', 'orphaned-link', 'missing-link']
+  for (const rule of order) {
+    const definition: LintRule = LINT_RULES[rule]
+    if (rules[rule] !== 'off' && definition.fix && definition.check(document, context).some(f => f.fixable)) {
+      definition.fix(document, context)
+    }
+  }
+}
+
+export function parseArgs(argv: string[]): LintOptions {
+  return { fix: argv.includes('--fix') }
+}
+
+export function lintChangelog(deps: LintChangelogDeps, options: LintOptions): LintChangelogResult {
+  const changelogPath = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md'
+
+  let content: string
+  try {
+    content = deps.readFileSync(changelogPath, 'utf8') as string
+  } catch (error) {
+    throw new ValidationError(`Could not read ${changelogPath}`, { cause: error })
+  }
+
+  const typeMap = loadChangelogTypeMap({ readFileSync: deps.readFileSync, getEnv: deps.getEnv, warn: deps.warn })
+  let forge: Forge | null | undefined
+  const context: LintContext = {
+    knownSections: [
+      ...new Set([
+        ...KEEP_A_CHANGELOG_SECTIONS,
+        CONTRIBUTORS_SECTION.replace(/^#+\s*/, ''),
+        ...Object.values(typeMap)
+          .filter((heading): heading is string => typeof heading === 'string')
+          .map(heading => heading.replace(/^#+\s*/, '').trim()),
+      ]),
+    ],
+    getForge: () => {
+      if (forge === undefined) {
+        forge = resolveForge({ execSync: deps.execSync, getEnv: deps.getEnv })
+      }
+      return forge
+    },
+    tagName: version => releaseTagName(version, deps.getEnv),
+  }
+
+  const rules = loadLintRules(deps)
+  const document = parseChangelog(content)
+  let fixed = 0
+
+  if (options.fix) {
+    const before = lintDocument(document, rules, context)
+    fixDocument(document, rules, context)
+    const updated = serializeChangelog(document)
+    if (updated !== content) {
+      deps.writeFileSync(changelogPath, updated)
+    }
+    fixed = before.length - lintDocument(document, rules, context).length
+    if (fixed > 0) {
+      deps.log(`🔧 Fixed ${fixed} problem(s) in ${changelogPath}`)
+    }
+  }
+
+  return { issues: lintDocument(document, rules, context), fixed }
+}
+
+/**
+ * CLI entry point - only runs when script is executed directly
+ */
+/* c8 ignore start */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void runScript({ error: console.error, exit: process.exit }, () => {
+    const options = parseArgs(process.argv.slice(2))
+    const changelogPath = process.env.CHANGELOG_FILE || 'CHANGELOG.md'
+
+    console.log(`🔍 Linting ${changelogPath}...\n`)
+
+    const { issues } = lintChangelog(
+      {
+        execSync,
+        readFileSync,
+        writeFileSync,
+        getEnv: (key: string) => process.env[key],
+        log: console.log,
+        warn: console.warn,
+      },
+      options,
+    )
+
+    for (const issue of issues) {
+      const icon = issue.severity === 'error' ? '❌' : '⚠️ '
+      const hint = issue.fixable && !options.fix ? ' (fixable with --fix)' : ''
+      console.log(`${icon} [${issue.rule}] ${issue.message}${hint}`)
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error').length
+    const warnings = issues.length - errors
+    console.log()
+
+    if (errors > 0) {
+      throw new ValidationError(`${changelogPath} has ${errors} error(s) and ${warnings} warning(s)`)
+    }
+    console.log(
+      warnings > 0
+        ? `⚠️  ${changelogPath} has ${warnings} warning(s)`
+        : `✅ ${changelogPath} passed all lint rules`,
+    )
+  })
+}
+/* c8 ignore end */
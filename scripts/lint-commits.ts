@@ -0,0 +1,500 @@
+#!/usr/bin/env tsx
+/**
+ * Lint commit messages against Conventional Commits
+ *
+ * Rules (each configurable as "error", "warn" or "off"; rules marked with an
+ * option take `[severity, option]`):
+ * - header-format                    header reads `type(scope)!: subject`
+ * - type-enum                        type is in the resolved changelog type map
+ * - scope-required                   a scope is given
+ * - scope-enum [scopes]              scopes are in the list (an empty list allows any)
+ * - subject-max-length [length]      subject is at most `length` characters
+ * - subject-case ["lower"|"upper"]   subject starts with a lower-/upper-case letter
+ * - subject-full-stop                subject does not end with a full stop
+ * - body-leading-blank               a blank line separates the body from the header
+ * - footer-format                    footers read `Token: value` / `Token #value`
+ * - breaking-change-format           BREAKING CHANGE is an upper-case footer
+ * - breaking-change-exclamation-mark `!` in the header and a BREAKING CHANGE footer go together
+ *
+ * Merge, revert and fixup!/squash!/amend! commits are skipped.
+ *
+ * Usage:
+ *   tsx lint-commits.ts [range]        (default: commits since the latest tag)
+ *   tsx lint-commits.ts --edit [file]  (commit-msg hook; default: .git/COMMIT_EDITMSG)
+ *
+ * Environment variables:
+ *   COMMIT_LINT_RULES - JSON rule settings, merged on top of .commit-lint.json
+ */
+
+import type { ExecSyncOptions } from 'node:child_process'
+import { execSync } from 'node:child_process'
+import { readFileSync } from 'node:fs'
+import { loadChangelogTypeMap } from './lib/changelog-types.js'
+import {
+  type BreakingChangeLine,
+  findBreakingChangeLines,
+  findFooterLines,
+  isBreakingChangeFooter,
+  isBreakingChangeToken,
+  type ParsedCommitMessage,
+  parseCommitMessage,
+  parseConventionalCommit,
+} from './lib/commit-parser.js'
+import { ValidationError } from './lib/errors.js'
+import { runScript } from './lib/run-script.js'
+import type { LintSeverity } from './lint-changelog.js'
+
+export type CommitLintRuleId =
+  | 'header-format'
+  | 'type-enum'
+  | 'scope-required'
+  | 'scope-enum'
+  | 'subject-max-length'
+  | 'subject-case'
+  | 'subject-full-stop'
+  | 'body-leading-blank'
+  | 'footer-format'
+  | 'breaking-change-format'
+  | 'breaking-change-exclamation-mark'
+
+export type SubjectCase = 'lower' | 'upper'
+
+export interface CommitLintConfig {
+  rules: Record<CommitLintRuleId, LintSeverity>
+  /** scope-enum option */
+  scopes: string[]
+  /** subject-max-length option */
+  subjectMaxLength: number
+  /** subject-case option */
+  subjectCase: SubjectCase
+}
+
+export interface CommitLintIssue {
+  rule: CommitLintRuleId
+  severity: Exclude<LintSeverity, 'off'>
+  message: string
+}
+
+export interface CommitLintReport {
+  /** Commit SHA, or null for a message file */
+  sha: string | null
+  header: string
+  /** Merge, revert or fixup commit: not linted */
+  skipped: boolean
+  issues: CommitLintIssue[]
+}
+
+export interface LintCommitsOptions {
+  range: string | null
+  /** Message file to lint instead of a range (commit-msg hook) */
+  editFile: string | null
+}
+
+export interface LintCommitsDeps {
+  execSync: (command: string, options?: ExecSyncOptions) => Buffer | string
+  readFileSync: typeof readFileSync
+  getEnv: (key: string) => string | undefined
+  log: (message: string) => void
+  warn: (message: string) => void
+}
+
+interface CommitLintContext {
+  config: CommitLintConfig
+  /** Commit types of the resolved changelog type map */
+  types: string[]
+}
+
+interface LintedMessage {
+  parsed: ParsedCommitMessage
+  footerLines: string[]
+  breakingLines: BreakingChangeLine[]
+}
+
+export const DEFAULT_COMMIT_LINT_CONFIG: CommitLintConfig = {
+  rules: {
+    'header-format': 'error',
+    'type-enum': 'error',
+    'scope-required': 'off',
+    'scope-enum': 'off',
+    'subject-max-length': 'warn',
+    'subject-case': 'warn',
+    'subject-full-stop': 'warn',
+    'body-leading-blank': 'error',
+    'footer-format': 'error',
+    'breaking-change-format': 'error',
+    'breaking-change-exclamation-mark': 'warn',
+  },
+  scopes: [],
+  subjectMaxLength: 72,
+  subjectCase: 'lower',
+}
+
+const COMMIT_LINT_RULES_FILE = '.commit-lint.json'
+const DEFAULT_EDIT_FILE = '.git/COMMIT_EDITMSG'
+const SEVERITIES = new Set<LintSeverity>(['error', 'warn', 'off'])
+const SKIPPED_HEADER_REGEX = /^(?:Merge |Revert "|(?:fixup|squash|amend)! )/
+const SCISSORS_LINE = '# ------------------------ >8 ------------------------'
+const RANGE_REGEX = /^[\w./~^@-]+(?:\.\.\.?[\w./~^@-]*)?$/
+
+function scopesOf(parsed: ParsedCommitMessage): string[] {
+  return (parsed.conventional?.scope ?? '')
+    .split(',')
+    .map(scope => scope.trim())
+    .filter(Boolean)
+}
+
+type RuleCheck = (message: LintedMessage, context: CommitLintContext) => string[]
+
+const COMMIT_LINT_RULES = {
+  'header-format': {
+    check: ({ parsed }) => {
+      if (!parsed.header) {
+        return ['Commit message is empty']
+      }
+      return parsed.conventional ? [] : [`Header must read "type(scope)!: subject" (got "${parsed.header}")`]
+    },
+  },
+  'type-enum': {
+    check: ({ parsed }, { types }) => {
+      const type = parsed.conventional?.type
+      return type && !types.includes(type.toLowerCase())
+        ? [`Type "${type}" is not one of: ${types.join(', ')}`]
+        : []
+    },
+  },
+  'scope-required': {
+    check: ({ parsed }) => (parsed.conventional && scopesOf(parsed).length === 0 ? ['A scope is required'] : []),
+  },
+  'scope-enum': {
+    check: ({ parsed }, { config }) =>
+      config.scopes.length === 0
+        ? []
+        : scopesOf(parsed)
+            .filter(scope => !config.scopes.includes(scope))
+            .map(scope => `Scope "${scope}" is not one of: ${config.scopes.join(', ')}`),
+  },
+  'subject-max-length': {
+    check: ({ parsed }, { config }) => {
+      const subject = parsed.conventional?.description ?? ''
+      return subject.length > config.subjectMaxLength
+        ? [`Subject is ${subject.length} characters long (max ${config.subjectMaxLength})`]
+        : []
+    },
+  },
+  'subject-case': {
+    check: ({ parsed }, { config }) => {
+      const subject = parsed.conventional?.description ?? ''
+      const wrongCase = config.subjectCase === 'lower' ? /^\p{Lu}/u : /^\p{Ll}/u
+      return wrongCase.test(subject) ? [`Subject must start with a ${config.subjectCase}-case letter`] : []
+    },
+  },
+  'subject-full-stop': {
+    check: ({ parsed }) => (parsed.conventional?.description.endsWith('.') ? ['Subject must not end with "."'] : []),
+  },
+  'body-leading-blank': {
+    // Lines right below the header may only list further changes (multi-prefix commits)
+    check: ({ parsed }) =>
+      parsed.headerLines.slice(1).some(line => !parseConventionalCommit(line))
+        ? ['A blank line must separate the body from the header']
+        : [],
+  },
+  'footer-format': {
+    check: ({ parsed, footerLines }) => {
+      const findings = parsed.footers
+        .filter(footer => !footer.value)
+        .map(footer => `Footer "${footer.token}" has no value`)
+      for (const line of footerLines) {
+        const missingSpace = line.match(/^([A-Za-z][\w-]*):(?!\/\/)\S/)
+        if (missingSpace && !isBreakingChangeToken(missingSpace[1])) {
+          findings.push(`Footer "${missingSpace[1]}" needs a space after ":"`)
+        }
+        const spacedToken = line.match(/^([A-Za-z][\w-]*(?: [A-Za-z][\w-]*){1,2}): \S/)
+        if (spacedToken && !isBreakingChangeToken(spacedToken[1])) {
+          findings.push(`Footer token "${spacedToken[1]}" must use "-" instead of spaces`)
+        }
+      }
+      return findings
+    },
+  },
+  'breaking-change-format': {
+    check: ({ breakingLines }) => {
+      const findings = breakingLines
+        .filter(line => line.token !== line.token.toUpperCase())
+        .map(line => `"${line.token}:" must be written in upper case (BREAKING CHANGE:)`)
+      if (breakingLines.some(line => !line.footer && line.token === line.token.toUpperCase())) {
+        findings.push('BREAKING CHANGE must be a footer: put it in the last paragraph, after a blank line')
+      }
+      return findings
+    },
+  },
+  'breaking-change-exclamation-mark': {
+    check: ({ parsed }) => {
+      if (!parsed.conventional) {
+        return []
+      }
+      const hasFooter = parsed.footers.some(isBreakingChangeFooter)
+      if (parsed.conventional.breaking && !hasFooter) {
+        return ['Header has "!" but no BREAKING CHANGE footer describes the change']
+      }
+      return !parsed.conventional.breaking && hasFooter
+        ? ['BREAKING CHANGE footer without "!" in the header']
+        : []
+    },
+  },
+} satisfies Record<CommitLintRuleId, { check: RuleCheck }>
+
+function parseSeverity(rule: string, value: unknown): LintSeverity {
+  if (typeof value !== 'string' || !SEVERITIES.has(value as LintSeverity)) {
+    throw new TypeError(`Invalid severity for "${rule}": expected "error", "warn" or "off"`)
+  }
+  return value as LintSeverity
+}
+
+function applyRuleOption(config: CommitLintConfig, rule: CommitLintRuleId, option: unknown): void {
+  switch (rule) {
+    case 'scope-enum':
+      if (!Array.isArray(option) || option.some(scope => typeof scope !== 'string')) {
+        throw new TypeError('Option of "scope-enum" must be an array of scopes')
+      }
+      config.scopes = option as string[]
+      return
+    case 'subject-max-length':
+      if (!Number.isInteger(option) || (option as number) < 1) {
+        throw new TypeError('Option of "subject-max-length" must be a positive integer')
+      }
+      config.subjectMaxLength = option as number
+      return
+    case 'subject-case':
+      if (option !== 'lower' && option !== 'upper') {
+        throw new TypeError('Option of "subject-case" must be "lower" or "upper"')
+      }
+      config.subjectCase = option
+      return
+    default:
+      throw new TypeError(`Rule "${rule}" takes no option`)
+  }
+}
+
+/**
+ * Apply one configuration layer (`{ rule: severity | [severity, option] }`)
+ * to a copy of `base`.
+ */
+function applyConfigLayer(base: CommitLintConfig, value: unknown): CommitLintConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError('Rule configuration must be a plain object')
+  }
+  const config: CommitLintConfig = { ...base, rules: { ...base.rules } }
+  for (const [rule, setting] of Object.entries(value as Record<string, unknown>)) {
+    if (!(rule in DEFAULT_COMMIT_LINT_CONFIG.rules)) {
+      throw new TypeError(`Unknown rule "${rule}"`)
+    }
+    const ruleId = rule as CommitLintRuleId
+    if (Array.isArray(setting)) {
+      if (setting.length !== 2) {
+        throw new TypeError(`Setting of "${rule}" must be a severity or [severity, option]`)
+      }
+      config.rules[ruleId] = parseSeverity(rule, setting[0])
+      applyRuleOption(config, ruleId, setting[1])
+    } else {
+      config.rules[ruleId] = parseSeverity(rule, setting)
+    }
+  }
+  return config
+}
+
+/**
+ * Resolve rule settings.
+ *
+ * Priority:
+ *  1. COMMIT_LINT_RULES env var (JSON, merged on top of file + defaults)
+ *  2. .commit-lint.json project file (merged on top of defaults)
+ *  3. DEFAULT_COMMIT_LINT_CONFIG
+ *
+ * An invalid layer is reported with a warning and ignored.
+ */
+export function loadCommitLintConfig(deps: Pick<LintCommitsDeps, 'readFileSync' | 'getEnv' | 'warn'>): CommitLintConfig {
+  let resolved: CommitLintConfig = DEFAULT_COMMIT_LINT_CONFIG
+
+  let fileContent: string | undefined
+  try {
+    fileContent = deps.readFileSync(COMMIT_LINT_RULES_FILE, 'utf8') as string
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException)?.code
+    if (code !== 'ENOENT') {
+      deps.warn(
+        `⚠️  Cannot read ${COMMIT_LINT_RULES_FILE}: ${(error as Error)?.message ?? String(error)}. Using default rules.`,
+      )
+    }
+  }
+
+  const layers: Array<[string, string | undefined]> = [
+    [COMMIT_LINT_RULES_FILE, fileContent],
+    ['COMMIT_LINT_RULES env var', deps.getEnv('COMMIT_LINT_RULES')],
+  ]
+  for (const [source, raw] of layers) {
+    if (!raw) {
+      continue
+    }
+    try {
+      resolved = applyConfigLayer(resolved, JSON.parse(raw))
+    } catch (error) {
+      deps.warn(`⚠️  Invalid ${source}: ${(error as Error).message}. Ignoring it.`)
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Drop what git strips from an edited message before committing: comment
+ * lines and everything below the `git commit --verbose` scissors line.
+ */
+export function cleanCommitMessage(message: string): string {
+  const lines = message.split(/\r?\n/)
+  const scissors = lines.indexOf(SCISSORS_LINE)
+  return (scissors === -1 ? lines : lines.slice(0, scissors))
+    .filter(line => !line.startsWith('#'))
+    .join('\n')
+    .trim()
+}
+
+/**
+ * Run every enabled rule against one commit message.
+ */
+export function lintCommitMessage(message: string, context: CommitLintContext): CommitLintIssue[] {
+  const linted: LintedMessage = {
+    parsed: parseCommitMessage(message),
+    footerLines: findFooterLines(message),
+    breakingLines: findBreakingChangeLines(message),
+  }
+  return (Object.keys(COMMIT_LINT_RULES) as CommitLintRuleId[]).flatMap(rule => {
+    const severity = context.config.rules[rule]
+    if (severity === 'off') {
+      return []
+    }
+    return COMMIT_LINT_RULES[rule].check(linted, context).map(message => ({ rule, severity, message }))
+  })
+}
+
+export function parseArgs(argv: string[]): LintCommitsOptions {
+  const options: LintCommitsOptions = { range: null, editFile: null }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--edit') {
+      options.editFile = argv[i + 1] && !argv[i + 1].startsWith('-') ? argv[++i] : DEFAULT_EDIT_FILE
+      continue
+    }
+    if (!arg.startsWith('-') && options.range === null) {
+      options.range = arg
+    }
+  }
+  return options
+}
+
+function resolveDefaultRange(deps: LintCommitsDeps): string {
+  try {
+    const tag = (deps.execSync('git describe --tags --abbrev=0', {
+      encoding: 'utf8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }) as string).trim()
+    return tag ? `${tag}..HEAD` : 'HEAD'
+  } catch {
+    return 'HEAD'
+  }
+}
+
+function readRangeMessages(range: string, deps: LintCommitsDeps): Array<{ sha: string; message: string }> {
+  if (!RANGE_REGEX.test(range)) {
+    throw new ValidationError(`Invalid commit range: ${range}`)
+  }
+  let output: string
+  try {
+    output = deps.execSync(`git log --no-merges --pretty=format:"%H|%B|||END|||" ${range}`, {
+      encoding: 'utf8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }) as string
+  } catch (error) {
+    throw new ValidationError(`Could not list the commits of ${range}`, { cause: error })
+  }
+  return output
+    .split('|||END|||')
+    .filter(entry => entry.trim())
+    .map(entry => {
+      const [sha, ...messageParts] = entry.split('|')
+      return { sha: sha.trim(), message: messageParts.join('|').trim() }
+    })
+}
+
+/**
+ * Lint every commit of a range (default: since the latest tag), oldest
+ * first, or the message file of a commit-msg hook.
+ */
+export function lintCommits(deps: LintCommitsDeps, options: LintCommitsOptions): CommitLintReport[] {
+  const typeMap = loadChangelogTypeMap({ readFileSync: deps.readFileSync, getEnv: deps.getEnv, warn: deps.warn })
+  const context: CommitLintContext = { config: loadCommitLintConfig(deps), types: Object.keys(typeMap) }
+
+  let messages: Array<{ sha: string | null; message: string }>
+  if (options.editFile) {
+    try {
+      messages = [{ sha: null, message: cleanCommitMessage(deps.readFileSync(options.editFile, 'utf8') as string) }]
+    } catch (error) {
+      throw new ValidationError(`Could not read ${options.editFile}`, { cause: error })
+    }
+  } else {
+    messages = readRangeMessages(options.range ?? resolveDefaultRange(deps), deps).reverse()
+  }
+
+  return messages.map(({ sha, message }) => {
+    const header = parseCommitMessage(message).header
+    const skipped = SKIPPED_HEADER_REGEX.test(header)
+    return { sha, header, skipped, issues: skipped ? [] : lintCommitMessage(message, context) }
+  })
+}
+
+/**
+ * CLI entry point - only runs when script is executed directly
+ */
+/* c8 ignore start */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void runScript({ error: console.error, exit: process.exit }, () => {
+    const options = parseArgs(process.argv.slice(2))
+
+    const reports = lintCommits(
+      {
+        execSync,
+        readFileSync,
+        getEnv: (key: string) => process.env[key],
+        log: console.log,
+        warn: console.warn,
+      },
+      options,
+    )
+
+    for (const report of reports) {
+      const label = report.sha ? `${report.sha.substring(0, 7)} ${report.header}` : report.header
+      const hasErrors = report.issues.some(issue => issue.severity === 'error')
+      const icon = report.skipped ? '⏭️ ' : hasErrors ? '❌' : report.issues.length > 0 ? '⚠️ ' : '✅'
+      console.log(`${icon} ${label}`)
+      for (const issue of report.issues) {
+        console.log(`   ${issue.severity === 'error' ? '❌' : '⚠️ '} [${issue.rule}] ${issue.message}`)
+      }
+    }
+
+    const failed = reports.filter(report => report.issues.some(issue => issue.severity === 'error')).length
+    const warned = reports.filter(report => report.issues.length > 0).length - failed
+    const linted = reports.filter(report => !report.skipped).length
+    console.log()
+
+    if (failed > 0) {
+      throw new ValidationError(`${failed} of ${linted} commit message(s) failed, ${warned} with warnings`)
+    }
+    console.log(
+      linted === 0
+        ? 'ℹ️  No commit messages to lint'
+        : warned > 0
+          ? `⚠️  ${linted} commit message(s) checked, ${warned} with warnings`
+          : `✅ ${linted} commit message(s) passed all lint rules`,
+    )
+  })
+}
+/* c8 ignore end */
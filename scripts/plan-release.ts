@@ -0,0 +1,354 @@
+#!/usr/bin/env tsx
+/**
+ * Plan the release of a workspace: which packages changed, in which order
+ * they ship, and which internal ranges the new versions would break
+ *
+ * - A package changed when commits touched it since its own baseline (see
+ *   collectWorkspaceCommits). Its bump comes from its curated [Unreleased]
+ *   section, or from the entries `update --workspaces` would generate.
+ * - Releases are ordered so a package ships after the workspace packages it
+ *   depends on (devDependencies excepted).
+ * - A range conflict is an internal dependency range that accepts the current
+ *   version of a workspace package but not its planned next version.
+ * - With VERSIONING=fixed, all packages share one version: when any package
+ *   changed, every package is released at the shared next version, bumped
+ *   by the highest level among the changed ones.
+ *
+ * Usage:
+ *   tsx plan-release.ts [--json]
+ *
+ * Environment variables:
+ *   CHANGELOG_FILE - Changelog file of each package (default: CHANGELOG.md)
+ *   GIT_CHANGELOG_SINCE - Baseline ref for every package (default: per package)
+ *   VERSIONING - independent (default) or fixed
+ */
+
+import type { ExecSyncOptions } from 'node:child_process'
+import { execSync } from 'node:child_process'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { ChangelogReleaseBody } from './lib/changelog-document.js'
+import { findUnreleasedRelease, getReleaseEntries, parseChangelog, parseReleaseBody } from './lib/changelog-document.js'
+import { loadChangelogTypeMap } from './lib/changelog-types.js'
+import { ValidationError } from './lib/errors.js'
+import { runScript } from './lib/run-script.js'
+import { compareSemver, incrementSemver, isValidSemver, rangeIncludesVersion } from './lib/semver-utils.js'
+import { detectWorkspacePackageDirs } from './lib/workspace-detect.js'
+import { type DependencyField, parseWorkspaceManifest, topologicalOrder, type WorkspacePackage } from './lib/workspace-graph.js'
+import {
+  collectWorkspaceCommits,
+  isFixedVersioning,
+  parseCommitsWithMultiplePrefixes,
+  type WorkspaceCommits,
+} from './populate-unreleased-changelog.js'
+import { type BumpLevel, type BumpRecommendation, recommendBumpForRelease } from './recommend-bump.js'
+
+export interface PlanReleaseDeps {
+  execSync: (command: string, options?: ExecSyncOptions) => Buffer | string
+  readFileSync: typeof readFileSync
+  existsSync: (path: string) => boolean
+  readdirSync: (path: string) => string[]
+  getEnv: (key: string) => string | undefined
+  getCwd: () => string
+  log: (message: string) => void
+  warn: (message: string) => void
+}
+
+export interface PlanOptions {
+  json: boolean
+}
+
+export interface PlannedRelease {
+  /** 1-based position in the release order */
+  order: number
+  name: string
+  /** Repository-relative package directory */
+  path: string
+  currentVersion: string
+  nextVersion: string
+  level: BumpLevel
+  reason: string
+}
+
+export interface UnchangedPackage {
+  name: string
+  path: string
+  currentVersion: string
+  reason: string
+}
+
+export interface RangeConflict {
+  /** Package declaring the range */
+  dependent: string
+  field: DependencyField
+  dependency: string
+  range: string
+  nextVersion: string
+}
+
+export interface ReleasePlan {
+  releases: PlannedRelease[]
+  unchanged: UnchangedPackage[]
+  rangeConflicts: RangeConflict[]
+}
+
+export function parseArgs(argv: string[]): PlanOptions {
+  return { json: argv.includes('--json') }
+}
+
+function readUnreleased(changelogPath: string, deps: PlanReleaseDeps): ChangelogReleaseBody | null {
+  try {
+    return findUnreleasedRelease(parseChangelog(deps.readFileSync(changelogPath, 'utf8') as string))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Bump a changed package from its curated [Unreleased] section, or from the
+ * section `update --workspaces` would generate when it has no entries yet.
+ */
+function recommendPackageBump(
+  pkg: WorkspaceCommits,
+  currentVersion: string,
+  typeMap: Record<string, string | false>,
+  deps: PlanReleaseDeps,
+): BumpRecommendation {
+  const curated = readUnreleased(pkg.changelogPath, deps)
+  if (curated && getReleaseEntries(curated).length > 0) {
+    return recommendBumpForRelease(curated, currentVersion)
+  }
+
+  const generated = parseCommitsWithMultiplePrefixes(
+    pkg.commits.map(commit => `${commit.sha}|${commit.body}|||END|||`).join(''),
+    null,
+    typeMap,
+  )
+  const recommendation = recommendBumpForRelease(parseReleaseBody(generated), currentVersion)
+  return { ...recommendation, reason: recommendation.reason.replace('[Unreleased]', 'Generated [Unreleased]') }
+}
+
+const BUMP_LEVELS: BumpLevel[] = ['patch', 'minor', 'major']
+
+/**
+ * Version of the workspace root package.json, or null when it has no valid one.
+ */
+export function readRootVersion(deps: Pick<PlanReleaseDeps, 'readFileSync' | 'getCwd'>): string | null {
+  try {
+    const version = (JSON.parse(deps.readFileSync(join(deps.getCwd(), 'package.json'), 'utf8') as string) as {
+      version?: unknown
+    }).version
+    return typeof version === 'string' && isValidSemver(version) ? version : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Release every package at the shared next version when any of them changed.
+ */
+function planFixedReleases(
+  manifests: WorkspacePackage[],
+  candidates: Array<Omit<PlannedRelease, 'order'>>,
+  unchanged: UnchangedPackage[],
+  deps: PlanReleaseDeps,
+): { candidates: Array<Omit<PlannedRelease, 'order'>>; unchanged: UnchangedPackage[] } {
+  if (candidates.length === 0) {
+    return { candidates, unchanged }
+  }
+
+  // The root version, or the highest package version when the root has none
+  const currentVersion =
+    readRootVersion(deps) ??
+    manifests
+      .map(manifest => manifest.version)
+      .reduce((highest, version) => (compareSemver(version, highest) > 0 ? version : highest))
+  const level = candidates
+    .map(candidate => candidate.level)
+    .reduce((highest, candidateLevel) =>
+      BUMP_LEVELS.indexOf(candidateLevel) > BUMP_LEVELS.indexOf(highest) ? candidateLevel : highest,
+    )
+  const nextVersion = incrementSemver(currentVersion, level)
+  const fixed = (release: UnchangedPackage | Omit<PlannedRelease, 'order'>, reason: string) => ({
+    name: release.name,
+    path: release.path,
+    currentVersion,
+    nextVersion,
+    level,
+    reason,
+  })
+
+  return {
+    candidates: [
+      ...candidates.map(candidate => fixed(candidate, candidate.reason)),
+      ...unchanged.map(pkg => fixed(pkg, `fixed versioning: released with the workspace (${pkg.reason})`)),
+    ],
+    unchanged: [],
+  }
+}
+
+/**
+ * Plan the release of every workspace package.
+ *
+ * Must run from the workspace root (where pnpm-workspace.yaml or the
+ * package.json declaring `workspaces` lives).
+ *
+ * With VERSIONING=fixed, every package is planned at the shared next version
+ * as soon as one of them changed.
+ *
+ * @throws ValidationError when no workspace packages are declared or the
+ *   packages to release depend on each other in a cycle
+ */
+export function planRelease(deps: PlanReleaseDeps): ReleasePlan {
+  const packageDirs = detectWorkspacePackageDirs(deps.getCwd(), {
+    existsSync: deps.existsSync,
+    readdirSync: deps.readdirSync,
+    readFileSync: (path, encoding) => deps.readFileSync(path, encoding) as string,
+  })
+  if (packageDirs.length === 0) {
+    throw new ValidationError(
+      'No workspace packages found. plan needs pnpm-workspace.yaml, package.json#workspaces or lerna.json in the current directory.',
+    )
+  }
+
+  const typeMap = loadChangelogTypeMap({ readFileSync: deps.readFileSync, getEnv: deps.getEnv, warn: deps.warn })
+  const manifests: WorkspacePackage[] = []
+  const candidates: Array<Omit<PlannedRelease, 'order'>> = []
+  const unchanged: UnchangedPackage[] = []
+
+  for (const pkg of collectWorkspaceCommits(packageDirs, deps)) {
+    let manifest: WorkspacePackage | null = null
+    try {
+      manifest = parseWorkspaceManifest(deps.readFileSync(join(pkg.dir, 'package.json'), 'utf8') as string)
+    } catch {
+      // Reported below
+    }
+    if (!manifest) {
+      deps.warn(`⚠️  ${join(pkg.dir, 'package.json')} has no valid name and version; skipping ${pkg.name}`)
+      continue
+    }
+    manifests.push(manifest)
+
+    const base = { name: manifest.name, path: pkg.path, currentVersion: manifest.version }
+    if (pkg.commits.length === 0) {
+      unchanged.push({ ...base, reason: pkg.since ? `no commits since ${pkg.since}` : 'no commits' })
+      continue
+    }
+
+    const recommendation = recommendPackageBump(pkg, manifest.version, typeMap, deps)
+    if (recommendation.level === null) {
+      unchanged.push({ ...base, reason: recommendation.reason })
+      continue
+    }
+    candidates.push({
+      ...base,
+      nextVersion: incrementSemver(manifest.version, recommendation.level),
+      level: recommendation.level,
+      reason: recommendation.reason,
+    })
+  }
+
+  const planned = isFixedVersioning(deps)
+    ? planFixedReleases(manifests, candidates, unchanged, deps)
+    : { candidates, unchanged }
+
+  const candidatesByName = new Map(planned.candidates.map(release => [release.name, release]))
+  const rangeConflicts: RangeConflict[] = []
+  for (const manifest of manifests) {
+    for (const dependency of manifest.dependencies) {
+      const next = candidatesByName.get(dependency.name)
+      const nextVersion = next?.nextVersion
+      const currentVersion = next?.currentVersion ?? manifests.find(pkg => pkg.name === dependency.name)?.version
+      if (
+        nextVersion &&
+        currentVersion &&
+        rangeIncludesVersion(dependency.range, currentVersion) === true &&
+        rangeIncludesVersion(dependency.range, nextVersion) === false
+      ) {
+        rangeConflicts.push({
+          dependent: manifest.name,
+          field: dependency.field,
+          dependency: dependency.name,
+          range: dependency.range,
+          nextVersion,
+        })
+      }
+    }
+  }
+
+  const releases = topologicalOrder(manifests.filter(manifest => candidatesByName.has(manifest.name))).map(
+    (manifest, index): PlannedRelease => ({
+      order: index + 1,
+      ...(candidatesByName.get(manifest.name) as Omit<PlannedRelease, 'order'>),
+    }),
+  )
+
+  return { releases, unchanged: planned.unchanged, rangeConflicts }
+}
+
+export function formatReleasePlan(plan: ReleasePlan): string {
+  const lines: string[] = []
+  if (plan.releases.length === 0) {
+    lines.push('ℹ️  No workspace package has changes to release')
+  } else {
+    const rows = [
+      ['#', 'Package', 'Current', 'Next', 'Bump', 'Reason'],
+      ...plan.releases.map(release => [
+        String(release.order),
+        release.name,
+        release.currentVersion,
+        release.nextVersion,
+        release.level,
+        release.reason,
+      ]),
+    ]
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)))
+    lines.push(
+      `📦 ${plan.releases.length} package(s) to release, in order:`,
+      '',
+      ...rows.map(row => `  ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ')}`.trimEnd()),
+    )
+  }
+
+  if (plan.unchanged.length > 0) {
+    lines.push('', `ℹ️  Unchanged: ${plan.unchanged.map(pkg => pkg.name).join(', ')}`)
+  }
+
+  if (plan.rangeConflicts.length > 0) {
+    lines.push(
+      '',
+      `⚠️  ${plan.rangeConflicts.length} internal range(s) would stop accepting the new versions:`,
+      ...plan.rangeConflicts.map(
+        conflict =>
+          `  - ${conflict.dependent} ${conflict.field}.${conflict.dependency}="${conflict.range}" does not include ${conflict.nextVersion}`,
+      ),
+      'Update these ranges (or use the workspace: protocol) before releasing.',
+    )
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * CLI entry point - only runs when script is executed directly
+ */
+/* c8 ignore start */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void runScript({ error: console.error, exit: process.exit }, () => {
+    const options = parseArgs(process.argv.slice(2))
+    const plan = planRelease({
+      execSync,
+      readFileSync,
+      existsSync,
+      readdirSync: (path: string) => readdirSync(path),
+      getEnv: (key: string) => process.env[key],
+      getCwd: () => process.cwd(),
+      // Keep stdout parseable in JSON mode
+      log: options.json ? console.error : console.log,
+      warn: console.warn,
+    })
+
+    console.log(options.json ? JSON.stringify(plan) : formatReleasePlan(plan))
+  })
+}
+/* c8 ignore end */
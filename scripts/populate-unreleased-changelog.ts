@@ -8,24 +8,71 @@
  * - Groups commits by type (Added, Fixed, Changed, etc.)
  * - Updates the [Unreleased] section in CHANGELOG.md
  * - Generates commit links using the repository URL
+ * - Links the issues named by commit footers (Closes #12, Refs: JIRA-123)
+ *
+ * With --workspaces, every workspace package gets its own [Unreleased]
+ * section in one pass: each commit is routed to the packages whose files it
+ * touched, since that package's own baseline. `.changelog-scopes.json`
+ * additionally routes commits to packages by commit scope, with or without
+ * --workspaces.
+ *
+ * With VERSIONING=fixed (and no --workspaces), the root [Unreleased] section
+ * covers every package since the shared tag, grouped by package.
  *
  * Usage:
- *   tsx populate-unreleased-changelog.ts
+ *   tsx populate-unreleased-changelog.ts [--workspaces]
  *
  * Environment variables:
  *   CHANGELOG_FILE - Path to changelog file (default: CHANGELOG.md)
  *   GITHUB_REPOSITORY - GitHub repo (owner/repo) for commit links
  *   GIT_REMOTE - Git remote name (default: origin)
+ *   VERSIONING - independent (default) or fixed (one version for all workspace packages)
  */
 
 import type { ExecSyncOptions } from 'node:child_process';
 import { execSync } from 'node:child_process';
-import { readFileSync, writeFileSync } from 'node:fs';
-import { getGitHubRepoUrl } from './lib/git-utils.js';
-import { CONVENTIONAL_COMMIT_REGEX } from './lib/commit-parser.js';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, posix, relative, sep } from 'node:path';
+import { commitUrl, detectForge, type Forge, resolveForge } from './lib/forge.js';
+import { CONVENTIONAL_COMMIT_REGEX, isBreakingChangeFooter, parseCommitMessage } from './lib/commit-parser.js';
 import { runScript } from './lib/run-script.js';
 import { ValidationError } from './lib/errors.js';
-import { BUILTIN_TYPE_MAP, loadChangelogTypeMap } from './lib/changelog-types.js';
+import { detectWorkspacePackageDirs } from './lib/workspace-detect.js';
+import { CHANGELOG_SCOPES_FILE, extractCommitScopes, loadScopePackageMap } from './lib/changelog-scopes.js';
+import {
+  CONTRIBUTORS_SECTION,
+  findFirstTimeContributors,
+  formatAuthor,
+  loadCreditOptions,
+  readCommitAuthors,
+  renderContributorsSection,
+} from './lib/commit-authors.js';
+import {
+  BUILTIN_TYPE_MAP,
+  DEFAULT_SCOPE_GROUPING,
+  type IssueTracker,
+  loadChangelogTypeMap,
+  loadIssueTrackers,
+  loadScopeGrouping,
+  type ScopeGrouping,
+} from './lib/changelog-types.js';
+import {
+  extractIssueReferences,
+  type IssueReference,
+  mergeIssueReferences,
+  renderIssueSuffix,
+} from './lib/issue-references.js';
+import {
+  type ChangelogRelease,
+  ensureUnreleasedRelease,
+  findRelease,
+  getEntryText,
+  getReleaseEntries,
+  parseChangelog,
+  parseReleaseBody,
+  replaceReleaseBody,
+  serializeChangelog,
+} from './lib/changelog-document.js';
 
 /**
  * Dependencies interface for dependency injection
@@ -40,12 +87,90 @@ export interface PopulateChangelogDeps {
   error: (message: string) => void;
 }
 
+/**
+ * Dependencies of generateUnreleasedContent, which only reads
+ */
+export type GenerateUnreleasedDeps = Omit<PopulateChangelogDeps, 'writeFileSync' | 'error'>;
+
+/**
+ * Extra dependencies of `update --workspaces`
+ */
+export interface PopulateWorkspacesDeps extends PopulateChangelogDeps {
+  existsSync: (path: string) => boolean;
+  readdirSync: (path: string) => string[];
+  getCwd: () => string;
+}
+
+/**
+ * Dependencies of collectWorkspaceCommits, which only reads
+ */
+export type WorkspaceCommitsDeps = Pick<
+  PopulateWorkspacesDeps,
+  'execSync' | 'readFileSync' | 'getEnv' | 'getCwd' | 'log' | 'warn'
+>;
+
+type BaselineDeps = Pick<PopulateChangelogDeps, 'execSync' | 'readFileSync' | 'log'>;
+
+export interface PopulateOptions {
+  workspaces: boolean;
+}
+
+export interface WorkspaceChangelogResult {
+  name: string;
+  /** Repository-relative package directory */
+  path: string;
+  changelogPath: string;
+  /** `since` ref of the package ('' = all commits) */
+  baseline: string;
+  entries: number;
+  status: 'pending' | 'up to date' | 'no changelog';
+}
+
+const BREAKING_SECTION = '### ⚠️ BREAKING CHANGES';
+const STANDARD_SECTION_ORDER = [
+  '### Added',
+  '### Changed',
+  '### Deprecated',
+  '### Removed',
+  '### Fixed',
+  '### Security',
+];
+
+// Non-conventional headers of release tooling, left out of the changelog
+const IGNORED_HEADER_PATTERNS = [
+  /^release\b/,
+  /^hotfix\b/,
+  /^ci\b/,
+  /^chore\(release\)/i,
+  /^chore\(hotfix\)/i,
+  /^chore\(ci\)/i,
+];
+
+/**
+ * Whether a non-conventional commit header is left out of the changelog
+ * (release, hotfix and CI commits)
+ */
+function isIgnoredCommitHeader(header: string): boolean {
+  const lowerHeader = header.toLowerCase();
+  return IGNORED_HEADER_PATTERNS.some((pattern) => pattern.test(lowerHeader));
+}
+
+/**
+ * VERSIONING=fixed: every workspace package shares one version, released
+ * from the workspace root with one tag and one root changelog.
+ */
+export function isFixedVersioning(deps: Pick<PopulateChangelogDeps, 'getEnv'>): boolean {
+  return deps.getEnv('VERSIONING')?.trim().toLowerCase() === 'fixed';
+}
+
 export interface CommitPart {
   type: string;
   scope?: string;
   description: string;
   sha: string;
   breaking?: boolean;
+  /** Issues named by the commit's footer */
+  issues?: IssueReference[];
 }
 
 /**
@@ -88,103 +213,82 @@ export function normalizeCommitType(
 }
 
 
+export interface SectionedPart extends CommitPart {
+  /** Section heading the entry is rendered under */
+  section: string;
+}
+
 /**
- * Parse git log output and extract all conventional commit parts
+ * Assign the conventional commit parts of git log output (`%H|%B|||END|||`)
+ * to the changelog sections `update` renders them under.
+ *
+ * Commits marked `[skip-changelog]`, revert pairs and cherry-pick duplicates
+ * are left out, as are ignored release commits, suppressed types and hidden
+ * scopes (breaking changes are never hidden). Scopes come out aliased; parts
+ * keep the short SHA of their commit.
  */
-export function parseCommitsWithMultiplePrefixes(
+export function collectSectionedParts(
   gitOutput: string,
-  repoUrl: string,
+  forge: Forge | null,
   typeMap: Record<string, string | false> = BUILTIN_TYPE_MAP,
-): string {
-  if (!gitOutput) return '';
-
+  scopes: ScopeGrouping = DEFAULT_SCOPE_GROUPING,
+  trackers: IssueTracker[] = [],
+): SectionedPart[] {
   const commitEntries = gitOutput.split('|||END|||').filter((entry) => entry.trim());
+  const cancelledShas = findCancelledCommits(
+    commitEntries.map((entry) => {
+      const [sha, ...bodyParts] = entry.split('|');
+      return { sha: sha.trim(), body: bodyParts.join('|').trim() };
+    }),
+  );
   const allParts: CommitPart[] = [];
 
   for (const entry of commitEntries) {
     const [sha, ...bodyParts] = entry.split('|');
     const body = bodyParts.join('|').trim();
 
-    if (/\[skip-changelog\]/i.test(body)) {
+    if (/\[skip-changelog\]/i.test(body) || cancelledShas.has(sha.trim())) {
       continue;
     }
 
     if (sha && body) {
       const shortSha = sha.trim().substring(0, 7);
 
-      // Compute the header block: first contiguous run of non-empty lines.
-      // This prevents paragraph-separated footer tokens like "Refs: #42" or
-      // "Co-authored-by: ..." from matching the conventional-commit regex
-      // via the 'gm' flag in extractConventionalCommitParts. Consecutive
-      // multi-prefix lines (e.g. "feat: x\nfix: y") are preserved because
-      // they share no blank line — see #23 for the original use case.
-      const headerBlock = body.split('\n').reduce(
-        (acc, line) => {
-          if (!acc.done) {
-            if (line.trim() === '') {
-              acc.done = true;
-            } else {
-              acc.lines.push(line);
-            }
-          }
-          return acc;
-        },
-        { lines: [] as string[], done: false },
-      ).lines.join('\n');
-
-      const parts = extractConventionalCommitParts(headerBlock, shortSha);
-
-      // Detect "BREAKING CHANGE:" trailers only in the LAST paragraph of the body,
-      // AND only when the body has more than one paragraph (i.e., there is at least one
-      // blank-line separator). Per Conventional Commits 1.0.0 §6, a footer requires a
-      // blank line separating it from the preceding content. A "BREAKING CHANGE:" that
-      // appears on a line immediately after the subject line (no blank line) is mid-body
-      // prose, NOT a footer, and must NOT promote the commit to breaking.
-      //
-      // matchAll() is used so multiple BREAKING CHANGE: lines in the same last
-      // paragraph each emit a separate breaking entry.
-      // CRLF safety: accept both LF and CRLF line endings so commits authored on
-      // Windows produce the same output (a paragraph separator can be \n\n or \r\n\r\n).
-      const paragraphs = body.split(/\r?\n[ \t]*\r?\n/);
-      const hasFooterSection = paragraphs.length > 1;
-      const breakingFooterMatches = hasFooterSection
-        ? [...(paragraphs[paragraphs.length - 1] ?? '').matchAll(/^BREAKING[- ]CHANGE:\s*(.+)$/gm)]
-        : [];
-
-      if (breakingFooterMatches.length > 0) {
+      // Only the first paragraph lists changes: multi-prefix commits put one
+      // per line ("feat: x\nfix: y", see #23), while footers such as
+      // "Refs: #42" or "Co-authored-by: ..." must never read as a type.
+      const message = parseCommitMessage(body);
+      const issues = extractIssueReferences(message, forge, trackers);
+      const parts = extractConventionalCommitParts(message.headerLines.join('\n'), shortSha).map((part) =>
+        issues.length > 0 ? { ...part, issues } : part,
+      );
+
+      // BREAKING CHANGE footers (Conventional Commits 1.0.0 §6: after a blank
+      // line; right below the header it is prose and changes nothing). Each
+      // one emits its own breaking entry.
+      const breakingFooters = message.footers.filter((footer) => isBreakingChangeFooter(footer) && footer.value);
+
+      if (breakingFooters.length > 0) {
         if (parts.length > 0) {
           // Promote the first conventional-commit part to breaking so it appears in
           // the BREAKING CHANGES section with the commit's own description.
           parts[0] = { ...parts[0], breaking: true };
         }
-        // Each BREAKING CHANGE: footer line emits its own breaking entry with the
-        // footer's description (distinct from the commit subject).
-        // Multiple footer lines → multiple entries.
-        for (const m of breakingFooterMatches) {
+        for (const footer of breakingFooters) {
           parts.push({
             type: 'misc',
-            description: m[1].trim(),
+            description: footer.value.replace(/\s+/g, ' '),
             sha: shortSha,
             breaking: true,
+            ...(issues.length > 0 ? { issues } : {}),
           });
         }
       }
 
       if (parts.length === 0) {
-        const firstLine = body.split('\n')[0].trim();
+        const firstLine = message.header;
         if (firstLine) {
-          const lowerFirstLine = firstLine.toLowerCase();
-          const ignoredPatterns = [
-            /^release\b/,
-            /^hotfix\b/,
-            /^ci\b/,
-            /^chore\(release\)/i,
-            /^chore\(hotfix\)/i,
-            /^chore\(ci\)/i,
-          ];
-          const shouldSkip = ignoredPatterns.some((pattern) => pattern.test(lowerFirstLine));
-
-          if (shouldSkip) {
+          if (isIgnoredCommitHeader(firstLine)) {
             continue;
           }
 
@@ -192,6 +296,7 @@ export function parseCommitsWithMultiplePrefixes(
             type: 'misc',
             description: firstLine,
             sha: shortSha,
+            ...(issues.length > 0 ? { issues } : {}),
           });
         }
       } else {
@@ -200,17 +305,25 @@ export function parseCommitsWithMultiplePrefixes(
     }
   }
 
-  const groupedParts: Record<string, CommitPart[]> = {};
-  const breakingChanges: CommitPart[] = [];
+  const sectionedParts: SectionedPart[] = [];
+  const hiddenScopes = new Set(scopes.hidden);
+
+  for (const rawPart of allParts) {
+    const part = rawPart.scope && scopes.aliases[rawPart.scope]
+      ? { ...rawPart, scope: scopes.aliases[rawPart.scope] }
+      : rawPart;
 
-  for (const part of allParts) {
     // Breaking parts go ONLY into the BREAKING CHANGES section.
     // They are NOT also added to their native section (e.g. ### Added), which
     // would produce duplicate entries. The breaking indicator in the native
     // section was confusing — the dedicated ### ⚠️ BREAKING CHANGES section
     // already provides full visibility.
     if (part.breaking) {
-      breakingChanges.push(part);
+      sectionedParts.push({ ...part, section: BREAKING_SECTION });
+      continue;
+    }
+
+    if (rawPart.scope && (hiddenScopes.has(rawPart.scope) || hiddenScopes.has(part.scope as string))) {
       continue;
     }
 
@@ -218,53 +331,76 @@ export function parseCommitsWithMultiplePrefixes(
     if (sectionName === false) {
       continue;
     }
-    if (!groupedParts[sectionName]) {
-      groupedParts[sectionName] = [];
+    sectionedParts.push({ ...part, section: sectionName });
+  }
+
+  return sectionedParts;
+}
+
+/**
+ * Parse git log output and extract all conventional commit parts
+ *
+ * `repo` is the detected forge, or a repository URL whose forge is detected
+ * from its host; an empty URL or null leaves commit SHAs unlinked.
+ *
+ * `scopes` arranges the entries of each section by commit scope, renames
+ * aliased scopes and drops entries of hidden scopes (breaking changes are
+ * never hidden).
+ *
+ * `authors` credits entries: `by <author>` per short SHA (CHANGELOG_AUTHORS).
+ *
+ * Issues named by commit footers are appended after the commit links
+ * (`, closes [#12](…)`); `trackers` links the keys of external trackers.
+ */
+export function parseCommitsWithMultiplePrefixes(
+  gitOutput: string,
+  repo: Forge | string | null,
+  typeMap: Record<string, string | false> = BUILTIN_TYPE_MAP,
+  scopes: ScopeGrouping = DEFAULT_SCOPE_GROUPING,
+  authors: Map<string, string> = new Map(),
+  trackers: IssueTracker[] = [],
+): string {
+  if (!gitOutput) return '';
+
+  const forge = typeof repo === 'string' ? (repo ? detectForge(repo) : null) : repo;
+  const formatReference = ({ shas, issues = [] }: MergedPart) => {
+    const credits = [...new Set(shas.flatMap((sha) => authors.get(sha) ?? []))];
+    const creditPart = credits.length > 0 ? ` by ${credits.join(', ')}` : '';
+    const commitLinks = shas.map((sha) => (forge ? `[${sha}](${commitUrl(forge, sha)})` : sha)).join(', ');
+    return `${creditPart} (${commitLinks})${renderIssueSuffix(issues)}`;
+  };
+
+  const groupedParts: Record<string, CommitPart[]> = {};
+  const breakingChanges: CommitPart[] = [];
+  for (const { section, ...part } of collectSectionedParts(gitOutput, forge, typeMap, scopes, trackers)) {
+    if (section === BREAKING_SECTION) {
+      breakingChanges.push(part);
+    } else {
+      groupedParts[section] = [...(groupedParts[section] ?? []), part];
     }
-    groupedParts[sectionName].push(part);
   }
 
   // Build the final ordered section list.
   // Custom sections (from typeMap overrides) are appended after the standard order.
   const sections: string[] = [];
-  const standardSectionOrder = [
-    '### Added',
-    '### Changed',
-    '### Deprecated',
-    '### Removed',
-    '### Fixed',
-    '### Security',
-  ];
 
   // Collect any custom section names not in the standard order
   const customSections = Object.keys(groupedParts).filter(
-    (s) => !standardSectionOrder.includes(s),
+    (s) => !STANDARD_SECTION_ORDER.includes(s),
   );
-  const sectionOrder = [...standardSectionOrder, ...customSections];
+  const sectionOrder = [...STANDARD_SECTION_ORDER, ...customSections];
 
   // Add BREAKING CHANGES section first if there are any
   if (breakingChanges.length > 0) {
-    sections.push('### ⚠️ BREAKING CHANGES');
-    sections.push(
-      ...breakingChanges.map((part) => {
-        const scopePart = part.scope ? ` (${part.scope})` : '';
-        const linkPart = repoUrl ? ` ([${part.sha}](${repoUrl}/commit/${part.sha}))` : ` (${part.sha})`;
-        return `- ${part.description}${scopePart}${linkPart}`;
-      })
-    );
+    sections.push(BREAKING_SECTION);
+    sections.push(...renderScopedEntries(mergeDuplicateParts(breakingChanges), scopes.mode, formatReference));
     sections.push('');
   }
 
   for (const sectionTitle of sectionOrder) {
     if (groupedParts[sectionTitle] && groupedParts[sectionTitle].length > 0) {
       sections.push(sectionTitle);
-      sections.push(
-        ...groupedParts[sectionTitle].map((part) => {
-          const scopePart = part.scope ? ` (${part.scope})` : '';
-          const linkPart = repoUrl ? ` ([${part.sha}](${repoUrl}/commit/${part.sha}))` : ` (${part.sha})`;
-          return `- ${part.description}${scopePart}${linkPart}`;
-        })
-      );
+      sections.push(...renderScopedEntries(mergeDuplicateParts(groupedParts[sectionTitle]), scopes.mode, formatReference));
       sections.push('');
     }
   }
@@ -272,15 +408,229 @@ export function parseCommitsWithMultiplePrefixes(
   return sections.length > 0 ? sections.join('\n').trim() : 'No changes yet.';
 }
 
+interface CommitRecord {
+  sha: string;
+  body: string;
+}
+
+/**
+ * Find the commits of a range that cancel out, oldest first:
+ * - a revert (`This reverts commit <sha>`, or else a `Revert "<subject>"` /
+ *   `revert: <subject>` header) and the earlier commit it reverts, when both
+ *   are in the range. A revert of a commit outside the range is kept.
+ * - a cherry-pick (`(cherry picked from commit <sha>)`) whose original commit
+ *   is in the range.
+ *
+ * @returns Cancelled commit SHAs, as given
+ */
+function findCancelledCommits(commits: CommitRecord[]): Set<string> {
+  const cancelled = new Set<string>();
+  const subjectOf = (commit: CommitRecord) => parseCommitMessage(commit.body).header;
+  const matchesSha = (commit: CommitRecord, ref: string) => commit.sha.toLowerCase().startsWith(ref.toLowerCase());
+
+  // git log lists the newest commit first
+  const oldestFirst = [...commits].reverse();
+  oldestFirst.forEach((commit, index) => {
+    const cherryPickedFrom = commit.body.match(/^\(cherry picked from commit ([0-9a-f]{7,40})\)\s*$/im)?.[1];
+    if (cherryPickedFrom && commits.some((other) => other !== commit && matchesSha(other, cherryPickedFrom))) {
+      cancelled.add(commit.sha);
+      return;
+    }
+
+    const revertedSha = commit.body.match(/^This reverts commit ([0-9a-f]{7,40})\b/im)?.[1];
+    const subject = subjectOf(commit);
+    const revertedSubject =
+      subject.match(/^Revert "(.+)"$/)?.[1] ?? subject.match(/^revert(?:\([^)]*\))?:\s*(.+)$/i)?.[1]?.trim();
+    if (!revertedSha && !revertedSubject) {
+      return;
+    }
+    const target = oldestFirst
+      .slice(0, index)
+      .reverse()
+      .find((other) =>
+        !cancelled.has(other.sha) &&
+        (revertedSha ? matchesSha(other, revertedSha) : subjectOf(other) === revertedSubject),
+      );
+    if (target) {
+      cancelled.add(target.sha);
+      cancelled.add(commit.sha);
+    }
+  });
+  return cancelled;
+}
+
+interface MergedPart extends CommitPart {
+  /** SHAs of every commit with this entry, in commit order */
+  shas: string[];
+}
+
+/**
+ * Merge the parts of one section that share a description and scope into
+ * one entry listing all their SHAs and issues, at the position of the first.
+ */
+function mergeDuplicateParts(parts: CommitPart[]): MergedPart[] {
+  const merged = new Map<string, MergedPart>();
+  for (const part of parts) {
+    const key = `${part.scope ?? ''}\0${part.description}`;
+    const existing = merged.get(key);
+    if (existing) {
+      if (!existing.shas.includes(part.sha)) {
+        existing.shas.push(part.sha);
+      }
+      if (part.issues) {
+        existing.issues = mergeIssueReferences(existing.issues ?? [], part.issues);
+      }
+    } else {
+      merged.set(key, { ...part, shas: [part.sha] });
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Render the entry lines of one section. `sort` orders entries by scope
+ * (unscoped first, commit order kept within a scope); `heading` moves the
+ * scoped entries under `#### <scope>` sub-headings instead of suffixing them.
+ */
+function renderScopedEntries(
+  parts: MergedPart[],
+  mode: ScopeGrouping['mode'],
+  formatReference: (part: MergedPart) => string,
+): string[] {
+  const formatEntry = (part: MergedPart, withScope: boolean) =>
+    `- ${part.description}${withScope && part.scope ? ` (${part.scope})` : ''}${formatReference(part)}`;
+
+  if (mode === 'off') {
+    return parts.map((part) => formatEntry(part, true));
+  }
+
+  const unscoped = parts.filter((part) => !part.scope);
+  const byScope = new Map<string, MergedPart[]>();
+  for (const part of parts) {
+    if (part.scope) {
+      byScope.set(part.scope, [...(byScope.get(part.scope) ?? []), part]);
+    }
+  }
+  const scopeNames = [...byScope.keys()].sort((a, b) => a.localeCompare(b));
+
+  if (mode === 'sort') {
+    return [unscoped, ...scopeNames.map((scope) => byScope.get(scope) ?? [])]
+      .flat()
+      .map((part) => formatEntry(part, true));
+  }
+
+  const lines = unscoped.map((part) => formatEntry(part, false));
+  for (const scope of scopeNames) {
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    lines.push(`#### ${scope}`, ...(byScope.get(scope) ?? []).map((part) => formatEntry(part, false)));
+  }
+  return lines;
+}
+
+function isCollectedPrereleaseTag(tag: string, changelogPath: string, deps: BaselineDeps): boolean {
+  const version = tag.match(/(\d+\.\d+\.\d+-[0-9A-Za-z.-]+)$/)?.[1];
+  if (!version) {
+    return false;
+  }
+
+  try {
+    const changelog = parseChangelog(deps.readFileSync(changelogPath, 'utf8') as string);
+    return findRelease(changelog, version) === null;
+  } catch {
+    return false;
+  }
+}
+
+function resolveStableBaseline(prereleaseTag: string, filter: string, deps: BaselineDeps): string {
+  try {
+    const tag = (
+      deps.execSync(`git describe --tags --abbrev=0${filter} --exclude="*.*.*-*" 2>/dev/null`, {
+        encoding: 'utf8',
+      }) as string
+    ).trim();
+    deps.log(`ℹ️  ${prereleaseTag} entries are still in [Unreleased]; using last stable tag: ${tag}`);
+    return tag;
+  } catch {
+    deps.log(`ℹ️  ${prereleaseTag} entries are still in [Unreleased] and no stable tag exists, using all commits`);
+    return '';
+  }
+}
+
+/**
+ * Name used in a package's `chore(<name>): release v` commits: scoped
+ * packages drop their scope.
+ */
+export function packageReleaseName(name: string): string {
+  return name.startsWith('@') ? (name.split('/').pop() ?? '') : name;
+}
+
+/**
+ * Find the last `chore(<pkg>): release v` commit of a package
+ *
+ * @returns The commit sha, or '' when the package has no release commit yet
+ */
+function findPackageReleaseCommit(pkgName: string, deps: BaselineDeps): string {
+  try {
+    const sha = (
+      deps.execSync(
+        `git log --grep="^chore(${pkgName}): release v" -n 1 --pretty=format:"%H"`,
+        { encoding: 'utf8' },
+      ) as string
+    ).trim();
+    if (sha) {
+      deps.log(
+        `ℹ️  Per-package baseline (chore(${pkgName}): release …): ${sha.substring(0, 7)}`,
+      );
+    }
+    return sha;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * `git describe` filters of the tags a baseline may come from, tried in order.
+ * A workspace package follows its own `<name>@<version>` tags
+ * (release-workspaces), then repository tags that are not package-scoped:
+ * never the tag of a sibling package.
+ */
+function tagFilters(packageName: string | undefined): string[] {
+  return packageName ? [` --match="${packageName}@*"`, ' --exclude="*@*"'] : [''];
+}
+
+function resolveTagBaseline(changelogPath: string, deps: BaselineDeps, packageName?: string): string {
+  for (const filter of tagFilters(packageName)) {
+    try {
+      const tag = (
+        deps.execSync(`git describe --tags --abbrev=0${filter} 2>/dev/null`, { encoding: 'utf8' }) as string
+      ).trim();
+      deps.log(`ℹ️  Latest tag: ${tag}`);
+      return isCollectedPrereleaseTag(tag, changelogPath, deps) ? resolveStableBaseline(tag, filter, deps) : tag;
+    } catch {
+      // No tag passes this filter: try the next one
+    }
+  }
+  deps.log('ℹ️  No tags found, using all commits');
+  return '';
+}
+
 /**
  * Resolve the `since` baseline for changelog generation.
  *
  * Priority:
  * 1. GIT_CHANGELOG_SINCE env var (any git ref — trust the user)
  * 2. Per-package detection via `chore(<pkg>): release v` commit when GIT_CHANGELOG_PATH is set
- * 3. Fallback: `git describe --tags --abbrev=0`
+ *    (skipped with VERSIONING=fixed: packages are only released together)
+ * 3. Fallback: `git describe --tags --abbrev=0`. Scoped to a package, only its
+ *    own `<name>@*` tags count, then tags that are not package-scoped, so a
+ *    sibling package's tag never hides unreleased commits. When that tag is a
+ *    prerelease with no block of its own in the changelog (the prerelease
+ *    preset keeps collecting in [Unreleased]), walk back to the last stable
+ *    tag instead so earlier prerelease entries are not dropped.
  */
-export function resolveSinceBaseline(deps: PopulateChangelogDeps): string {
+export function resolveSinceBaseline(deps: GenerateUnreleasedDeps): string {
   // 1. Explicit override wins
   const sinceOverride = deps.getEnv('GIT_CHANGELOG_SINCE');
   if (sinceOverride && sinceOverride.trim()) {
@@ -290,61 +640,32 @@ export function resolveSinceBaseline(deps: PopulateChangelogDeps): string {
 
   // 2. Per-package detection: only when running scoped to a subdir
   const path = deps.getEnv('GIT_CHANGELOG_PATH');
-  if (path && path.trim()) {
-    let pkgName = '';
+  let pkgNameFull: string | undefined;
+  if (path && path.trim() && !isFixedVersioning(deps)) {
     try {
       const pkgJsonRaw = deps.readFileSync('package.json', 'utf8') as string;
-      const pkgNameFull = (JSON.parse(pkgJsonRaw) as { name?: string }).name;
-      if (pkgNameFull) {
-        pkgName = pkgNameFull.startsWith('@')
-          ? (pkgNameFull.split('/').pop() ?? '')
-          : pkgNameFull;
-      }
+      pkgNameFull = (JSON.parse(pkgJsonRaw) as { name?: string }).name || undefined;
     } catch {
       // package.json missing or unreadable — skip per-package detection
     }
-    if (pkgName) {
-      try {
-        const sha = (
-          deps.execSync(
-            `git log --grep="^chore(${pkgName}): release v" -n 1 --pretty=format:"%H"`,
-            { encoding: 'utf8' },
-          ) as string
-        ).trim();
-        if (sha) {
-          deps.log(
-            `ℹ️  Per-package baseline (chore(${pkgName}): release …): ${sha.substring(0, 7)}`,
-          );
-          return sha;
-        }
-      } catch {
-        // fall through to tag fallback
+    if (pkgNameFull) {
+      const sha = findPackageReleaseCommit(packageReleaseName(pkgNameFull), deps);
+      if (sha) {
+        return sha;
       }
     }
   }
 
-  // 3. Fallback: existing git describe behavior
-  try {
-    const tag = (
-      deps.execSync('git describe --tags --abbrev=0 2>/dev/null', { encoding: 'utf8' }) as string
-    ).trim();
-    deps.log(`ℹ️  Latest tag: ${tag}`);
-    return tag;
-  } catch {
-    deps.log('ℹ️  No tags found, using all commits');
-    return '';
-  }
+  // 3. Fallback: latest tag, the package's own tags when scoped to one
+  return resolveTagBaseline(deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md', deps, pkgNameFull);
 }
 
 
 /**
- * Main function to populate changelog with dependency injection
+ * Generate the [Unreleased] body `update` writes, without touching the
+ * changelog ('No changes yet.' when no commit produces an entry)
  */
-export function populateChangelog(deps: PopulateChangelogDeps): void {
-  const changelogPath = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md';
-
-  deps.log('📝 Populating [Unreleased] section...');
-
+export function generateUnreleasedContent(deps: GenerateUnreleasedDeps): string {
   const since = resolveSinceBaseline(deps);
 
   const gitChangelogPath = deps.getEnv('GIT_CHANGELOG_PATH');
@@ -374,48 +695,609 @@ export function populateChangelog(deps: PopulateChangelogDeps): void {
     deps.log('ℹ️  No new commits found');
     gitOutput = '';
   }
+  if (pathFilter) {
+    gitOutput = addScopeRoutedCommits(gitOutput, since, gitChangelogPath as string, deps);
+  }
 
-  const repoUrl = getGitHubRepoUrl({
+  const forge = resolveForge({
     execSync: deps.execSync,
     getEnv: deps.getEnv,
     warn: deps.warn,
   });
-  const typeMap = loadChangelogTypeMap({
+  const typeDeps = {
     readFileSync: deps.readFileSync,
     getEnv: deps.getEnv,
     warn: deps.warn,
-  });
-  const commits = parseCommitsWithMultiplePrefixes(gitOutput, repoUrl, typeMap);
-  const changelog = deps.readFileSync(changelogPath, 'utf8') as string;
+  };
+  const typeMap = loadChangelogTypeMap(typeDeps);
+  const scopes = loadScopeGrouping(typeDeps);
+  const trackers = loadIssueTrackers(typeDeps);
+  const credits = collectCredits(listOutputShas(gitOutput), since, forge, deps);
+  const commits = parseCommitsWithMultiplePrefixes(gitOutput, forge, typeMap, scopes, credits.authors, trackers);
   const unreleasedContent = commits && commits.trim() ? commits : 'No changes yet.';
-  const unreleasedRegex = /## \[Unreleased\][\s\S]*?(?=## \[|$)/;
-  const newUnreleasedSection = `## [Unreleased]\n\n${unreleasedContent}\n\n`;
-
-  let updatedChangelog: string;
-  if (changelog.match(unreleasedRegex)) {
-    updatedChangelog = changelog.replace(unreleasedRegex, newUnreleasedSection);
-  } else {
-    const doubleNewlineIndex = changelog.indexOf('\n\n');
-    if (doubleNewlineIndex === -1) {
-      const trimmed = changelog.trimEnd();
-      const separator = trimmed.length === 0 ? '' : '\n\n';
-      updatedChangelog = `${trimmed}${separator}${newUnreleasedSection}`;
-    } else {
-      const insertionPoint = doubleNewlineIndex + 2;
-      updatedChangelog = changelog.slice(0, insertionPoint) + newUnreleasedSection + changelog.slice(insertionPoint);
-    }
-  }
+  return withContributors(unreleasedContent, credits.contributors);
+}
+
+/**
+ * Main function to populate changelog with dependency injection
+ */
+export function populateChangelog(deps: PopulateChangelogDeps): void {
+  const changelogPath = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md';
+
+  deps.log('📝 Populating [Unreleased] section...');
+
+  const changelog = parseChangelog(deps.readFileSync(changelogPath, 'utf8') as string);
+  const unreleased = ensureUnreleasedRelease(changelog);
+  const unreleasedContent = withDependencyBumps(generateUnreleasedContent(deps), listDependencyBumps(unreleased));
+  replaceReleaseBody(unreleased, unreleasedContent);
+  const updatedChangelog = serializeChangelog(changelog);
 
   deps.writeFileSync(changelogPath, updatedChangelog);
 
-  const commitCount =
-    unreleasedContent === 'No changes yet.'
-      ? 0
-      : unreleasedContent
+  deps.log(`✅ Updated [Unreleased] section with ${countEntries(unreleasedContent)} commit(s)`);
+}
+
+/**
+ * With GIT_CHANGELOG_PATH, add the commits whose scope .changelog-scopes.json
+ * (at the repository root) maps to the package at that path, even when they
+ * did not touch it. Commits keep the `git log` order.
+ */
+function addScopeRoutedCommits(
+  pathOutput: string,
+  since: string,
+  gitChangelogPath: string,
+  deps: GenerateUnreleasedDeps,
+): string {
+  let root: string;
+  let prefix: string;
+  try {
+    root = (deps.execSync('git rev-parse --show-toplevel', { encoding: 'utf8' }) as string).trim();
+    prefix = (deps.execSync('git rev-parse --show-prefix', { encoding: 'utf8' }) as string).trim();
+  } catch {
+    return pathOutput;
+  }
+  const scopeMap = loadScopePackageMap(deps, root);
+  const packageDir = posix.join(prefix || '.', gitChangelogPath);
+  const packageName = readPackageName(gitChangelogPath, deps);
+  const scopes = Object.keys(scopeMap).filter((scope) =>
+    scopeMap[scope].some((pkg) => pkg === packageName || pkg === packageDir),
+  );
+  if (scopes.length === 0) {
+    return pathOutput;
+  }
+
+  deps.log(`ℹ️  Including commits scoped ${scopes.join(', ')} (${CHANGELOG_SCOPES_FILE})`);
+  let fullOutput: string;
+  try {
+    fullOutput = (deps.execSync(
+      since ? `git log --pretty=format:"%H|%B|||END|||" ${since}..HEAD` : 'git log --pretty=format:"%H|%B|||END|||"',
+      { encoding: 'utf8' },
+    ) as string).trim();
+  } catch {
+    return pathOutput;
+  }
+
+  const pathShas = new Set(pathOutput.split('|||END|||').map((entry) => entry.split('|')[0].trim()));
+  return fullOutput
+    .split('|||END|||')
+    .filter((entry) => {
+      const [sha, ...bodyParts] = entry.split('|');
+      return (
+        entry.trim() &&
+        (pathShas.has(sha.trim()) || extractCommitScopes(bodyParts.join('|').trim()).some((scope) => scopes.includes(scope)))
+      );
+    })
+    .map((entry) => `${entry.trim()}|||END|||`)
+    .join('');
+}
+
+interface ChangelogCredits {
+  /** `by <author>` credit per short SHA */
+  authors: Map<string, string>;
+  /** The `### Contributors` section ('' = none) */
+  contributors: string;
+}
+
+/**
+ * Resolve the author credits of a changelog's commits (CHANGELOG_AUTHORS,
+ * CHANGELOG_CONTRIBUTORS). git is only read when one of them is enabled.
+ */
+function collectCredits(
+  shas: string[],
+  since: string,
+  forge: Forge | null,
+  deps: GenerateUnreleasedDeps,
+): ChangelogCredits {
+  const options = loadCreditOptions(deps.getEnv);
+  if (!options.authors && !options.contributors) {
+    return { authors: new Map(), contributors: '' };
+  }
+  const commitAuthors = readCommitAuthors(shas, deps);
+  return {
+    authors: options.authors
+      ? new Map(commitAuthors.map((author) => [author.sha.substring(0, 7), formatAuthor(author)]))
+      : new Map(),
+    contributors: options.contributors
+      ? renderContributorsSection(findFirstTimeContributors(commitAuthors, since, deps), forge)
+      : '',
+  };
+}
+
+/**
+ * `### Changed` entry release-workspaces adds to the dependents of a released
+ * package
+ */
+export function dependencyBumpEntry(name: string, version: string): string {
+  return `bumped dependency ${name} to ${version}`;
+}
+
+const DEPENDENCY_BUMP_ENTRY_REGEX = /^bumped dependency \S+ to \S+$/;
+
+function listDependencyBumps(unreleased: ChangelogRelease): string[] {
+  return getReleaseEntries(unreleased)
+    .map(getEntryText)
+    .filter((text) => DEPENDENCY_BUMP_ENTRY_REGEX.test(text));
+}
+
+/**
+ * Carry dependency bump entries over into regenerated [Unreleased] content:
+ * no commit generates them, so regenerating would drop them. They lead the
+ * `### Changed` section, which is created in its standard place if missing.
+ */
+function withDependencyBumps(unreleasedContent: string, bumps: string[]): string {
+  const lines = unreleasedContent === 'No changes yet.' ? [] : unreleasedContent.split('\n');
+  const missing = bumps.map((bump) => `- ${bump}`).filter((line) => !lines.includes(line));
+  if (missing.length === 0) {
+    return unreleasedContent;
+  }
+
+  const changedIndex = lines.indexOf('### Changed');
+  if (changedIndex !== -1) {
+    // Unscoped entries come before the `#### <scope>` sub-headings
+    const scoped = lines[changedIndex + 1]?.startsWith('#### ');
+    lines.splice(changedIndex + 1, 0, ...missing, ...(scoped ? [''] : []));
+    return lines.join('\n');
+  }
+
+  // ### Changed follows BREAKING CHANGES and ### Added (STANDARD_SECTION_ORDER)
+  const nextSection = lines.findIndex(
+    (line) => line.startsWith('### ') && line !== BREAKING_SECTION && line !== '### Added',
+  );
+  const block = ['### Changed', ...missing, ''];
+  if (nextSection === -1) {
+    return [...lines, '', ...block].join('\n').trim();
+  }
+  lines.splice(nextSection, 0, ...block);
+  return lines.join('\n');
+}
+
+function withContributors(unreleasedContent: string, contributors: string): string {
+  return contributors && unreleasedContent !== 'No changes yet.'
+    ? `${unreleasedContent}\n\n${contributors}`
+    : unreleasedContent;
+}
+
+function listOutputShas(gitOutput: string): string[] {
+  return gitOutput
+    .split('|||END|||')
+    .map((entry) => entry.split('|')[0].trim())
+    .filter(Boolean);
+}
+
+function countEntries(unreleasedContent: string): number {
+  return unreleasedContent === 'No changes yet.'
+    ? 0
+    : unreleasedContent
+        // ### Contributors lists people, not commits
+        .split(`\n\n${CONTRIBUTORS_SECTION}`)[0]
+        .split('\n')
+        .filter((line) => line.trim().startsWith('- '))
+        .length;
+}
+
+export function parseArgs(argv: string[]): PopulateOptions {
+  return { workspaces: argv.includes('--workspaces') };
+}
+
+export interface CommitWithFiles {
+  sha: string;
+  body: string;
+  files: string[];
+}
+
+/**
+ * Parse `git log --name-only --pretty=format:"%x1e%H|%B%x1f"` output:
+ * \x1e starts a commit, \x1f ends its message, the touched files follow.
+ */
+export function parseCommitsWithFiles(gitOutput: string): CommitWithFiles[] {
+  return gitOutput
+    .split('\x1e')
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [message, fileList = ''] = record.split('\x1f');
+      const [sha, ...bodyParts] = message.split('|');
+      return {
+        sha: sha.trim(),
+        body: bodyParts.join('|').trim(),
+        files: fileList
           .split('\n')
-          .filter((line) => line.trim().startsWith('- '))
-          .length;
-  deps.log(`✅ Updated [Unreleased] section with ${commitCount} commit(s)`);
+          .map((file) => file.trim())
+          .filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Route each commit to the packages whose files it touched, and to the
+ * packages its scopes are routed to.
+ *
+ * @param packageDirs - Repository-relative package directories (POSIX separators)
+ * @param scopeRoutes - Package directories per commit scope
+ * @returns Commits per package directory, in input order
+ */
+export function routeCommitsToPackages(
+  commits: CommitWithFiles[],
+  packageDirs: string[],
+  scopeRoutes: Record<string, string[]> = {},
+): Map<string, CommitWithFiles[]> {
+  const routed = new Map<string, CommitWithFiles[]>(packageDirs.map((dir) => [dir, []]));
+  for (const commit of commits) {
+    const scopedDirs = extractCommitScopes(commit.body).flatMap((scope) => scopeRoutes[scope] ?? []);
+    for (const dir of packageDirs) {
+      if (
+        scopedDirs.includes(dir) ||
+        commit.files.some((file) => dir === '' || file === dir || file.startsWith(`${dir}/`))
+      ) {
+        routed.get(dir)?.push(commit);
+      }
+    }
+  }
+  return routed;
+}
+
+function readPackageName(packageDir: string, deps: Pick<PopulateChangelogDeps, 'readFileSync'>): string {
+  try {
+    const name = (JSON.parse(deps.readFileSync(join(packageDir, 'package.json'), 'utf8') as string) as {
+      name?: unknown;
+    }).name;
+    if (typeof name === 'string' && name) {
+      return name;
+    }
+  } catch {
+    // Unreadable manifest: fall back to the directory name
+  }
+  return packageDir.split(sep).pop() ?? packageDir;
+}
+
+function listRangeCommits(since: string, deps: BaselineDeps): string[] {
+  try {
+    return (deps.execSync(since ? `git rev-list ${since}..HEAD` : 'git rev-list HEAD', {
+      encoding: 'utf8',
+    }) as string)
+      .split('\n')
+      .map((sha) => sha.trim())
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+function formatBaseline(baseline: string): string {
+  if (!baseline) {
+    return '(all commits)';
+  }
+  return /^[0-9a-f]{40}$/i.test(baseline) ? baseline.substring(0, 7) : baseline;
+}
+
+function formatWorkspaceSummary(results: WorkspaceChangelogResult[]): string {
+  const rows = [
+    ['Package', 'Baseline', 'Entries', 'Status'],
+    ...results.map((result) => [
+      result.name,
+      formatBaseline(result.baseline),
+      String(result.entries),
+      result.status,
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) => `  ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ')}`.trimEnd())
+    .join('\n');
+}
+
+export interface WorkspaceCommits {
+  name: string;
+  /** Absolute package directory */
+  dir: string;
+  /** Repository-relative package directory */
+  path: string;
+  changelogPath: string;
+  /** `since` ref of the package ('' = all commits) */
+  since: string;
+  /** Commits since `since` that touched the package or are routed to it by scope */
+  commits: CommitWithFiles[];
+}
+
+/**
+ * Collect the commits of every workspace package since its own baseline.
+ *
+ * Each package keeps its own baseline (GIT_CHANGELOG_SINCE, then its last
+ * `chore(<pkg>): release v` commit, then its latest `<name>@*` tag or
+ * unscoped tag, as resolveSinceBaseline); with VERSIONING=fixed they all
+ * share the latest tag. A single
+ * `git log --name-only` over the union of the package ranges supplies the
+ * touched files, and each commit lands in the packages it touched, plus the
+ * packages `.changelog-scopes.json` routes its scopes to.
+ *
+ * @param packageDirs - Absolute package directories (see detectWorkspacePackageDirs)
+ */
+export function collectWorkspaceCommits(packageDirs: string[], deps: WorkspaceCommitsDeps): WorkspaceCommits[] {
+  const root = deps.getCwd();
+
+  // git reports files relative to the repository root
+  let repoPrefix = '';
+  try {
+    repoPrefix = (deps.execSync('git rev-parse --show-prefix', { encoding: 'utf8' }) as string).trim();
+  } catch {
+    // Not inside a git work tree: git log below finds nothing either
+  }
+
+  const changelogFile = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md';
+  const sinceOverride = deps.getEnv('GIT_CHANGELOG_SINCE')?.trim();
+  if (sinceOverride) {
+    deps.log(`ℹ️  Using GIT_CHANGELOG_SINCE override: ${sinceOverride}`);
+  }
+  const fixed = isFixedVersioning(deps);
+  let fixedBaseline: string | undefined;
+  const packages = packageDirs.map((packageDir) => {
+    const name = readPackageName(packageDir, deps);
+    const relativeDir = relative(root, packageDir).split(sep).join('/');
+    let since = sinceOverride ?? '';
+    if (!sinceOverride && fixed) {
+      fixedBaseline ??= resolveTagBaseline(changelogFile, deps);
+      since = fixedBaseline;
+    } else if (!sinceOverride) {
+      since =
+        findPackageReleaseCommit(packageReleaseName(name), deps) || resolveTagBaseline(changelogFile, deps, name);
+    }
+    return {
+      name,
+      dir: packageDir,
+      path: `${repoPrefix}${relativeDir}`,
+      changelogPath: join(packageDir, changelogFile),
+      since,
+      range: new Set(listRangeCommits(since, deps)),
+    };
+  });
+
+  const union = [...new Set(packages.flatMap((pkg) => [...pkg.range]))];
+  let commits: CommitWithFiles[] = [];
+  if (union.length > 0) {
+    try {
+      commits = parseCommitsWithFiles(
+        deps.execSync('git log --no-walk --stdin --name-only --pretty=format:"%x1e%H|%B%x1f"', {
+          encoding: 'utf8',
+          input: union.join('\n'),
+        }) as string,
+      );
+    } catch {
+      deps.log('ℹ️  No new commits found');
+    }
+  }
+
+  const scopeRoutes: Record<string, string[]> = {};
+  for (const [scope, targets] of Object.entries(loadScopePackageMap(deps, root))) {
+    scopeRoutes[scope] = targets.flatMap((target) => {
+      const pkg = packages.find(
+        (candidate) => candidate.name === target || relative(root, candidate.dir).split(sep).join('/') === target,
+      );
+      if (!pkg) {
+        deps.warn(`⚠️  ${CHANGELOG_SCOPES_FILE}: scope "${scope}" maps to ${target}, which is not a workspace package`);
+        return [];
+      }
+      return [pkg.path];
+    });
+  }
+
+  const routed = routeCommitsToPackages(
+    commits,
+    packages.map((pkg) => pkg.path),
+    scopeRoutes,
+  );
+  return packages.map(({ range, ...pkg }) => ({
+    ...pkg,
+    commits: (routed.get(pkg.path) ?? []).filter((commit) => range.has(commit.sha)),
+  }));
+}
+
+/**
+ * Populate the [Unreleased] section of every workspace package in one pass,
+ * from the commits collectWorkspaceCommits routes to each package.
+ *
+ * Must run from the workspace root (where pnpm-workspace.yaml or the
+ * package.json declaring `workspaces` lives).
+ */
+export function populateWorkspaceChangelogs(deps: PopulateWorkspacesDeps): WorkspaceChangelogResult[] {
+  const packageDirs = detectWorkspacePackageDirs(deps.getCwd(), {
+    existsSync: deps.existsSync,
+    readdirSync: deps.readdirSync,
+    readFileSync: (path, encoding) => deps.readFileSync(path, encoding) as string,
+  });
+  if (packageDirs.length === 0) {
+    throw new ValidationError(
+      'No workspace packages found. update --workspaces needs pnpm-workspace.yaml, package.json#workspaces or lerna.json in the current directory.',
+    );
+  }
+
+  deps.log(`📝 Populating [Unreleased] sections of ${packageDirs.length} workspace package(s)...`);
+  const packages = collectWorkspaceCommits(packageDirs, deps);
+
+  const forge = resolveForge({
+    execSync: deps.execSync,
+    getEnv: deps.getEnv,
+    warn: deps.warn,
+  });
+  const typeDeps = {
+    readFileSync: deps.readFileSync,
+    getEnv: deps.getEnv,
+    warn: deps.warn,
+  };
+  const typeMap = loadChangelogTypeMap(typeDeps);
+  const scopes = loadScopeGrouping(typeDeps);
+  const trackers = loadIssueTrackers(typeDeps);
+  const results = packages.map((pkg): WorkspaceChangelogResult => {
+    const result = { name: pkg.name, path: pkg.path, changelogPath: pkg.changelogPath, baseline: pkg.since };
+    let content: string;
+    try {
+      content = deps.readFileSync(pkg.changelogPath, 'utf8') as string;
+    } catch {
+      deps.warn(`⚠️  ${pkg.changelogPath} not found; run release-it-preset init to create it. Skipping ${pkg.name}.`);
+      return { ...result, entries: 0, status: 'no changelog' };
+    }
+
+    const gitOutput = pkg.commits
+      .map((commit) => `${commit.sha}|${commit.body}|||END|||`)
+      .join('');
+    const credits = collectCredits(pkg.commits.map((commit) => commit.sha), pkg.since, forge, deps);
+    const parsed = parseCommitsWithMultiplePrefixes(gitOutput, forge, typeMap, scopes, credits.authors, trackers);
+    const changelog = parseChangelog(content);
+    const unreleased = ensureUnreleasedRelease(changelog);
+    const unreleasedContent = withDependencyBumps(
+      parsed && parsed.trim() ? parsed : 'No changes yet.',
+      listDependencyBumps(unreleased),
+    );
+    replaceReleaseBody(unreleased, withContributors(unreleasedContent, credits.contributors));
+    deps.writeFileSync(pkg.changelogPath, serializeChangelog(changelog));
+
+    const entries = countEntries(unreleasedContent);
+    return { ...result, entries, status: entries > 0 ? 'pending' : 'up to date' };
+  });
+
+  const pending = results.filter((result) => result.status === 'pending').length;
+  deps.log(`\n${formatWorkspaceSummary(results)}\n`);
+  deps.log(`✅ ${pending} of ${results.length} package(s) have pending changes`);
+  return results;
+}
+
+/**
+ * Render one [Unreleased] body from per-package bodies: each section lists
+ * the entries of the unnamed (root) group first, then a `#### <name>` block
+ * per package.
+ */
+function renderGroupedBody(groups: Array<{ name: string | null; body: string }>): string {
+  const releases = groups.map((group) => ({ name: group.name, release: parseReleaseBody(group.body) }));
+  const headings = [
+    BREAKING_SECTION,
+    ...STANDARD_SECTION_ORDER,
+    ...releases.flatMap(({ release }) => release.sections.map((section) => section.heading)),
+  ].filter((heading, index, all) => all.indexOf(heading) === index);
+
+  const sections: string[] = [];
+  for (const heading of headings) {
+    const blocks = releases.flatMap(({ name, release }) => {
+      const lines = release.sections
+        .filter((section) => section.heading === heading)
+        .flatMap((section) => section.items)
+        .flatMap((item) => (item.kind === 'entry' ? item.lines : []));
+      if (lines.length === 0) {
+        return [];
+      }
+      return [name ? [`#### ${name}`, ...lines].join('\n') : lines.join('\n')];
+    });
+    if (blocks.length > 0) {
+      sections.push([heading, ...blocks].join('\n\n'));
+    }
+  }
+  return sections.length > 0 ? sections.join('\n\n') : 'No changes yet.';
+}
+
+/**
+ * Populate the root [Unreleased] section of a fixed-version workspace
+ * (VERSIONING=fixed) from the commits since the shared baseline.
+ *
+ * Entries are grouped by package under each section: commits that touched
+ * no package come first, then one `#### <package>` block per package, in
+ * workspace order.
+ *
+ * Must run from the workspace root.
+ */
+export function populateFixedChangelog(deps: PopulateWorkspacesDeps): number {
+  const packageDirs = detectWorkspacePackageDirs(deps.getCwd(), {
+    existsSync: deps.existsSync,
+    readdirSync: deps.readdirSync,
+    readFileSync: (path, encoding) => deps.readFileSync(path, encoding) as string,
+  });
+  if (packageDirs.length === 0) {
+    throw new ValidationError(
+      'No workspace packages found. VERSIONING=fixed needs pnpm-workspace.yaml, package.json#workspaces or lerna.json in the current directory.',
+    );
+  }
+
+  const changelogPath = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md';
+  deps.log(`📝 Populating [Unreleased] section for ${packageDirs.length} workspace package(s) (fixed versioning)...`);
+  const packages = collectWorkspaceCommits(packageDirs, deps);
+
+  // Commits that touched no package (root configuration, tooling, ...)
+  const since = packages[0].since;
+  const packageShas = new Set(packages.flatMap((pkg) => pkg.commits.map((commit) => commit.sha)));
+  let rootOutput = '';
+  try {
+    rootOutput = (deps.execSync(
+      since ? `git log --pretty=format:"%H|%B|||END|||" ${since}..HEAD` : 'git log --pretty=format:"%H|%B|||END|||"',
+      { encoding: 'utf8' },
+    ) as string).trim();
+  } catch {
+    // No commits: the packages have none either
+  }
+  const rootCommits = rootOutput
+    .split('|||END|||')
+    .filter((entry) => entry.trim() && !packageShas.has(entry.split('|')[0].trim()))
+    .map((entry) => `${entry.trim()}|||END|||`)
+    .join('');
+
+  const forge = resolveForge({
+    execSync: deps.execSync,
+    getEnv: deps.getEnv,
+    warn: deps.warn,
+  });
+  const typeDeps = {
+    readFileSync: deps.readFileSync,
+    getEnv: deps.getEnv,
+    warn: deps.warn,
+  };
+  const typeMap = loadChangelogTypeMap(typeDeps);
+  // Package blocks already use `####` headings: scope headings would nest
+  // under them ambiguously, so entries are sorted by scope instead.
+  const loadedScopes = loadScopeGrouping(typeDeps);
+  const scopes: ScopeGrouping = loadedScopes.mode === 'heading' ? { ...loadedScopes, mode: 'sort' } : loadedScopes;
+  const trackers = loadIssueTrackers(typeDeps);
+  // rootOutput lists every commit of the range, packages' included
+  const credits = collectCredits(listOutputShas(rootOutput), since, forge, deps);
+  const unreleasedContent = renderGroupedBody([
+    {
+      name: null,
+      body: parseCommitsWithMultiplePrefixes(rootCommits, forge, typeMap, scopes, credits.authors, trackers),
+    },
+    ...packages.map((pkg) => ({
+      name: pkg.name,
+      body: parseCommitsWithMultiplePrefixes(
+        pkg.commits.map((commit) => `${commit.sha}|${commit.body}|||END|||`).join(''),
+        forge,
+        typeMap,
+        scopes,
+        credits.authors,
+        trackers,
+      ),
+    })),
+  ]);
+
+  const changelog = parseChangelog(deps.readFileSync(changelogPath, 'utf8') as string);
+  replaceReleaseBody(ensureUnreleasedRelease(changelog), withContributors(unreleasedContent, credits.contributors));
+  deps.writeFileSync(changelogPath, serializeChangelog(changelog));
+
+  const entries = countEntries(unreleasedContent);
+  deps.log(`✅ Updated [Unreleased] section with ${entries} entr${entries === 1 ? 'y' : 'ies'} across ${packages.length} package(s)`);
+  return entries;
 }
 
 /**
@@ -423,18 +1305,26 @@ export function populateChangelog(deps: PopulateChangelogDeps): void {
  */
 /* c8 ignore start */
 if (import.meta.url === `file://${process.argv[1]}`) {
-  void runScript(
-    { error: console.error, exit: process.exit },
-    () =>
-      populateChangelog({
-        execSync,
-        readFileSync,
-        writeFileSync,
-        getEnv: (key: string) => process.env[key],
-        log: console.log,
-        warn: console.warn,
-        error: console.error,
-      }),
-  );
+  void runScript({ error: console.error, exit: process.exit }, () => {
+    const deps: PopulateWorkspacesDeps = {
+      execSync,
+      readFileSync,
+      writeFileSync,
+      existsSync,
+      readdirSync: (path: string) => readdirSync(path),
+      getEnv: (key: string) => process.env[key],
+      getCwd: () => process.cwd(),
+      log: console.log,
+      warn: console.warn,
+      error: console.error,
+    };
+    if (parseArgs(process.argv.slice(2)).workspaces) {
+      populateWorkspaceChangelogs(deps);
+    } else if (isFixedVersioning(deps)) {
+      populateFixedChangelog(deps);
+    } else {
+      populateChangelog(deps);
+    }
+  });
 }
 /* c8 ignore end */
@@ -0,0 +1,176 @@
+#!/usr/bin/env tsx
+/**
+ * Recommend a semver increment from the curated [Unreleased] section
+ *
+ * Levels:
+ * - major: a BREAKING CHANGES or ### Removed section has entries
+ * - minor: ### Added or ### Deprecated has entries
+ * - patch: any other entry (### Fixed, ### Changed, ### Security, custom sections)
+ *
+ * ### Contributors lists people, not changes, and is not counted.
+ *
+ * While the current version is 0.x, every level shifts down by one
+ * (breaking and removals → minor, additions → patch) so a breaking change never
+ * publishes 1.0.0 by accident.
+ *
+ * With --generated, the levels are read from the [Unreleased] section
+ * `update` would generate from the commits since the last release instead
+ * of the committed one.
+ *
+ * Usage:
+ *   tsx recommend-bump.ts [--json] [--generated]
+ *
+ * Environment variables:
+ *   CHANGELOG_FILE - Path to changelog file (default: CHANGELOG.md)
+ */
+
+import { execSync } from 'node:child_process'
+import { readFileSync } from 'node:fs'
+import type { ChangelogReleaseBody } from './lib/changelog-document.js'
+import { findUnreleasedRelease, getReleaseEntries, parseChangelog, parseReleaseBody } from './lib/changelog-document.js'
+import { CONTRIBUTORS_SECTION } from './lib/commit-authors.js'
+import { ChangelogError } from './lib/errors.js'
+import { runScript } from './lib/run-script.js'
+import { isValidSemver } from './lib/semver-utils.js'
+import { type GenerateUnreleasedDeps, generateUnreleasedContent } from './populate-unreleased-changelog.js'
+
+export type BumpLevel = 'major' | 'minor' | 'patch'
+
+export interface BumpRecommendation {
+  level: BumpLevel | null
+  reason: string
+  currentVersion: string | null
+}
+
+export interface RecommendBumpDeps {
+  readFileSync: typeof readFileSync
+  getEnv: (key: string) => string | undefined
+}
+
+const LEVEL_RANK: Record<BumpLevel, number> = { patch: 0, minor: 1, major: 2 }
+const PRE_MAJOR_LEVEL: Record<BumpLevel, BumpLevel> = { major: 'minor', minor: 'patch', patch: 'patch' }
+const MAJOR_SECTIONS = new Set(['removed'])
+const MINOR_SECTIONS = new Set(['added', 'deprecated'])
+
+function sectionLevel(name: string): BumpLevel {
+  const key = name.trim().toLowerCase()
+  if (/breaking/i.test(name) || MAJOR_SECTIONS.has(key)) {
+    return 'major'
+  }
+  return MINOR_SECTIONS.has(key) ? 'minor' : 'patch'
+}
+
+function readCurrentVersion(deps: Pick<RecommendBumpDeps, 'readFileSync'>): string | null {
+  try {
+    const pkg = JSON.parse(deps.readFileSync('package.json', 'utf8') as string)
+    return typeof pkg.version === 'string' && isValidSemver(pkg.version) ? pkg.version.replace(/^v/, '') : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Pick the bump level for a release body and explain the choice.
+ */
+export function recommendBumpForRelease(
+  release: ChangelogReleaseBody,
+  currentVersion: string | null,
+): BumpRecommendation {
+  const candidates = [
+    { name: 'uncategorized', level: 'patch' as BumpLevel, count: getReleaseEntries({ ...release, sections: [] }).length },
+    ...release.sections
+      .filter(section => section.heading.trim() !== CONTRIBUTORS_SECTION)
+      .map(section => ({
+        name: `### ${section.name}`,
+        level: sectionLevel(section.name),
+        count: getReleaseEntries({ intro: section.items, sections: [], trailer: [] }).length,
+      })),
+  ].filter(candidate => candidate.count > 0)
+
+  if (candidates.length === 0) {
+    return { level: null, reason: '[Unreleased] has no entries — nothing to release', currentVersion }
+  }
+
+  const top = candidates.reduce((best, candidate) =>
+    LEVEL_RANK[candidate.level] > LEVEL_RANK[best.level] ? candidate : best,
+  )
+  const triggers = candidates
+    .filter(candidate => candidate.level === top.level)
+    .map(candidate => `${candidate.name} (${candidate.count})`)
+    .join(', ')
+  const reason = `[Unreleased] has ${top.level}-level entries: ${triggers}`
+
+  if (currentVersion && currentVersion.startsWith('0.')) {
+    const level = PRE_MAJOR_LEVEL[top.level]
+    return {
+      level,
+      reason: level === top.level ? reason : `${reason}; ${currentVersion} is 0.x, so ${top.level} becomes ${level}`,
+      currentVersion,
+    }
+  }
+
+  return { level: top.level, reason, currentVersion }
+}
+
+export function recommendBump(deps: RecommendBumpDeps): BumpRecommendation {
+  const changelogFile = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md'
+
+  let content: string
+  try {
+    content = deps.readFileSync(changelogFile, 'utf8') as string
+  } catch (error) {
+    throw new ChangelogError(`Could not read ${changelogFile}`, { cause: error })
+  }
+
+  const unreleased = findUnreleasedRelease(parseChangelog(content))
+  if (!unreleased) {
+    throw new ChangelogError(`No [Unreleased] section found in ${changelogFile}. Run release-it-preset update first.`)
+  }
+
+  return recommendBumpForRelease(unreleased, readCurrentVersion(deps))
+}
+
+/**
+ * Recommend from the [Unreleased] section `update` would generate, ignoring
+ * the committed one. The default preset regenerates [Unreleased] in its
+ * before:bump hook, after release-it has settled the increment, so its
+ * auto-bump must not trust a section that may be stale or empty.
+ */
+export function recommendBumpFromCommits(deps: GenerateUnreleasedDeps): BumpRecommendation {
+  const generated = parseReleaseBody(generateUnreleasedContent(deps))
+  const recommendation = recommendBumpForRelease(generated, readCurrentVersion(deps))
+  return { ...recommendation, reason: recommendation.reason.replace('[Unreleased]', 'Generated [Unreleased]') }
+}
+
+/**
+ * CLI entry point - only runs when script is executed directly
+ */
+/* c8 ignore start */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void runScript({ error: console.error, exit: process.exit }, () => {
+    const getEnv = (key: string) => process.env[key]
+    const recommendation = process.argv.includes('--generated')
+      ? recommendBumpFromCommits({
+          execSync,
+          readFileSync,
+          getEnv,
+          // stdout carries the recommendation
+          log: console.error,
+          warn: console.warn,
+        })
+      : recommendBump({ readFileSync, getEnv })
+
+    if (process.argv.includes('--json')) {
+      console.log(JSON.stringify(recommendation))
+      return
+    }
+
+    if (recommendation.level === null) {
+      console.log(`ℹ️  No bump recommended: ${recommendation.reason}`)
+      return
+    }
+    console.log(`📈 Recommended bump: ${recommendation.level}`)
+    console.log(`   Reason: ${recommendation.reason}`)
+  })
+}
+/* c8 ignore end */
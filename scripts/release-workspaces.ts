@@ -0,0 +1,529 @@
+#!/usr/bin/env tsx
+/**
+ * Release every changed workspace package, dependencies first
+ *
+ * The packages and their order come from plan (see plan-release). Each one
+ * is released by running the chosen preset in its directory with the planned
+ * increment. After each release, the internal ranges on the new version are
+ * rewritten in the dependents' package.json (operators and `workspace:`
+ * prefixes kept), and each dependent gets a `### Changed` entry in its
+ * [Unreleased] section, which `update` keeps when it regenerates the section. Those edits are committed before the next package is
+ * released; a dependent that was not planned is then released too (patch),
+ * unless only its devDependencies changed.
+ *
+ * With VERSIONING=fixed, every package is set to the shared next version
+ * (internal ranges rewritten alike), the preset runs once at the workspace
+ * root (one commit, one tag, the root changelog), then, with
+ * NPM_PUBLISH=true, the packages are published dependencies first.
+ *
+ * Usage:
+ *   tsx release-workspaces.ts [preset] [...release-it args]
+ *
+ * Environment variables (defaults apply per package, set them to override):
+ *   GIT_CHANGELOG_PATH - Pathspec of the package commits (default: .)
+ *   GIT_COMMIT_MESSAGE - Release commit message (default: chore(<pkg>): release v${version})
+ *   GIT_TAG_NAME - Release tag (default: <package name>@${version})
+ *   CHANGELOG_FILE - Changelog file of each package (default: CHANGELOG.md)
+ *   VERSIONING - independent (default) or fixed
+ */
+
+import { execSync, spawnSync } from 'node:child_process'
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import {
+  ensureUnreleasedRelease,
+  getEntryText,
+  getReleaseEntries,
+  mergeReleaseBodies,
+  parseChangelog,
+  parseReleaseBody,
+  serializeChangelog,
+} from './lib/changelog-document.js'
+import { GitError, ScriptError, ValidationError } from './lib/errors.js'
+import { runScript } from './lib/run-script.js'
+import { incrementSemver, isValidSemver } from './lib/semver-utils.js'
+import { detectPackageManager, detectWorkspacePackageDirs, type PackageManager } from './lib/workspace-detect.js'
+import {
+  type DependencyField,
+  parseWorkspaceManifest,
+  rewriteDependencyRange,
+  topologicalOrder,
+  type WorkspacePackage,
+} from './lib/workspace-graph.js'
+import { type PlanReleaseDeps, planRelease, readRootVersion } from './plan-release.js'
+import { dependencyBumpEntry, isFixedVersioning, packageReleaseName } from './populate-unreleased-changelog.js'
+import type { BumpLevel } from './recommend-bump.js'
+
+export interface ReleaseWorkspacesDeps extends PlanReleaseDeps {
+  writeFileSync: typeof writeFileSync
+  /** Run `release-it-preset <preset> ...args` and return its exit code */
+  runPreset: (preset: string, args: string[], options: { cwd: string; env: Record<string, string> }) => number
+}
+
+export interface ReleaseWorkspacesOptions {
+  preset: string
+  /** Arguments passed on to every preset run */
+  args: string[]
+  dryRun: boolean
+}
+
+export interface DependentUpdate {
+  dependent: string
+  field: DependencyField
+  dependency: string
+  from: string
+  to: string
+}
+
+export interface WorkspaceRelease {
+  name: string
+  level: BumpLevel
+  version: string
+  updates: DependentUpdate[]
+}
+
+interface WorkspaceMember extends WorkspacePackage {
+  dir: string
+}
+
+export function parseArgs(argv: string[]): ReleaseWorkspacesOptions {
+  const [first, ...rest] = argv
+  const hasPreset = first !== undefined && !first.startsWith('-')
+  const args = hasPreset ? rest : argv
+  return {
+    preset: hasPreset ? first : 'default',
+    args,
+    dryRun: args.includes('--dry-run') || args.includes('-d'),
+  }
+}
+
+function readMembers(deps: ReleaseWorkspacesDeps): WorkspaceMember[] {
+  const packageDirs = detectWorkspacePackageDirs(deps.getCwd(), {
+    existsSync: deps.existsSync,
+    readdirSync: deps.readdirSync,
+    readFileSync: (path, encoding) => deps.readFileSync(path, encoding) as string,
+  })
+  return packageDirs.flatMap(dir => {
+    try {
+      const manifest = parseWorkspaceManifest(deps.readFileSync(join(dir, 'package.json'), 'utf8') as string)
+      return manifest ? [{ ...manifest, dir }] : []
+    } catch {
+      return []
+    }
+  })
+}
+
+function readVersion(member: WorkspaceMember, deps: ReleaseWorkspacesDeps): string {
+  const manifest = parseWorkspaceManifest(deps.readFileSync(join(member.dir, 'package.json'), 'utf8') as string)
+  return manifest?.version ?? member.version
+}
+
+/**
+ * Environment of one preset run: per-package defaults for the variables the
+ * user has not set, so packages get their own commits, tags and changelogs.
+ */
+function presetEnv(member: WorkspaceMember, deps: ReleaseWorkspacesDeps): Record<string, string> {
+  const defaults: Record<string, string> = {
+    GIT_CHANGELOG_PATH: '.',
+    GIT_COMMIT_MESSAGE: `chore(${packageReleaseName(member.name)}): release v\${version}`,
+    GIT_TAG_NAME: `${member.name}@\${version}`,
+  }
+  return Object.fromEntries(Object.entries(defaults).filter(([key]) => !deps.getEnv(key)))
+}
+
+function addChangedEntries(changelogPath: string, entries: string[], deps: ReleaseWorkspacesDeps): boolean {
+  let content: string
+  try {
+    content = deps.readFileSync(changelogPath, 'utf8') as string
+  } catch {
+    return false
+  }
+
+  const changelog = parseChangelog(content)
+  const unreleased = ensureUnreleasedRelease(changelog)
+  const existing = new Set(getReleaseEntries(unreleased).map(getEntryText))
+  const missing = entries.filter(entry => !existing.has(entry))
+  if (missing.length > 0) {
+    mergeReleaseBodies(unreleased, [parseReleaseBody(['### Changed', ...missing.map(entry => `- ${entry}`)].join('\n'))])
+    deps.writeFileSync(changelogPath, serializeChangelog(changelog))
+  }
+  return true
+}
+
+/**
+ * Point the dependents of a released package at its new version.
+ *
+ * Rewrites the package.json ranges (see rewriteDependencyRange) and adds a
+ * `### Changed` entry to the [Unreleased] section of each dependent whose
+ * dependencies, peerDependencies or optionalDependencies changed. With
+ * `dryRun`, nothing is written.
+ *
+ * @returns The rewritten ranges and the files written
+ */
+function updateDependents(
+  released: { name: string; version: string },
+  members: WorkspaceMember[],
+  deps: ReleaseWorkspacesDeps,
+  dryRun = false,
+): { updates: DependentUpdate[]; files: string[] } {
+  const changelogFile = deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md'
+  const updates: DependentUpdate[] = []
+  const files: string[] = []
+
+  for (const member of members) {
+    const memberUpdates = member.dependencies.flatMap(dependency => {
+      const to = dependency.name === released.name ? rewriteDependencyRange(dependency.range, released.version) : null
+      return to
+        ? [{ dependent: member.name, field: dependency.field, dependency: released.name, from: dependency.range, to }]
+        : []
+    })
+    if (memberUpdates.length === 0) {
+      continue
+    }
+    updates.push(...memberUpdates)
+    for (const update of memberUpdates) {
+      deps.log(`   ${update.dependent} ${update.field}.${update.dependency}: ${update.from} → ${update.to}`)
+    }
+    // Later releases see the new ranges
+    member.dependencies = member.dependencies.map(dependency => {
+      const update = memberUpdates.find(
+        candidate => candidate.field === dependency.field && candidate.dependency === dependency.name,
+      )
+      return update ? { ...dependency, range: update.to } : dependency
+    })
+    if (dryRun) {
+      continue
+    }
+
+    const manifestPath = join(member.dir, 'package.json')
+    const manifest = JSON.parse(deps.readFileSync(manifestPath, 'utf8') as string) as Record<
+      string,
+      Record<string, string>
+    >
+    for (const update of memberUpdates) {
+      manifest[update.field][update.dependency] = update.to
+    }
+    deps.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`)
+    files.push(manifestPath)
+
+    if (memberUpdates.some(update => update.field !== 'devDependencies')) {
+      const changelogPath = join(member.dir, changelogFile)
+      if (addChangedEntries(changelogPath, [dependencyBumpEntry(released.name, released.version)], deps)) {
+        files.push(changelogPath)
+      } else {
+        deps.warn(`⚠️  ${changelogPath} not found; ${member.name} gets no changelog entry for ${released.name}`)
+      }
+    }
+  }
+
+  return { updates, files }
+}
+
+function commitDependentUpdates(
+  released: { name: string; version: string },
+  files: string[],
+  deps: ReleaseWorkspacesDeps,
+): void {
+  const paths = files.map(file => JSON.stringify(relative(deps.getCwd(), file) || '.')).join(' ')
+  try {
+    deps.execSync(`git add -- ${paths}`, { stdio: 'pipe' })
+    deps.execSync(`git commit -m "chore(deps): ${dependencyBumpEntry(released.name, released.version)}" -- ${paths}`, {
+      stdio: 'pipe',
+    })
+  } catch (error) {
+    throw new GitError(`Could not commit the dependents of ${released.name} ${released.version}`, { cause: error })
+  }
+}
+
+function isIncrementArg(arg: string): boolean {
+  return arg === '--increment' || arg === '-i' || arg.startsWith('--increment=')
+}
+
+/**
+ * Shared next version of a fixed release: the planned one, or the one the
+ * user asked for with `--increment <level|version>`.
+ *
+ * @returns The version and the arguments without the user's `--increment`
+ */
+function resolveFixedVersion(
+  plannedVersion: string,
+  currentVersion: string,
+  args: string[],
+): { version: string; args: string[] } {
+  const index = args.findIndex(isIncrementArg)
+  if (index === -1) {
+    return { version: plannedVersion, args }
+  }
+
+  const inline = args[index].startsWith('--increment=')
+  const value = inline ? args[index].slice('--increment='.length) : (args[index + 1] ?? '')
+  const rest = args.filter((_, position) => position !== index && (inline || position !== index + 1))
+  if (value === 'major' || value === 'minor' || value === 'patch') {
+    return { version: incrementSemver(currentVersion, value), args: rest }
+  }
+  if (isValidSemver(value)) {
+    return { version: value.replace(/^v/, ''), args: rest }
+  }
+  throw new ValidationError(
+    `VERSIONING=fixed needs --increment major, minor, patch or an exact version (got: ${value || 'nothing'})`,
+  )
+}
+
+/**
+ * Set every package to the shared version and point the internal ranges at it.
+ *
+ * @returns The original package.json contents, to restore on failure
+ */
+function applyFixedVersion(version: string, members: WorkspaceMember[], deps: ReleaseWorkspacesDeps): Map<string, string> {
+  const names = new Set(members.map(member => member.name))
+  const originals = new Map<string, string>()
+  for (const member of members) {
+    const manifestPath = join(member.dir, 'package.json')
+    const content = deps.readFileSync(manifestPath, 'utf8') as string
+    const manifest = JSON.parse(content) as Record<string, unknown>
+    manifest.version = version
+    for (const dependency of member.dependencies) {
+      const to = names.has(dependency.name) ? rewriteDependencyRange(dependency.range, version) : null
+      if (to) {
+        const ranges = manifest[dependency.field] as Record<string, string>
+        ranges[dependency.name] = to
+      }
+    }
+    originals.set(manifestPath, content)
+    deps.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`)
+  }
+  return originals
+}
+
+function restoreManifests(originals: Map<string, string>, deps: ReleaseWorkspacesDeps): void {
+  for (const [manifestPath, content] of originals) {
+    deps.writeFileSync(manifestPath, content)
+  }
+}
+
+const PUBLISH_COMMANDS: Record<PackageManager, string> = {
+  pnpm: 'pnpm publish --no-git-checks',
+  yarn: 'yarn npm publish',
+  bun: 'bun publish',
+  npm: 'npm publish',
+}
+
+/**
+ * The publish command of one package with the project's package manager.
+ * npm publishes from the workspace root with `-w`; the others run in the
+ * package directory. `bun publish` has no provenance support.
+ */
+function publishCommand(member: WorkspaceMember, packageManager: PackageManager, deps: ReleaseWorkspacesDeps): {
+  command: string
+  cwd: string
+} {
+  const args = packageManager === 'npm' ? ['-w', member.name] : []
+  if (packageManager !== 'bun') {
+    args.push('--provenance')
+  }
+  args.push('--access', deps.getEnv('NPM_ACCESS') || 'public')
+  const tag = deps.getEnv('NPM_TAG')
+  if (tag) {
+    args.push('--tag', tag)
+  }
+  return {
+    command: `${PUBLISH_COMMANDS[packageManager]} ${args.join(' ')}`,
+    cwd: packageManager === 'npm' ? deps.getCwd() : member.dir,
+  }
+}
+
+/**
+ * Publish every non-private package, dependencies first.
+ */
+function publishMembers(members: WorkspaceMember[], deps: ReleaseWorkspacesDeps, dryRun: boolean): void {
+  const packageManager = detectPackageManager(deps.getCwd(), deps)
+  for (const member of topologicalOrder(members)) {
+    const manifest = JSON.parse(deps.readFileSync(join(member.dir, 'package.json'), 'utf8') as string) as {
+      private?: unknown
+    }
+    if (manifest.private === true) {
+      deps.log(`   ${member.name} is private; not published`)
+      continue
+    }
+    const { command, cwd } = publishCommand(member, packageManager, deps)
+    deps.log(`📤 ${member.name}: ${command}${dryRun ? ' (dry run, skipped)' : ''}`)
+    if (dryRun) {
+      continue
+    }
+    try {
+      deps.execSync(command, { cwd, stdio: 'inherit' })
+    } catch (error) {
+      throw new ScriptError(`Publishing ${member.name} failed`, { cause: error })
+    }
+  }
+}
+
+/**
+ * Release a fixed-version workspace: one version, one root release, then
+ * every package published.
+ */
+function releaseFixedWorkspaces(options: ReleaseWorkspacesOptions, deps: ReleaseWorkspacesDeps): WorkspaceRelease[] {
+  const plan = planRelease(deps)
+  if (plan.releases.length === 0) {
+    deps.log('ℹ️  No workspace package has changes to release')
+    return []
+  }
+
+  const members = readMembers(deps)
+  const { currentVersion, nextVersion, level } = plan.releases[0]
+  const { version, args } = resolveFixedVersion(nextVersion, currentVersion, options.args)
+  deps.log(
+    `🚀 Releasing ${members.length} workspace package(s) at ${version} with the ${options.preset} preset${options.dryRun ? ' (dry run)' : ''}`,
+  )
+
+  if (deps.getEnv('GIT_REQUIRE_CLEAN') === 'true' && !options.dryRun) {
+    let status = ''
+    try {
+      status = (deps.execSync('git status --porcelain', { encoding: 'utf8' }) as string).trim()
+    } catch (error) {
+      throw new GitError('Could not read the working tree status', { cause: error })
+    }
+    if (status) {
+      throw new GitError('Working directory is not clean (GIT_REQUIRE_CLEAN=true)')
+    }
+  }
+
+  const originals = options.dryRun ? new Map<string, string>() : applyFixedVersion(version, members, deps)
+  // The package versions were just written and the packages are published below
+  const status = deps.runPreset(options.preset, [...args, '--increment', version], {
+    cwd: deps.getCwd(),
+    env: { GIT_REQUIRE_CLEAN: 'false', NPM_PUBLISH: 'false' },
+  })
+  if (status !== 0) {
+    restoreManifests(originals, deps)
+    throw new ScriptError(`Release of the workspace at ${version} failed (exit ${status})`, { exitCode: status })
+  }
+  if (!options.dryRun && readRootVersion(deps) !== version) {
+    restoreManifests(originals, deps)
+    deps.warn(`⚠️  The workspace root was not released at ${version}; package versions were restored`)
+    return []
+  }
+
+  if (deps.getEnv('NPM_PUBLISH') === 'true') {
+    publishMembers(members, deps, options.dryRun)
+  }
+
+  deps.log(`\n✅ Released ${members.map(member => member.name).join(', ')} at ${version}`)
+  return members.map(member => ({ name: member.name, level, version, updates: [] }))
+}
+
+/**
+ * Release the changed workspace packages one by one, dependencies first.
+ *
+ * Must run from the workspace root (where pnpm-workspace.yaml or the
+ * package.json declaring `workspaces` lives).
+ *
+ * With VERSIONING=fixed, see releaseFixedWorkspaces.
+ *
+ * @throws ScriptError with the preset's exit code when a release fails;
+ *   the packages released before it stay released
+ */
+export function releaseWorkspaces(options: ReleaseWorkspacesOptions, deps: ReleaseWorkspacesDeps): WorkspaceRelease[] {
+  if (isFixedVersioning(deps)) {
+    return releaseFixedWorkspaces(options, deps)
+  }
+
+  const plan = planRelease(deps)
+  if (plan.releases.length === 0) {
+    deps.log('ℹ️  No workspace package has changes to release')
+    return []
+  }
+
+  const members = readMembers(deps)
+  const levels = new Map<string, BumpLevel>(plan.releases.map(release => [release.name, release.level]))
+  const plannedVersions = new Map(plan.releases.map(release => [release.name, release.nextVersion]))
+  const userIncrement = options.args.some(isIncrementArg)
+  const results: WorkspaceRelease[] = []
+
+  deps.log(
+    `🚀 Releasing ${plan.releases.length} workspace package(s) with the ${options.preset} preset${options.dryRun ? ' (dry run)' : ''}`,
+  )
+
+  for (const member of topologicalOrder(members)) {
+    const level = levels.get(member.name)
+    if (!level) {
+      continue
+    }
+
+    deps.log(`\n📦 ${member.name} (${level})`)
+    const args = userIncrement ? options.args : [...options.args, '--increment', level]
+    const status = deps.runPreset(options.preset, args, { cwd: member.dir, env: presetEnv(member, deps) })
+    if (status !== 0) {
+      const released = results.map(result => `${result.name}@${result.version}`)
+      throw new ScriptError(
+        `Release of ${member.name} failed (exit ${status})${released.length > 0 ? `; already released: ${released.join(', ')}` : ''}`,
+        { exitCode: status },
+      )
+    }
+
+    const version = options.dryRun
+      ? (plannedVersions.get(member.name) ?? incrementSemver(member.version, level))
+      : readVersion(member, deps)
+    if (!options.dryRun && version === member.version) {
+      deps.warn(`⚠️  ${member.name} is still at ${version}; its dependents were left unchanged`)
+      continue
+    }
+
+    const released = { name: member.name, version }
+    const others = members.filter(other => other.name !== member.name)
+    const { updates, files } = updateDependents(released, others, deps, options.dryRun)
+    if (files.length > 0) {
+      commitDependentUpdates(released, files, deps)
+    }
+    for (const update of updates) {
+      if (update.field !== 'devDependencies' && !levels.has(update.dependent)) {
+        levels.set(update.dependent, 'patch')
+        deps.log(`   ${update.dependent} will be released too (patch)`)
+      }
+    }
+    results.push({ name: member.name, level, version, updates })
+  }
+
+  deps.log(`\n✅ Released ${results.map(result => `${result.name}@${result.version}`).join(', ')}`)
+  return results
+}
+
+/**
+ * Path of bin/cli.js from scripts/ (tsx) or dist/scripts/ (compiled)
+ */
+function resolveCliPath(moduleUrl = import.meta.url): string {
+  const moduleDir = dirname(fileURLToPath(moduleUrl))
+  const candidates = [join(moduleDir, '..', 'bin', 'cli.js'), join(moduleDir, '..', '..', 'bin', 'cli.js')]
+  return candidates.find(candidate => existsSync(candidate)) ?? candidates[0]
+}
+
+/**
+ * CLI entry point - only runs when script is executed directly
+ */
+/* c8 ignore start */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void runScript({ error: console.error, exit: process.exit }, () => {
+    const options = parseArgs(process.argv.slice(2))
+    const cliPath = resolveCliPath()
+
+    releaseWorkspaces(options, {
+      execSync,
+      readFileSync,
+      writeFileSync,
+      existsSync,
+      readdirSync: (path: string) => readdirSync(path),
+      getEnv: (key: string) => process.env[key],
+      getCwd: () => process.cwd(),
+      log: console.log,
+      warn: console.warn,
+      runPreset: (preset, args, { cwd, env }) =>
+        spawnSync(process.execPath, [cliPath, preset, ...args], {
+          cwd,
+          env: { ...process.env, ...env },
+          stdio: 'inherit',
+        }).status ?? 1,
+    })
+  })
+}
+/* c8 ignore end */
@@ -17,14 +17,29 @@
  *   CHANGELOG_FILE - Path to changelog file (default: CHANGELOG.md)
  *   GITHUB_REPOSITORY - GitHub repo (owner/repo) for commit links
  *   GIT_REMOTE - Git remote name (default: origin)
+ *   CHANGELOG_FOLD_PRERELEASES - Fold [X.Y.Z-*] blocks into the stable [X.Y.Z] block (default: false)
  */
 
 import type { ExecSyncOptions } from 'node:child_process';
 import { readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { execSync } from 'node:child_process';
-import { getGitHubRepoUrl } from './lib/git-utils.js';
-import { escapeRegExp } from './lib/string-utils.js';
+import { buildReleaseLinks, resolveForge } from './lib/forge.js';
+import {
+  createRelease,
+  findRelease,
+  findUnreleasedRelease,
+  insertRelease,
+  isUnreleasedRelease,
+  mergeReleaseBodies,
+  parseChangelog,
+  removeReferenceLink,
+  renderReleaseBody,
+  replaceReleaseBody,
+  serializeChangelog,
+  setReferenceLink,
+} from './lib/changelog-document.js';
+import type { ChangelogDocument, ChangelogRelease } from './lib/changelog-document.js';
 import { validateAndNormalizeSemver } from './lib/semver-utils.js';
 import { runScript } from './lib/run-script.js';
 
@@ -45,87 +60,81 @@ export interface UpdateReferenceLinksResult {
   addedVersionLinks: string[];
 }
 
+function applyReferenceLinks(
+  changelog: ChangelogDocument,
+  versionLabels: string[],
+  linkTarget: string,
+  unreleasedLink: string,
+): Omit<UpdateReferenceLinksResult, 'changelog'> {
+  const addedUnreleasedLink = setReferenceLink(changelog, 'Unreleased', unreleasedLink);
+  const addedVersionLinks = [...new Set(versionLabels)].filter((label) =>
+    setReferenceLink(changelog, label, linkTarget),
+  );
+
+  return { addedUnreleasedLink, addedVersionLinks };
+}
+
 export function updateReferenceLinks(
   changelog: string,
   versionLabels: string[],
   linkTarget: string,
   unreleasedLine: string,
 ): UpdateReferenceLinksResult {
-  const lines = changelog.split(/\r?\n/);
-  const updatedLines: string[] = [];
-  let foundUnreleasedLink = false;
-  const foundLabels = new Set<string>();
-  const uniqueLabels = [...new Set(versionLabels)];
-  const labelRegexes = uniqueLabels.map((label) => ({
-    label,
-    regex: new RegExp(`^\\[${escapeRegExp(label)}]:`, 'i'),
-  }));
-
-  for (const ln of lines) {
-    if (/^\[Unreleased\]:/i.test(ln)) {
-      updatedLines.push(unreleasedLine);
-      foundUnreleasedLink = true;
-      continue;
-    }
-
-    const matching = labelRegexes.find(({ regex }) => regex.test(ln));
-    if (matching) {
-      updatedLines.push(`[${matching.label}]: ${linkTarget}`);
-      foundLabels.add(matching.label);
-      continue;
-    }
-
-    updatedLines.push(ln);
-  }
+  const document = parseChangelog(changelog);
+  const unreleasedLink = unreleasedLine.replace(/^\[Unreleased\]:\s*/i, '');
+  const result = applyReferenceLinks(document, versionLabels, linkTarget, unreleasedLink);
 
-  if (!foundUnreleasedLink) {
-    updatedLines.push(unreleasedLine);
-  }
+  return { changelog: serializeChangelog(document), ...result };
+}
 
-  const addedVersionLinks: string[] = [];
-  for (const label of uniqueLabels) {
-    if (!foundLabels.has(label)) {
-      updatedLines.push(`[${label}]: ${linkTarget}`);
-      addedVersionLinks.push(label);
-    }
+function inferVersionHeadingLabel(versionInput: string, normalizedVersion: string, changelog: ChangelogDocument): string {
+  const firstHeading = changelog.releases.find((release) => release.label && !isUnreleasedRelease(release));
+  if (firstHeading) {
+    return /^v/i.test(firstHeading.label) ? `v${normalizedVersion}` : normalizedVersion;
   }
 
-  return {
-    changelog: updatedLines.join('\n'),
-    addedUnreleasedLink: !foundUnreleasedLink,
-    addedVersionLinks,
-  };
-}
-
-function findExistingVersionHeading(changelog: string, normalizedVersion: string): string | null {
-  const escapedVersion = escapeRegExp(normalizedVersion);
-  const existingHeading = new RegExp(`^##\\s*\\[(v?${escapedVersion})\\]`, 'im').exec(changelog);
-  return existingHeading?.[1] ?? null;
+  return versionInput.trim().toLowerCase().startsWith('v') ? `v${normalizedVersion}` : normalizedVersion;
 }
 
-function getFirstVersionHeading(changelog: string): string | null {
-  const headingRegex = /^##\s*\[(.*?)\]/gim;
-
-  for (const match of changelog.matchAll(headingRegex)) {
-    const label = match[1]?.trim();
-    if (label && !/^unreleased$/i.test(label)) {
-      return label;
-    }
+/**
+ * On a stable cut, offer to fold the prerelease blocks of the same version
+ * (e.g. [1.0.0-beta.1], [1.0.0-rc.1]) into the stable block. Folding only
+ * happens when CHANGELOG_FOLD_PRERELEASES=true; otherwise the blocks are
+ * listed with a hint.
+ */
+export function foldPrereleaseReleases(
+  changelog: ChangelogDocument,
+  stable: ChangelogRelease,
+  deps: Pick<RepublishChangelogDeps, 'getEnv' | 'log'>,
+): string[] {
+  if (!stable.version || stable.version.includes('-')) {
+    return [];
   }
 
-  return null;
-}
+  const core = stable.version.split('+')[0];
+  const prereleases = changelog.releases.filter(
+    (release) => release !== stable && release.version?.startsWith(`${core}-`),
+  );
+  if (prereleases.length === 0) {
+    return [];
+  }
 
-function inferVersionHeadingLabel(versionInput: string, normalizedVersion: string, changelog: string): string {
-  const firstHeading = getFirstVersionHeading(changelog);
-  if (firstHeading) {
-    return /^v/i.test(firstHeading) ? `v${normalizedVersion}` : normalizedVersion;
+  const labels = prereleases.map((release) => release.label);
+  if (deps.getEnv('CHANGELOG_FOLD_PRERELEASES') !== 'true') {
+    deps.log(`ℹ️  Found ${labels.length} prerelease block(s) for ${core}: ${labels.join(', ')}`);
+    deps.log(`   Set CHANGELOG_FOLD_PRERELEASES=true to fold them into [${stable.label}].`);
+    return [];
   }
 
-  return versionInput.trim().toLowerCase().startsWith('v') ? `v${normalizedVersion}` : normalizedVersion;
+  mergeReleaseBodies(stable, prereleases);
+  changelog.releases = changelog.releases.filter((release) => !prereleases.includes(release));
+  for (const label of labels) {
+    removeReferenceLink(changelog, label);
+  }
+  deps.log(`🗜️  Folded ${labels.length} prerelease block(s) into [${stable.label}]: ${labels.join(', ')}`);
+  return labels;
 }
 
-
 export function republishChangelog(version: string, deps: RepublishChangelogDeps): void {
   const changelogPath = join(deps.getCwd(), deps.getEnv('CHANGELOG_FILE') || 'CHANGELOG.md');
 
@@ -135,49 +144,35 @@ export function republishChangelog(version: string, deps: RepublishChangelogDeps
   const normalizedVersion = validateAndNormalizeSemver(version);
   const date = deps.getDate();
   const tag = version.startsWith('v') ? version : `v${normalizedVersion}`;
-  const versionLabels = [`v${normalizedVersion}`, normalizedVersion];
-  const repoUrl = getGitHubRepoUrl({
+  const forge = resolveForge({
     execSync: deps.execSync,
     getEnv: deps.getEnv,
     warn: deps.warn,
   });
 
-  let changelog = deps.readFileSync(changelogPath, 'utf8') as string;
+  const changelog = parseChangelog(deps.readFileSync(changelogPath, 'utf8') as string);
+  const unreleased = findUnreleasedRelease(changelog);
 
-  const unreleasedBlock =
-    /^(?<prefix>[^\n]*?##\s*\[?Unreleased\]?[^\n]*\n)(?<content>[\s\S]*?)(?=^##\s|^\s*---\s*$|$(?![\s\S]))/im;
-  const match = changelog.match(unreleasedBlock);
-
-  if (!match || !match.groups) {
+  if (!unreleased) {
     throw new Error('No [Unreleased] section found in CHANGELOG.md');
   }
 
-  const unreleasedContent = match.groups.content.trim();
-  const escapedVersion = escapeRegExp(normalizedVersion);
-  const existingHeadingLabel = findExistingVersionHeading(changelog, normalizedVersion);
-  const versionExists = Boolean(existingHeadingLabel);
-  const versionHeadingLabel = existingHeadingLabel ?? inferVersionHeadingLabel(version, normalizedVersion, changelog);
+  const unreleasedContent = renderReleaseBody(unreleased).trim();
+  const existingRelease = findRelease(changelog, normalizedVersion);
+  const versionHeadingLabel = existingRelease?.label ?? inferVersionHeadingLabel(version, normalizedVersion, changelog);
 
-  if (versionExists && !unreleasedContent) {
+  if (existingRelease && !unreleasedContent) {
     deps.log(`ℹ️  Version ${tag} already exists in changelog and [Unreleased] is empty. Nothing to do.`);
     return;
   }
 
-  if (versionExists && unreleasedContent) {
+  if (existingRelease) {
     deps.warn(`⚠️  Version ${tag} already exists in changelog but [Unreleased] has content.`);
     deps.log(`ℹ️  Updating existing ${tag} entry with unreleased content...`);
 
-    const versionEntryRegex = new RegExp(
-      `(^##\\s*\\[?(?:v?${escapedVersion})\\]?[^\\n]*\\n)((?:[\\s\\S]*?)(?=^##\\s|^\\s*---\\s*$|$(?![\\s\\S])))`,
-      'im'
-    );
-
-    const versionMatch = changelog.match(versionEntryRegex);
-    if (versionMatch) {
-      const newVersionContent = `${versionMatch[1]}\n${unreleasedContent}\n\n`;
-      changelog = changelog.replace(versionEntryRegex, newVersionContent);
-      changelog = changelog.replace(unreleasedBlock, `${match.groups.prefix}\n`);
-    }
+    replaceReleaseBody(existingRelease, unreleasedContent);
+    replaceReleaseBody(unreleased, '');
+    foldPrereleaseReleases(changelog, existingRelease, deps);
   } else {
     if (!unreleasedContent) {
       throw new Error('[Unreleased] section is empty. Use populate-unreleased-changelog.ts first or add content manually.');
@@ -185,38 +180,17 @@ export function republishChangelog(version: string, deps: RepublishChangelogDeps
 
     deps.log(`📝 Moving [Unreleased] content to ${tag} entry`);
 
-    const newEntryLines: string[] = [];
-    newEntryLines.push(`## [${versionHeadingLabel}] - ${date}`);
-    newEntryLines.push('');
-    newEntryLines.push(unreleasedContent);
-    newEntryLines.push('');
-
-    changelog = changelog.replace(
-      unreleasedBlock,
-      `${match.groups.prefix}\n${newEntryLines.join('\n')}\n`
-    );
-  }
-
-  let linkTarget: string;
-  let unreleasedLine: string;
-
-  if (repoUrl.includes('github.com')) {
-    linkTarget = `${repoUrl}/releases/tag/${tag}`;
-    unreleasedLine = `[Unreleased]: ${repoUrl}/compare/${tag}...HEAD`;
-  } else if (repoUrl.includes('gitlab')) {
-    linkTarget = `${repoUrl}/-/tags/${tag}`;
-    unreleasedLine = `[Unreleased]: ${repoUrl}/-/compare/${tag}...HEAD`;
-  } else {
-    linkTarget = repoUrl;
-    unreleasedLine = `[Unreleased]: ${repoUrl}`;
+    const release = createRelease(`## [${versionHeadingLabel}] - ${date}`, unreleasedContent);
+    replaceReleaseBody(unreleased, '');
+    insertRelease(changelog, release, changelog.releases.indexOf(unreleased) + 1);
+    foldPrereleaseReleases(changelog, release, deps);
   }
 
-  const versionLinkLabels = [...new Set([tag, versionHeadingLabel])];
-  const updateResult = updateReferenceLinks(changelog, versionLinkLabels, linkTarget, unreleasedLine);
-  changelog = updateResult.changelog;
+  const links = buildReleaseLinks(forge, tag);
+  applyReferenceLinks(changelog, [tag, versionHeadingLabel], links.tag, links.unreleased);
 
-  deps.writeFileSync(changelogPath, changelog, 'utf8');
-  deps.log(`✅ CHANGELOG.md updated for republish of ${tag}${repoUrl ? ` (${repoUrl})` : ''}`);
+  deps.writeFileSync(changelogPath, serializeChangelog(changelog), 'utf8');
+  deps.log(`✅ CHANGELOG.md updated for republish of ${tag}${forge ? ` (${forge.repoUrl})` : ''}`);
 }
 
 /**
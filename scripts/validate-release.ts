@@ -20,6 +20,12 @@
 import type { ExecSyncOptions } from 'node:child_process';
 import { execSync } from 'node:child_process';
 import { existsSync, readFileSync } from 'node:fs';
+import {
+  findUnreleasedRelease,
+  getReleaseEntries,
+  parseChangelog,
+  renderReleaseBody,
+} from './lib/changelog-document.js';
 import { ValidationError } from './lib/errors.js';
 import { runScript } from './lib/run-script.js';
 
@@ -75,10 +81,11 @@ export function validateChangelogFormat(deps: ValidateReleaseDeps): ValidationRe
   }
 
   const content = deps.readFileSync(path, 'utf8') as string;
+  const changelog = parseChangelog(content);
 
   // Check for Keep a Changelog format markers
-  const hasTitle = /^# /.test(content);
-  const hasUnreleased = /## \[Unreleased\]/.test(content);
+  const hasTitle = /^# /.test(changelog.preamble[0] ?? '');
+  const hasUnreleased = findUnreleasedRelease(changelog) !== null;
   const hasKeepAChangelogLink = /keepachangelog\.com/i.test(content);
 
   if (!hasTitle) {
@@ -122,10 +129,9 @@ export function validateUnreleasedHasContent(deps: ValidateReleaseDeps): Validat
     };
   }
 
-  const content = deps.readFileSync(path, 'utf8') as string;
-  const unreleasedMatch = content.match(/## \[Unreleased\]([\s\S]*?)(?=## \[|$)/);
+  const unreleased = findUnreleasedRelease(parseChangelog(deps.readFileSync(path, 'utf8') as string));
 
-  if (!unreleasedMatch) {
+  if (!unreleased) {
     return {
       name: '[Unreleased] has content',
       passed: false,
@@ -133,7 +139,7 @@ export function validateUnreleasedHasContent(deps: ValidateReleaseDeps): Validat
     };
   }
 
-  const unreleasedContent = unreleasedMatch[1].trim();
+  const unreleasedContent = renderReleaseBody(unreleased).trim();
 
   if (!unreleasedContent || unreleasedContent === 'No changes yet.') {
     return {
@@ -143,8 +149,8 @@ export function validateUnreleasedHasContent(deps: ValidateReleaseDeps): Validat
     };
   }
 
-  // Check if there's at least one change entry (starts with -)
-  const hasChanges = /^-/m.test(unreleasedContent);
+  // Check if there's at least one change entry (bullet line)
+  const hasChanges = getReleaseEntries(unreleased).length > 0;
 
   if (!hasChanges) {
     return {
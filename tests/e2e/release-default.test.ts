@@ -18,6 +18,8 @@ import { join } from 'node:path'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 import { createTempGitRepo, type TempRepo } from '../helpers/temp-repo.js'
 
+const DEFAULT_PRESET_URL = new URL('../../config/default.js', import.meta.url).href
+
 // Keep a Changelog compatible CHANGELOG.md template
 const CHANGELOG_TEMPLATE = `# Changelog
 
@@ -103,4 +105,78 @@ and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0
     const output = validateResult.stdout + validateResult.stderr
     expect(output.toLowerCase()).toMatch(/empty|unreleased|no change/i)
   })
+
+  it('auto-bumps the default preset from the commits when [Unreleased] is stale', () => {
+    // The committed [Unreleased] only lists a fix; before:bump will regenerate
+    // it with the breaking change below.
+    repo.commit('chore: initial setup', {
+      'package.json': JSON.stringify({ name: 'demo', version: '1.0.0' }),
+      'CHANGELOG.md': `${CHANGELOG_TEMPLATE}\n### Fixed\n- handle edge case\n`,
+    })
+    repo.tag('1.0.0')
+    repo.commit('feat!: drop the legacy API')
+
+    const output = execFileSync(
+      process.execPath,
+      [
+        '--input-type=module',
+        '-e',
+        `const { default: config } = await import(${JSON.stringify(DEFAULT_PRESET_URL)}); console.log(JSON.stringify({ increment: config.increment }))`,
+      ],
+      {
+        cwd: repo.cwd,
+        env: {
+          ...process.env,
+          CHANGELOG_AUTO_BUMP: 'true',
+          GITHUB_REPOSITORY: '',
+          CI_PROJECT_URL: '',
+        },
+        encoding: 'utf8',
+        timeout: 30_000,
+      },
+    )
+
+    const lines = output.trim().split('\n')
+    expect(JSON.parse(lines[lines.length - 1])).toEqual({ increment: 'major' })
+    // Nothing is written while the config loads
+    expect(readFileSync(join(repo.cwd, 'CHANGELOG.md'), 'utf8')).not.toContain(
+      'drop the legacy API',
+    )
+  })
+
+  it("keeps release-workspaces' dependency entries through the default preset's before:bump", () => {
+    // A dependent package right after release-workspaces rewrote its range on
+    // @acme/core and added the ### Changed entry; chore commits are suppressed.
+    repo.commit('chore: initial setup', {
+      'package.json': JSON.stringify({ name: '@acme/cli', version: '1.0.0' }),
+      'CHANGELOG.md': CHANGELOG_TEMPLATE,
+    })
+    repo.tag('1.0.0')
+    repo.commit('feat(cli): add login command', {
+      '.changelog-types.json': JSON.stringify({ chore: false }),
+    })
+    repo.commit('chore(deps): bumped dependency @acme/core to 1.1.0', {
+      'CHANGELOG.md': `${CHANGELOG_TEMPLATE}\n### Changed\n- bumped dependency @acme/core to 1.1.0\n`,
+    })
+
+    execFileSync(
+      process.execPath,
+      [
+        '--input-type=module',
+        '-e',
+        `import { execSync } from 'node:child_process'; const { default: config } = await import(${JSON.stringify(DEFAULT_PRESET_URL)}); for (const hook of config.hooks['before:bump']) execSync(hook, { stdio: 'inherit' })`,
+      ],
+      {
+        cwd: repo.cwd,
+        env: { ...process.env, GIT_CHANGELOG_PATH: '.', GITHUB_REPOSITORY: '', CI_PROJECT_URL: '' },
+        encoding: 'utf8',
+        stdio: 'pipe',
+        timeout: 60_000,
+      },
+    )
+
+    const changelog = readFileSync(join(repo.cwd, 'CHANGELOG.md'), 'utf8')
+    expect(changelog).toContain('### Added\n- add login command (cli)')
+    expect(changelog).toContain('### Changed\n- bumped dependency @acme/core to 1.1.0\n')
+  })
 })
@@ -48,6 +48,56 @@ describe('CLI smoke tests', () => {
     expect(output).not.toContain('Unknown command')
   })
 
+  it('should wire lint-changelog as a utility command', () => {
+    const help = runNode([CLI_PATH, '--help'])
+    expect(help.stdout).toContain('lint-changelog [--fix]')
+
+    const result = runNode([CLI_PATH, 'lint-changelog'], { cwd: tmpdir() })
+    const output = `${result.stdout}\n${result.stderr}`
+    expect(output).not.toContain('Invalid utility command')
+    expect(output).not.toContain('Unknown command')
+  })
+
+  it('should wire lint-commits as a utility command', () => {
+    const help = runNode([CLI_PATH, '--help'])
+    expect(help.stdout).toContain('lint-commits [range]')
+
+    const result = runNode([CLI_PATH, 'lint-commits'], { cwd: tmpdir() })
+    const output = `${result.stdout}\n${result.stderr}`
+    expect(output).not.toContain('Invalid utility command')
+    expect(output).not.toContain('Unknown command')
+  })
+
+  it('should wire recommend-bump as a utility command', () => {
+    const help = runNode([CLI_PATH, '--help'])
+    expect(help.stdout).toContain('recommend-bump [--json]')
+
+    const result = runNode([CLI_PATH, 'recommend-bump'], { cwd: tmpdir() })
+    const output = `${result.stdout}\n${result.stderr}`
+    expect(output).not.toContain('Invalid utility command')
+    expect(output).not.toContain('Unknown command')
+  })
+
+  it('should wire plan as a utility command', () => {
+    const help = runNode([CLI_PATH, '--help'])
+    expect(help.stdout).toContain('plan [--json]')
+
+    const result = runNode([CLI_PATH, 'plan'], { cwd: tmpdir() })
+    const output = `${result.stdout}\n${result.stderr}`
+    expect(output).not.toContain('Invalid utility command')
+    expect(output).not.toContain('Unknown command')
+  })
+
+  it('should wire release-workspaces as a utility command', () => {
+    const help = runNode([CLI_PATH, '--help'])
+    expect(help.stdout).toContain('release-workspaces [preset]')
+
+    const result = runNode([CLI_PATH, 'release-workspaces'], { cwd: tmpdir() })
+    const output = `${result.stdout}\n${result.stderr}`
+    expect(output).not.toContain('Invalid utility command')
+    expect(output).not.toContain('Unknown command')
+  })
+
   it('should execute run-script helper and fallback when needed', () => {
     const result = runNode([RUN_SCRIPT_PATH, 'check-config'])
 
@@ -4,10 +4,13 @@ import {
   annotateChangelog,
   choosePrimarySha,
   extractCommitShas,
+  extractPrNumber,
   extractStructuredChangelogNotes,
   groupEntriesForLookup,
+  parseArgs,
   parseUnreleasedEntries,
 } from '../../scripts/annotate-changelog'
+import { createFixtureProvider } from '../../scripts/lib/pull-requests'
 
 describe('annotate-changelog', () => {
   let deps: AnnotateChangelogDeps
@@ -17,6 +20,7 @@ describe('annotate-changelog', () => {
       execSync: vi.fn(),
       readFileSync: vi.fn(),
       writeFileSync: vi.fn(),
+      mkdirSync: vi.fn(),
       getEnv: vi.fn(() => undefined),
       log: vi.fn(),
       warn: vi.fn(),
@@ -177,6 +181,34 @@ Do not guess where this belongs.
     ).toEqual(['ccccccc'])
   })
 
+  it('recognises generated commit references of every forge', () => {
+    expect(extractCommitShas('fix ([1a2b3c4](https://gitlab.com/g/r/-/commit/1a2b3c4))')).toEqual([
+      '1a2b3c4',
+    ])
+    expect(extractCommitShas('fix ([1a2b3c4](https://bitbucket.org/w/r/commits/1a2b3c4))')).toEqual(
+      ['1a2b3c4'],
+    )
+  })
+
+  it('reads every commit of an entry merged from several commits', () => {
+    expect(
+      extractCommitShas(
+        'add feature ([1a2b3c4](https://github.com/o/r/commit/1a2b3c4), [5d6e7f8](https://github.com/o/r/commit/5d6e7f8))',
+      ),
+    ).toEqual(['1a2b3c4', '5d6e7f8'])
+    expect(extractCommitShas('add feature (1a2b3c4, 5d6e7f8)')).toEqual(['1a2b3c4', '5d6e7f8'])
+  })
+
+  it('reads the references of entries followed by issue links', () => {
+    expect(
+      extractCommitShas(
+        'fix crash ([1a2b3c4](https://github.com/o/r/commit/1a2b3c4)), closes [#12](https://github.com/o/r/issues/12), refs [JIRA-7](https://jira.example.com/browse/JIRA-7)',
+      ),
+    ).toEqual(['1a2b3c4'])
+    expect(extractCommitShas('fix crash (1a2b3c4), closes #12, #13')).toEqual(['1a2b3c4'])
+    expect(extractPrNumber('fix crash (#42) (1a2b3c4), refs #12')).toBe(42)
+  })
+
   it('never regenerates entries from an unmerged pull request body', () => {
     // Mutation lock: gh pr view answers for open PRs too — without the
     // mergedAt filter an unreviewed open-PR body could rewrite the changelog.
@@ -191,7 +223,7 @@ Do not guess where this belongs.
       if (command === 'git config --get remote.origin.url') {
         return 'https://github.com/owner/repo.git'
       }
-      if (command === 'gh pr view 321 --repo owner/repo --json number,body,mergedAt') {
+      if (command === 'gh pr view 321 --repo owner/repo --json number,body,mergedAt,author') {
         return JSON.stringify({
           number: 321,
           mergedAt: null,
@@ -244,7 +276,7 @@ Do not guess where this belongs.
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([
           {
@@ -287,7 +319,7 @@ Ship the annotate workflow.
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([
           {
@@ -333,7 +365,7 @@ Fix the crash reported in issue (#123)
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([
           {
@@ -360,6 +392,124 @@ Add the annotate command.
     )
   })
 
+  it('keeps replacements under their CHANGELOG_GROUP_BY_SCOPE sub-heading', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Added
+- add a top-level flag ([ccccccc](https://github.com/owner/repo/commit/ccccccc))
+
+#### api
+- add api retries ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))
+
+#### cli
+- add cli colors ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))
+
+### Fixed
+#### cli
+- fix cli exit code ([ddddddd](https://github.com/owner/repo/commit/ddddddd))
+`)
+
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'https://github.com/owner/repo.git'
+      }
+      if (
+        command ===
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
+      ) {
+        return JSON.stringify([
+          {
+            number: 81,
+            merged_at: '2026-01-01T00:00:00Z',
+            body: `<!-- changelog:added -->
+Retry failed API calls.
+<!-- /changelog -->
+<!-- changelog:fixed -->
+Stop API calls hanging on timeouts.
+<!-- /changelog -->`,
+          },
+        ])
+      }
+      if (command.startsWith('gh api repos/owner/repo/commits/')) {
+        return '[]'
+      }
+      return ''
+    })
+
+    annotateChangelog(deps)
+
+    const written = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
+    expect(written).toContain(`### Added
+- add a top-level flag ([ccccccc](https://github.com/owner/repo/commit/ccccccc))
+
+#### api
+- Retry failed API calls. (#81) ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))
+
+#### cli
+- add cli colors ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))
+
+### Fixed
+#### api
+- Stop API calls hanging on timeouts. (#81) ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))
+
+#### cli
+- fix cli exit code ([ddddddd](https://github.com/owner/repo/commit/ddddddd))
+`)
+  })
+
+  it('drops a scope sub-heading once all its entries moved to another section', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Changed
+#### api
+- fix api retries ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))
+
+#### cli
+- rename cli flag ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))
+`)
+
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'https://github.com/owner/repo.git'
+      }
+      if (
+        command ===
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
+      ) {
+        return JSON.stringify([
+          {
+            number: 82,
+            merged_at: '2026-01-01T00:00:00Z',
+            body: `<!-- changelog:fixed -->
+Retry failed API calls.
+<!-- /changelog -->`,
+          },
+        ])
+      }
+      if (command.startsWith('gh api repos/owner/repo/commits/')) {
+        return '[]'
+      }
+      return ''
+    })
+
+    annotateChangelog(deps)
+
+    const written = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
+    expect(written).toContain(`### Changed
+#### cli
+- rename cli flag ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))
+
+### Fixed
+#### api
+- Retry failed API calls. (#82) ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))
+`)
+    expect(written.match(/#### api/g)).toHaveLength(1)
+  })
+
   it('reports the number of PRs actually applied, not merely resolved', () => {
     // Mutation lock: the summary used to count every resolved PR — the
     // v1.3.0 dogfood printed "Annotated 8" while only 4 had blocks (#66).
@@ -415,7 +565,7 @@ Add the annotate command.
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/ccccccc/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/ccccccc/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([
           {
@@ -473,7 +623,7 @@ Add the annotate command.
       if (command === 'git config --get remote.origin.url') {
         return 'https://github.com/owner/repo.git'
       }
-      if (command === 'gh pr view 123 --repo owner/repo --json number,body,mergedAt') {
+      if (command === 'gh pr view 123 --repo owner/repo --json number,body,mergedAt,author') {
         throw new Error('GraphQL: Could not resolve to a PullRequest with the number of 123.')
       }
       return ''
@@ -502,7 +652,7 @@ Add the annotate command.
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/bbbbbbb/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/bbbbbbb/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([
           {
@@ -516,7 +666,7 @@ Ship the annotate workflow.
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([
           {
@@ -535,8 +685,11 @@ Ship the annotate workflow.
 
     const written = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
     expect(
-      vi.mocked(deps.execSync).mock.calls.filter(([command]) => command.startsWith('gh api')),
+      vi.mocked(deps.execSync).mock.calls.filter(([command]) => command.startsWith('gh api repos')),
     ).toHaveLength(2)
+    expect(deps.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Batched GraphQL lookup failed, falling back to one request per'),
+    )
     expect(written.match(/Ship the annotate workflow/g) ?? []).toHaveLength(1)
     expect(written).toContain(
       '- Ship the annotate workflow. (#49) ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))',
@@ -558,7 +711,7 @@ Ship the annotate workflow.
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([])
       }
@@ -604,7 +757,7 @@ Ship the annotate workflow.
       }
       if (
         command ===
-        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at}]'"
+        "gh api repos/owner/repo/commits/aaaaaaa/pulls --jq '[.[] | {number: .number, body: .body, merged_at: .merged_at, author: .user.login}]'"
       ) {
         return JSON.stringify([
           {
@@ -657,6 +810,432 @@ ship the annotate workflow
     expect(deps.writeFileSync).not.toHaveBeenCalled()
   })
 
+  it('throws before any lookup when the forge has no pull request provider', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Added
+- add annotate command ([aaaaaaa](https://bitbucket.org/ws/repo/commits/aaaaaaa))
+`)
+
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'git@bitbucket.org:ws/repo.git'
+      }
+      return ''
+    })
+
+    expect(() => annotateChangelog(deps)).toThrow(
+      'annotate can look up pull requests on GitHub and GitLab only, but https://bitbucket.org/ws/repo is a bitbucket repository',
+    )
+    expect(vi.mocked(deps.execSync).mock.calls).toHaveLength(1)
+  })
+
+  it('regenerates entries from GitLab merge request descriptions with !N references', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Changed
+- add export ([aaaaaaa](https://gitlab.com/group/repo/-/commit/aaaaaaa))
+- tweak docs (!7)
+`)
+
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'git@gitlab.com:group/repo.git'
+      }
+      if (
+        command ===
+        'glab api --hostname gitlab.com projects/group%2Frepo/repository/commits/aaaaaaa/merge_requests'
+      ) {
+        return JSON.stringify([
+          { iid: 12, state: 'opened', merged_at: null, description: 'draft' },
+          {
+            iid: 15,
+            state: 'merged',
+            merged_at: '2026-01-01T00:00:00Z',
+            description: '<!-- changelog:added -->\nExport the report as CSV.\n<!-- /changelog -->',
+          },
+        ])
+      }
+      if (command === 'glab api --hostname gitlab.com projects/group%2Frepo/merge_requests/7') {
+        throw Object.assign(new Error('Command failed'), { stderr: '404 Not Found' })
+      }
+      return ''
+    })
+
+    annotateChangelog(deps)
+
+    expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toContain(`### Added
+- Export the report as CSV. (!15) ([aaaaaaa](https://gitlab.com/group/repo/-/commit/aaaaaaa))`)
+    expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toContain('- tweak docs (!7)')
+  })
+
+  it('uses an injected pull request provider without touching the network', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Changed
+- fix crash (aaaaaaa)
+`)
+    vi.mocked(deps.execSync).mockImplementation(() => {
+      throw new Error('no remote')
+    })
+    deps.pullRequestProvider = createFixtureProvider([
+      {
+        number: 49,
+        merged_at: '2026-01-01T00:00:00Z',
+        body: '<!-- changelog:fixed -->\nFix the crash.\n<!-- /changelog -->',
+        commits: ['aaaaaaabbbbbbbcccccccddddddd'],
+      },
+    ])
+
+    annotateChangelog(deps)
+
+    expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toContain(
+      '### Fixed\n- Fix the crash. (#49) (aaaaaaa)',
+    )
+  })
+
+  it('credits the PR author with CHANGELOG_AUTHORS and keeps ### Contributors last', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Changed
+- fix crash by Alice Doe (aaaaaaa)
+
+### Contributors
+- Alice Doe made their first contribution (aaaaaaa)
+`)
+    vi.mocked(deps.getEnv).mockImplementation(key =>
+      key === 'CHANGELOG_AUTHORS' ? 'true' : undefined,
+    )
+    vi.mocked(deps.execSync).mockImplementation(() => {
+      throw new Error('no remote')
+    })
+    deps.pullRequestProvider = createFixtureProvider([
+      {
+        number: 49,
+        merged_at: '2026-01-01T00:00:00Z',
+        author: 'alice',
+        body: '<!-- changelog:fixed -->\nFix the crash.\n<!-- /changelog -->',
+        commits: ['aaaaaaa'],
+      },
+    ])
+
+    annotateChangelog(deps)
+
+    expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toContain(
+      [
+        '## [Unreleased]',
+        '',
+        '### Fixed',
+        '- Fix the crash. by @alice (#49) (aaaaaaa)',
+        '',
+        '### Contributors',
+        '- Alice Doe made their first contribution (aaaaaaa)',
+      ].join('\n'),
+    )
+  })
+
+  it('credits first-time PR authors in ### Contributors with CHANGELOG_CONTRIBUTORS', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Changed
+- fix crash (aaaaaaa)
+- add retries (bbbbbbb)
+- tidy docs (ccccccc)
+
+### Contributors
+- Bob Roe made their first contribution (bbbbbbb)
+- Carol made their first contribution (ccccccc)
+`)
+    vi.mocked(deps.getEnv).mockImplementation(key =>
+      key === 'CHANGELOG_CONTRIBUTORS' ? 'true' : undefined,
+    )
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command.startsWith('git log --no-walk=unsorted --stdin')) {
+        return 'aaaaaaa111\talice@example.com\tAlice Doe\nbbbbbbb222\tbob@example.com\tBob Roe\n'
+      }
+      if (command.startsWith('git describe')) {
+        return 'v1.0.0\n'
+      }
+      if (command === 'git log --format=%ae v1.0.0') {
+        return 'maintainer@example.com\n'
+      }
+      throw new Error('no remote')
+    })
+    deps.pullRequestProvider = createFixtureProvider([
+      {
+        number: 49,
+        merged_at: '2026-01-01T00:00:00Z',
+        author: 'alice',
+        body: '<!-- changelog:fixed -->\nFix the crash.\n<!-- /changelog -->',
+        commits: ['aaaaaaa'],
+      },
+      {
+        number: 50,
+        merged_at: '2026-01-01T00:00:00Z',
+        author: 'bob',
+        body: '<!-- changelog:added -->\nRetry failed calls.\n<!-- /changelog -->',
+        commits: ['bbbbbbb'],
+      },
+    ])
+
+    annotateChangelog(deps)
+
+    expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toContain(
+      [
+        '### Contributors',
+        '- @bob made their first contribution (#50)',
+        '- Carol made their first contribution (ccccccc)',
+        '- @alice made their first contribution (#49)',
+      ].join('\n'),
+    )
+  })
+
+  it('creates ### Contributors from PR authors when update did not', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
+
+## [Unreleased]
+
+### Changed
+- fix crash (aaaaaaa)
+`)
+    vi.mocked(deps.getEnv).mockImplementation(key =>
+      key === 'CHANGELOG_CONTRIBUTORS' ? 'true' : undefined,
+    )
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command.startsWith('git log --no-walk=unsorted --stdin')) {
+        return 'aaaaaaa111\talice@example.com\tAlice Doe\n'
+      }
+      throw new Error('no tags')
+    })
+    deps.pullRequestProvider = createFixtureProvider([
+      {
+        number: 49,
+        merged_at: '2026-01-01T00:00:00Z',
+        author: 'alice',
+        body: '<!-- changelog:fixed -->\nFix the crash.\n<!-- /changelog -->',
+        commits: ['aaaaaaa'],
+      },
+    ])
+
+    annotateChangelog(deps)
+
+    expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toContain(
+      '### Fixed\n- Fix the crash. (#49) (aaaaaaa)\n\n### Contributors\n- @alice made their first contribution (#49)\n',
+    )
+  })
+
+  it('reads offline fixtures from ANNOTATE_PR_FIXTURES', () => {
+    const files: Record<string, string> = {
+      'CHANGELOG.md': '## [Unreleased]\n\n### Changed\n- tweak (#3)\n',
+      'prs.json': JSON.stringify({
+        pullRequests: [
+          {
+            number: 3,
+            merged_at: '2026-01-01T00:00:00Z',
+            body: '<!-- changelog:changed -->\nTweak it.\n<!-- /changelog -->',
+          },
+        ],
+      }),
+    }
+    vi.mocked(deps.readFileSync).mockImplementation(path => files[path as string])
+    vi.mocked(deps.getEnv).mockImplementation(key =>
+      key === 'ANNOTATE_PR_FIXTURES' ? 'prs.json' : undefined,
+    )
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'https://github.com/owner/repo.git'
+      }
+      throw new Error(`unexpected command: ${command}`)
+    })
+
+    annotateChangelog(deps)
+
+    expect(deps.log).toHaveBeenCalledWith('Using pull request fixtures from prs.json')
+    expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toContain('- Tweak it. (#3)\n')
+  })
+
+  it('exports looked-up pull requests and replays them with --from-file', () => {
+    const changelog = `# Changelog
+
+## [Unreleased]
+
+### Changed
+- fix crash ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))
+- tweak docs (#7)
+- open work ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))
+`
+    const files: Record<string, string> = { 'CHANGELOG.md': changelog }
+    vi.mocked(deps.readFileSync).mockImplementation(path => files[path as string])
+    vi.mocked(deps.writeFileSync).mockImplementation((path, content) => {
+      files[path as string] = content as string
+    })
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'https://github.com/owner/repo.git'
+      }
+      if (command.startsWith('gh api repos/owner/repo/commits/aaaaaaa/pulls')) {
+        return JSON.stringify([
+          {
+            number: 49,
+            body: '<!-- changelog:fixed -->\nFix the crash.\n<!-- /changelog -->',
+            merged_at: '2026-01-01T00:00:00Z',
+          },
+        ])
+      }
+      if (command.startsWith('gh api repos/owner/repo/commits/bbbbbbb/pulls')) {
+        return JSON.stringify([{ number: 50, body: 'open', merged_at: null }])
+      }
+      if (command.startsWith('gh pr view 7 ')) {
+        return JSON.stringify({ number: 7, body: 'no blocks', mergedAt: '2026-01-02T00:00:00Z' })
+      }
+      throw new Error(`unexpected command: ${command}`)
+    })
+
+    annotateChangelog(deps, { exportFile: 'prs.json' })
+
+    const live = files['CHANGELOG.md']
+    expect(JSON.parse(files['prs.json'])).toEqual([
+      { number: 7, body: 'no blocks', merged_at: '2026-01-02T00:00:00Z', commits: [] },
+      {
+        number: 49,
+        body: '<!-- changelog:fixed -->\nFix the crash.\n<!-- /changelog -->',
+        merged_at: '2026-01-01T00:00:00Z',
+        commits: ['aaaaaaa'],
+      },
+    ])
+    expect(deps.log).toHaveBeenCalledWith('Exported 2 pull request(s) to prs.json')
+
+    files['CHANGELOG.md'] = changelog
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'https://github.com/owner/repo.git'
+      }
+      throw new Error(`unexpected command: ${command}`)
+    })
+
+    annotateChangelog(deps, { fromFile: 'prs.json' })
+
+    expect(files['CHANGELOG.md']).toBe(live)
+    expect(live).toContain('- open work ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))')
+  })
+
+  it('writes an empty export when there is nothing to look up', () => {
+    vi.mocked(deps.readFileSync).mockReturnValue('## [Unreleased]\n\n### Changed\n- plain entry\n')
+
+    annotateChangelog(deps, { exportFile: 'prs.json' })
+
+    expect(deps.writeFileSync).toHaveBeenCalledWith('prs.json', '[]\n')
+    expect(deps.execSync).not.toHaveBeenCalled()
+  })
+
+  it('resolves every lookup in one GraphQL query and caches merged PRs by sha and number', () => {
+    const changelog = `# Changelog
+
+## [Unreleased]
+
+### Changed
+- fix crash ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))
+- local only ([ccccccc](https://github.com/owner/repo/commit/ccccccc))
+- tweak docs (#7)
+`
+    const files: Record<string, string> = { 'CHANGELOG.md': changelog }
+    vi.mocked(deps.readFileSync).mockImplementation(path => {
+      if (!(path in files)) {
+        throw new Error('ENOENT')
+      }
+      return files[path as string]
+    })
+    vi.mocked(deps.writeFileSync).mockImplementation((path, content) => {
+      files[path as string] = content as string
+    })
+    vi.mocked(deps.getEnv).mockImplementation(key =>
+      key === 'ANNOTATE_CACHE_FILE' ? '.cache/prs.json' : undefined,
+    )
+    const fixed = '<!-- changelog:fixed -->\nFix the crash.\n<!-- /changelog -->'
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'https://github.com/owner/repo.git'
+      }
+      if (command.startsWith('gh api graphql ')) {
+        return JSON.stringify({
+          data: {
+            repository: {
+              pr0: { number: 7, body: 'no blocks', mergedAt: '2026-01-02T00:00:00Z' },
+              c0: {
+                associatedPullRequests: {
+                  nodes: [{ number: 49, body: fixed, mergedAt: '2026-01-01T00:00:00Z' }],
+                },
+              },
+              c1: null,
+            },
+          },
+        })
+      }
+      throw new Error(`unexpected command: ${command}`)
+    })
+
+    annotateChangelog(deps, { cache: true })
+
+    const commands = vi.mocked(deps.execSync).mock.calls.map(([command]) => command)
+    expect(commands.filter(command => command.startsWith('gh '))).toHaveLength(1)
+    expect(commands[1]).toContain('pr0: pullRequest(number: 7)')
+    expect(commands[1]).toContain('c0: object(expression: "aaaaaaa")')
+    expect(commands[1]).toContain('c1: object(expression: "ccccccc")')
+    expect(deps.mkdirSync).toHaveBeenCalledWith('.cache', { recursive: true })
+    expect(Object.keys(JSON.parse(files['.cache/prs.json']).pullRequests).sort()).toEqual([
+      '#7',
+      'aaaaaaa',
+    ])
+    const annotated = files['CHANGELOG.md']
+
+    // Rerun: the cached sha and PR number are not fetched again, the sha
+    // without a merged PR is
+    files['CHANGELOG.md'] = changelog
+    vi.mocked(deps.execSync).mockClear()
+    vi.mocked(deps.execSync).mockImplementation(command => {
+      if (command === 'git config --get remote.origin.url') {
+        return 'https://github.com/owner/repo.git'
+      }
+      if (command.startsWith('gh api repos/owner/repo/commits/ccccccc/pulls')) {
+        return '[]'
+      }
+      throw new Error(`unexpected command: ${command}`)
+    })
+
+    annotateChangelog(deps, { cache: true })
+
+    expect(vi.mocked(deps.execSync).mock.calls.map(([command]) => command)).toEqual([
+      'git config --get remote.origin.url',
+      expect.stringContaining('gh api repos/owner/repo/commits/ccccccc/pulls'),
+    ])
+    expect(files['CHANGELOG.md']).toContain('- Fix the crash. (#49) ([aaaaaaa]')
+    expect(annotated).toContain('- Fix the crash. (#49) ([aaaaaaa]')
+  })
+
+  it('parses --from-file and --export', () => {
+    expect(parseArgs([])).toEqual({ cache: true })
+    expect(parseArgs(['--from-file', 'in.json', '--export', 'out.json', '--no-cache'])).toEqual({
+      fromFile: 'in.json',
+      exportFile: 'out.json',
+      cache: false,
+    })
+    expect(() => parseArgs(['--export'])).toThrow('--export requires a file path')
+    expect(() => parseArgs(['--from-file', '--export', 'x'])).toThrow(
+      '--from-file requires a file path',
+    )
+    expect(parseArgs(['--ci'])).toEqual({ cache: true })
+  })
+
   it('throws before any gh lookup when the GitHub repository is unavailable', () => {
     vi.mocked(deps.readFileSync).mockReturnValue(`# Changelog
 
@@ -673,7 +1252,7 @@ ship the annotate workflow
       return ''
     })
 
-    expect(() => annotateChangelog(deps)).toThrow(/Could not determine GitHub repository/)
+    expect(() => annotateChangelog(deps)).toThrow(/Could not determine the repository/)
     expect(vi.mocked(deps.execSync).mock.calls.some(([command]) => command.startsWith('gh '))).toBe(
       false,
     )
@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createRelease,
+  ensureUnreleasedRelease,
+  findRelease,
+  findUnreleasedRelease,
+  getChangelogTitle,
+  getEntryText,
+  getReleaseEntries,
+  insertRelease,
+  listReferenceLinks,
+  mergeReleaseBodies,
+  parseChangelog,
+  parseReleaseBody,
+  removeReferenceLink,
+  renderReleaseBody,
+  replaceReleaseBody,
+  serializeChangelog,
+  setReferenceLink,
+} from '../../scripts/lib/changelog-document'
+
+const SAMPLE = `# Changelog
+
+All notable changes to this project will be documented in this file.
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).
+
+## [Unreleased]
+
+### Added
+- new thing ([abc1234](https://github.com/owner/repo/commit/abc1234))
+  wrapped onto a second line
+
+## [v1.1.0] - 2024-02-01
+
+Intro paragraph.
+
+### Fixed
+- a bug
+
+---
+
+Separator notes.
+
+## 1.0.0 - 2024-01-01 [YANKED]
+
+- initial release
+
+[Unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD
+[v1.1.0]: https://github.com/owner/repo/releases/tag/v1.1.0
+`
+
+describe('changelog-document', () => {
+  describe('round-trip', () => {
+    it.each([
+      ['keep a changelog sample', SAMPLE],
+      ['CRLF line endings', SAMPLE.replace(/\n/g, '\r\n')],
+      ['no final newline', SAMPLE.trimEnd()],
+      ['empty document', ''],
+      ['single newline', '\n'],
+      ['trailing blank lines', '# Changelog\n\n## [Unreleased]\n\n\n\n'],
+      ['mixed line endings', '# Changelog\r\n\n## [Unreleased]\r\n- a\n'],
+      ['lowercase bare headings', '## unreleased\n- a\n## v1.0.0\n* b\n+ c\n'],
+      ['links in the middle', '## [1.0.0]\n[1.0.0]: x\n- a\n\n[1.0.0]: y\n\n\n'],
+      ['no headings at all', 'just some text\nwith [ref]: nothing\n'],
+    ])('serializes %s byte-for-byte', (_name, content) => {
+      expect(serializeChangelog(parseChangelog(content))).toBe(content)
+    })
+  })
+
+  describe('parseChangelog', () => {
+    it('splits preamble, releases and reference links', () => {
+      const document = parseChangelog(SAMPLE)
+
+      expect(getChangelogTitle(document)).toBe('Changelog')
+      expect(document.releases.map(release => release.label)).toEqual([
+        'Unreleased',
+        'v1.1.0',
+        '1.0.0',
+      ])
+      expect(document.releases.map(release => release.version)).toEqual([null, '1.1.0', '1.0.0'])
+      expect(document.releases.map(release => release.date)).toEqual([
+        null,
+        '2024-02-01',
+        '2024-01-01',
+      ])
+      expect(document.releases[2].yanked).toBe(true)
+      expect(listReferenceLinks(document)).toEqual([
+        { label: 'Unreleased', url: 'https://github.com/owner/repo/compare/v1.1.0...HEAD' },
+        { label: 'v1.1.0', url: 'https://github.com/owner/repo/releases/tag/v1.1.0' },
+      ])
+    })
+
+    it('groups continuation lines with their bullet', () => {
+      const unreleased = ensureUnreleasedRelease(parseChangelog(SAMPLE))
+
+      expect(unreleased.sections.map(section => section.name)).toEqual(['Added'])
+      const entries = getReleaseEntries(unreleased)
+      expect(entries).toHaveLength(1)
+      expect(entries[0].lines).toHaveLength(2)
+      expect(getEntryText(entries[0])).toBe(
+        'new thing ([abc1234](https://github.com/owner/repo/commit/abc1234)) wrapped onto a second line',
+      )
+    })
+
+    it('stops a release body at a --- separator', () => {
+      const release = findRelease(parseChangelog(SAMPLE), '1.1.0') ?? createRelease('## [missing]')
+
+      expect(renderReleaseBody(release).trim()).toBe('Intro paragraph.\n\n### Fixed\n- a bug')
+      expect(release.trailer).toEqual(['---', '', 'Separator notes.', ''])
+    })
+
+    it('does not treat #### headings as release or section boundaries', () => {
+      const body = parseReleaseBody('### Added\n#### core\n- a\n')
+
+      expect(body.sections).toHaveLength(1)
+      expect(body.sections[0].items.map(item => item.kind)).toEqual(['text', 'entry', 'text'])
+    })
+  })
+
+  describe('findRelease / findUnreleasedRelease', () => {
+    it('matches versions with or without the v prefix', () => {
+      const document = parseChangelog(SAMPLE)
+
+      expect(findRelease(document, 'v1.0.0')?.label).toBe('1.0.0')
+      expect(findRelease(document, '1.1.0')?.label).toBe('v1.1.0')
+      expect(findRelease(document, '2.0.0')).toBeNull()
+    })
+
+    it('finds [Unreleased] case-insensitively and without brackets', () => {
+      expect(findUnreleasedRelease(parseChangelog('## Unreleased\n'))).not.toBeNull()
+      expect(findUnreleasedRelease(parseChangelog('## [unreleased]\n'))).not.toBeNull()
+      expect(findUnreleasedRelease(parseChangelog('# Changelog\n'))).toBeNull()
+    })
+  })
+
+  describe('editing', () => {
+    it('replaces a release body and keeps the reference links', () => {
+      const document = parseChangelog(
+        '# Changelog\n\n## [Unreleased]\n\n- old\n\n[Unreleased]: url\n',
+      )
+
+      replaceReleaseBody(ensureUnreleasedRelease(document), '### Fixed\n- new')
+
+      expect(serializeChangelog(document)).toBe(
+        '# Changelog\n\n## [Unreleased]\n\n### Fixed\n- new\n\n[Unreleased]: url\n',
+      )
+    })
+
+    it('leaves one blank line under the heading for an empty body', () => {
+      const document = parseChangelog('## [Unreleased]\n\n- old\n\n## [1.0.0]\n')
+
+      replaceReleaseBody(ensureUnreleasedRelease(document), '')
+
+      expect(serializeChangelog(document)).toBe('## [Unreleased]\n\n## [1.0.0]\n')
+    })
+
+    it('inserts a release after the preamble with a separating blank line', () => {
+      const document = parseChangelog('Initial changelog content')
+
+      insertRelease(document, createRelease('## [1.0.0] - 2024-01-01', '- a'))
+
+      expect(serializeChangelog(document)).toBe(
+        'Initial changelog content\n\n## [1.0.0] - 2024-01-01\n\n- a\n',
+      )
+    })
+
+    it('inserts [Unreleased] before the first release only when missing', () => {
+      const document = parseChangelog('# Changelog\n\n## [1.0.0]\n\n- a\n')
+
+      const unreleased = ensureUnreleasedRelease(document)
+
+      expect(document.releases[0]).toBe(unreleased)
+      expect(ensureUnreleasedRelease(document)).toBe(unreleased)
+      expect(serializeChangelog(document)).toBe(
+        '# Changelog\n\n## [Unreleased]\n\n## [1.0.0]\n\n- a\n',
+      )
+    })
+
+    it('terminates a previously empty document with a newline', () => {
+      const document = parseChangelog('')
+
+      replaceReleaseBody(ensureUnreleasedRelease(document), 'No changes yet.')
+
+      expect(serializeChangelog(document)).toBe('## [Unreleased]\n\nNo changes yet.\n\n')
+    })
+
+    it('merges release bodies section by section', () => {
+      const target = parseReleaseBody('\n### Fixed\n- a\n')
+
+      mergeReleaseBodies(target, [
+        parseReleaseBody('\n- loose\n\n### fixed\n- b\n  continued\n\n### Added\n\n'),
+        parseReleaseBody('\n### Added\n- c\n'),
+      ])
+
+      expect(renderReleaseBody(target)).toBe(
+        '\n- loose\n\n### Fixed\n- a\n- b\n  continued\n\n### Added\n- c\n',
+      )
+    })
+
+    it('writes new lines with the document line endings', () => {
+      const document = parseChangelog('# Changelog\r\n\r\n## [Unreleased]\r\n')
+
+      replaceReleaseBody(ensureUnreleasedRelease(document), '- a')
+
+      expect(serializeChangelog(document)).toBe(
+        '# Changelog\r\n\r\n## [Unreleased]\r\n\r\n- a\r\n\r\n',
+      )
+    })
+  })
+
+  describe('removeReferenceLink', () => {
+    it('removes every definition of the label case-insensitively', () => {
+      const document = parseChangelog('## [1.0.0]\n\n[V1.0.0]: a\n[0.9.0]: b\n[v1.0.0]: c\n')
+
+      expect(removeReferenceLink(document, 'v1.0.0')).toBe(true)
+      expect(removeReferenceLink(document, 'v1.0.0')).toBe(false)
+      expect(document.footer).toEqual(['[0.9.0]: b'])
+    })
+  })
+
+  describe('setReferenceLink', () => {
+    it('rewrites every existing definition case-insensitively', () => {
+      const document = parseChangelog(
+        '## [1.0.0]\n\n[unreleased]: a\n[1.0.0]: b\n[Unreleased]: c\n',
+      )
+
+      expect(setReferenceLink(document, 'Unreleased', 'new')).toBe(false)
+      expect(document.footer).toEqual(['[Unreleased]: new', '[1.0.0]: b', '[Unreleased]: new'])
+    })
+
+    it('appends after the last definition, before trailing blank lines', () => {
+      const document = parseChangelog('## [1.0.0]\n\n[1.0.0]: b\n\n')
+
+      expect(setReferenceLink(document, 'Unreleased', 'new')).toBe(true)
+      expect(serializeChangelog(document)).toBe('## [1.0.0]\n\n[1.0.0]: b\n[Unreleased]: new\n\n')
+    })
+
+    it('starts a footer separated by a blank line', () => {
+      const document = parseChangelog('## [1.0.0]\n- a\n')
+
+      setReferenceLink(document, '1.0.0', 'url')
+
+      expect(serializeChangelog(document)).toBe('## [1.0.0]\n- a\n\n[1.0.0]: url\n')
+    })
+  })
+})
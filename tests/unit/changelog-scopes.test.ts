@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  type ChangelogScopeDeps,
+  extractCommitScopes,
+  loadScopePackageMap,
+} from '../../scripts/lib/changelog-scopes'
+
+describe('changelog-scopes', () => {
+  let deps: ChangelogScopeDeps
+
+  beforeEach(() => {
+    deps = {
+      readFileSync: vi.fn(),
+      warn: vi.fn(),
+    }
+  })
+
+  describe('loadScopePackageMap', () => {
+    it('returns an empty map when the file does not exist', () => {
+      vi.mocked(deps.readFileSync).mockImplementation(() => {
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+      })
+
+      expect(loadScopePackageMap(deps)).toEqual({})
+      expect(deps.warn).not.toHaveBeenCalled()
+    })
+
+    it('reads the file from the given directory and normalizes the packages', () => {
+      vi.mocked(deps.readFileSync).mockReturnValue(
+        JSON.stringify({ core: './packages/core/', cli: ['@acme/cli', 'packages/cli-utils'] }),
+      )
+
+      expect(loadScopePackageMap(deps, '/repo')).toEqual({
+        core: ['packages/core'],
+        cli: ['@acme/cli', 'packages/cli-utils'],
+      })
+      expect(deps.readFileSync).toHaveBeenCalledWith('/repo/.changelog-scopes.json', 'utf8')
+    })
+
+    it.each([
+      ['not JSON', '{'],
+      ['an array', '["core"]'],
+      ['a number value', '{"core": 1}'],
+      ['an empty array value', '{"core": []}'],
+    ])('WARNs and ignores the file when it is %s', (_label, content) => {
+      vi.mocked(deps.readFileSync).mockReturnValue(content)
+
+      expect(loadScopePackageMap(deps)).toEqual({})
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid .changelog-scopes.json'),
+      )
+    })
+
+    it('WARNs when the file cannot be read', () => {
+      vi.mocked(deps.readFileSync).mockImplementation(() => {
+        throw Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' })
+      })
+
+      expect(loadScopePackageMap(deps)).toEqual({})
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Cannot read .changelog-scopes.json'),
+      )
+    })
+  })
+
+  describe('extractCommitScopes', () => {
+    it('returns the scopes of every header line, once each', () => {
+      expect(extractCommitScopes('feat(core): a\nfix(cli)!: b\nfeat(core): c')).toEqual([
+        'core',
+        'cli',
+      ])
+    })
+
+    it('ignores the body and unscoped headers', () => {
+      expect(extractCommitScopes('feat: a\n\nfix(cli): mentioned in the body')).toEqual([])
+    })
+  })
+})
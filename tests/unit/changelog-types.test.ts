@@ -2,7 +2,10 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   BUILTIN_TYPE_MAP,
   type ChangelogTypeDeps,
+  DEFAULT_SCOPE_GROUPING,
   loadChangelogTypeMap,
+  loadIssueTrackers,
+  loadScopeGrouping,
 } from '../../scripts/lib/changelog-types'
 
 describe('changelog-types', () => {
@@ -179,4 +182,156 @@ describe('changelog-types', () => {
       expect(result['fix']).toBe('### Fixed') // built-in preserved
     })
   })
+
+  describe('loadScopeGrouping', () => {
+    const enoent = () => {
+      const err = new Error('ENOENT') as NodeJS.ErrnoException
+      err.code = 'ENOENT'
+      throw err
+    }
+
+    it('returns no grouping when neither file nor env vars configure it', () => {
+      vi.mocked(deps.readFileSync).mockImplementation(enoent)
+      expect(loadScopeGrouping(deps)).toEqual(DEFAULT_SCOPE_GROUPING)
+      expect(deps.warn).not.toHaveBeenCalled()
+    })
+
+    it('reads the scopes setting of .changelog-types.json', () => {
+      vi.mocked(deps.readFileSync).mockReturnValue(
+        JSON.stringify({
+          deps: '### Dependencies',
+          scopes: { group: 'heading', aliases: { 'api-client': 'API' }, hidden: ['release'] },
+        }),
+      )
+      expect(loadScopeGrouping(deps)).toEqual({
+        mode: 'heading',
+        aliases: { 'api-client': 'API' },
+        hidden: ['release'],
+      })
+    })
+
+    it('does not treat the scopes setting as a commit type', () => {
+      vi.mocked(deps.readFileSync).mockReturnValue(
+        JSON.stringify({ deps: '### Dependencies', scopes: { group: true } }),
+      )
+      const result = loadChangelogTypeMap(deps)
+      expect(result).not.toHaveProperty('scopes')
+      expect(result['deps']).toBe('### Dependencies')
+      expect(deps.warn).not.toHaveBeenCalled()
+    })
+
+    it('env vars override the file setting by setting', () => {
+      vi.mocked(deps.readFileSync).mockReturnValue(
+        JSON.stringify({
+          scopes: { group: 'heading', aliases: { core: 'Core' }, hidden: ['deps'] },
+        }),
+      )
+      const env: Record<string, string> = {
+        CHANGELOG_GROUP_BY_SCOPE: 'sort',
+        CHANGELOG_SCOPE_ALIASES: JSON.stringify({ 'api-client': 'API' }),
+        CHANGELOG_HIDDEN_SCOPES: 'ci, release,',
+      }
+      vi.mocked(deps.getEnv).mockImplementation(key => env[key])
+      expect(loadScopeGrouping(deps)).toEqual({
+        mode: 'sort',
+        aliases: { core: 'Core', 'api-client': 'API' },
+        hidden: ['ci', 'release'],
+      })
+    })
+
+    it.each([
+      ['true', 'heading'],
+      ['heading', 'heading'],
+      ['SORT', 'sort'],
+      ['false', 'off'],
+    ])('CHANGELOG_GROUP_BY_SCOPE=%s → %s', (value, mode) => {
+      vi.mocked(deps.readFileSync).mockImplementation(enoent)
+      vi.mocked(deps.getEnv).mockImplementation(key =>
+        key === 'CHANGELOG_GROUP_BY_SCOPE' ? value : undefined,
+      )
+      expect(loadScopeGrouping(deps).mode).toBe(mode)
+    })
+
+    it('invalid settings WARN and are ignored one by one', () => {
+      vi.mocked(deps.readFileSync).mockReturnValue(
+        JSON.stringify({ scopes: { group: 'nested', aliases: { core: 1 }, hidden: ['deps'] } }),
+      )
+      vi.mocked(deps.getEnv).mockImplementation(key =>
+        key === 'CHANGELOG_SCOPE_ALIASES' ? '{not json' : undefined,
+      )
+      expect(loadScopeGrouping(deps)).toEqual({ mode: 'off', aliases: {}, hidden: ['deps'] })
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid .changelog-types.json scopes.group'),
+      )
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid .changelog-types.json scopes.aliases'),
+      )
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid CHANGELOG_SCOPE_ALIASES env var'),
+      )
+    })
+  })
+
+  describe('loadIssueTrackers', () => {
+    const fileWithTrackers = (trackers: unknown) =>
+      vi
+        .mocked(deps.readFileSync)
+        .mockReturnValue(JSON.stringify({ deps: '### Dependencies', trackers }))
+
+    it('returns no trackers when nothing configures them', () => {
+      vi.mocked(deps.readFileSync).mockImplementation(() => {
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+      })
+      expect(loadIssueTrackers(deps)).toEqual([])
+      expect(deps.warn).not.toHaveBeenCalled()
+    })
+
+    it('reads the trackers setting of .changelog-types.json as whole-token patterns', () => {
+      fileWithTrackers({ 'JIRA-\\d+': 'https://jira.example.com/browse/$0' })
+
+      const [tracker] = loadIssueTrackers(deps)
+
+      expect(tracker.url).toBe('https://jira.example.com/browse/$0')
+      expect(tracker.pattern.test('JIRA-123')).toBe(true)
+      expect(tracker.pattern.test('XJIRA-123')).toBe(false)
+    })
+
+    it('does not treat the trackers setting as a commit type', () => {
+      fileWithTrackers({ 'JIRA-\\d+': 'https://jira.example.com/browse/$0' })
+      expect(loadChangelogTypeMap(deps)).not.toHaveProperty('trackers')
+      expect(deps.warn).not.toHaveBeenCalled()
+    })
+
+    it('merges CHANGELOG_ISSUE_TRACKERS on top of the file, per pattern', () => {
+      fileWithTrackers({
+        'JIRA-\\d+': 'https://old.example.com/$0',
+        'OPS-\\d+': 'https://ops.example.com/$0',
+      })
+      vi.mocked(deps.getEnv).mockImplementation(key =>
+        key === 'CHANGELOG_ISSUE_TRACKERS'
+          ? '{"JIRA-\\\\d+":"https://jira.example.com/browse/$0"}'
+          : undefined,
+      )
+
+      expect(loadIssueTrackers(deps).map(tracker => tracker.url)).toEqual([
+        'https://jira.example.com/browse/$0',
+        'https://ops.example.com/$0',
+      ])
+    })
+
+    it('warns about and ignores invalid trackers', () => {
+      fileWithTrackers({ 'JIRA-(': 'https://jira.example.com/browse/$0' })
+      vi.mocked(deps.getEnv).mockImplementation(key =>
+        key === 'CHANGELOG_ISSUE_TRACKERS' ? '{"X-\\\\d+":42}' : undefined,
+      )
+
+      expect(loadIssueTrackers(deps)).toEqual([])
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid .changelog-types.json trackers'),
+      )
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid CHANGELOG_ISSUE_TRACKERS env var'),
+      )
+    })
+  })
 })
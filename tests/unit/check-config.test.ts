@@ -17,7 +17,7 @@ import {
   getNpmUsername,
   safeExec,
 } from '../../scripts/check-config'
-import { getGitHubRepoUrl } from '../../scripts/lib/git-utils'
+import { getRepoUrl } from '../../scripts/lib/git-utils'
 
 describe('check-config (improved with atomic functions)', () => {
   let deps: CheckConfigDeps
@@ -60,13 +60,13 @@ describe('check-config (improved with atomic functions)', () => {
     })
   })
 
-  describe('getGitHubRepoUrl', () => {
+  describe('getRepoUrl', () => {
     it('should return URL from GITHUB_REPOSITORY env var', () => {
       vi.mocked(deps.getEnv).mockImplementation((key: string) =>
         key === 'GITHUB_REPOSITORY' ? 'owner/repo' : undefined,
       )
 
-      const result = getGitHubRepoUrl(deps)
+      const result = getRepoUrl(deps)
 
       expect(result).toBe('https://github.com/owner/repo')
       expect(deps.execSync).not.toHaveBeenCalled()
@@ -78,7 +78,7 @@ describe('check-config (improved with atomic functions)', () => {
       )
       vi.mocked(deps.execSync).mockReturnValue('git@github.com:owner/repo.git\n')
 
-      const result = getGitHubRepoUrl(deps)
+      const result = getRepoUrl(deps)
 
       expect(result).toBe('https://github.com/owner/repo')
       expect(deps.execSync).toHaveBeenCalledWith(
@@ -93,7 +93,7 @@ describe('check-config (improved with atomic functions)', () => {
       )
       vi.mocked(deps.execSync).mockReturnValue('https://github.com/owner/repo.git')
 
-      getGitHubRepoUrl(deps)
+      getRepoUrl(deps)
 
       expect(deps.execSync).toHaveBeenCalledWith(
         'git config --get remote.upstream.url',
@@ -106,7 +106,7 @@ describe('check-config (improved with atomic functions)', () => {
         throw new Error('git error')
       })
 
-      const result = getGitHubRepoUrl(deps)
+      const result = getRepoUrl(deps)
 
       expect(result).toBe('')
     })
@@ -3,6 +3,7 @@ import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import { describe, expect, it, vi } from 'vitest'
 import {
+  buildCommitReports,
   createDefaultDeps,
   evaluateChangelogBlockStatus,
   evaluateChangelogStatus,
@@ -11,12 +12,15 @@ import {
   normalizeBaseRef,
   type PrCheckDeps,
   parseArgs,
+  renderCommitTable,
   renderSummary,
   runPrCheck,
   safeExec,
   splitList,
   writeOutputs,
+  writeStepSummary,
 } from '../../scripts/check-pr-status'
+import { DEFAULT_SCOPE_GROUPING } from '../../scripts/lib/changelog-types'
 
 function writeTempEvent(content: string): { dir: string; path: string } {
   const dir = mkdtempSync(join(tmpdir(), 'pr-event-'))
@@ -28,8 +32,10 @@ function writeTempEvent(content: string): { dir: string; path: string } {
 function createBlockDeps(eventPath: string | undefined): PrCheckDeps {
   return {
     execSync: vi.fn(),
+    readFileSync,
     getEnv: vi.fn((key: string) => (key === 'GITHUB_EVENT_PATH' ? eventPath : undefined)),
     writeOutput: vi.fn(),
+    writeStepSummary: vi.fn(),
     log: vi.fn(),
     warn: vi.fn(),
   }
@@ -156,8 +162,10 @@ describe('check-pr-status utilities', () => {
       execSync: () => {
         throw new Error('failure')
       },
+      readFileSync,
       getEnv: vi.fn(),
       writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -173,8 +181,10 @@ describe('check-pr-status utilities', () => {
         // eslint-disable-next-line no-throw-literal
         throw 'failure'
       },
+      readFileSync,
       getEnv: vi.fn(),
       writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -190,13 +200,14 @@ describe('check-pr-status utilities', () => {
         return 'CHANGELOG.md\nsrc/index.ts'
       }
       if (command.startsWith('git log')) {
-        return 'feat: add feature\nchore: maintenance'
+        return 'aaaaaaa1111|feat: add feature|||END|||\nbbbbbbb2222|chore: maintenance|||END|||'
       }
       return ''
     })
 
     const deps: PrCheckDeps = {
       execSync: exec,
+      readFileSync,
       getEnv: vi.fn((key: string) => {
         if (key === 'CHANGELOG_FILE') {
           return 'CHANGELOG.md'
@@ -204,6 +215,7 @@ describe('check-pr-status utilities', () => {
         return undefined
       }),
       writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -214,7 +226,154 @@ describe('check-pr-status utilities', () => {
     expect(result.changelogStatus).toBe('updated')
     expect(result.changelogBlock).toBe('unknown')
     expect(result.hasConventionalCommits).toBe(true)
-    expect(result.commits).toHaveLength(2)
+    expect(result.commits).toEqual(['feat: add feature', 'chore: maintenance'])
+    expect(result.commitReports).toEqual([
+      {
+        sha: 'aaaaaaa1111',
+        subject: 'feat: add feature',
+        type: 'feat',
+        scope: null,
+        conventional: true,
+        sections: ['### Added'],
+      },
+      {
+        sha: 'bbbbbbb2222',
+        subject: 'chore: maintenance',
+        type: 'chore',
+        scope: null,
+        conventional: true,
+        sections: ['### Changed'],
+      },
+    ])
+  })
+
+  it('reads .changelog-types.json through the injected readFileSync', () => {
+    const deps: PrCheckDeps = {
+      execSync: vi.fn<(command: string) => string>(command =>
+        command.startsWith('git log')
+          ? 'aaaaaaa1111|perf: faster parsing|||END|||\nbbbbbbb2222|fix(deps): bump lodash|||END|||'
+          : '',
+      ),
+      readFileSync: vi.fn(() =>
+        JSON.stringify({ perf: '### Performance', scopes: { hidden: ['deps'] } }),
+      ) as unknown as PrCheckDeps['readFileSync'],
+      getEnv: vi.fn(),
+      writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
+      log: vi.fn(),
+      warn: vi.fn(),
+    }
+
+    const result = runPrCheck({ base: 'main', head: 'HEAD' }, deps)
+
+    expect(deps.readFileSync).toHaveBeenCalledWith('.changelog-types.json', 'utf8')
+    expect(result.commitReports.map(report => report.sections)).toEqual([['### Performance'], []])
+  })
+
+  it('reports the changelog sections of each commit', () => {
+    const typeMap = {
+      feat: '### Added',
+      fix: '### Fixed',
+      chore: false,
+      misc: '### Changed',
+    } as const
+    const scopes = DEFAULT_SCOPE_GROUPING
+    const sectionsOf = (message: string) =>
+      buildCommitReports(`aaaaaaa1111|${message}|||END|||`, typeMap, scopes)[0].sections
+
+    expect(
+      buildCommitReports('aaaaaaa1111|fix(api): handle retries|||END|||', typeMap, scopes),
+    ).toEqual([
+      {
+        sha: 'aaaaaaa1111',
+        subject: 'fix(api): handle retries',
+        type: 'fix',
+        scope: 'api',
+        conventional: true,
+        sections: ['### Fixed'],
+      },
+    ])
+    expect(sectionsOf('feat!: drop v1')).toEqual(['### ⚠️ BREAKING CHANGES'])
+    expect(sectionsOf('fix: x\n\nBREAKING CHANGE: y removed')).toEqual(['### ⚠️ BREAKING CHANGES'])
+    expect(
+      buildCommitReports('aaaaaaa1111|Update readme|||END|||', typeMap, scopes)[0],
+    ).toMatchObject({
+      type: null,
+      scope: null,
+      conventional: false,
+      sections: ['### Changed'],
+    })
+    expect(sectionsOf('release v1.2.0')).toEqual([])
+    expect(sectionsOf('feat: x\n\n[skip-changelog]')).toEqual([])
+    expect(
+      buildCommitReports('aaaaaaa1111|ops: rotate keys|||END|||', typeMap, scopes)[0],
+    ).toMatchObject({
+      type: 'ops',
+      conventional: false,
+      sections: ['### Changed'],
+    })
+  })
+
+  it('reports the sections update writes for multi-prefix, hidden and cancelled commits', () => {
+    const typeMap = { feat: '### Added', fix: '### Fixed', misc: '### Changed' } as const
+    const scopes = { ...DEFAULT_SCOPE_GROUPING, hidden: ['deps'] }
+    const gitLog = [
+      'ddddddd4444|Revert "feat: add beta flag"\n\nThis reverts commit ccccccc3333.',
+      'ccccccc3333|feat: add beta flag',
+      'bbbbbbb2222|fix(deps): bump lodash',
+      'aaaaaaa1111|feat: add retries\nfix: keep timeouts\nfix(api): log failures',
+      'eeeeeee5555|fix: backport\n\n(cherry picked from commit fffffff6666)',
+      'fffffff6666|fix: backport',
+    ]
+      .map(entry => `${entry}|||END|||`)
+      .join('\n')
+
+    const sections = buildCommitReports(gitLog, typeMap, scopes).map(report => [
+      report.sha,
+      report.sections,
+    ])
+
+    expect(sections).toEqual([
+      ['ddddddd4444', []],
+      ['ccccccc3333', []],
+      ['bbbbbbb2222', []],
+      ['aaaaaaa1111', ['### Added', '### Fixed']],
+      ['eeeeeee5555', []],
+      ['fffffff6666', ['### Fixed']],
+    ])
+  })
+
+  it('renders the commit report as a Markdown table, oldest first', () => {
+    const table = renderCommitTable([
+      {
+        sha: 'bbbbbbb2222',
+        subject: 'fix: handle a | b',
+        type: 'fix',
+        scope: 'cli',
+        conventional: true,
+        sections: ['### Fixed'],
+      },
+      {
+        sha: 'aaaaaaa1111',
+        subject: 'Update readme',
+        type: null,
+        scope: null,
+        conventional: false,
+        sections: [],
+      },
+    ])
+
+    expect(table).toBe(
+      [
+        '### Commits',
+        '',
+        '| Commit | Subject | Type | Scope | Conventional | Changelog section |',
+        '|---|---|---|---|---|---|',
+        '| `aaaaaaa` | Update readme | — | — | ❌ | _not included_ |',
+        '| `bbbbbbb` | fix: handle a \\| b | `fix` | `cli` | ✅ | Fixed |',
+      ].join('\n'),
+    )
+    expect(renderCommitTable([])).toBe('### Commits\n\n_No commits in range._')
   })
 
   it('uses environment fallbacks when args are absent', () => {
@@ -225,13 +384,14 @@ describe('check-pr-status utilities', () => {
         return 'docs/README.md'
       }
       if (command.startsWith('git log')) {
-        return 'docs: update documentation'
+        return 'ccccccc3333|docs: update documentation|||END|||'
       }
       return ''
     })
 
     const deps: PrCheckDeps = {
       execSync: exec,
+      readFileSync,
       getEnv: vi.fn((key: string) => {
         if (key === 'PR_BASE_REF' || key === 'GITHUB_BASE_REF') {
           return undefined
@@ -242,6 +402,7 @@ describe('check-pr-status utilities', () => {
         return undefined
       }),
       writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -251,7 +412,7 @@ describe('check-pr-status utilities', () => {
     expect(result.baseRef).toBeNull()
     expect(result.headRef).toBe('feature-branch')
     expect(commands).toContain('git diff --name-only feature-branch')
-    expect(commands).toContain('git log feature-branch --pretty=format:%s')
+    expect(commands).toContain('git log feature-branch --pretty=format:"%H|%B|||END|||"')
     expect(result.changelogStatus).toBe('missing')
     expect(result.changelogBlock).toBe('unknown')
     expect(result.hasConventionalCommits).toBe(true)
@@ -273,6 +434,7 @@ describe('check-pr-status utilities', () => {
     const warn = vi.fn()
     const deps: PrCheckDeps = {
       execSync: exec,
+      readFileSync,
       getEnv: vi.fn((key: string) => {
         if (key === 'PR_BASE_REF') {
           return 'release'
@@ -286,6 +448,7 @@ describe('check-pr-status utilities', () => {
         return undefined
       }),
       writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn,
     }
@@ -295,7 +458,7 @@ describe('check-pr-status utilities', () => {
     expect(result.baseRef).toBe('origin/release')
     expect(result.headRef).toBe('HEAD')
     expect(commands).toContain('git diff --name-only origin/release..HEAD')
-    expect(commands).toContain('git log origin/release..HEAD --pretty=format:%s')
+    expect(commands).toContain('git log origin/release..HEAD --pretty=format:"%H|%B|||END|||"')
     expect(result.changedFiles).toEqual([])
     expect(result.commits).toEqual([])
     expect(result.changelogBlock).toBe('unknown')
@@ -319,8 +482,10 @@ describe('check-pr-status utilities', () => {
 
     const deps: PrCheckDeps = {
       execSync: exec,
+      readFileSync,
       getEnv: vi.fn(() => undefined),
       writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -331,17 +496,19 @@ describe('check-pr-status utilities', () => {
     expect(result.headRef).toBe('HEAD')
     expect(result.changelogBlock).toBe('unknown')
     expect(commands).toContain('git diff --name-only HEAD')
-    expect(commands).toContain('git log HEAD --pretty=format:%s')
+    expect(commands).toContain('git log HEAD --pretty=format:"%H|%B|||END|||"')
   })
 
   it('writes outputs in encoded format', () => {
     const outputs: Record<string, string> = {}
     const deps: PrCheckDeps = {
       execSync: vi.fn(),
+      readFileSync,
       getEnv: vi.fn(),
       writeOutput: (key, value) => {
         outputs[key] = value
       },
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -351,6 +518,16 @@ describe('check-pr-status utilities', () => {
       headRef: 'HEAD',
       changedFiles: ['CHANGELOG.md'],
       commits: ['feat: update CHANGELOG'],
+      commitReports: [
+        {
+          sha: 'aaaaaaa1111',
+          subject: 'feat: update CHANGELOG',
+          type: 'feat',
+          scope: null,
+          conventional: true,
+          sections: ['### Added'],
+        },
+      ],
       changelogStatus: 'updated' as const,
       changelogBlock: 'present' as const,
       skipChangelogMarker: false,
@@ -371,16 +548,21 @@ describe('check-pr-status utilities', () => {
 
     const decodedFiles = JSON.parse(Buffer.from(outputs.changed_files, 'base64').toString('utf8'))
     expect(decodedFiles).toEqual(result.changedFiles)
+
+    const decodedReport = JSON.parse(Buffer.from(outputs.commit_report, 'base64').toString('utf8'))
+    expect(decodedReport).toEqual(result.commitReports)
   })
 
   it('writes empty base ref output when base ref is missing', () => {
     const outputs: Record<string, string> = {}
     const deps: PrCheckDeps = {
       execSync: vi.fn(),
+      readFileSync,
       getEnv: vi.fn(),
       writeOutput: (key, value) => {
         outputs[key] = value
       },
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -390,6 +572,7 @@ describe('check-pr-status utilities', () => {
       headRef: 'feature-branch',
       changedFiles: [],
       commits: [],
+      commitReports: [],
       changelogStatus: 'missing' as const,
       changelogBlock: 'unknown' as const,
       skipChangelogMarker: false,
@@ -406,10 +589,12 @@ describe('check-pr-status utilities', () => {
     const outputs: Record<string, string> = {}
     const deps: PrCheckDeps = {
       execSync: vi.fn(),
+      readFileSync,
       getEnv: vi.fn(),
       writeOutput: (key, value) => {
         outputs[key] = value
       },
+      writeStepSummary: vi.fn(),
       log: vi.fn(),
       warn: vi.fn(),
     }
@@ -419,6 +604,7 @@ describe('check-pr-status utilities', () => {
       headRef: 'HEAD',
       changedFiles: [],
       commits: ['chore: something [skip-changelog]'],
+      commitReports: [],
       changelogStatus: 'skipped' as const,
       changelogBlock: 'absent' as const,
       skipChangelogMarker: true,
@@ -434,8 +620,10 @@ describe('check-pr-status utilities', () => {
     const logs: string[] = []
     const deps: PrCheckDeps = {
       execSync: vi.fn(),
+      readFileSync,
       getEnv: vi.fn(),
       writeOutput: vi.fn(),
+      writeStepSummary: vi.fn(),
       log: (message: string) => {
         logs.push(message)
       },
@@ -448,6 +636,7 @@ describe('check-pr-status utilities', () => {
         headRef: 'feature',
         changedFiles: [],
         commits: ['feat: add feature'],
+        commitReports: [],
         changelogStatus: 'updated',
         changelogBlock: 'present',
         skipChangelogMarker: false,
@@ -462,6 +651,7 @@ describe('check-pr-status utilities', () => {
         headRef: 'feature',
         changedFiles: [],
         commits: ['chore: maintenance'],
+        commitReports: [],
         changelogStatus: 'skipped',
         changelogBlock: 'absent',
         skipChangelogMarker: true,
@@ -476,6 +666,7 @@ describe('check-pr-status utilities', () => {
         headRef: 'feature',
         changedFiles: [],
         commits: [],
+        commitReports: [],
         changelogStatus: 'missing',
         changelogBlock: 'unknown',
         skipChangelogMarker: false,
@@ -520,4 +711,52 @@ describe('check-pr-status utilities', () => {
       }
     }
   })
+
+  it('appends the commit table to GITHUB_STEP_SUMMARY when set', () => {
+    const original = process.env.GITHUB_STEP_SUMMARY
+    const tempDir = mkdtempSync(join(tmpdir(), 'pr-summary-'))
+    const summaryFile = join(tempDir, 'step-summary.md')
+
+    try {
+      delete process.env.GITHUB_STEP_SUMMARY
+      createDefaultDeps().writeStepSummary('ignored')
+      expect(existsSync(summaryFile)).toBe(false)
+
+      process.env.GITHUB_STEP_SUMMARY = summaryFile
+      writeStepSummary(
+        {
+          baseRef: 'origin/main',
+          headRef: 'HEAD',
+          changedFiles: [],
+          commits: ['feat: add x'],
+          commitReports: [
+            {
+              sha: 'aaaaaaa1111',
+              subject: 'feat: add x',
+              type: 'feat',
+              scope: null,
+              conventional: true,
+              sections: ['### Added'],
+            },
+          ],
+          changelogStatus: 'missing',
+          changelogBlock: 'unknown',
+          skipChangelogMarker: false,
+          hasConventionalCommits: true,
+        },
+        createDefaultDeps(),
+      )
+
+      expect(readFileSync(summaryFile, 'utf8')).toContain(
+        '| `aaaaaaa` | feat: add x | `feat` | — | ✅ | Added |\n',
+      )
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true })
+      if (original === undefined) {
+        delete process.env.GITHUB_STEP_SUMMARY
+      } else {
+        process.env.GITHUB_STEP_SUMMARY = original
+      }
+    }
+  })
 })
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  type CommitAuthorDeps,
+  findFirstTimeContributors,
+  formatAuthor,
+  handleFromEmail,
+  loadCreditOptions,
+  readCommitAuthors,
+  renderContributorsSection,
+} from '../../scripts/lib/commit-authors'
+import { detectForge } from '../../scripts/lib/forge'
+
+describe('commit-authors', () => {
+  describe('handleFromEmail', () => {
+    it.each([
+      ['12345+alice@users.noreply.github.com', 'alice'],
+      ['bob@users.noreply.github.com', 'bob'],
+      ['49699333+dependabot[bot]@users.noreply.github.com', 'dependabot[bot]'],
+      ['678-carol.d@users.noreply.gitlab.com', 'carol.d'],
+      ['dave@example.com', null],
+      ['alice@noreply.github.com', null],
+    ])('%s → %s', (email, handle) => {
+      expect(handleFromEmail(email)).toBe(handle)
+    })
+  })
+
+  it('formats an author as @handle, else by name', () => {
+    expect(formatAuthor({ email: '1+alice@users.noreply.github.com', name: 'Alice' })).toBe(
+      '@alice',
+    )
+    expect(formatAuthor({ email: 'dave@example.com', name: 'Dave Smith' })).toBe('Dave Smith')
+    expect(formatAuthor({ email: 'dave@example.com', name: '' })).toBe('dave@example.com')
+  })
+
+  it('reads the credit options from env', () => {
+    const env: Record<string, string> = { CHANGELOG_AUTHORS: 'TRUE', CHANGELOG_CONTRIBUTORS: 'yes' }
+    expect(loadCreditOptions(key => env[key])).toEqual({ authors: true, contributors: false })
+  })
+
+  describe('readCommitAuthors', () => {
+    it('reads every author with one git log --no-walk', () => {
+      const deps: CommitAuthorDeps = {
+        execSync: vi.fn(
+          () => 'aaa1111\talice@example.com\tAlice\nbbb2222\tbob@example.com\tBob B\n',
+        ),
+      }
+
+      expect(readCommitAuthors(['aaa1111', 'bbb2222'], deps)).toEqual([
+        { sha: 'aaa1111', email: 'alice@example.com', name: 'Alice' },
+        { sha: 'bbb2222', email: 'bob@example.com', name: 'Bob B' },
+      ])
+      expect(deps.execSync).toHaveBeenCalledWith(
+        'git log --no-walk=unsorted --stdin --format="%H%x09%ae%x09%an"',
+        { encoding: 'utf8', input: 'aaa1111\nbbb2222' },
+      )
+    })
+
+    it('returns no authors without commits or when git fails', () => {
+      const deps: CommitAuthorDeps = {
+        execSync: vi.fn(() => {
+          throw new Error('bad revision')
+        }),
+      }
+
+      expect(readCommitAuthors([], deps)).toEqual([])
+      expect(readCommitAuthors(['aaa1111'], deps)).toEqual([])
+    })
+  })
+
+  describe('findFirstTimeContributors', () => {
+    const authors = [
+      { sha: 'ddd4444', email: 'carol@example.com', name: 'Carol' },
+      { sha: 'ccc3333', email: 'Bob@example.com', name: 'Bob' },
+      { sha: 'bbb2222', email: 'bob@example.com', name: 'Bob' },
+      { sha: 'aaa1111', email: 'alice@example.com', name: 'Alice' },
+      { sha: 'eee5555', email: '1+renovate[bot]@users.noreply.github.com', name: 'renovate[bot]' },
+    ]
+
+    it('lists authors without a commit up to the baseline, with their oldest commit', () => {
+      const deps: CommitAuthorDeps = {
+        execSync: vi.fn(() => 'alice@example.com\nalice@example.com\n'),
+      }
+
+      expect(findFirstTimeContributors(authors, 'v1.0.0', deps)).toEqual([
+        { sha: 'bbb2222', email: 'bob@example.com', name: 'Bob' },
+        { sha: 'ddd4444', email: 'carol@example.com', name: 'Carol' },
+      ])
+      expect(deps.execSync).toHaveBeenCalledWith('git log --format=%ae v1.0.0', {
+        encoding: 'utf8',
+      })
+    })
+
+    it('counts everyone as first-time without a baseline', () => {
+      const deps: CommitAuthorDeps = { execSync: vi.fn() }
+
+      expect(findFirstTimeContributors(authors, '', deps).map(author => author.name)).toEqual([
+        'Alice',
+        'Bob',
+        'Carol',
+      ])
+      expect(deps.execSync).not.toHaveBeenCalled()
+    })
+
+    it('lists nobody when the history before the baseline cannot be read', () => {
+      const deps: CommitAuthorDeps = {
+        execSync: vi.fn(() => {
+          throw new Error('unknown revision')
+        }),
+      }
+
+      expect(findFirstTimeContributors(authors, 'v1.0.0', deps)).toEqual([])
+    })
+  })
+
+  it('renders the ### Contributors section', () => {
+    const contributors = [
+      { sha: 'bbb2222000', email: '1+bob@users.noreply.github.com', name: 'Bob' },
+      { sha: 'ddd4444000', email: 'carol@example.com', name: 'Carol' },
+    ]
+
+    expect(renderContributorsSection(contributors, detectForge('https://github.com/o/r'))).toBe(
+      [
+        '### Contributors',
+        '- @bob made their first contribution ([bbb2222](https://github.com/o/r/commit/bbb2222))',
+        '- Carol made their first contribution ([ddd4444](https://github.com/o/r/commit/ddd4444))',
+      ].join('\n'),
+    )
+    expect(renderContributorsSection(contributors, null)).toContain(
+      '- Carol made their first contribution (ddd4444)',
+    )
+    expect(renderContributorsSection([], null)).toBe('')
+  })
+})
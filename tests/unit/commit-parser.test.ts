@@ -1,8 +1,12 @@
 import { describe, expect, it } from 'vitest'
 import {
   CONVENTIONAL_COMMIT_REGEX,
+  findBreakingChangeLines,
+  findFooterLines,
+  isBreakingChangeToken,
   isConventionalCommit,
   isStrictConventionalCommit,
+  parseCommitMessage,
   parseConventionalCommit,
   STRICT_CONVENTIONAL_COMMIT_REGEX,
 } from '../../scripts/lib/commit-parser'
@@ -34,4 +38,124 @@ describe('commit-parser utilities', () => {
   it('returns null for non-conventional commits', () => {
     expect(parseConventionalCommit('random message')).toBeNull()
   })
+
+  describe('parseCommitMessage', () => {
+    it('splits header, body and footers', () => {
+      const parsed = parseCommitMessage(
+        [
+          'feat(api): add retries',
+          '',
+          'Retries idempotent requests.',
+          '',
+          'Second body paragraph.',
+          '',
+          'Reviewed-by: Alice',
+          'Closes #12',
+          'Co-authored-by: Bob <bob@example.com>',
+          'Signed-off-by: Carol <carol@example.com>',
+        ].join('\n'),
+      )
+
+      expect(parsed).toEqual({
+        header: 'feat(api): add retries',
+        headerLines: ['feat(api): add retries'],
+        conventional: { type: 'feat', scope: 'api', breaking: false, description: 'add retries' },
+        body: 'Retries idempotent requests.\n\nSecond body paragraph.',
+        footers: [
+          { token: 'Reviewed-by', separator: ': ', value: 'Alice' },
+          { token: 'Closes', separator: ' #', value: '12' },
+          { token: 'Co-authored-by', separator: ': ', value: 'Bob <bob@example.com>' },
+          { token: 'Signed-off-by', separator: ': ', value: 'Carol <carol@example.com>' },
+        ],
+        breaking: false,
+      })
+    })
+
+    it('reads multi-line footer values until the next footer', () => {
+      const parsed = parseCommitMessage(
+        'fix: x\n\nBREAKING CHANGE: the config file\n  moved to .config/\nBREAKING-CHANGE: drop Node 18\nRefs: #1',
+      )
+
+      expect(parsed.footers).toEqual([
+        {
+          token: 'BREAKING CHANGE',
+          separator: ': ',
+          value: 'the config file\n  moved to .config/',
+        },
+        { token: 'BREAKING-CHANGE', separator: ': ', value: 'drop Node 18' },
+        { token: 'Refs', separator: ': ', value: '#1' },
+      ])
+      expect(parsed.breaking).toBe(true)
+    })
+
+    it('keeps lines before the first footer of the last paragraph in the body', () => {
+      const parsed = parseCommitMessage('feat: x\n\nImplements magic links.\nRefs: #42')
+
+      expect(parsed.body).toBe('Implements magic links.')
+      expect(parsed.footers).toEqual([{ token: 'Refs', separator: ': ', value: '#42' }])
+    })
+
+    it('reads no footers from a single paragraph', () => {
+      const parsed = parseCommitMessage('feat: x\nfix: y\nBREAKING CHANGE: not a footer')
+
+      expect(parsed.headerLines).toEqual(['feat: x', 'fix: y', 'BREAKING CHANGE: not a footer'])
+      expect(parsed.body).toBe('fix: y\nBREAKING CHANGE: not a footer')
+      expect(parsed.footers).toEqual([])
+      expect(parsed.breaking).toBe(false)
+    })
+
+    it('does not read URLs or prose as footers', () => {
+      const parsed = parseCommitMessage('docs: x\n\nhttps://example.com/spec\nsee the spec')
+
+      expect(parsed.footers).toEqual([])
+      expect(parsed.body).toBe('https://example.com/spec\nsee the spec')
+    })
+
+    it('handles CRLF messages, a breaking header and cherry-pick annotations', () => {
+      const parsed = parseCommitMessage(
+        'feat!: drop v1\r\n\r\nSigned-off-by: A <a@b.c>\r\n(cherry picked from commit abc1234)\r\n',
+      )
+
+      expect(parsed.header).toBe('feat!: drop v1')
+      expect(parsed.breaking).toBe(true)
+      expect(parsed.footers).toEqual([
+        { token: 'Signed-off-by', separator: ': ', value: 'A <a@b.c>' },
+      ])
+    })
+
+    it('returns an empty header for an empty message', () => {
+      expect(parseCommitMessage('')).toEqual({
+        header: '',
+        headerLines: [],
+        conventional: null,
+        body: '',
+        footers: [],
+        breaking: false,
+      })
+    })
+  })
+
+  describe('breaking change lines', () => {
+    it('matches the BREAKING CHANGE token in any case', () => {
+      expect(isBreakingChangeToken('BREAKING CHANGE')).toBe(true)
+      expect(isBreakingChangeToken('breaking-change')).toBe(true)
+      expect(isBreakingChangeToken('BREAKING CHANGES')).toBe(false)
+    })
+
+    it('flags the lines parseCommitMessage reads as BREAKING CHANGE footers', () => {
+      const message =
+        'feat!: x\nBREAKING CHANGE: too early\n\nbody\n\nRefs: #1\nbreaking-change: y\nBREAKING-CHANGE: z'
+
+      expect(findBreakingChangeLines(message)).toEqual([
+        { token: 'BREAKING CHANGE', footer: false },
+        { token: 'breaking-change', footer: false },
+        { token: 'BREAKING-CHANGE', footer: true },
+      ])
+      expect(findFooterLines(message)).toEqual([
+        'Refs: #1',
+        'breaking-change: y',
+        'BREAKING-CHANGE: z',
+      ])
+    })
+  })
 })
@@ -125,6 +125,17 @@ describe('extract-changelog (with DI)', () => {
       expect(result).toContain('- Beta feature')
     })
 
+    it('should fall back to [Unreleased] for a prerelease without its own block', () => {
+      vi.mocked(deps.readFileSync).mockReturnValue(
+        '# Changelog\n\n## [Unreleased]\n\n### Added\n- Beta feature\n\n## [0.9.0] - 2024-01-01\n\n- Old\n',
+      )
+
+      expect(extractChangelog('1.0.0-beta.2', deps)).toBe(
+        '# Release v1.0.0-beta.2\n\n### Added\n- Beta feature',
+      )
+      expect(() => extractChangelog('1.0.0', deps)).toThrow('No [v1.0.0] or [1.0.0] section found')
+    })
+
     it('should find version without v-prefix when requesting v-prefixed tag', () => {
       vi.mocked(deps.readFileSync).mockReturnValue(
         '# Changelog\n\n## [1.0.0] - 2024-01-01\n\n- Entry\n',
@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ValidationError } from '../../scripts/lib/errors'
+import {
+  buildReleaseLinks,
+  commitUrl,
+  compareUrl,
+  detectForge,
+  issueUrl,
+  releaseTagName,
+  resolveForge,
+  tagUrl,
+} from '../../scripts/lib/forge'
+
+const envOf = (env: Record<string, string>) => (key: string) => env[key]
+
+describe('forge', () => {
+  describe('detectForge', () => {
+    it('detects well-known hosts', () => {
+      expect(detectForge('https://github.com/owner/repo').kind).toBe('github')
+      expect(detectForge('https://gitlab.com/group/sub/project').kind).toBe('gitlab')
+      expect(detectForge('https://bitbucket.org/ws/repo').kind).toBe('bitbucket')
+      expect(detectForge('https://codeberg.org/owner/repo').kind).toBe('gitea')
+      expect(detectForge('https://gitea.example.com/owner/repo').kind).toBe('gitea')
+      expect(detectForge('https://git.example.com/owner/repo').kind).toBe('generic')
+    })
+
+    it('extracts the repository path and drops trailing slashes', () => {
+      expect(detectForge('https://gitlab.com/group/sub/project/')).toEqual({
+        kind: 'gitlab',
+        repoUrl: 'https://gitlab.com/group/sub/project',
+        repoPath: 'group/sub/project',
+      })
+    })
+
+    it('honours GIT_FORGE for self-hosted instances', () => {
+      const forge = detectForge(
+        'https://git.example.com/team/repo',
+        envOf({ GIT_FORGE: 'Forgejo' }),
+      )
+
+      expect(forge.kind).toBe('gitea')
+    })
+
+    it('treats the CI_PROJECT_URL host as GitLab', () => {
+      const getEnv = envOf({ CI_PROJECT_URL: 'https://git.example.com/team/repo' })
+
+      expect(detectForge('https://git.example.com/team/repo', getEnv).kind).toBe('gitlab')
+      expect(detectForge('https://other.example.com/team/repo', getEnv).kind).toBe('generic')
+    })
+
+    it('treats the GITHUB_SERVER_URL host as GitHub', () => {
+      const getEnv = envOf({ GITHUB_SERVER_URL: 'https://code.acme.io' })
+
+      expect(detectForge('https://code.acme.io/acme/app', getEnv).kind).toBe('github')
+      expect(detectForge('https://other.acme.io/acme/app', getEnv).kind).toBe('generic')
+    })
+
+    it('rejects an unknown GIT_FORGE', () => {
+      const detect = () => detectForge('https://github.com/o/r', envOf({ GIT_FORGE: 'sourcehut' }))
+
+      expect(detect).toThrow(ValidationError)
+      expect(detect).toThrow('Invalid GIT_FORGE "sourcehut"')
+    })
+  })
+
+  describe('links', () => {
+    it.each([
+      [
+        'https://github.com/o/r',
+        'https://github.com/o/r/commit/abc1234',
+        'https://github.com/o/r/compare/v1.0.0...HEAD',
+        'https://github.com/o/r/releases/tag/v1.0.0',
+      ],
+      [
+        'https://gitlab.com/g/r',
+        'https://gitlab.com/g/r/-/commit/abc1234',
+        'https://gitlab.com/g/r/-/compare/v1.0.0...HEAD',
+        'https://gitlab.com/g/r/-/tags/v1.0.0',
+      ],
+      [
+        'https://codeberg.org/o/r',
+        'https://codeberg.org/o/r/commit/abc1234',
+        'https://codeberg.org/o/r/compare/v1.0.0...HEAD',
+        'https://codeberg.org/o/r/src/tag/v1.0.0',
+      ],
+      [
+        'https://bitbucket.org/w/r',
+        'https://bitbucket.org/w/r/commits/abc1234',
+        'https://bitbucket.org/w/r/branches/compare/HEAD%0Dv1.0.0',
+        'https://bitbucket.org/w/r/src/v1.0.0',
+      ],
+      [
+        'https://git.example.com/o/r',
+        'https://git.example.com/o/r/commit/abc1234',
+        'https://git.example.com/o/r',
+        'https://git.example.com/o/r',
+      ],
+    ])('formats %s links', (repoUrl, commit, compare, tag) => {
+      const forge = detectForge(repoUrl)
+
+      expect(commitUrl(forge, 'abc1234')).toBe(commit)
+      expect(compareUrl(forge, 'v1.0.0', 'HEAD')).toBe(compare)
+      expect(tagUrl(forge, 'v1.0.0')).toBe(tag)
+      expect(buildReleaseLinks(forge, 'v1.0.0')).toEqual({ tag, unreleased: compare })
+    })
+
+    it.each([
+      [
+        'https://github.com/o/r',
+        'https://github.com/o/r/issues/12',
+        'https://github.com/o/other/issues/3',
+      ],
+      [
+        'https://gitlab.com/g/s/r',
+        'https://gitlab.com/g/s/r/-/issues/12',
+        'https://gitlab.com/o/other/-/issues/3',
+      ],
+      [
+        'https://codeberg.org/o/r',
+        'https://codeberg.org/o/r/issues/12',
+        'https://codeberg.org/o/other/issues/3',
+      ],
+      [
+        'https://bitbucket.org/w/r',
+        'https://bitbucket.org/w/r/issues/12',
+        'https://bitbucket.org/o/other/issues/3',
+      ],
+    ])('formats %s issue links', (repoUrl, issue, otherRepoIssue) => {
+      const forge = detectForge(repoUrl)
+
+      expect(issueUrl(forge, '12')).toBe(issue)
+      expect(issueUrl(forge, '3', 'o/other')).toBe(otherRepoIssue)
+    })
+
+    it('leaves issues unlinked on unknown hosts', () => {
+      expect(issueUrl(detectForge('https://git.example.com/o/r'), '12')).toBeNull()
+    })
+
+    it('builds empty release links without a forge', () => {
+      expect(buildReleaseLinks(null, 'v1.0.0')).toEqual({ tag: '', unreleased: '' })
+    })
+  })
+
+  describe('releaseTagName', () => {
+    it('applies the GIT_TAG_NAME template', () => {
+      expect(releaseTagName('1.2.3', envOf({}))).toBe('v1.2.3')
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: Testing literal string with ${version} placeholder
+      const scoped = envOf({ GIT_TAG_NAME: '@acme/core@${version}' })
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: Testing literal string with ${version} placeholder
+      const bare = envOf({ GIT_TAG_NAME: '${version}' })
+
+      expect(releaseTagName('1.2.3', scoped)).toBe('@acme/core@1.2.3')
+      expect(releaseTagName('1.2.3', bare)).toBe('1.2.3')
+    })
+  })
+
+  describe('resolveForge', () => {
+    it('detects the forge of the git remote', () => {
+      const forge = resolveForge({
+        execSync: vi.fn(() => 'git@gitlab.com:group/project.git'),
+        getEnv: envOf({}),
+      })
+
+      expect(forge).toEqual({
+        kind: 'gitlab',
+        repoUrl: 'https://gitlab.com/group/project',
+        repoPath: 'group/project',
+      })
+    })
+
+    it('detects GitHub Enterprise from the runner environment', () => {
+      const forge = resolveForge({
+        execSync: vi.fn(() => {
+          throw new Error('no remote')
+        }),
+        getEnv: envOf({ GITHUB_SERVER_URL: 'https://code.acme.io', GITHUB_REPOSITORY: 'acme/app' }),
+      })
+
+      expect(forge).toEqual({
+        kind: 'github',
+        repoUrl: 'https://code.acme.io/acme/app',
+        repoPath: 'acme/app',
+      })
+    })
+
+    it('returns null when the repository URL is unknown', () => {
+      const forge = resolveForge({
+        execSync: vi.fn(() => {
+          throw new Error('no remote')
+        }),
+        getEnv: envOf({}),
+      })
+
+      expect(forge).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { type GitLabReleaseDeps, upsertGitLabRelease } from '../../scripts/gitlab-release'
+
+const CHANGELOG = `# Changelog
+
+## [Unreleased]
+
+## [1.2.0] - 2024-03-01
+
+### Fixed
+- a bug
+`
+
+const response = (status: number, body = '') => new Response(body || null, { status })
+
+describe('gitlab-release', () => {
+  let env: Record<string, string>
+  let deps: GitLabReleaseDeps
+
+  beforeEach(() => {
+    env = { GITLAB_TOKEN: 'glpat-secret' }
+    deps = {
+      fetch: vi.fn(async (_url: string | URL | Request, init?: RequestInit) =>
+        response(init?.method === 'GET' ? 404 : 201),
+      ),
+      execSync: vi.fn(() => 'git@gitlab.example.com:group/sub/project.git'),
+      readFileSync: vi.fn(() => CHANGELOG) as unknown as GitLabReleaseDeps['readFileSync'],
+      getEnv: vi.fn((key: string) => env[key]),
+      getCwd: vi.fn(() => '/repo'),
+      log: vi.fn(),
+      warn: vi.fn(),
+    }
+  })
+
+  const calls = () =>
+    vi.mocked(deps.fetch).mock.calls.map(([url, init]) => ({
+      url,
+      method: init?.method,
+      body: init?.body ? JSON.parse(init.body as string) : undefined,
+    }))
+
+  it('creates the release when the tag has none', async () => {
+    await expect(upsertGitLabRelease('1.2.0', deps)).resolves.toBe('created')
+
+    const releases = 'https://gitlab.example.com/api/v4/projects/group%2Fsub%2Fproject/releases'
+    expect(calls()).toEqual([
+      { url: `${releases}/v1.2.0`, method: 'GET', body: undefined },
+      {
+        url: releases,
+        method: 'POST',
+        body: {
+          tag_name: 'v1.2.0',
+          name: 'Release 1.2.0',
+          description: '# Release v1.2.0\n\n## [1.2.0] - 2024-03-01\n\n### Fixed\n- a bug\n',
+        },
+      },
+    ])
+    expect(vi.mocked(deps.fetch).mock.calls[0][1]?.headers).toEqual({
+      'Private-Token': 'glpat-secret',
+    })
+    expect(deps.log).toHaveBeenCalledWith('✅ Created GitLab release v1.2.0')
+  })
+
+  it('updates an existing release', async () => {
+    vi.mocked(deps.fetch).mockResolvedValue(response(200, '{}'))
+
+    await expect(upsertGitLabRelease('v1.2.0', deps)).resolves.toBe('updated')
+
+    expect(calls()[1]).toMatchObject({
+      method: 'PUT',
+      url: 'https://gitlab.example.com/api/v4/projects/group%2Fsub%2Fproject/releases/v1.2.0',
+      body: { name: 'Release 1.2.0' },
+    })
+  })
+
+  it('attaches the release to the given tag or the GIT_TAG_NAME template', async () => {
+    await upsertGitLabRelease('1.2.0', deps, '@acme/core@1.2.0')
+
+    const releases = 'https://gitlab.example.com/api/v4/projects/group%2Fsub%2Fproject/releases'
+    expect(calls()[0].url).toBe(`${releases}/%40acme%2Fcore%401.2.0`)
+    expect(calls()[1].body.tag_name).toBe('@acme/core@1.2.0')
+
+    vi.mocked(deps.fetch).mockClear()
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: Testing literal string with ${version} placeholder
+    env.GIT_TAG_NAME = 'release-${version}'
+    await upsertGitLabRelease('1.2.0', deps)
+
+    expect(calls()[1].body.tag_name).toBe('release-1.2.0')
+  })
+
+  it('uses the GitLab CI API url and project id', async () => {
+    env.CI_API_V4_URL = 'https://gitlab.internal/api/v4/'
+    env.CI_PROJECT_ID = '42'
+
+    await upsertGitLabRelease('1.2.0', deps)
+
+    expect(calls()[0].url).toBe('https://gitlab.internal/api/v4/projects/42/releases/v1.2.0')
+    expect(deps.execSync).not.toHaveBeenCalled()
+  })
+
+  it('falls back to placeholder notes without a changelog entry', async () => {
+    await upsertGitLabRelease('2.0.0', deps)
+
+    expect(calls()[1].body.description).toBe('# Release v2.0.0\n\nNo changelog entry available.\n')
+    expect(deps.warn).toHaveBeenCalledWith(
+      '⚠️  Could not extract changelog entry: No [v2.0.0] or [2.0.0] section found in CHANGELOG.md',
+    )
+  })
+
+  it('requires GITLAB_TOKEN and a resolvable project', async () => {
+    delete env.GITLAB_TOKEN
+    await expect(upsertGitLabRelease('1.2.0', deps)).rejects.toThrow(
+      'GITLAB_TOKEN is required to create or update a GitLab release',
+    )
+
+    env.GITLAB_TOKEN = 'glpat-secret'
+    vi.mocked(deps.execSync).mockImplementation(() => {
+      throw new Error('no remote')
+    })
+    await expect(upsertGitLabRelease('1.2.0', deps)).rejects.toThrow(
+      'Could not determine the GitLab project',
+    )
+    expect(deps.fetch).not.toHaveBeenCalled()
+  })
+
+  it('surfaces API errors with the response body', async () => {
+    vi.mocked(deps.fetch)
+      .mockResolvedValueOnce(response(404))
+      .mockResolvedValueOnce(response(403, '{"message":"403 Forbidden"}'))
+
+    await expect(upsertGitLabRelease('1.2.0', deps)).rejects.toThrow(
+      'Could not create the GitLab release for v1.2.0 (HTTP 403): {"message":"403 Forbidden"}',
+    )
+  })
+
+  it('fails on unexpected lookup errors without writing', async () => {
+    vi.mocked(deps.fetch).mockResolvedValue(response(401))
+
+    await expect(upsertGitLabRelease('1.2.0', deps)).rejects.toThrow(
+      'Could not look up the GitLab release for v1.2.0 (HTTP 401)',
+    )
+    expect(deps.fetch).toHaveBeenCalledTimes(1)
+  })
+})
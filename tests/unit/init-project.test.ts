@@ -1,3 +1,4 @@
+import { readFileSync } from 'node:fs'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   createChangelog,
@@ -431,6 +432,46 @@ describe('init-project (with DI)', () => {
       expect(readCall).toContain('templates')
     })
 
+    it.each([
+      [
+        'pnpm-lock.yaml',
+        [
+          'pnpm/action-setup',
+          'pnpm install --frozen-lockfile',
+          'pnpm exec release-it-preset retry-publish --ci',
+        ],
+      ],
+      [
+        'bun.lock',
+        [
+          'oven-sh/setup-bun',
+          'bun install --frozen-lockfile',
+          'bunx release-it-preset retry-publish --ci',
+        ],
+      ],
+      [
+        'yarn.lock',
+        ["cache: 'yarn'", 'yarn install --immutable', 'yarn release-it-preset retry-publish --ci'],
+      ],
+      ['package-lock.json', ["cache: 'npm'", 'npm ci', 'npx release-it-preset retry-publish --ci']],
+    ])('renders the shipped template for the package manager owning %s', async (lockfile, expected) => {
+      vi.mocked(deps.existsSync).mockImplementation(
+        p => String(p).endsWith('release.yml.template') || p === lockfile,
+      )
+      vi.mocked(deps.readFileSync).mockImplementation(p => readFileSync(p as string, 'utf8'))
+
+      const options = { yes: true, withWorkflows: true, workflowName: 'release.yml' }
+      await writeWorkflow(options, deps)
+
+      const content = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
+      for (const snippet of expected) {
+        expect(content).toContain(snippet)
+      }
+      if (lockfile !== 'pnpm-lock.yaml') {
+        expect(content).not.toContain('pnpm')
+      }
+    })
+
     it('throws ValidationError for invalid workflow name', async () => {
       const options = { yes: true, withWorkflows: true, workflowName: '../evil.yml' }
       await expect(writeWorkflow(options, deps)).rejects.toThrow(/Invalid workflow name/)
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { parseCommitMessage } from '../../scripts/lib/commit-parser'
+import { detectForge } from '../../scripts/lib/forge'
+import {
+  extractIssueReferences,
+  mergeIssueReferences,
+  renderIssueSuffix,
+  stripIssueSuffix,
+} from '../../scripts/lib/issue-references'
+
+const github = detectForge('https://github.com/o/r')
+const jira = { pattern: /^(?:JIRA-(\d+))$/, url: 'https://jira.example.com/browse/$0?id=$1' }
+
+describe('issue-references', () => {
+  describe('extractIssueReferences', () => {
+    it('reads closing and mention keywords of the footer paragraph', () => {
+      const message = 'fix: crash\n\nDetails.\n\nCloses #12\nFixes: #34, #35\nRefs: JIRA-123'
+
+      expect(extractIssueReferences(parseCommitMessage(message), github, [jira])).toEqual([
+        { id: '#12', url: 'https://github.com/o/r/issues/12', closes: true },
+        { id: '#34', url: 'https://github.com/o/r/issues/34', closes: true },
+        { id: '#35', url: 'https://github.com/o/r/issues/35', closes: true },
+        { id: 'JIRA-123', url: 'https://jira.example.com/browse/JIRA-123?id=123', closes: false },
+      ])
+    })
+
+    it('links issues of other repositories on the same host', () => {
+      expect(
+        extractIssueReferences(parseCommitMessage('fix: x\n\nResolves: owner/other#3.'), github),
+      ).toEqual([
+        { id: 'owner/other#3', url: 'https://github.com/owner/other/issues/3', closes: true },
+      ])
+    })
+
+    it('leaves references unlinked without a forge and ignores unknown tokens', () => {
+      expect(
+        extractIssueReferences(
+          parseCommitMessage('fix: x\n\nSee #4 and JIRA-5\r\nReviewed-by: Bob'),
+          null,
+        ),
+      ).toEqual([{ id: '#4', url: null, closes: false }])
+    })
+
+    it('ignores references outside the footer paragraph', () => {
+      expect(extractIssueReferences(parseCommitMessage('fix: x\nCloses #1'), github)).toEqual([])
+      expect(
+        extractIssueReferences(
+          parseCommitMessage('fix: x\n\nCloses #1\n\nSigned-off-by: A <a@b.c>'),
+          github,
+        ),
+      ).toEqual([])
+    })
+
+    it('lists a reference once, as closed when any keyword closes it', () => {
+      expect(
+        extractIssueReferences(parseCommitMessage('fix: x\n\nRefs #7\nFixes #7'), null),
+      ).toEqual([{ id: '#7', url: null, closes: true }])
+    })
+  })
+
+  describe('mergeIssueReferences', () => {
+    it('keeps the first occurrence of every reference', () => {
+      expect(
+        mergeIssueReferences(
+          [{ id: '#1', url: null, closes: false }],
+          [
+            { id: '#2', url: null, closes: false },
+            { id: '#1', url: null, closes: true },
+          ],
+        ),
+      ).toEqual([
+        { id: '#1', url: null, closes: true },
+        { id: '#2', url: null, closes: false },
+      ])
+    })
+  })
+
+  describe('renderIssueSuffix', () => {
+    it('groups closed issues before mentions', () => {
+      expect(
+        renderIssueSuffix([
+          { id: 'JIRA-1', url: 'https://jira.example.com/browse/JIRA-1', closes: false },
+          { id: '#12', url: 'https://github.com/o/r/issues/12', closes: true },
+          { id: '#13', url: null, closes: true },
+        ]),
+      ).toBe(
+        ', closes [#12](https://github.com/o/r/issues/12), #13, refs [JIRA-1](https://jira.example.com/browse/JIRA-1)',
+      )
+      expect(renderIssueSuffix([])).toBe('')
+    })
+  })
+
+  describe('stripIssueSuffix', () => {
+    it('removes the suffix after the trailing reference only', () => {
+      expect(
+        stripIssueSuffix(
+          'fix ([abc1234](https://github.com/o/r/commit/abc1234)), closes [#12](https://github.com/o/r/issues/12), #13, refs X-1',
+        ),
+      ).toBe('fix ([abc1234](https://github.com/o/r/commit/abc1234))')
+      expect(stripIssueSuffix('fix (abc1234), refs #1')).toBe('fix (abc1234)')
+      expect(stripIssueSuffix('closes the gap, refs and more')).toBe(
+        'closes the gap, refs and more',
+      )
+    })
+  })
+})
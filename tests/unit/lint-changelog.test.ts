@@ -0,0 +1,295 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  DEFAULT_LINT_RULES,
+  type LintChangelogDeps,
+  lintChangelog,
+  loadLintRules,
+  parseArgs,
+} from '../../scripts/lint-changelog'
+
+const CLEAN_CHANGELOG = `# Changelog
+
+## [Unreleased]
+
+### Added
+- something new
+
+## [1.1.0] - 2024-02-01
+
+### Fixed
+- a bug
+
+## [1.0.0] - 2024-01-01
+
+### Added
+- initial release
+
+[Unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD
+[1.1.0]: https://github.com/owner/repo/releases/tag/v1.1.0
+[1.0.0]: https://github.com/owner/repo/releases/tag/v1.0.0
+`
+
+describe('lint-changelog', () => {
+  let deps: LintChangelogDeps
+  let files: Record<string, string>
+  let env: Record<string, string>
+
+  beforeEach(() => {
+    files = {}
+    env = { GITHUB_REPOSITORY: 'owner/repo' }
+    deps = {
+      execSync: vi.fn(() => {
+        throw new Error('no remote')
+      }),
+      readFileSync: vi.fn((path: string) => {
+        if (path in files) {
+          return files[path]
+        }
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' })
+      }) as unknown as LintChangelogDeps['readFileSync'],
+      writeFileSync: vi.fn(),
+      getEnv: vi.fn((key: string) => env[key]),
+      log: vi.fn(),
+      warn: vi.fn(),
+    }
+  })
+
+  const lint = (changelog: string, fix = false) => {
+    files['CHANGELOG.md'] = changelog
+    return lintChangelog(deps, { fix })
+  }
+
+  const rulesOf = (changelog: string) => lint(changelog).issues.map(issue => issue.rule)
+
+  it('reports nothing for a well-formed changelog', () => {
+    expect(lint(CLEAN_CHANGELOG).issues).toEqual([])
+  })
+
+  it('throws a ValidationError when the changelog cannot be read', () => {
+    expect(() => lintChangelog(deps, { fix: false })).toThrow('Could not read CHANGELOG.md')
+  })
+
+  it('parses --fix', () => {
+    expect(parseArgs(['--fix'])).toEqual({ fix: true })
+    expect(parseArgs([])).toEqual({ fix: false })
+  })
+
+  describe('rules', () => {
+    it('flags versions out of descending semver order', () => {
+      const changelog = CLEAN_CHANGELOG.replace(
+        '## [1.1.0] - 2024-02-01',
+        '## [0.9.0] - 2024-02-01',
+      ).replace(
+        '[1.1.0]: https://github.com/owner/repo/releases/tag/v1.1.0',
+        '[0.9.0]: https://github.com/owner/repo/releases/tag/v0.9.0',
+      )
+
+      const { issues } = lint(changelog)
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0]).toMatchObject({ rule: 'version-order', severity: 'error', fixable: true })
+    })
+
+    it('compares prereleases by semver precedence', () => {
+      const changelog = `## [1.0.0] - 2024-01-02\n- a\n\n## [1.0.0-rc.2] - 2024-01-01\n- b\n\n## [1.0.0-rc.10] - 2024-01-01\n- c\n`
+
+      expect(rulesOf(changelog)).toContain('version-order')
+    })
+
+    it('flags duplicate versions regardless of v prefix', () => {
+      const changelog = `## [v1.0.0] - 2024-01-02\n- a\n\n## 1.0.0 - 2024-01-01\n- b\n\n[v1.0.0]: x\n`
+
+      const { issues } = lint(changelog)
+
+      expect(issues.filter(issue => issue.rule === 'duplicate-version')).toEqual([
+        {
+          rule: 'duplicate-version',
+          severity: 'error',
+          message: 'Version 1.0.0 appears 2 times',
+          fixable: false,
+        },
+      ])
+    })
+
+    it('flags missing and invalid release dates', () => {
+      const changelog = `## 1.1.0\n- a\n\n## 1.0.0 - 2024-02-30\n- b\n`
+
+      const messages = lint(changelog).issues.map(issue => issue.message)
+
+      expect(messages).toContain('[1.1.0] has no release date (expected "- YYYY-MM-DD")')
+      expect(messages).toContain('[1.0.0] has an invalid release date: 2024-02-30')
+    })
+
+    it('accepts breaking-change headings and sections from the type map', () => {
+      env.CHANGELOG_TYPE_MAP = JSON.stringify({ deps: '### Dependencies' })
+      const changelog = `## [Unreleased]\n\n### ⚠️ BREAKING CHANGES\n- x\n\n### Dependencies\n- y\n\n### Misc\n- z\n\n### Contributors\n- @alice made their first contribution (aaaaaaa)\n`
+
+      const { issues } = lint(changelog)
+
+      expect(issues).toEqual([
+        {
+          rule: 'unknown-section',
+          severity: 'warn',
+          message: '[Unreleased] has unknown section "### Misc"',
+          fixable: false,
+        },
+      ])
+    })
+
+    it('flags empty sections and marks them fixable', () => {
+      const { issues } = lint(`## [Unreleased]\n\n### Added\n\n### Fixed\n- x\n`)
+
+      expect(issues).toEqual([
+        {
+          rule: 'empty-section',
+          severity: 'warn',
+          message: '[Unreleased] has an empty "### Added" section',
+          fixable: true,
+        },
+      ])
+    })
+
+    it('flags missing reference links for bracketed version headings only', () => {
+      const changelog = `## [1.1.0] - 2024-02-01\n- a\n\n## 1.0.0 - 2024-01-01\n- b\n`
+
+      const { issues } = lint(changelog)
+
+      expect(issues).toEqual([
+        {
+          rule: 'missing-link',
+          severity: 'warn',
+          message: '[1.1.0] has no [1.1.0]: reference link',
+          fixable: true,
+        },
+      ])
+    })
+
+    it('reports missing links as unfixable without a repository URL', () => {
+      env = {}
+
+      const { issues } = lint(`## [1.0.0] - 2024-01-01\n- a\n`)
+
+      expect(issues[0]).toMatchObject({ rule: 'missing-link', fixable: false })
+    })
+
+    it('flags reference links that are never used', () => {
+      const changelog = `${CLEAN_CHANGELOG}[0.1.0]: https://example.com\n`
+
+      expect(lint(changelog).issues).toEqual([
+        {
+          rule: 'orphaned-link',
+          severity: 'warn',
+          message: 'Reference link [0.1.0] is not used anywhere in the changelog',
+          fixable: true,
+        },
+      ])
+    })
+
+    it('keeps links referenced from prose', () => {
+      const changelog = `# Changelog\n\nBased on [Keep a Changelog].\n\n[Keep a Changelog]: https://keepachangelog.com\n`
+
+      expect(lint(changelog).issues).toEqual([])
+    })
+  })
+
+  describe('--fix', () => {
+    it('rewrites fixable problems and leaves the rest reported', () => {
+      const changelog = `# Changelog
+
+## [1.0.0] - 2024-01-01
+
+### added
+- initial release
+
+### Fixed
+
+## [Unreleased]
+
+- pending
+
+## [1.1.0]
+- newer
+
+[1.1.0]: https://github.com/owner/repo/releases/tag/v1.1.0
+[0.1.0]: https://example.com`
+
+      const result = lint(changelog, true)
+
+      const written = vi.mocked(deps.writeFileSync).mock.calls[0][1]
+      expect(written).toBe(`# Changelog
+
+## [Unreleased]
+
+- pending
+
+## [1.1.0]
+- newer
+
+## [1.0.0] - 2024-01-01
+
+### Added
+- initial release
+
+[1.1.0]: https://github.com/owner/repo/releases/tag/v1.1.0
+[1.0.0]: https://github.com/owner/repo/releases/tag/v1.0.0`)
+      expect(result.issues.map(issue => issue.rule)).toEqual(['release-date'])
+      expect(result.fixed).toBe(5)
+      expect(deps.log).toHaveBeenCalledWith('🔧 Fixed 5 problem(s) in CHANGELOG.md')
+    })
+
+    it('links missing releases to the GIT_TAG_NAME tag', () => {
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: Testing literal string with ${version} placeholder
+      env.GIT_TAG_NAME = 'pkg@${version}'
+
+      lint(`## [1.0.0] - 2024-01-01\n- a\n`, true)
+
+      expect(vi.mocked(deps.writeFileSync).mock.calls[0][1]).toBe(
+        '## [1.0.0] - 2024-01-01\n- a\n\n[1.0.0]: https://github.com/owner/repo/releases/tag/pkg@1.0.0\n',
+      )
+    })
+
+    it('does not write when nothing changes', () => {
+      lint(CLEAN_CHANGELOG, true)
+
+      expect(deps.writeFileSync).not.toHaveBeenCalled()
+    })
+
+    it('skips fixers for rules that are turned off', () => {
+      env.CHANGELOG_LINT_RULES = JSON.stringify({ 'empty-section': 'off' })
+
+      const result = lint(`## [Unreleased]\n\n### Added\n\n### Fixed\n- x\n`, true)
+
+      expect(result.issues).toEqual([])
+      expect(deps.writeFileSync).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('loadLintRules', () => {
+    it('returns the defaults without configuration', () => {
+      expect(loadLintRules(deps)).toEqual(DEFAULT_LINT_RULES)
+    })
+
+    it('layers the env var over the project file', () => {
+      files['.changelog-lint.json'] = JSON.stringify({
+        'release-date': 'off',
+        'missing-link': 'error',
+      })
+      env.CHANGELOG_LINT_RULES = JSON.stringify({ 'missing-link': 'off' })
+
+      expect(loadLintRules(deps)).toMatchObject({ 'release-date': 'off', 'missing-link': 'off' })
+    })
+
+    it('warns and ignores an invalid layer', () => {
+      files['.changelog-lint.json'] = JSON.stringify({ 'no-such-rule': 'off' })
+      env.CHANGELOG_LINT_RULES = JSON.stringify({ 'release-date': 'loud' })
+
+      expect(loadLintRules(deps)).toEqual(DEFAULT_LINT_RULES)
+      expect(deps.warn).toHaveBeenCalledWith(
+        '⚠️  Invalid .changelog-lint.json: Unknown rule "no-such-rule". Ignoring it.',
+      )
+      expect(deps.warn).toHaveBeenCalledWith(
+        '⚠️  Invalid CHANGELOG_LINT_RULES env var: Invalid severity for "release-date": expected "error", "warn" or "off". Ignoring it.',
+      )
+    })
+  })
+})
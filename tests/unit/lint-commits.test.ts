@@ -0,0 +1,257 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  cleanCommitMessage,
+  DEFAULT_COMMIT_LINT_CONFIG,
+  type LintCommitsDeps,
+  lintCommitMessage,
+  lintCommits,
+  loadCommitLintConfig,
+  parseArgs,
+} from '../../scripts/lint-commits'
+
+const TYPES = ['feat', 'fix', 'docs', 'chore']
+
+describe('lint-commits', () => {
+  let deps: LintCommitsDeps
+  let files: Record<string, string>
+  let env: Record<string, string>
+
+  beforeEach(() => {
+    files = {}
+    env = {}
+    deps = {
+      execSync: vi.fn(() => ''),
+      readFileSync: vi.fn((path: string) => {
+        if (path in files) {
+          return files[path]
+        }
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' })
+      }) as unknown as LintCommitsDeps['readFileSync'],
+      getEnv: vi.fn((key: string) => env[key]),
+      log: vi.fn(),
+      warn: vi.fn(),
+    }
+  })
+
+  const lint = (message: string, config = DEFAULT_COMMIT_LINT_CONFIG) =>
+    lintCommitMessage(message, { config, types: TYPES }).map(
+      issue => `${issue.severity} ${issue.rule}`,
+    )
+
+  describe('lintCommitMessage', () => {
+    it('accepts well-formed messages', () => {
+      expect(lint('feat(api): add retries')).toEqual([])
+      expect(lint('feat: add x\nfix: handle y')).toEqual([])
+      expect(
+        lint(
+          'feat!: drop v1\n\nThe v1 API is gone.\n\nBREAKING CHANGE: v1 removed\nCloses #12\nSigned-off-by: A <a@b.c>',
+        ),
+      ).toEqual([])
+    })
+
+    it('reports the header format and unknown types', () => {
+      expect(lint('Update readme')).toEqual(['error header-format'])
+      expect(lint('')).toEqual(['error header-format'])
+      expect(lint('feature: add x')).toEqual(['error type-enum'])
+    })
+
+    it('checks the subject length, case and full stop', () => {
+      expect(lint(`fix: ${'x'.repeat(73)}`)).toEqual(['warn subject-max-length'])
+      expect(lint('fix: Handle y.')).toEqual(['warn subject-case', 'warn subject-full-stop'])
+      expect(
+        lint('fix: handle y', { ...DEFAULT_COMMIT_LINT_CONFIG, subjectCase: 'upper' }),
+      ).toEqual(['warn subject-case'])
+    })
+
+    it('checks scopes when configured', () => {
+      const config = {
+        ...DEFAULT_COMMIT_LINT_CONFIG,
+        rules: {
+          ...DEFAULT_COMMIT_LINT_CONFIG.rules,
+          'scope-required': 'error',
+          'scope-enum': 'error',
+        },
+        scopes: ['api', 'cli'],
+      } as const
+
+      expect(lint('fix: x', config)).toEqual(['error scope-required'])
+      expect(lint('fix(api,cli): x', config)).toEqual([])
+      expect(lint('fix(api,web): x', config)).toEqual(['error scope-enum'])
+    })
+
+    it('requires a blank line before the body', () => {
+      expect(lint('fix: x\nsome details')).toEqual(['error body-leading-blank'])
+    })
+
+    it('reports malformed footers', () => {
+      expect(lint('fix: x\n\nReviewed-by: A <a@b.c>\nRefs:#12')).toEqual(['error footer-format'])
+      expect(lint('fix: x\n\nRefs: #12\nSigned off by: A <a@b.c>')).toEqual(['error footer-format'])
+      expect(lint('fix: x\n\nReviewed-by:')).toEqual(['error footer-format'])
+      expect(lint('docs: x\n\nSee https://example.com/spec')).toEqual([])
+    })
+
+    it('reads prose before the first footer as body text', () => {
+      expect(lint('fix: x\n\nRoot cause: callers pass null.')).toEqual([])
+      expect(lint('fix: x\n\nWhy it matters: retries stop early.')).toEqual([])
+      expect(lint('fix: x\n\nTime:10ms now')).toEqual([])
+      expect(lint('fix: x\n\nRoot cause: callers pass null.\nRefs: #12')).toEqual([])
+    })
+
+    it('requires BREAKING CHANGE to be an upper-case footer', () => {
+      expect(lint('feat!: x\n\nbreaking change: y')).toEqual([
+        'error breaking-change-format',
+        'warn breaking-change-exclamation-mark',
+      ])
+      expect(lint('feat!: x\nBREAKING CHANGE: y')).toEqual([
+        'error body-leading-blank',
+        'error breaking-change-format',
+        'warn breaking-change-exclamation-mark',
+      ])
+      expect(lint('feat!: x\n\nBREAKING CHANGE: y\n\nRefs: #1')).toEqual([
+        'error breaking-change-format',
+        'warn breaking-change-exclamation-mark',
+      ])
+    })
+
+    it('pairs "!" with a BREAKING CHANGE footer', () => {
+      expect(lint('feat!: x')).toEqual(['warn breaking-change-exclamation-mark'])
+      expect(lint('feat: x\n\nBREAKING CHANGE: y')).toEqual([
+        'warn breaking-change-exclamation-mark',
+      ])
+    })
+
+    it('skips disabled rules', () => {
+      const config = {
+        ...DEFAULT_COMMIT_LINT_CONFIG,
+        rules: { ...DEFAULT_COMMIT_LINT_CONFIG.rules, 'header-format': 'off' },
+      } as const
+      expect(lint('Update readme', config)).toEqual([])
+    })
+  })
+
+  describe('loadCommitLintConfig', () => {
+    it('returns the defaults without configuration', () => {
+      expect(loadCommitLintConfig(deps)).toEqual(DEFAULT_COMMIT_LINT_CONFIG)
+      expect(deps.warn).not.toHaveBeenCalled()
+    })
+
+    it('merges .commit-lint.json and COMMIT_LINT_RULES, with rule options', () => {
+      files['.commit-lint.json'] = JSON.stringify({
+        'scope-enum': ['error', ['api']],
+        'subject-max-length': ['error', 50],
+      })
+      env.COMMIT_LINT_RULES = JSON.stringify({
+        'subject-case': ['error', 'upper'],
+        'subject-max-length': 'off',
+      })
+
+      const config = loadCommitLintConfig(deps)
+
+      expect(config.rules).toMatchObject({
+        'scope-enum': 'error',
+        'subject-max-length': 'off',
+        'subject-case': 'error',
+      })
+      expect(config).toMatchObject({ scopes: ['api'], subjectMaxLength: 50, subjectCase: 'upper' })
+    })
+
+    it('warns about and ignores an invalid layer', () => {
+      files['.commit-lint.json'] = JSON.stringify({ 'body-leading-blank': ['error', true] })
+      env.COMMIT_LINT_RULES = JSON.stringify({ 'no-such-rule': 'error' })
+
+      expect(loadCommitLintConfig(deps)).toEqual(DEFAULT_COMMIT_LINT_CONFIG)
+      expect(deps.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Rule "body-leading-blank" takes no option'),
+      )
+      expect(deps.warn).toHaveBeenCalledWith(expect.stringContaining('Unknown rule "no-such-rule"'))
+    })
+  })
+
+  describe('cleanCommitMessage', () => {
+    it('drops comments and the verbose diff', () => {
+      expect(
+        cleanCommitMessage(
+          'fix: x\n\n# Please enter the commit message\n# ------------------------ >8 ------------------------\ndiff --git a/x b/x\n',
+        ),
+      ).toBe('fix: x')
+    })
+  })
+
+  describe('parseArgs', () => {
+    it('reads the range and the message file', () => {
+      expect(parseArgs([])).toEqual({ range: null, editFile: null })
+      expect(parseArgs(['origin/main..HEAD'])).toEqual({
+        range: 'origin/main..HEAD',
+        editFile: null,
+      })
+      expect(parseArgs(['--edit', 'msg.txt'])).toEqual({ range: null, editFile: 'msg.txt' })
+      expect(parseArgs(['--edit'])).toEqual({ range: null, editFile: '.git/COMMIT_EDITMSG' })
+    })
+  })
+
+  describe('lintCommits', () => {
+    it('lints every commit since the latest tag, oldest first', () => {
+      vi.mocked(deps.execSync).mockImplementation((command: string) => {
+        if (command.startsWith('git describe')) {
+          return 'v1.0.0\n'
+        }
+        expect(command).toBe('git log --no-merges --pretty=format:"%H|%B|||END|||" v1.0.0..HEAD')
+        return [
+          'bbbbbbb2222|Revert "feat: x"\n\nThis reverts commit aaaaaaa1111.|||END|||',
+          'aaaaaaa1111|Add x|||END|||',
+        ].join('\n')
+      })
+
+      const reports = lintCommits(deps, { range: null, editFile: null })
+
+      expect(reports).toEqual([
+        {
+          sha: 'aaaaaaa1111',
+          header: 'Add x',
+          skipped: false,
+          issues: [
+            {
+              rule: 'header-format',
+              severity: 'error',
+              message: 'Header must read "type(scope)!: subject" (got "Add x")',
+            },
+          ],
+        },
+        { sha: 'bbbbbbb2222', header: 'Revert "feat: x"', skipped: true, issues: [] },
+      ])
+    })
+
+    it('allows the types of the resolved changelog type map', () => {
+      files['.changelog-types.json'] = JSON.stringify({ ops: '### Operations' })
+      vi.mocked(deps.execSync).mockReturnValue('abc|ops: rotate keys|||END|||')
+
+      expect(lintCommits(deps, { range: 'HEAD~1..HEAD', editFile: null })[0].issues).toEqual([])
+    })
+
+    it('rejects ranges that are not revisions', () => {
+      expect(() => lintCommits(deps, { range: 'HEAD; rm -rf /', editFile: null })).toThrow(
+        'Invalid commit range',
+      )
+    })
+
+    it('lints the message file of a commit-msg hook', () => {
+      files['.git/COMMIT_EDITMSG'] = 'fix: Handle y\n# comment\n'
+
+      expect(lintCommits(deps, { range: null, editFile: '.git/COMMIT_EDITMSG' })).toEqual([
+        {
+          sha: null,
+          header: 'fix: Handle y',
+          skipped: false,
+          issues: [
+            {
+              rule: 'subject-case',
+              severity: 'warn',
+              message: 'Subject must start with a lower-case letter',
+            },
+          ],
+        },
+      ])
+      expect(deps.execSync).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ValidationError } from '../../scripts/lib/errors'
+import {
+  formatReleasePlan,
+  type PlanReleaseDeps,
+  parseArgs,
+  planRelease,
+} from '../../scripts/plan-release'
+
+const EMPTY_CHANGELOG = '# Changelog\n\n## [Unreleased]\n\nNo changes yet.\n'
+
+describe('plan-release', () => {
+  let files: Record<string, string>
+  let commits: Record<string, string>
+  let deps: PlanReleaseDeps
+
+  beforeEach(() => {
+    files = {
+      '/repo/pnpm-workspace.yaml': `packages:\n  - 'packages/*'\n`,
+      '/repo/packages/cli/package.json': JSON.stringify({
+        name: '@acme/cli',
+        version: '0.3.1',
+        dependencies: { '@acme/core': '^1.4.0' },
+      }),
+      '/repo/packages/cli/CHANGELOG.md': EMPTY_CHANGELOG,
+      '/repo/packages/core/package.json': JSON.stringify({ name: '@acme/core', version: '1.4.0' }),
+      '/repo/packages/core/CHANGELOG.md':
+        '# Changelog\n\n## [Unreleased]\n\n### ⚠️ BREAKING CHANGES\n- drop node 18\n',
+      '/repo/packages/docs/package.json': JSON.stringify({
+        name: '@acme/docs',
+        version: '1.0.0',
+        devDependencies: { '@acme/core': '~1.4.0', '@acme/cli': 'workspace:*' },
+      }),
+    }
+    commits = {
+      aaa1111: '\x1eaaa1111|feat!: drop node 18\x1f\npackages/core/src/index.ts\n',
+      bbb2222: '\x1ebbb2222|fix: typo in help\x1f\npackages/cli/src/help.ts\n',
+    }
+    deps = {
+      execSync: vi.fn((command: string) => {
+        if (command === 'git rev-parse --show-prefix') {
+          return '\n'
+        }
+        if (command.startsWith('git log --grep=')) {
+          return ''
+        }
+        if (command.startsWith('git describe')) {
+          return 'v1.0.0\n'
+        }
+        if (command === 'git rev-list v1.0.0..HEAD') {
+          return Object.keys(commits).join('\n')
+        }
+        if (command.startsWith('git log --no-walk --stdin --name-only')) {
+          return Object.values(commits).join('\n')
+        }
+        throw new Error(`unexpected command: ${command}`)
+      }),
+      readFileSync: vi.fn((path: string) => {
+        if (!(path in files)) {
+          throw new Error(`ENOENT: ${path}`)
+        }
+        return files[path]
+      }) as unknown as PlanReleaseDeps['readFileSync'],
+      existsSync: vi.fn((path: string) => path in files || path === '/repo/packages'),
+      readdirSync: vi.fn(() => ['cli', 'core', 'docs']),
+      getEnv: vi.fn(() => undefined),
+      getCwd: vi.fn(() => '/repo'),
+      log: vi.fn(),
+      warn: vi.fn(),
+    }
+  })
+
+  it('parses --json and ignores pass-through flags', () => {
+    expect(parseArgs(['--json', '--ci'])).toEqual({ json: true })
+    expect(parseArgs([])).toEqual({ json: false })
+  })
+
+  it('plans changed packages with dependencies released first', () => {
+    const plan = planRelease(deps)
+
+    expect(plan.releases).toEqual([
+      {
+        order: 1,
+        name: '@acme/core',
+        path: 'packages/core',
+        currentVersion: '1.4.0',
+        nextVersion: '2.0.0',
+        level: 'major',
+        reason: '[Unreleased] has major-level entries: ### ⚠️ BREAKING CHANGES (1)',
+      },
+      {
+        order: 2,
+        name: '@acme/cli',
+        path: 'packages/cli',
+        currentVersion: '0.3.1',
+        nextVersion: '0.3.2',
+        level: 'patch',
+        reason: 'Generated [Unreleased] has patch-level entries: ### Fixed (1)',
+      },
+    ])
+    expect(plan.unchanged).toEqual([
+      {
+        name: '@acme/docs',
+        path: 'packages/docs',
+        currentVersion: '1.0.0',
+        reason: 'no commits since v1.0.0',
+      },
+    ])
+  })
+
+  it('flags ranges that accept the current version but not the next one', () => {
+    const plan = planRelease(deps)
+
+    expect(plan.rangeConflicts).toEqual([
+      {
+        dependent: '@acme/cli',
+        field: 'dependencies',
+        dependency: '@acme/core',
+        range: '^1.4.0',
+        nextVersion: '2.0.0',
+      },
+      {
+        dependent: '@acme/docs',
+        field: 'devDependencies',
+        dependency: '@acme/core',
+        range: '~1.4.0',
+        nextVersion: '2.0.0',
+      },
+    ])
+  })
+
+  it('releases every package at one shared version with VERSIONING=fixed', () => {
+    files['/repo/package.json'] = JSON.stringify({ name: 'acme', private: true, version: '1.4.0' })
+    vi.mocked(deps.getEnv).mockImplementation(key => (key === 'VERSIONING' ? 'fixed' : undefined))
+
+    const plan = planRelease(deps)
+
+    expect(
+      plan.releases.map(release => [
+        release.name,
+        release.currentVersion,
+        release.nextVersion,
+        release.level,
+      ]),
+    ).toEqual([
+      ['@acme/core', '1.4.0', '2.0.0', 'major'],
+      ['@acme/docs', '1.4.0', '2.0.0', 'major'],
+      ['@acme/cli', '1.4.0', '2.0.0', 'major'],
+    ])
+    expect(plan.releases[1].reason).toBe(
+      'fixed versioning: released with the workspace (no commits since v1.0.0)',
+    )
+    expect(plan.unchanged).toEqual([])
+    expect(deps.execSync).not.toHaveBeenCalledWith(
+      expect.stringContaining('git log --grep='),
+      expect.anything(),
+    )
+  })
+
+  it('lists packages whose commits produce no entries as unchanged', () => {
+    commits.bbb2222 = '\x1ebbb2222|fix: typo [skip-changelog]\x1f\npackages/cli/src/help.ts\n'
+
+    const plan = planRelease(deps)
+
+    expect(plan.releases.map(release => release.name)).toEqual(['@acme/core'])
+    expect(plan.unchanged.map(pkg => [pkg.name, pkg.reason])).toContainEqual([
+      '@acme/cli',
+      'Generated [Unreleased] has no entries — nothing to release',
+    ])
+  })
+
+  it('skips packages without a valid manifest', () => {
+    files['/repo/packages/docs/package.json'] = JSON.stringify({ name: '@acme/docs' })
+
+    const plan = planRelease(deps)
+
+    expect(plan.unchanged).toEqual([])
+    expect(deps.warn).toHaveBeenCalledWith(
+      '⚠️  /repo/packages/docs/package.json has no valid name and version; skipping @acme/docs',
+    )
+  })
+
+  it('rejects dependency cycles between packages to release', () => {
+    files['/repo/packages/core/package.json'] = JSON.stringify({
+      name: '@acme/core',
+      version: '1.4.0',
+      peerDependencies: { '@acme/cli': '*' },
+    })
+
+    expect(() => planRelease(deps)).toThrow(ValidationError)
+    expect(() => planRelease(deps)).toThrow('cycle: @acme/cli, @acme/core')
+  })
+
+  it('throws without workspace packages', () => {
+    vi.mocked(deps.existsSync).mockReturnValue(false)
+
+    expect(() => planRelease(deps)).toThrow('No workspace packages found. plan needs')
+  })
+
+  it('formats the plan as a table with conflicts', () => {
+    const output = formatReleasePlan(planRelease(deps))
+
+    expect(output).toContain('📦 2 package(s) to release, in order:')
+    expect(output).toMatch(/#\s+Package\s+Current\s+Next\s+Bump\s+Reason/)
+    expect(output).toMatch(/1\s+@acme\/core\s+1\.4\.0\s+2\.0\.0\s+major/)
+    expect(output).toContain('ℹ️  Unchanged: @acme/docs')
+    expect(output).toContain(
+      '  - @acme/cli dependencies.@acme/core="^1.4.0" does not include 2.0.0',
+    )
+    expect(formatReleasePlan({ releases: [], unchanged: [], rangeConflicts: [] })).toBe(
+      'ℹ️  No workspace package has changes to release',
+    )
+  })
+})
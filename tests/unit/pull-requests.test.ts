@@ -0,0 +1,354 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ChangelogError, ValidationError } from '../../scripts/lib/errors'
+import { detectForge } from '../../scripts/lib/forge'
+import {
+  createCachingProvider,
+  createFixtureProvider,
+  createGitHubProvider,
+  createGitLabProvider,
+  createPullRequestProvider,
+  createRecordingProvider,
+  parsePullRequestFixtures,
+  serializePullRequestFixtures,
+} from '../../scripts/lib/pull-requests'
+
+const MERGED = '2026-01-01T00:00:00Z'
+
+describe('pull-requests', () => {
+  describe('createFixtureProvider', () => {
+    const provider = createFixtureProvider([
+      { number: 1, body: 'one', merged_at: MERGED, commits: ['abcdef1234567890'] },
+      { number: 2, body: 'open', merged_at: null, commits: ['1234567'] },
+    ])
+
+    it('finds merged pull requests by number and by abbreviated or full sha', () => {
+      expect(provider.findByNumber(1)).toEqual({ number: 1, body: 'one', merged_at: MERGED })
+      expect(provider.findBySha('abcdef1')?.number).toBe(1)
+      expect(provider.findBySha('ABCDEF1234567890FFFF')?.number).toBe(1)
+      expect(provider.findBySha('abcdef2')).toBeNull()
+    })
+
+    it('never returns unmerged pull requests', () => {
+      expect(provider.findByNumber(2)).toBeNull()
+      expect(provider.findBySha('1234567')).toBeNull()
+    })
+
+    it('uses the given reference prefix', () => {
+      expect(provider.referencePrefix).toBe('#')
+      expect(createFixtureProvider([], '!').referencePrefix).toBe('!')
+    })
+  })
+
+  describe('createRecordingProvider', () => {
+    it('records answered lookups as fixtures that replay the same answers', () => {
+      const recording = createRecordingProvider(
+        createFixtureProvider([
+          { number: 4, body: 'four', merged_at: MERGED, commits: ['abcdef1234'] },
+          { number: 5, body: 'open', merged_at: null },
+        ]),
+      )
+
+      recording.provider.findBySha('abcdef1')
+      recording.provider.findBySha('abcdef1')
+      recording.provider.findByNumber(4)
+      recording.provider.findByNumber(5)
+
+      const recorded = recording.recorded()
+      expect(recorded).toEqual([
+        { number: 4, body: 'four', merged_at: MERGED, commits: ['abcdef1'] },
+      ])
+
+      const replay = createFixtureProvider(
+        parsePullRequestFixtures(serializePullRequestFixtures(recorded), 'prs.json'),
+      )
+      expect(replay.findBySha('abcdef1')).toEqual(recording.provider.findBySha('abcdef1'))
+      expect(replay.findByNumber(5)).toBeNull()
+    })
+  })
+
+  describe('parsePullRequestFixtures', () => {
+    it('accepts an array or a pullRequests object', () => {
+      const fixture = { number: 3, body: 'b', merged_at: MERGED }
+
+      expect(parsePullRequestFixtures(JSON.stringify([fixture]), 'prs.json')).toEqual([
+        { ...fixture, commits: [] },
+      ])
+      expect(
+        parsePullRequestFixtures(JSON.stringify({ pullRequests: [fixture] }), 'prs.json'),
+      ).toHaveLength(1)
+    })
+
+    it('rejects malformed fixtures', () => {
+      expect(() => parsePullRequestFixtures('{', 'prs.json')).toThrow(ValidationError)
+      expect(() => parsePullRequestFixtures('{}', 'prs.json')).toThrow(
+        'expected an array of pull requests',
+      )
+      expect(() => parsePullRequestFixtures('[{"number":"1"}]', 'prs.json')).toThrow(
+        'entry 0 has no integer number',
+      )
+      expect(() => parsePullRequestFixtures('[{"number":1,"commits":[1]}]', 'prs.json')).toThrow(
+        'entry 0 commits must be strings',
+      )
+    })
+  })
+
+  describe('createGitHubProvider', () => {
+    it('treats not-found as unresolved but keeps auth failures fatal', () => {
+      const execSync = vi.fn((command: string) => {
+        if (command.startsWith('gh pr view 5')) {
+          throw Object.assign(new Error('Command failed'), {
+            stderr: 'GraphQL: Could not resolve to a PullRequest',
+          })
+        }
+        throw Object.assign(new Error('Command failed'), { stderr: 'HTTP 401: Bad credentials' })
+      })
+      const provider = createGitHubProvider('owner/repo', { execSync })
+
+      expect(provider.findByNumber(5)).toBeNull()
+      expect(() => provider.findBySha('aaaaaaa')).toThrow(ChangelogError)
+      expect(() => provider.findBySha('aaaaaaa')).toThrow('GitHub CLI command failed')
+    })
+  })
+
+  describe('GitHub batched lookups', () => {
+    const graphQLResponse = (repository: Record<string, unknown>, errors?: unknown[]) =>
+      JSON.stringify({ data: { repository }, ...(errors ? { errors } : {}) })
+
+    it('answers prefetched lookups without per-item requests', () => {
+      const execSync = vi.fn((command: string) => {
+        expect(command).toMatch(
+          /^gh api graphql -f query='query \{ repository\(owner: "owner", name: "repo"\)/,
+        )
+        return graphQLResponse({
+          pr0: { number: 3, body: 'b', mergedAt: MERGED },
+          pr1: { number: 4, body: 'open', mergedAt: null },
+          c0: { associatedPullRequests: { nodes: [{ number: 5, body: null, mergedAt: MERGED }] } },
+        })
+      })
+      const provider = createGitHubProvider('owner/repo', { execSync })
+
+      provider.prefetch?.({ numbers: [3, 4], shas: ['abcdef1'] })
+
+      expect(provider.findByNumber(3)).toEqual({ number: 3, body: 'b', merged_at: MERGED })
+      expect(provider.findByNumber(4)).toBeNull()
+      expect(provider.findBySha('abcdef1')).toEqual({ number: 5, body: null, merged_at: MERGED })
+      expect(execSync).toHaveBeenCalledTimes(1)
+    })
+
+    it('reads partial data when only some numbers are not found', () => {
+      const execSync = vi.fn(() => {
+        throw Object.assign(new Error('Command failed'), {
+          stdout: graphQLResponse({ pr0: null, pr1: { number: 2, body: '', mergedAt: MERGED } }, [
+            { type: 'NOT_FOUND', path: ['repository', 'pr0'] },
+          ]),
+        })
+      })
+      const provider = createGitHubProvider('owner/repo', { execSync })
+
+      provider.prefetch?.({ numbers: [1, 2], shas: [] })
+
+      expect(provider.findByNumber(1)).toBeNull()
+      expect(provider.findByNumber(2)?.number).toBe(2)
+      expect(execSync).toHaveBeenCalledTimes(1)
+    })
+
+    it('warns and falls back to per-item lookups when a batch fails', () => {
+      const warn = vi.fn()
+      const execSync = vi.fn((command: string) => {
+        if (command.startsWith('gh api graphql')) {
+          throw Object.assign(new Error('Command failed'), { stderr: 'HTTP 502' })
+        }
+        return JSON.stringify({ number: 1, body: 'b', mergedAt: MERGED })
+      })
+      const provider = createGitHubProvider('owner/repo', { execSync, warn })
+
+      provider.prefetch?.({ numbers: [1, 2], shas: [] })
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('Batched GraphQL lookup failed, falling back to one request per'),
+      )
+      expect(provider.findByNumber(1)?.number).toBe(1)
+      expect(execSync).toHaveBeenLastCalledWith(
+        'gh pr view 1 --repo owner/repo --json number,body,mergedAt,author',
+        expect.any(Object),
+      )
+    })
+
+    it('skips the batch for a single lookup and splits large ones', () => {
+      const execSync = vi.fn(() => graphQLResponse({}))
+      const provider = createGitHubProvider('owner/repo', { execSync })
+
+      provider.prefetch?.({ numbers: [1], shas: [] })
+      expect(execSync).not.toHaveBeenCalled()
+
+      provider.prefetch?.({
+        numbers: Array.from({ length: 120 }, (_, index) => index + 1),
+        shas: [],
+      })
+      expect(execSync).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('pull request authors', () => {
+    it('reads the author login of GitHub pull requests', () => {
+      const execSync = vi.fn((command: string) => {
+        if (command.startsWith('gh api graphql')) {
+          expect(command).toContain('number body mergedAt author { login }')
+          return JSON.stringify({
+            data: {
+              repository: {
+                pr0: { number: 3, body: 'b', mergedAt: MERGED, author: { login: 'alice' } },
+                pr1: { number: 4, body: 'b', mergedAt: MERGED, author: null },
+              },
+            },
+          })
+        }
+        return JSON.stringify({ number: 7, body: 'b', mergedAt: MERGED, author: { login: 'bob' } })
+      })
+      const provider = createGitHubProvider('owner/repo', { execSync })
+
+      provider.prefetch?.({ numbers: [3, 4], shas: [] })
+
+      expect(provider.findByNumber(3)?.author).toBe('alice')
+      expect(provider.findByNumber(4)).toEqual({ number: 4, body: 'b', merged_at: MERGED })
+      expect(provider.findByNumber(7)?.author).toBe('bob')
+    })
+
+    it('reads the author username of GitLab merge requests', () => {
+      const execSync = vi.fn(() =>
+        JSON.stringify({
+          iid: 9,
+          description: 'd',
+          merged_at: MERGED,
+          author: { username: 'carol' },
+        }),
+      )
+      const provider = createGitLabProvider(detectForge('https://gitlab.com/g/r'), { execSync })
+
+      expect(provider.findByNumber(9)?.author).toBe('carol')
+    })
+
+    it('round-trips authors through fixtures', () => {
+      const fixtures = parsePullRequestFixtures(
+        JSON.stringify([{ number: 1, merged_at: MERGED, author: 'alice', commits: ['abcdef1'] }]),
+        'prs.json',
+      )
+
+      expect(createFixtureProvider(fixtures).findBySha('abcdef1')?.author).toBe('alice')
+      expect(JSON.parse(serializePullRequestFixtures(fixtures))[0].author).toBe('alice')
+      expect(() =>
+        parsePullRequestFixtures(JSON.stringify([{ number: 1, author: 42 }]), 'prs.json'),
+      ).toThrow('entry 0 author must be a string')
+    })
+  })
+
+  describe('createCachingProvider', () => {
+    it('serves cached shas and stores merged pull requests only', () => {
+      const entries = new Map<string, { number: number; merged_at: string }>([
+        ['aaaaaaa', { number: 1, merged_at: MERGED }],
+      ])
+      const inner = {
+        referencePrefix: '#',
+        findByNumber: vi.fn(() => null),
+        findBySha: vi.fn((sha: string) =>
+          sha === 'bbbbbbb' ? { number: 2, merged_at: MERGED } : null,
+        ),
+        prefetch: vi.fn(),
+      }
+      const provider = createCachingProvider(inner, {
+        get: sha => entries.get(sha),
+        set: (sha, pr) => entries.set(sha, pr as { number: number; merged_at: string }),
+      })
+
+      provider.prefetch?.({ numbers: [9], shas: ['aaaaaaa', 'bbbbbbb', 'ccccccc'] })
+      expect(inner.prefetch).toHaveBeenCalledWith({ numbers: [9], shas: ['bbbbbbb', 'ccccccc'] })
+
+      expect(provider.findBySha('aaaaaaa')?.number).toBe(1)
+      expect(provider.findBySha('bbbbbbb')?.number).toBe(2)
+      expect(provider.findBySha('ccccccc')).toBeNull()
+      expect(inner.findBySha).toHaveBeenCalledTimes(2)
+      expect([...entries.keys()]).toEqual(['aaaaaaa', 'bbbbbbb'])
+    })
+
+    it('caches merged pull requests looked up by number', () => {
+      const entries = new Map<string, { number: number; merged_at: string }>([
+        ['#1', { number: 1, merged_at: MERGED }],
+      ])
+      const inner = {
+        referencePrefix: '#',
+        findByNumber: vi.fn((number: number) =>
+          number === 2 ? { number: 2, merged_at: MERGED } : { number, merged_at: null },
+        ),
+        findBySha: vi.fn(() => null),
+        prefetch: vi.fn(),
+      }
+      const provider = createCachingProvider(inner, {
+        get: key => entries.get(key),
+        set: (key, pr) => entries.set(key, pr as { number: number; merged_at: string }),
+      })
+
+      provider.prefetch?.({ numbers: [1, 2, 3], shas: [] })
+      expect(inner.prefetch).toHaveBeenCalledWith({ numbers: [2, 3], shas: [] })
+
+      expect(provider.findByNumber(1)?.number).toBe(1)
+      expect(provider.findByNumber(2)?.number).toBe(2)
+      // Still open: looked up again next time
+      expect(provider.findByNumber(3)?.merged_at).toBeNull()
+      expect(inner.findByNumber).toHaveBeenCalledTimes(2)
+      expect([...entries.keys()]).toEqual(['#1', '#2'])
+    })
+  })
+
+  describe('createGitLabProvider', () => {
+    it('queries the repository host and maps merge requests', () => {
+      const execSync = vi.fn(() =>
+        JSON.stringify({ iid: 9, description: 'desc', merged_at: MERGED, state: 'merged' }),
+      )
+      const provider = createGitLabProvider(
+        detectForge('https://git.example.com:8443/group/sub/repo', () => 'gitlab'),
+        { execSync },
+      )
+
+      expect(provider.findByNumber(9)).toEqual({ number: 9, body: 'desc', merged_at: MERGED })
+      expect(execSync).toHaveBeenCalledWith(
+        'glab api --hostname git.example.com:8443 projects/group%2Fsub%2Frepo/merge_requests/9',
+        expect.any(Object),
+      )
+      expect(provider.referencePrefix).toBe('!')
+    })
+
+    it('rejects invalid JSON from glab', () => {
+      const provider = createGitLabProvider(detectForge('https://gitlab.com/g/r'), {
+        execSync: vi.fn(() => 'not json'),
+      })
+
+      expect(() => provider.findBySha('aaaaaaa')).toThrow(
+        'GitLab CLI command returned invalid JSON',
+      )
+    })
+  })
+
+  describe('createPullRequestProvider', () => {
+    const execSync = vi.fn()
+
+    it('picks the provider of the forge', () => {
+      expect(
+        createPullRequestProvider(detectForge('https://github.com/o/r'), { execSync })
+          .referencePrefix,
+      ).toBe('#')
+      expect(
+        createPullRequestProvider(detectForge('https://gitlab.com/g/r'), { execSync })
+          .referencePrefix,
+      ).toBe('!')
+    })
+
+    it('rejects GitHub URLs that are not owner/repo and unsupported forges', () => {
+      expect(() =>
+        createPullRequestProvider(detectForge('https://github.com/o/r/extra'), { execSync }),
+      ).toThrow('Could not determine GitHub repository from https://github.com/o/r/extra')
+      expect(() =>
+        createPullRequestProvider(detectForge('https://codeberg.org/o/r'), { execSync }),
+      ).toThrow('is a gitea repository')
+    })
+  })
+})
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseReleaseBody } from '../../scripts/lib/changelog-document'
+import {
+  type RecommendBumpDeps,
+  recommendBump,
+  recommendBumpForRelease,
+  recommendBumpFromCommits,
+} from '../../scripts/recommend-bump'
+
+describe('recommend-bump', () => {
+  describe('recommendBumpForRelease', () => {
+    const recommend = (body: string, version: string | null = '1.2.3') =>
+      recommendBumpForRelease(parseReleaseBody(body), version)
+
+    it('recommends major for breaking changes', () => {
+      expect(recommend('### ⚠️ BREAKING CHANGES\n- drop node 18\n\n### Added\n- thing\n')).toEqual({
+        level: 'major',
+        reason: '[Unreleased] has major-level entries: ### ⚠️ BREAKING CHANGES (1)',
+        currentVersion: '1.2.3',
+      })
+    })
+
+    it('recommends major for Removed', () => {
+      expect(
+        recommend('### BREAKING CHANGES\n- x\n\n### Removed\n- c\n\n### Added\n- a\n'),
+      ).toEqual({
+        level: 'major',
+        reason: '[Unreleased] has major-level entries: ### BREAKING CHANGES (1), ### Removed (1)',
+        currentVersion: '1.2.3',
+      })
+    })
+
+    it('recommends minor for Added and Deprecated', () => {
+      const result = recommend('### Added\n- a\n- b\n\n### Deprecated\n- c\n\n### Fixed\n- d\n')
+
+      expect(result.level).toBe('minor')
+      expect(result.reason).toBe(
+        '[Unreleased] has minor-level entries: ### Added (2), ### Deprecated (1)',
+      )
+    })
+
+    it('recommends patch for other sections and uncategorized entries', () => {
+      expect(recommend('- loose entry\n\n### Fixed\n- d\n').reason).toBe(
+        '[Unreleased] has patch-level entries: uncategorized (1), ### Fixed (1)',
+      )
+      expect(recommend('### Security\n- e\n').level).toBe('patch')
+    })
+
+    it('does not count ### Contributors', () => {
+      expect(
+        recommend('### Contributors\n- @alice made their first contribution (aaaaaaa)\n').level,
+      ).toBeNull()
+    })
+
+    it('ignores empty sections', () => {
+      expect(recommend('### Added\n\n### Fixed\n- d\n').level).toBe('patch')
+    })
+
+    it('returns no level when there are no entries', () => {
+      expect(recommend('### Added\n\n')).toEqual({
+        level: null,
+        reason: '[Unreleased] has no entries — nothing to release',
+        currentVersion: '1.2.3',
+      })
+    })
+
+    it('shifts levels down while the version is 0.x', () => {
+      expect(recommend('### BREAKING CHANGES\n- x\n', '0.4.0')).toEqual({
+        level: 'minor',
+        reason:
+          '[Unreleased] has major-level entries: ### BREAKING CHANGES (1); 0.4.0 is 0.x, so major becomes minor',
+        currentVersion: '0.4.0',
+      })
+      expect(recommend('### Removed\n- x\n', '0.4.0').level).toBe('minor')
+      expect(recommend('### Added\n- x\n', '0.4.0').level).toBe('patch')
+      expect(recommend('### Fixed\n- x\n', '0.4.0').reason).toBe(
+        '[Unreleased] has patch-level entries: ### Fixed (1)',
+      )
+    })
+  })
+
+  describe('recommendBump', () => {
+    let files: Record<string, string>
+    let env: Record<string, string>
+    let deps: RecommendBumpDeps
+
+    beforeEach(() => {
+      files = {
+        'package.json': JSON.stringify({ version: '0.9.1' }),
+        'CHANGELOG.md':
+          '# Changelog\n\n## [Unreleased]\n\n### Added\n- feature\n\n## [0.9.1] - 2024-01-01\n\n### Fixed\n- bug\n',
+      }
+      env = {}
+      deps = {
+        readFileSync: vi.fn((path: string) => {
+          if (path in files) {
+            return files[path]
+          }
+          throw new Error(`ENOENT: ${path}`)
+        }) as unknown as RecommendBumpDeps['readFileSync'],
+        getEnv: vi.fn((key: string) => env[key]),
+      }
+    })
+
+    it('reads the changelog and the current version', () => {
+      expect(recommendBump(deps)).toMatchObject({ level: 'patch', currentVersion: '0.9.1' })
+    })
+
+    it('honours CHANGELOG_FILE', () => {
+      env.CHANGELOG_FILE = 'docs/CHANGES.md'
+      files['docs/CHANGES.md'] = '## [Unreleased]\n\n### ⚠️ BREAKING CHANGES\n- x\n'
+      files['package.json'] = JSON.stringify({ version: '2.0.0' })
+
+      expect(recommendBump(deps).level).toBe('major')
+    })
+
+    it('skips 0.x semantics when package.json has no usable version', () => {
+      delete files['package.json']
+
+      expect(recommendBump(deps)).toMatchObject({ level: 'minor', currentVersion: null })
+    })
+
+    it('throws when the changelog is missing or has no [Unreleased] section', () => {
+      delete files['CHANGELOG.md']
+      expect(() => recommendBump(deps)).toThrow('Could not read CHANGELOG.md')
+
+      files['CHANGELOG.md'] = '# Changelog\n\n## [1.0.0] - 2024-01-01\n- x\n'
+      expect(() => recommendBump(deps)).toThrow('No [Unreleased] section found in CHANGELOG.md')
+    })
+  })
+
+  describe('recommendBumpFromCommits', () => {
+    const generate = (gitLog: string) =>
+      recommendBumpFromCommits({
+        execSync: vi.fn((command: string) => {
+          if (command.startsWith('git describe')) {
+            return 'v1.0.0\n'
+          }
+          if (command.startsWith('git log')) {
+            return gitLog
+          }
+          throw new Error(`unexpected command: ${command}`)
+        }),
+        readFileSync: vi.fn((path: string) => {
+          if (path === 'package.json') {
+            return JSON.stringify({ version: '1.0.0' })
+          }
+          // A stale [Unreleased] must not be read
+          if (path === 'CHANGELOG.md') {
+            return '## [Unreleased]\n\n### Fixed\n- old\n'
+          }
+          throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' })
+        }) as unknown as RecommendBumpDeps['readFileSync'],
+        getEnv: vi.fn(() => undefined),
+        log: vi.fn(),
+        warn: vi.fn(),
+      })
+
+    it('recommends from the entries update would generate', () => {
+      expect(
+        generate('aaaaaaa1111|feat!: drop v1|||END|||\nbbbbbbb2222|fix: handle y|||END|||'),
+      ).toEqual({
+        level: 'major',
+        reason: 'Generated [Unreleased] has major-level entries: ### ⚠️ BREAKING CHANGES (1)',
+        currentVersion: '1.0.0',
+      })
+    })
+
+    it('returns no level when no commit produces an entry', () => {
+      expect(generate('aaaaaaa1111|ci: cache pnpm store|||END|||').level).toBeNull()
+    })
+  })
+})
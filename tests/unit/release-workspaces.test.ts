@@ -0,0 +1,312 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ScriptError } from '../../scripts/lib/errors'
+import { incrementSemver } from '../../scripts/lib/semver-utils'
+import {
+  parseArgs,
+  type ReleaseWorkspacesDeps,
+  releaseWorkspaces,
+} from '../../scripts/release-workspaces'
+
+const EMPTY_CHANGELOG = '# Changelog\n\n## [Unreleased]\n\nNo changes yet.\n'
+
+describe('release-workspaces', () => {
+  let files: Record<string, string>
+  let env: Record<string, string>
+  let deps: ReleaseWorkspacesDeps
+
+  const manifest = (path: string) => JSON.parse(files[path])
+
+  beforeEach(() => {
+    env = {}
+    files = {
+      '/repo/pnpm-workspace.yaml': `packages:\n  - 'packages/*'\n`,
+      '/repo/packages/app/package.json': JSON.stringify({
+        name: '@acme/app',
+        version: '1.0.0',
+        peerDependencies: { '@acme/core': 'workspace:^1.4.0' },
+      }),
+      '/repo/packages/app/CHANGELOG.md': EMPTY_CHANGELOG,
+      '/repo/packages/cli/package.json': JSON.stringify({
+        name: '@acme/cli',
+        version: '0.3.1',
+        dependencies: { '@acme/core': '^1.4.0' },
+      }),
+      '/repo/packages/cli/CHANGELOG.md': EMPTY_CHANGELOG,
+      '/repo/packages/core/package.json': JSON.stringify({ name: '@acme/core', version: '1.4.0' }),
+      '/repo/packages/core/CHANGELOG.md':
+        '# Changelog\n\n## [Unreleased]\n\n### ⚠️ BREAKING CHANGES\n- drop node 18\n',
+      '/repo/packages/docs/package.json': JSON.stringify({
+        name: '@acme/docs',
+        version: '1.0.0',
+        devDependencies: { '@acme/core': '~1.4.0', '@acme/cli': 'workspace:*' },
+      }),
+    }
+    deps = {
+      execSync: vi.fn((command: string) => {
+        if (command === 'git rev-parse --show-prefix') {
+          return '\n'
+        }
+        if (command.startsWith('git log --grep=')) {
+          return ''
+        }
+        if (command.startsWith('git describe')) {
+          return 'v1.0.0\n'
+        }
+        if (command === 'git rev-list v1.0.0..HEAD') {
+          return 'aaa1111\nbbb2222\n'
+        }
+        if (command.startsWith('git log --no-walk --stdin --name-only')) {
+          return [
+            '\x1eaaa1111|feat!: drop node 18\x1f\npackages/core/src/index.ts\n',
+            '\x1ebbb2222|fix: typo in help\x1f\npackages/cli/src/help.ts\n',
+          ].join('\n')
+        }
+        if (command.startsWith('git add') || command.startsWith('git commit')) {
+          return ''
+        }
+        throw new Error(`unexpected command: ${command}`)
+      }),
+      readFileSync: vi.fn((path: string) => {
+        if (!(path in files)) {
+          throw new Error(`ENOENT: ${path}`)
+        }
+        return files[path]
+      }) as unknown as ReleaseWorkspacesDeps['readFileSync'],
+      writeFileSync: vi.fn((path: string, content: string) => {
+        files[path] = content
+      }) as unknown as ReleaseWorkspacesDeps['writeFileSync'],
+      existsSync: vi.fn((path: string) => path in files || path === '/repo/packages'),
+      readdirSync: vi.fn(() => ['app', 'cli', 'core', 'docs']),
+      getEnv: vi.fn((key: string) => env[key]),
+      getCwd: vi.fn(() => '/repo'),
+      log: vi.fn(),
+      warn: vi.fn(),
+      // Simulates release-it bumping package.json
+      runPreset: vi.fn((_preset: string, args: string[], { cwd }: { cwd: string }) => {
+        const path = `${cwd}/package.json`
+        const pkg = manifest(path)
+        const level = args[args.indexOf('--increment') + 1] as 'major' | 'minor' | 'patch'
+        files[path] = JSON.stringify({ ...pkg, version: incrementSemver(pkg.version, level) })
+        return 0
+      }),
+    }
+  })
+
+  it('takes the preset first and passes the other arguments on', () => {
+    expect(parseArgs(['manual-changelog', '--ci', '--dry-run'])).toEqual({
+      preset: 'manual-changelog',
+      args: ['--ci', '--dry-run'],
+      dryRun: true,
+    })
+    expect(parseArgs(['--ci'])).toEqual({ preset: 'default', args: ['--ci'], dryRun: false })
+  })
+
+  it('releases dependencies first and cascades to dependents whose ranges changed', () => {
+    const results = releaseWorkspaces({ preset: 'default', args: ['--ci'], dryRun: false }, deps)
+
+    expect(results.map(({ name, level, version }) => [name, level, version])).toEqual([
+      ['@acme/core', 'major', '2.0.0'],
+      ['@acme/app', 'patch', '1.0.1'],
+      ['@acme/cli', 'patch', '0.3.2'],
+    ])
+    expect(vi.mocked(deps.runPreset).mock.calls[0]).toEqual([
+      'default',
+      ['--ci', '--increment', 'major'],
+      {
+        cwd: '/repo/packages/core',
+        env: {
+          GIT_CHANGELOG_PATH: '.',
+          // biome-ignore lint/suspicious/noTemplateCurlyInString: Testing literal string with ${version} placeholder
+          GIT_COMMIT_MESSAGE: 'chore(core): release v${version}',
+          // biome-ignore lint/suspicious/noTemplateCurlyInString: Testing literal string with ${version} placeholder
+          GIT_TAG_NAME: '@acme/core@${version}',
+        },
+      },
+    ])
+  })
+
+  it('rewrites dependent ranges and records a Changed entry', () => {
+    releaseWorkspaces({ preset: 'default', args: [], dryRun: false }, deps)
+
+    expect(manifest('/repo/packages/cli/package.json').dependencies).toEqual({
+      '@acme/core': '^2.0.0',
+    })
+    expect(manifest('/repo/packages/app/package.json').peerDependencies).toEqual({
+      '@acme/core': 'workspace:^2.0.0',
+    })
+    expect(manifest('/repo/packages/docs/package.json').devDependencies).toEqual({
+      '@acme/core': '~2.0.0',
+      '@acme/cli': 'workspace:*',
+    })
+    expect(files['/repo/packages/cli/CHANGELOG.md']).toContain(
+      '## [Unreleased]\n\n### Changed\n- bumped dependency @acme/core to 2.0.0\n',
+    )
+    expect(files['/repo/packages/cli/CHANGELOG.md']).not.toContain('No changes yet.')
+    // devDependency-only dependents are neither released nor warned about
+    expect(deps.runPreset).toHaveBeenCalledTimes(3)
+    expect(deps.warn).not.toHaveBeenCalledWith(expect.stringContaining('@acme/docs'))
+    expect(deps.execSync).toHaveBeenCalledWith(
+      'git commit -m "chore(deps): bumped dependency @acme/core to 2.0.0" -- "packages/app/package.json" "packages/app/CHANGELOG.md" "packages/cli/package.json" "packages/cli/CHANGELOG.md" "packages/docs/package.json"',
+      { stdio: 'pipe' },
+    )
+  })
+
+  it('keeps user overrides and an explicit increment', () => {
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: Testing literal string with ${version} placeholder
+    env.GIT_TAG_NAME = 'v${version}'
+
+    releaseWorkspaces({ preset: 'default', args: ['--increment', 'minor'], dryRun: false }, deps)
+
+    const [, args, { env: presetEnv }] = vi.mocked(deps.runPreset).mock.calls[0]
+    expect(args).toEqual(['--increment', 'minor'])
+    expect(presetEnv).not.toHaveProperty('GIT_TAG_NAME')
+  })
+
+  it('writes nothing on a dry run', () => {
+    vi.mocked(deps.runPreset).mockReturnValue(0)
+
+    const results = releaseWorkspaces(
+      { preset: 'default', args: ['--dry-run'], dryRun: true },
+      deps,
+    )
+
+    expect(results.map(result => result.version)).toEqual(['2.0.0', '1.0.1', '0.3.2'])
+    expect(deps.writeFileSync).not.toHaveBeenCalled()
+    expect(deps.log).toHaveBeenCalledWith('   @acme/cli dependencies.@acme/core: ^1.4.0 → ^2.0.0')
+  })
+
+  it('stops at the first failed release', () => {
+    vi.mocked(deps.runPreset).mockReturnValueOnce(0).mockReturnValueOnce(3)
+
+    let error: unknown
+    try {
+      releaseWorkspaces({ preset: 'default', args: [], dryRun: false }, deps)
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(ScriptError)
+    expect((error as ScriptError).exitCode).toBe(3)
+    expect((error as Error).message).toBe('Release of @acme/cli failed (exit 3)')
+  })
+
+  it('leaves dependents alone when a release did not bump the version', () => {
+    vi.mocked(deps.runPreset).mockReturnValue(0)
+
+    releaseWorkspaces({ preset: 'default', args: [], dryRun: false }, deps)
+
+    expect(deps.warn).toHaveBeenCalledWith(
+      '⚠️  @acme/core is still at 1.4.0; its dependents were left unchanged',
+    )
+    expect(deps.writeFileSync).not.toHaveBeenCalled()
+  })
+
+  describe('VERSIONING=fixed', () => {
+    beforeEach(() => {
+      env.VERSIONING = 'fixed'
+      files['/repo/package.json'] = JSON.stringify({
+        name: 'acme',
+        private: true,
+        version: '1.4.0',
+      })
+      files['/repo/packages/docs/package.json'] = JSON.stringify({
+        ...manifest('/repo/packages/docs/package.json'),
+        private: true,
+      })
+      const execSync = vi.mocked(deps.execSync).getMockImplementation()
+      vi.mocked(deps.execSync).mockImplementation((command: string, options) =>
+        /^(?:pnpm|npm) publish/.test(command) ? '' : (execSync?.(command, options) ?? ''),
+      )
+      // Simulates release-it bumping the root package.json to --increment <version>
+      vi.mocked(deps.runPreset).mockImplementation((_preset, args, { cwd }) => {
+        const path = `${cwd}/package.json`
+        files[path] = JSON.stringify({
+          ...manifest(path),
+          version: args[args.indexOf('--increment') + 1],
+        })
+        return 0
+      })
+    })
+
+    it('releases every package at one version from the root, then publishes in order', () => {
+      env.NPM_PUBLISH = 'true'
+
+      const results = releaseWorkspaces({ preset: 'default', args: ['--ci'], dryRun: false }, deps)
+
+      expect(results.map(({ name, version }) => [name, version])).toEqual([
+        ['@acme/app', '2.0.0'],
+        ['@acme/cli', '2.0.0'],
+        ['@acme/core', '2.0.0'],
+        ['@acme/docs', '2.0.0'],
+      ])
+      expect(deps.runPreset).toHaveBeenCalledTimes(1)
+      expect(deps.runPreset).toHaveBeenCalledWith('default', ['--ci', '--increment', '2.0.0'], {
+        cwd: '/repo',
+        env: { GIT_REQUIRE_CLEAN: 'false', NPM_PUBLISH: 'false' },
+      })
+      expect(manifest('/repo/packages/cli/package.json')).toEqual({
+        name: '@acme/cli',
+        version: '2.0.0',
+        dependencies: { '@acme/core': '^2.0.0' },
+      })
+      expect(manifest('/repo/packages/docs/package.json').devDependencies).toEqual({
+        '@acme/core': '~2.0.0',
+        '@acme/cli': 'workspace:*',
+      })
+
+      const publishes = vi
+        .mocked(deps.execSync)
+        .mock.calls.filter(([command]) => command.startsWith('pnpm publish'))
+      expect(publishes.map(([, options]) => options?.cwd)).toEqual([
+        '/repo/packages/core',
+        '/repo/packages/app',
+        '/repo/packages/cli',
+      ])
+      expect(publishes[0][0]).toBe('pnpm publish --no-git-checks --provenance --access public')
+      expect(deps.log).toHaveBeenCalledWith('   @acme/docs is private; not published')
+    })
+
+    it('publishes with the package manager that owns the workspace', () => {
+      env.NPM_PUBLISH = 'true'
+      env.NPM_TAG = 'next'
+      files['/repo/package.json'] = JSON.stringify({
+        ...manifest('/repo/package.json'),
+        packageManager: 'npm@10.9.0',
+      })
+
+      releaseWorkspaces({ preset: 'default', args: [], dryRun: false }, deps)
+
+      const publishes = vi
+        .mocked(deps.execSync)
+        .mock.calls.filter(([command]) => command.startsWith('npm publish'))
+      expect(publishes.map(([command, options]) => [command, options?.cwd])).toEqual([
+        ['npm publish -w @acme/core --provenance --access public --tag next', '/repo'],
+        ['npm publish -w @acme/app --provenance --access public --tag next', '/repo'],
+        ['npm publish -w @acme/cli --provenance --access public --tag next', '/repo'],
+      ])
+    })
+
+    it('takes the version from --increment', () => {
+      releaseWorkspaces({ preset: 'default', args: ['--increment=minor'], dryRun: false }, deps)
+
+      expect(deps.runPreset).toHaveBeenCalledWith(
+        'default',
+        ['--increment', '1.5.0'],
+        expect.any(Object),
+      )
+      expect(() =>
+        releaseWorkspaces({ preset: 'default', args: ['-i', 'prerelease'], dryRun: false }, deps),
+      ).toThrow('VERSIONING=fixed needs --increment major, minor, patch or an exact version')
+    })
+
+    it('restores the package versions when the release fails', () => {
+      const original = files['/repo/packages/core/package.json']
+      vi.mocked(deps.runPreset).mockReturnValue(1)
+
+      expect(() => releaseWorkspaces({ preset: 'default', args: [], dryRun: false }, deps)).toThrow(
+        'Release of the workspace at 2.0.0 failed (exit 1)',
+      )
+      expect(files['/repo/packages/core/package.json']).toBe(original)
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
-import { getGitHubRepoUrl as getRepoUrl } from '../../scripts/lib/git-utils'
+import { getRepoUrl } from '../../scripts/lib/git-utils'
 import {
   type RepublishChangelogDeps,
   republishChangelog,
@@ -328,6 +328,22 @@ describe('republish-changelog (with DI)', () => {
       )
     })
 
+    it('should use GIT_FORGE for self-hosted repository URLs', () => {
+      vi.mocked(deps.readFileSync).mockReturnValue(basicChangelog)
+      vi.mocked(deps.getEnv).mockImplementation(key =>
+        key === 'GIT_FORGE' ? 'bitbucket' : undefined,
+      )
+      vi.mocked(deps.execSync).mockReturnValue('git@git.example.com:ws/repo.git')
+
+      republishChangelog('1.1.0', deps)
+
+      const writtenContent = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
+      expect(writtenContent).toContain('[v1.1.0]: https://git.example.com/ws/repo/src/v1.1.0')
+      expect(writtenContent).toContain(
+        '[Unreleased]: https://git.example.com/ws/repo/branches/compare/HEAD%0Dv1.1.0',
+      )
+    })
+
     it('should handle non-GitHub/GitLab repository URLs', () => {
       vi.mocked(deps.readFileSync).mockReturnValue(basicChangelog)
       vi.mocked(deps.execSync).mockReturnValue('https://git.example.com/owner/repo.git')
@@ -511,6 +527,93 @@ describe('republish-changelog (with DI)', () => {
     })
   })
 
+  describe('prerelease folding', () => {
+    const prereleaseChangelog = `# Changelog
+
+## [Unreleased]
+
+### Fixed
+- final fix
+
+## [v1.0.0-rc.1] - 2024-01-10
+
+### Fixed
+- rc fix
+
+## [v1.0.0-beta.1] - 2024-01-05
+
+### Added
+- beta feature
+
+## [v0.9.0] - 2024-01-01
+
+- old
+
+[Unreleased]: https://github.com/owner/repo/compare/v1.0.0-rc.1...HEAD
+[v1.0.0-rc.1]: https://github.com/owner/repo/releases/tag/v1.0.0-rc.1
+[v1.0.0-beta.1]: https://github.com/owner/repo/releases/tag/v1.0.0-beta.1
+[v0.9.0]: https://github.com/owner/repo/releases/tag/v0.9.0
+`
+
+    beforeEach(() => {
+      vi.mocked(deps.readFileSync).mockReturnValue(prereleaseChangelog)
+      vi.mocked(deps.execSync).mockReturnValue('https://github.com/owner/repo.git')
+    })
+
+    it('lists prerelease blocks of the stable version without folding by default', () => {
+      republishChangelog('1.0.0', deps)
+
+      const writtenContent = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
+      expect(writtenContent).toContain('## [v1.0.0-rc.1] - 2024-01-10')
+      expect(deps.log).toHaveBeenCalledWith(
+        'ℹ️  Found 2 prerelease block(s) for 1.0.0: v1.0.0-rc.1, v1.0.0-beta.1',
+      )
+    })
+
+    it('folds prerelease blocks and their links when CHANGELOG_FOLD_PRERELEASES=true', () => {
+      vi.mocked(deps.getEnv).mockImplementation((key: string) =>
+        key === 'CHANGELOG_FOLD_PRERELEASES' ? 'true' : undefined,
+      )
+
+      republishChangelog('1.0.0', deps)
+
+      const writtenContent = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
+      expect(writtenContent).toBe(`# Changelog
+
+## [Unreleased]
+
+## [v1.0.0] - 2024-01-15
+
+### Fixed
+- final fix
+- rc fix
+
+### Added
+- beta feature
+
+## [v0.9.0] - 2024-01-01
+
+- old
+
+[Unreleased]: https://github.com/owner/repo/compare/v1.0.0...HEAD
+[v0.9.0]: https://github.com/owner/repo/releases/tag/v0.9.0
+[v1.0.0]: https://github.com/owner/repo/releases/tag/v1.0.0
+`)
+    })
+
+    it('never folds when the released version is itself a prerelease', () => {
+      vi.mocked(deps.getEnv).mockImplementation((key: string) =>
+        key === 'CHANGELOG_FOLD_PRERELEASES' ? 'true' : undefined,
+      )
+
+      republishChangelog('1.0.0-rc.2', deps)
+
+      const writtenContent = vi.mocked(deps.writeFileSync).mock.calls[0][1] as string
+      expect(writtenContent).toContain('## [v1.0.0-beta.1] - 2024-01-05')
+      expect(deps.log).not.toHaveBeenCalledWith(expect.stringContaining('prerelease block'))
+    })
+  })
+
   describe('updateReferenceLinks', () => {
     const linkTarget = 'https://example.com/releases/v1.0.0'
     const unreleasedLine = '[Unreleased]: https://example.com/compare/v1.0.0...HEAD'
@@ -1,11 +1,24 @@
 import { describe, expect, it } from 'vitest'
 import {
+  compareSemver,
+  incrementSemver,
   isValidSemver,
   rangeIncludesVersion,
   validateAndNormalizeSemver,
 } from '../../scripts/lib/semver-utils'
 
 describe('semver-utils', () => {
+  it('increments versions like npm version', () => {
+    expect(incrementSemver('1.2.3', 'patch')).toBe('1.2.4')
+    expect(incrementSemver('v1.2.3', 'minor')).toBe('1.3.0')
+    expect(incrementSemver('1.2.3+build.5', 'major')).toBe('2.0.0')
+    expect(incrementSemver('1.0.0-beta.1', 'patch')).toBe('1.0.0')
+    expect(incrementSemver('1.1.0-beta.1', 'minor')).toBe('1.1.0')
+    expect(incrementSemver('1.1.1-beta.1', 'minor')).toBe('1.2.0')
+    expect(incrementSemver('2.0.0-rc.0', 'major')).toBe('2.0.0')
+    expect(() => incrementSemver('next', 'patch')).toThrow('Invalid semantic version')
+  })
+
   it('validates semver with optional v prefix', () => {
     expect(isValidSemver('1.0.0')).toBe(true)
     expect(isValidSemver('v2.3.4')).toBe(true)
@@ -70,22 +83,95 @@ describe('semver-utils', () => {
     expect(rangeIncludesVersion('^0.9.0 || ^2.0.0', '1.2.3')).toBe(false)
   })
 
-  it('returns null for unsupported range syntax', () => {
-    expect(rangeIncludesVersion('>=1.0.0 <2.0.0', '1.2.3')).toBeNull()
+  it('returns null for syntax outside the range grammar', () => {
     expect(rangeIncludesVersion('latest', '1.2.3')).toBeNull()
     expect(rangeIncludesVersion('latest || ^2.0.0', '1.2.3')).toBeNull()
+    expect(rangeIncludesVersion('npm:other@^1.0.0', '1.2.3')).toBeNull()
+    expect(rangeIncludesVersion('>=1.0.0 latest', '1.2.3')).toBeNull()
     expect(rangeIncludesVersion('workspace:', '1.2.3')).toBeNull()
     expect(rangeIncludesVersion('workspace:latest', '1.2.3')).toBeNull()
-    expect(rangeIncludesVersion('workspace:>=1.0.0 <2.0.0', '1.2.3')).toBeNull()
+    expect(rangeIncludesVersion('^1.0.0', 'not-a-version')).toBeNull()
+  })
+
+  it('still matches when another OR branch is unreadable', () => {
+    expect(rangeIncludesVersion('latest || ^1.0.0', '1.2.3')).toBe(true)
+  })
+
+  it('evaluates space-joined comparator sets', () => {
+    expect(rangeIncludesVersion('>=1.0.0 <2.0.0', '1.2.3')).toBe(true)
+    expect(rangeIncludesVersion('>= 1.0.0 < 2.0.0', '2.0.0')).toBe(false)
+    expect(rangeIncludesVersion('>1.2.3 <=1.5.0', '1.2.3')).toBe(false)
+    expect(rangeIncludesVersion('>1.2.3 <=1.5.0', '1.5.0')).toBe(true)
+    expect(rangeIncludesVersion('workspace:>=1.0.0 <2.0.0', '1.2.3')).toBe(true)
+  })
+
+  it('evaluates hyphen ranges', () => {
+    expect(rangeIncludesVersion('1.2.3 - 2.3.4', '2.3.4')).toBe(true)
+    expect(rangeIncludesVersion('1.2.3 - 2.3.4', '2.3.5')).toBe(false)
+    expect(rangeIncludesVersion('1.2 - 2.3', '2.3.9')).toBe(true)
+    expect(rangeIncludesVersion('1.2 - 2.3', '2.4.0')).toBe(false)
+    expect(rangeIncludesVersion('1.2 - 2', '1.1.9')).toBe(false)
+  })
+
+  it('evaluates x-ranges and partial versions', () => {
+    expect(rangeIncludesVersion('*', '3.0.0')).toBe(true)
+    expect(rangeIncludesVersion('', '3.0.0')).toBe(true)
+    expect(rangeIncludesVersion('1.x', '1.9.9')).toBe(true)
+    expect(rangeIncludesVersion('1.X', '2.0.0')).toBe(false)
+    expect(rangeIncludesVersion('1.2.*', '1.2.7')).toBe(true)
+    expect(rangeIncludesVersion('1.2', '1.3.0')).toBe(false)
+    expect(rangeIncludesVersion('1', '1.4.0')).toBe(true)
+  })
+
+  it('evaluates primitive operators against partial versions', () => {
+    expect(rangeIncludesVersion('>1', '1.9.9')).toBe(false)
+    expect(rangeIncludesVersion('>1', '2.0.0')).toBe(true)
+    expect(rangeIncludesVersion('>1.2', '1.3.0')).toBe(true)
+    expect(rangeIncludesVersion('<1.2', '1.1.9')).toBe(true)
+    expect(rangeIncludesVersion('<1.2', '1.2.0')).toBe(false)
+    expect(rangeIncludesVersion('<=1.2', '1.2.9')).toBe(true)
+    expect(rangeIncludesVersion('<=1', '2.0.0')).toBe(false)
+    expect(rangeIncludesVersion('>*', '1.0.0')).toBe(false)
+    expect(rangeIncludesVersion('<1.0.0', '0.9.9')).toBe(true)
+  })
+
+  it('evaluates tilde and caret ranges with partial versions', () => {
+    expect(rangeIncludesVersion('~1', '1.9.0')).toBe(true)
+    expect(rangeIncludesVersion('~1.2', '1.3.0')).toBe(false)
+    expect(rangeIncludesVersion('~>1.2.3', '1.2.9')).toBe(true)
+    expect(rangeIncludesVersion('^1.2.x', '1.9.0')).toBe(true)
+    expect(rangeIncludesVersion('^0.0.3', '0.0.4')).toBe(false)
+    expect(rangeIncludesVersion('^0.0.x', '0.0.9')).toBe(true)
+    expect(rangeIncludesVersion('^0.0', '0.1.0')).toBe(false)
+    expect(rangeIncludesVersion('^0.x', '0.9.0')).toBe(true)
+    expect(rangeIncludesVersion('^0.x', '1.0.0')).toBe(false)
+  })
+
+  it('ignores build metadata on the version', () => {
+    expect(rangeIncludesVersion('^1.0.0', '1.0.0+build.5')).toBe(true)
   })
 
-  it('returns null when the workspace version carries prerelease or build metadata', () => {
-    expect(rangeIncludesVersion('^1.0.0', '1.0.0-beta.1')).toBeNull()
-    expect(rangeIncludesVersion('>=1.0.0', '1.0.0-beta.1')).toBeNull()
-    expect(rangeIncludesVersion('^1.0.0', '1.0.0+build.5')).toBeNull()
+  it('only matches prereleases against a comparator on the same version tuple', () => {
+    expect(rangeIncludesVersion('^1.0.0', '1.0.0-beta.1')).toBe(false)
+    expect(rangeIncludesVersion('>=1.0.0', '1.1.0-beta.1')).toBe(false)
+    expect(rangeIncludesVersion('*', '1.0.0-beta.1')).toBe(false)
+    expect(rangeIncludesVersion('^1.0.0-beta.1', '1.0.0-beta.2')).toBe(true)
+    expect(rangeIncludesVersion('^1.0.0-beta.1', '1.0.0-alpha.9')).toBe(false)
+    expect(rangeIncludesVersion('^1.0.0-beta.1', '1.1.0-beta.1')).toBe(false)
+    expect(rangeIncludesVersion('^1.0.0-rc.1', '1.2.0')).toBe(true)
+    expect(rangeIncludesVersion('1.0.0-rc.1 - 1.0.0', '1.0.0-rc.3')).toBe(true)
+    expect(rangeIncludesVersion('<2.0.0', '2.0.0-rc.1')).toBe(false)
   })
 
-  it('returns null when a range operand carries prerelease metadata', () => {
-    expect(rangeIncludesVersion('^1.0.0-rc.1', '1.2.0')).toBeNull()
+  it('compares versions by semver precedence', () => {
+    expect(compareSemver('1.2.3', 'v1.2.3')).toBe(0)
+    expect(compareSemver('1.10.0', '1.9.0')).toBeGreaterThan(0)
+    expect(compareSemver('1.0.0-beta.1', '1.0.0')).toBeLessThan(0)
+    expect(compareSemver('1.0.0', '1.0.0-rc.1')).toBeGreaterThan(0)
+    expect(compareSemver('1.0.0-alpha', '1.0.0-alpha.1')).toBeLessThan(0)
+    expect(compareSemver('1.0.0-beta.2', '1.0.0-beta.11')).toBeLessThan(0)
+    expect(compareSemver('1.0.0-1', '1.0.0-alpha')).toBeLessThan(0)
+    expect(compareSemver('1.0.0+build.1', '1.0.0+build.2')).toBe(0)
+    expect(() => compareSemver('1.0', '1.0.0')).toThrow('Invalid semantic version')
   })
 })
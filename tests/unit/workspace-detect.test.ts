@@ -1,8 +1,14 @@
 import { join } from 'node:path'
 import { describe, expect, it, vi } from 'vitest'
 import {
+  detectPackageManager,
+  detectWorkspacePackageDirs,
+  expandBraces,
+  matchesWorkspacePattern,
+  parseLernaJson,
   parsePnpmWorkspaceYaml,
   parseWorkspacesFromPackageJson,
+  readWorkspaceConfig,
   resolvePackagePaths,
 } from '../../scripts/lib/workspace-detect'
 
@@ -16,14 +22,28 @@ describe('parsePnpmWorkspaceYaml', () => {
     expect(parsePnpmWorkspaceYaml('# no packages here\n')).toEqual([])
   })
 
-  it('throws ValidationError for flow-style array', () => {
+  it('parses a flow-style array', () => {
     const yaml = `packages: ['packages/*', 'apps/*']\n`
-    expect(() => parsePnpmWorkspaceYaml(yaml)).toThrow('flow-style')
+    expect(parsePnpmWorkspaceYaml(yaml)).toEqual(['packages/*', 'apps/*'])
+  })
+
+  it('resolves a YAML alias reference (*alias)', () => {
+    const yaml = `x-globs: &pkgList\n  - 'packages/*'\npackages: *pkgList\n`
+    expect(parsePnpmWorkspaceYaml(yaml)).toEqual(['packages/*'])
   })
 
-  it('throws ValidationError for YAML alias reference (*alias)', () => {
+  it('throws ValidationError for an undefined alias', () => {
     const yaml = `packages: *pkgList\n`
-    expect(() => parsePnpmWorkspaceYaml(yaml)).toThrow(/alias|anchor|not supported/i)
+    expect(() => parsePnpmWorkspaceYaml(yaml)).toThrow(/line 1: unknown alias/)
+  })
+
+  it('throws ValidationError when packages is not a list of strings', () => {
+    expect(() => parsePnpmWorkspaceYaml(`packages: packages/*\n`)).toThrow(
+      'must be a list of glob patterns',
+    )
+    expect(() => parsePnpmWorkspaceYaml(`packages:\n  - a: b\n`)).toThrow(
+      'must be a list of glob patterns',
+    )
   })
 
   it('returns empty array when packages: key has no list items', () => {
@@ -73,6 +93,131 @@ describe('parseWorkspacesFromPackageJson', () => {
   })
 })
 
+describe('parseLernaJson', () => {
+  it('reads the packages list', () => {
+    expect(
+      parseLernaJson(JSON.stringify({ packages: ['modules/*'], version: 'independent' })),
+    ).toEqual(['modules/*'])
+  })
+
+  it('defaults to packages/* like Lerna', () => {
+    expect(parseLernaJson(JSON.stringify({ version: '1.0.0' }))).toEqual(['packages/*'])
+  })
+
+  it('throws ValidationError for invalid JSON or a non-list packages field', () => {
+    expect(() => parseLernaJson('{ nope')).toThrow('lerna.json is not valid JSON')
+    expect(() => parseLernaJson(JSON.stringify({ packages: 'modules/*' }))).toThrow(
+      'must be a list of glob patterns',
+    )
+  })
+})
+
+describe('detectPackageManager', () => {
+  const root = '/repo'
+
+  function makeDeps(files: Record<string, string>) {
+    return {
+      existsSync: vi.fn((p: string) => p in files),
+      readFileSync: vi.fn((p: string) => files[p]),
+    }
+  }
+
+  it('prefers the packageManager field of package.json', () => {
+    const deps = makeDeps({
+      [join(root, 'package.json')]: JSON.stringify({ packageManager: 'yarn@4.5.0' }),
+      [join(root, 'pnpm-lock.yaml')]: '',
+    })
+    expect(detectPackageManager(root, deps)).toBe('yarn')
+  })
+
+  it.each([
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['pnpm-workspace.yaml', 'pnpm'],
+    ['bun.lock', 'bun'],
+    ['bun.lockb', 'bun'],
+    ['yarn.lock', 'yarn'],
+    ['.yarnrc.yml', 'yarn'],
+    ['package-lock.json', 'npm'],
+  ])('detects %s as %s', (file, expected) => {
+    const deps = makeDeps({
+      [join(root, 'package.json')]: JSON.stringify({ packageManager: 'unknown@1.0.0' }),
+      [join(root, file)]: '',
+    })
+    expect(detectPackageManager(root, deps)).toBe(expected)
+  })
+
+  it('defaults to npm', () => {
+    expect(
+      detectPackageManager(root, makeDeps({ [join(root, 'package.json')]: '{ invalid' })),
+    ).toBe('npm')
+  })
+})
+
+describe('readWorkspaceConfig', () => {
+  const root = '/repo'
+
+  function makeDeps(files: Record<string, string>) {
+    return {
+      existsSync: vi.fn((p: string) => p in files),
+      readFileSync: vi.fn((p: string) => files[p]),
+    }
+  }
+
+  it('reads the Yarn object form and ignores nohoist', () => {
+    const deps = makeDeps({
+      [join(root, 'package.json')]: JSON.stringify({
+        workspaces: { packages: ['packages/*'], nohoist: ['**/react-native'] },
+      }),
+      [join(root, 'yarn.lock')]: '',
+    })
+    expect(readWorkspaceConfig(root, deps)).toEqual({
+      source: 'package.json',
+      patterns: ['packages/*'],
+      packageManager: 'yarn',
+    })
+  })
+
+  it('reads Bun workspaces with catalogs', () => {
+    const deps = makeDeps({
+      [join(root, 'package.json')]: JSON.stringify({
+        workspaces: { packages: ['apps/*'], catalog: { react: '^19.0.0' } },
+      }),
+      [join(root, 'bun.lock')]: '',
+    })
+    expect(readWorkspaceConfig(root, deps)).toEqual({
+      source: 'package.json',
+      patterns: ['apps/*'],
+      packageManager: 'bun',
+    })
+  })
+
+  it('falls back to lerna.json when package.json declares no workspaces', () => {
+    const deps = makeDeps({
+      [join(root, 'package.json')]: JSON.stringify({ name: 'root' }),
+      [join(root, 'lerna.json')]: JSON.stringify({ packages: ['modules/*'] }),
+      [join(root, 'package-lock.json')]: '',
+    })
+    expect(readWorkspaceConfig(root, deps)).toEqual({
+      source: 'lerna.json',
+      patterns: ['modules/*'],
+      packageManager: 'npm',
+    })
+  })
+
+  it('prefers pnpm-workspace.yaml and returns null without workspace files', () => {
+    const deps = makeDeps({
+      [join(root, 'pnpm-workspace.yaml')]: 'packages: []\n',
+      [join(root, 'lerna.json')]: '{}',
+    })
+    expect(readWorkspaceConfig(root, deps)).toEqual({
+      source: 'pnpm-workspace.yaml',
+      patterns: [],
+      packageManager: 'pnpm',
+    })
+    expect(readWorkspaceConfig(root, makeDeps({ [join(root, 'package.json')]: '{}' }))).toBeNull()
+  })
+})
+
 describe('resolvePackagePaths', () => {
   const projectRoot = '/tmp/test-root'
 
@@ -148,3 +293,151 @@ describe('resolvePackagePaths', () => {
     expect(result).toEqual([pkgDir])
   })
 })
+
+describe('resolvePackagePaths globs', () => {
+  const projectRoot = '/tmp/test-root'
+
+  // In-memory tree: every listed directory holds a package.json
+  function makeTreeDeps(packageDirs: string[]) {
+    const dirs = new Set<string>([projectRoot])
+    for (const dir of packageDirs) {
+      const parts = dir.split('/')
+      for (let i = 1; i <= parts.length; i++) {
+        dirs.add(join(projectRoot, ...parts.slice(0, i)))
+      }
+    }
+    const manifests = new Set(packageDirs.map(dir => join(projectRoot, dir, 'package.json')))
+    return {
+      existsSync: vi.fn((p: string) => dirs.has(p) || manifests.has(p)),
+      readdirSync: vi.fn((p: string) =>
+        [...dirs]
+          .filter(dir => dir !== p && join(dir, '..') === p)
+          .map(dir => dir.slice(p.length + 1)),
+      ),
+    }
+  }
+
+  const tree = [
+    'packages/a',
+    'packages/a/fixtures/nested',
+    'packages/test/helper',
+    'apps/web/packages/ui',
+    'libs/core',
+    'node_modules/dep',
+    'packages/.cache/tmp',
+  ]
+
+  function resolveRelative(patterns: string[]) {
+    return resolvePackagePaths(patterns, projectRoot, makeTreeDeps(tree)).map(dir =>
+      dir
+        .slice(projectRoot.length + 1)
+        .split('\\')
+        .join('/'),
+    )
+  }
+
+  it('expands recursive ** globs, skipping node_modules and dot directories', () => {
+    expect(resolveRelative(['packages/**'])).toEqual([
+      'packages/a',
+      'packages/a/fixtures/nested',
+      'packages/test/helper',
+    ])
+  })
+
+  it('expands wildcards in the middle of a pattern', () => {
+    expect(resolveRelative(['apps/*/packages/*'])).toEqual(['apps/web/packages/ui'])
+  })
+
+  it('expands brace sets', () => {
+    expect(resolveRelative(['{apps,libs}/*'])).toEqual(['libs/core'])
+  })
+
+  it('applies negated patterns to every other pattern', () => {
+    expect(resolveRelative(['!**/test/**', 'packages/**', 'libs/*'])).toEqual([
+      'packages/a',
+      'packages/a/fixtures/nested',
+      'libs/core',
+    ])
+  })
+
+  it('never returns the project root or duplicates', () => {
+    expect(resolveRelative(['**/core', 'libs/*', '**'])).toContain('libs/core')
+    expect(
+      resolveRelative(['**/core', 'libs/*', '**']).filter(dir => dir === 'libs/core'),
+    ).toHaveLength(1)
+    expect(resolveRelative(['**'])).not.toContain('')
+  })
+
+  it('throws ValidationError when a brace alternative escapes the root', () => {
+    expect(() => resolveRelative(['{packages,../outside}/*'])).toThrow('outside the project root')
+  })
+})
+
+describe('expandBraces', () => {
+  it('expands nested and repeated sets', () => {
+    expect(expandBraces('{a,{b,c}}/x{1,2}')).toEqual([
+      'a/x1',
+      'a/x2',
+      'b/x1',
+      'b/x2',
+      'c/x1',
+      'c/x2',
+    ])
+  })
+
+  it('keeps single-item and unclosed braces literally', () => {
+    expect(expandBraces('{a}/b')).toEqual(['{a}/b'])
+    expect(expandBraces('{a,b')).toEqual(['{a,b'])
+  })
+})
+
+describe('matchesWorkspacePattern', () => {
+  it.each([
+    ['packages/a', 'packages/*', true],
+    ['packages/a/b', 'packages/*', false],
+    ['packages/a/b', 'packages/**', true],
+    ['packages/test', '**/test/**', true],
+    ['packages/test/unit', '**/test/**', true],
+    ['packages/.hidden', 'packages/*', false],
+    ['packages/.hidden/x', 'packages/**', false],
+    ['packages/b', 'packages/[ab]', true],
+    ['packages/c', 'packages/[!ab]', true],
+    ['packages/a1', 'packages/a?', true],
+    ['libs/core', '{apps,libs}/*', true],
+  ])('%s against %s → %s', (path, pattern, expected) => {
+    expect(matchesWorkspacePattern(path, pattern)).toBe(expected)
+  })
+})
+
+describe('detectWorkspacePackageDirs', () => {
+  const root = '/repo'
+
+  it('prefers pnpm-workspace.yaml over package.json#workspaces', () => {
+    const files: Record<string, string> = {
+      [join(root, 'pnpm-workspace.yaml')]: `packages:\n  - 'packages/*'\n`,
+      [join(root, 'package.json')]: JSON.stringify({ workspaces: ['apps/*'] }),
+      [join(root, 'packages/a/package.json')]: '{}',
+    }
+    const deps = {
+      existsSync: vi.fn((p: string) => p in files || p === join(root, 'packages')),
+      readdirSync: vi.fn(() => ['a']),
+      readFileSync: vi.fn((p: string) => files[p]),
+    }
+
+    expect(detectWorkspacePackageDirs(root, deps)).toEqual([join(root, 'packages/a')])
+  })
+
+  it('reads package.json#workspaces and returns empty without workspaces', () => {
+    const deps = {
+      existsSync: vi.fn(
+        (p: string) => p === join(root, 'package.json') || p === join(root, 'tool/package.json'),
+      ),
+      readdirSync: vi.fn(() => [] as string[]),
+      readFileSync: vi.fn(() => JSON.stringify({ workspaces: ['tool'] })),
+    }
+    expect(detectWorkspacePackageDirs(root, deps)).toEqual([join(root, 'tool')])
+
+    deps.readFileSync.mockReturnValue(JSON.stringify({ name: 'single' }))
+    expect(detectWorkspacePackageDirs(root, deps)).toEqual([])
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../scripts/lib/errors'
+import {
+  collectDependencyRanges,
+  parseWorkspaceManifest,
+  rewriteDependencyRange,
+  topologicalOrder,
+  type WorkspacePackage,
+} from '../../scripts/lib/workspace-graph'
+
+const pkg = (
+  name: string,
+  dependencies: WorkspacePackage['dependencies'] = [],
+): WorkspacePackage => ({ name, version: '1.0.0', dependencies })
+
+describe('workspace-graph', () => {
+  describe('parseWorkspaceManifest', () => {
+    it('reads name, version and dependency ranges of every field', () => {
+      expect(
+        parseWorkspaceManifest(
+          JSON.stringify({
+            name: 'a',
+            version: '1.2.3',
+            dependencies: { b: '^1.0.0' },
+            devDependencies: { c: 'workspace:*' },
+            peerDependencies: 'invalid',
+          }),
+        ),
+      ).toEqual({
+        name: 'a',
+        version: '1.2.3',
+        dependencies: [
+          { field: 'dependencies', name: 'b', range: '^1.0.0' },
+          { field: 'devDependencies', name: 'c', range: 'workspace:*' },
+        ],
+      })
+    })
+
+    it('returns null for unusable manifests', () => {
+      expect(parseWorkspaceManifest('{')).toBeNull()
+      expect(parseWorkspaceManifest('[]')).toBeNull()
+      expect(parseWorkspaceManifest('{"name":"a"}')).toBeNull()
+      expect(parseWorkspaceManifest('{"name":"a","version":"next"}')).toBeNull()
+    })
+
+    it('ignores dependency fields that are not string records', () => {
+      expect(collectDependencyRanges({ dependencies: { a: 1 } })).toEqual([])
+    })
+  })
+
+  describe('topologicalOrder', () => {
+    it('puts dependencies first and keeps input order otherwise', () => {
+      const app = pkg('app', [
+        { field: 'dependencies', name: 'core', range: '^1.0.0' },
+        { field: 'peerDependencies', name: 'ui', range: '^1.0.0' },
+        { field: 'dependencies', name: 'left-pad', range: '^1.0.0' },
+      ])
+      const ui = pkg('ui', [{ field: 'optionalDependencies', name: 'core', range: '*' }])
+
+      expect(topologicalOrder([app, ui, pkg('core'), pkg('docs')]).map(p => p.name)).toEqual([
+        'core',
+        'docs',
+        'ui',
+        'app',
+      ])
+    })
+
+    it('ignores devDependencies and self references', () => {
+      const a = pkg('a', [
+        { field: 'devDependencies', name: 'b', range: '*' },
+        { field: 'dependencies', name: 'a', range: '*' },
+      ])
+      const b = pkg('b', [{ field: 'dependencies', name: 'a', range: '*' }])
+
+      expect(topologicalOrder([b, a]).map(p => p.name)).toEqual(['a', 'b'])
+    })
+
+    it('rejects cycles', () => {
+      const a = pkg('a', [{ field: 'dependencies', name: 'b', range: '*' }])
+      const b = pkg('b', [{ field: 'peerDependencies', name: 'a', range: '*' }])
+
+      expect(() => topologicalOrder([a, b, pkg('c')])).toThrow(ValidationError)
+      expect(() => topologicalOrder([a, b])).toThrow(
+        'Workspace packages depend on each other in a cycle: a, b',
+      )
+    })
+  })
+
+  describe('rewriteDependencyRange', () => {
+    it('keeps the operator and workspace: prefix', () => {
+      expect(rewriteDependencyRange('^1.4.0', '2.0.0')).toBe('^2.0.0')
+      expect(rewriteDependencyRange('~1.4.0', 'v1.5.0')).toBe('~1.5.0')
+      expect(rewriteDependencyRange('1.4.0', '1.4.1')).toBe('1.4.1')
+      expect(rewriteDependencyRange('>=1.0.0', '2.0.0')).toBe('>=2.0.0')
+      expect(rewriteDependencyRange('workspace:^1.4.0', '2.0.0')).toBe('workspace:^2.0.0')
+      expect(rewriteDependencyRange('workspace:1.4.0-beta.1', '1.4.0')).toBe('workspace:1.4.0')
+    })
+
+    it('leaves aliases, complex ranges and current ranges alone', () => {
+      expect(rewriteDependencyRange('workspace:*', '2.0.0')).toBeNull()
+      expect(rewriteDependencyRange('workspace:^', '2.0.0')).toBeNull()
+      expect(rewriteDependencyRange('*', '2.0.0')).toBeNull()
+      expect(rewriteDependencyRange('^1.0.0 || ^2.0.0', '3.0.0')).toBeNull()
+      expect(rewriteDependencyRange('1.x', '2.0.0')).toBeNull()
+      expect(rewriteDependencyRange('^2.0.0', '2.0.0')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../scripts/lib/errors'
+import { isYamlMapping, parseYaml } from '../../scripts/lib/yaml'
+
+describe('parseYaml', () => {
+  it('parses block mappings and sequences', () => {
+    const content = [
+      'name: Release',
+      'on:',
+      '  push:',
+      '    branches:',
+      '      - main',
+      'jobs:',
+      '  build:',
+      '    steps:',
+      '    - uses: actions/checkout@v4',
+      '    - run: pnpm test',
+      '      env:',
+      '        CI: true',
+      '',
+    ].join('\n')
+
+    expect(parseYaml(content)).toEqual({
+      name: 'Release',
+      on: { push: { branches: ['main'] } },
+      jobs: {
+        build: {
+          steps: [{ uses: 'actions/checkout@v4' }, { run: 'pnpm test', env: { CI: true } }],
+        },
+      },
+    })
+  })
+
+  it('parses flow collections, including ones spanning several lines', () => {
+    const content =
+      'packages: [\'packages/*\', "apps/*"]\nmatrix: {\n  node: [20, 22],\n  os: ubuntu-latest\n}\n'
+
+    expect(parseYaml(content)).toEqual({
+      packages: ['packages/*', 'apps/*'],
+      matrix: { node: [20, 22], os: 'ubuntu-latest' },
+    })
+  })
+
+  it('resolves anchors, aliases and merge keys', () => {
+    const content = [
+      'defaults: &defaults',
+      '  contents: read',
+      '  id-token: write',
+      'release:',
+      '  <<: *defaults',
+      '  contents: write',
+      'copy: *defaults',
+      '',
+    ].join('\n')
+
+    expect(parseYaml(content)).toEqual({
+      defaults: { contents: 'read', 'id-token': 'write' },
+      release: { contents: 'write', 'id-token': 'write' },
+      copy: { contents: 'read', 'id-token': 'write' },
+    })
+  })
+
+  it('parses literal and folded block scalars', () => {
+    const content = [
+      'literal: |',
+      '  pnpm build',
+      '  npm publish',
+      'folded: >-',
+      '  one',
+      '  two',
+      'kept: |+',
+      '  last',
+      '',
+      'end: 1',
+      '',
+    ].join('\n')
+
+    expect(parseYaml(content)).toEqual({
+      literal: 'pnpm build\nnpm publish\n',
+      folded: 'one two',
+      kept: 'last\n\n',
+      end: 1,
+    })
+  })
+
+  it('keeps only the trailing blank lines of a |+ scalar at the end of the file', () => {
+    expect(parseYaml('k: |+\n  keep\n\n')).toEqual({ k: 'keep\n\n' })
+    expect(parseYaml('k: |+\n  keep\n')).toEqual({ k: 'keep\n' })
+  })
+
+  it('parses quoted keys and scalars', () => {
+    const content = "\"id-token\": 'it''s'\n'key: with colon': \"tab\\there\"\n"
+
+    expect(parseYaml(content)).toEqual({
+      'id-token': "it's",
+      'key: with colon': 'tab\there',
+    })
+  })
+
+  it('resolves plain scalars with the core schema', () => {
+    const content = 'a: ~\nb: null\nc: true\nd: 0x1F\ne: 1.5\nf: on\ng: yes\nh: 1.2.3\ni:\n'
+
+    expect(parseYaml(content)).toEqual({
+      a: null,
+      b: null,
+      c: true,
+      d: 31,
+      e: 1.5,
+      f: 'on',
+      g: 'yes',
+      h: '1.2.3',
+      i: null,
+    })
+  })
+
+  it('strips comments outside quotes', () => {
+    expect(parseYaml("key: value # comment\nurl: 'a#b'\n")).toEqual({ key: 'value', url: 'a#b' })
+  })
+
+  it('reads only the first document', () => {
+    expect(parseYaml('---\na: 1\n---\nb: 2\n')).toEqual({ a: 1 })
+  })
+
+  it('returns null for an empty document', () => {
+    expect(parseYaml('# nothing here\n')).toBeNull()
+  })
+
+  it.each([
+    ['a: 1\na: 2\n', 'line 2: duplicate key "a"'],
+    ['a: *missing\n', 'line 1: unknown alias *missing'],
+    ['a: !!str 1\n', 'line 1: tags are not supported (!!str)'],
+    ['? complex\n: v\n', 'line 1: complex mapping keys (?) are not supported'],
+    ['a:\n  ? [x, y]\n  : v\n', 'line 2: complex mapping keys (?) are not supported'],
+    ['a: [1, 2\n', 'line 1: unterminated flow collection'],
+    ['a:\n\t- b\n', 'line 2: tabs are not allowed in indentation'],
+  ])('throws ValidationError with the line number for %j', (content, message) => {
+    expect(() => parseYaml(content, 'test.yml')).toThrow(ValidationError)
+    expect(() => parseYaml(content, 'test.yml')).toThrow(`test.yml: ${message}`)
+  })
+})
+
+describe('isYamlMapping', () => {
+  it('accepts mappings only', () => {
+    expect(isYamlMapping({ a: 1 })).toBe(true)
+    expect(isYamlMapping([])).toBe(false)
+    expect(isYamlMapping(null)).toBe(false)
+    expect(isYamlMapping('a')).toBe(false)
+  })
+})